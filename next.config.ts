@@ -1,6 +1,11 @@
 import type { NextConfig } from "next";
+import packageJson from "./package.json";
 
 const nextConfig: NextConfig = {
+  // Only the version reaches the client, for exported images' metadata
+  env: {
+    NEXT_PUBLIC_APP_VERSION: packageJson.version,
+  },
   turbopack: {
     rules: {
       "*.glsl": {
@@ -0,0 +1,33 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Fractal" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "thumbnail" TEXT,
+    "type" TEXT NOT NULL DEFAULT 'mandelbrot',
+    "centerX" TEXT NOT NULL DEFAULT '-0.5',
+    "centerY" TEXT NOT NULL DEFAULT '0',
+    "zoom" TEXT NOT NULL DEFAULT '1',
+    "maxIterations" INTEGER NOT NULL DEFAULT 100,
+    "escapeRadius" REAL NOT NULL DEFAULT 4,
+    "juliaReal" REAL,
+    "juliaImag" REAL,
+    "colorScheme" TEXT NOT NULL DEFAULT 'classic',
+    "colorOffset" REAL NOT NULL DEFAULT 0,
+    "colorScale" REAL NOT NULL DEFAULT 1,
+    "extraParams" TEXT,
+    "userId" TEXT NOT NULL,
+    "isPublic" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Fractal_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Fractal" ("centerX", "centerY", "colorOffset", "colorScale", "colorScheme", "createdAt", "description", "escapeRadius", "extraParams", "id", "isPublic", "juliaImag", "juliaReal", "maxIterations", "name", "thumbnail", "type", "updatedAt", "userId", "zoom") SELECT CAST("centerX" AS TEXT), CAST("centerY" AS TEXT), "colorOffset", "colorScale", "colorScheme", "createdAt", "description", "escapeRadius", "extraParams", "id", "isPublic", "juliaImag", "juliaReal", "maxIterations", "name", "thumbnail", "type", "updatedAt", "userId", CAST("zoom" AS TEXT) FROM "Fractal";
+DROP TABLE "Fractal";
+ALTER TABLE "new_Fractal" RENAME TO "Fractal";
+CREATE INDEX "Fractal_userId_idx" ON "Fractal"("userId");
+CREATE INDEX "Fractal_isPublic_idx" ON "Fractal"("isPublic");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
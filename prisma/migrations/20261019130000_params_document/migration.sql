@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Fractal" ADD COLUMN "params" TEXT;
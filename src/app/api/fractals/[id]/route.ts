@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { toFractalColumns } from "@/lib/fractalParams";
+import { validateFractalPayload } from "@/lib/validation";
+import { deleteThumbnail, saveThumbnail } from "@/lib/storage";
 
 // GET /api/fractals/[id] - Get a single fractal
 export async function GET(
@@ -50,33 +53,47 @@ export async function PUT(
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
+  let body: unknown;
   try {
-    const data = await request.json();
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const result = validateFractalPayload(body);
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: "Invalid fractal", fieldErrors: result.errors },
+      { status: 400 }
+    );
+  }
+  const data = result.value;
+
+  let thumbnail: string | undefined;
+  try {
+    // Without a new capture the existing thumbnail is kept
+    thumbnail = data.thumbnail ? await saveThumbnail(data.thumbnail) : undefined;
 
     const fractal = await prisma.fractal.update({
       where: { id },
       data: {
         name: data.name,
         description: data.description,
-        thumbnail: data.thumbnail,
-        type: data.type,
-        centerX: data.centerX,
-        centerY: data.centerY,
-        zoom: data.zoom,
-        maxIterations: data.maxIterations,
-        escapeRadius: data.escapeRadius,
-        juliaReal: data.juliaReal,
-        juliaImag: data.juliaImag,
-        colorScheme: data.colorScheme,
-        colorOffset: data.colorOffset,
-        colorScale: data.colorScale,
+        thumbnail,
+        ...toFractalColumns(data.params),
         isPublic: data.isPublic,
       },
     });
 
+    if (thumbnail) {
+      await deleteThumbnail(existingFractal.thumbnail);
+    }
+
     return NextResponse.json(fractal);
   } catch (error) {
     console.error("Failed to update fractal:", error);
+    // No row points at the new file if the update failed
+    await deleteThumbnail(thumbnail ?? null);
     return NextResponse.json(
       { error: "Failed to update fractal" },
       { status: 500 }
@@ -111,6 +128,7 @@ export async function DELETE(
   await prisma.fractal.delete({
     where: { id },
   });
+  await deleteThumbnail(existingFractal.thumbnail);
 
   return NextResponse.json({ success: true });
 }
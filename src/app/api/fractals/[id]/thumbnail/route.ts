@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { loadThumbnail } from "@/lib/storage";
+import { getThumbnailVersion } from "@/lib/thumbnail";
+
+// GET /api/fractals/[id]/thumbnail - Serve a fractal's thumbnail image
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const fractal = await prisma.fractal.findUnique({
+    where: { id },
+    select: { thumbnail: true, isPublic: true, userId: true },
+  });
+
+  if (!fractal) {
+    return NextResponse.json({ error: "Fractal not found" }, { status: 404 });
+  }
+
+  // Check access - must be owner or fractal must be public
+  if (!fractal.isPublic) {
+    const session = await auth();
+    if (fractal.userId !== session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+  }
+
+  if (!fractal.thumbnail) {
+    return NextResponse.json({ error: "Thumbnail not found" }, { status: 404 });
+  }
+
+  // Versioned URLs (see getThumbnailUrl) never change content, so they can
+  // be cached indefinitely; anything else has to revalidate
+  const version = getThumbnailVersion(fractal.thumbnail);
+  const etag = `"${version}"`;
+  const isVersioned = new URL(request.url).searchParams.get("v") === version;
+  const headers = {
+    "Cache-Control": `${fractal.isPublic ? "public" : "private"}, ${
+      isVersioned ? "max-age=31536000, immutable" : "no-cache"
+    }`,
+    ETag: etag,
+  };
+
+  if (request.headers.get("If-None-Match") === etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  const image = await loadThumbnail(fractal.thumbnail);
+  if (!image) {
+    return NextResponse.json({ error: "Thumbnail not found" }, { status: 404 });
+  }
+
+  return new NextResponse(image.data as BodyInit, {
+    headers: {
+      ...headers,
+      "Content-Type": image.contentType,
+      "Content-Length": String(image.data.byteLength),
+    },
+  });
+}
@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { toFractalColumns } from "@/lib/fractalParams";
+import { validateFractalPayload } from "@/lib/validation";
+import { deleteThumbnail, saveThumbnail } from "@/lib/storage";
 
 // GET /api/fractals - List user's fractals
 export async function GET() {
@@ -26,26 +29,33 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
+  let body: unknown;
   try {
-    const data = await request.json();
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const result = validateFractalPayload(body);
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: "Invalid fractal", fieldErrors: result.errors },
+      { status: 400 }
+    );
+  }
+  const data = result.value;
+
+  let thumbnail: string | null = null;
+  try {
+    thumbnail = data.thumbnail ? await saveThumbnail(data.thumbnail) : null;
 
     const fractal = await prisma.fractal.create({
       data: {
         name: data.name,
         description: data.description,
-        thumbnail: data.thumbnail,
-        type: data.type,
-        centerX: data.centerX,
-        centerY: data.centerY,
-        zoom: data.zoom,
-        maxIterations: data.maxIterations,
-        escapeRadius: data.escapeRadius,
-        juliaReal: data.juliaReal,
-        juliaImag: data.juliaImag,
-        colorScheme: data.colorScheme,
-        colorOffset: data.colorOffset,
-        colorScale: data.colorScale,
-        isPublic: data.isPublic || false,
+        thumbnail,
+        ...toFractalColumns(data.params),
+        isPublic: data.isPublic,
         userId: session.user.id,
       },
     });
@@ -53,6 +63,8 @@ export async function POST(request: Request) {
     return NextResponse.json(fractal);
   } catch (error) {
     console.error("Failed to create fractal:", error);
+    // No row points at the new file if the insert failed
+    await deleteThumbnail(thumbnail);
     return NextResponse.json(
       { error: "Failed to create fractal" },
       { status: 500 }
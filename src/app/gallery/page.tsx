@@ -5,6 +5,8 @@ import { useSession } from "next-auth/react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import Logo from "@/components/Logo";
+import { getThumbnailUrl } from "@/lib/thumbnail";
+import { FRACTAL_TYPES, isFractalType } from "@/fractals";
 
 interface Fractal {
   id: string;
@@ -117,20 +119,17 @@ export default function GalleryPage() {
                 key={fractal.id}
                 className="bg-gray-900 border border-gray-800 rounded-xl overflow-hidden group"
               >
-                {/* Thumbnail placeholder */}
+                {/* Thumbnail */}
                 <div className="aspect-video bg-gray-800 flex items-center justify-center">
                   {fractal.thumbnail ? (
                     <img
-                      src={fractal.thumbnail}
+                      src={getThumbnailUrl(fractal.id, fractal.thumbnail)}
                       alt={fractal.name}
                       className="w-full h-full object-cover"
                     />
                   ) : (
                     <div className="text-gray-600 text-4xl">
-                      {fractal.type === "mandelbrot" && "M"}
-                      {fractal.type === "julia" && "J"}
-                      {fractal.type === "burningship" && "B"}
-                      {fractal.type === "tricorn" && "T"}
+                      {isFractalType(fractal.type) && FRACTAL_TYPES[fractal.type].label.charAt(0)}
                     </div>
                   )}
                 </div>
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { DensityBuffer } from "@/lib/buddhabrot";
+import { DensityFormat, exportDensity } from "@/lib/densityExport";
+import { openExportSink } from "@/lib/exportSink";
+import { createMetadataChunks } from "@/lib/pngMetadata";
+import { FractalParams } from "@/types/fractal";
+
+interface DensityExportModalProps {
+  isOpen: boolean;
+  // Embedded in the PNG so the image can be dropped back onto the editor
+  params: FractalParams;
+  onClose: () => void;
+  // The canvas's running totals, or null before any have come in
+  getDensityBuffer: () => DensityBuffer | null;
+  // Samples so far, to show how far along the buffer is
+  samples: number;
+  fileName: string;
+}
+
+const FORMAT_OPTIONS: { value: DensityFormat; label: string }[] = [
+  { value: "image", label: "Image" },
+  { value: "counts", label: "Raw counts" },
+];
+
+export default function DensityExportModal({
+  isOpen,
+  params,
+  onClose,
+  getDensityBuffer,
+  samples,
+  fileName,
+}: DensityExportModalProps) {
+  const [format, setFormat] = useState<DensityFormat>("image");
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const buffer = getDensityBuffer();
+  const canExport = buffer !== null && samples > 0 && !isExporting;
+
+  const handleExport = async () => {
+    setError(null);
+
+    // The file picker needs the click's user activation, so open it first
+    const sink = await openExportSink(fileName, "png");
+    if (!sink) return;
+
+    const current = getDensityBuffer();
+    if (!current) {
+      await sink.abort();
+      setError("Nothing has been accumulated yet");
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      await exportDensity(current, params, sink, { format, metadata: createMetadataChunks(params) });
+      onClose();
+    } catch (exportError) {
+      console.error("Density export failed:", exportError);
+      setError(exportError instanceof Error ? exportError.message : "Density export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-xl p-6 w-full max-w-md border border-gray-800">
+        <h2 className="text-xl font-semibold text-white mb-4">Export Buddhabrot</h2>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {FORMAT_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                disabled={isExporting}
+                onClick={() => setFormat(option.value)}
+                className={`py-2 rounded-lg text-sm font-medium transition ${
+                  format === option.value ? "bg-purple-600 text-white" : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {buffer ? `${buffer.width} × ${buffer.height}` : "No buffer yet"}, {samples.toLocaleString()} samples so far.
+            {format === "image"
+              ? " 8-bit PNG colored as on screen."
+              : " 16-bit PNG of the orbit counts per channel, linear and uncolored, for tone mapping elsewhere."}
+          </p>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-sm text-red-400">{error}</div>
+        )}
+
+        <div className="flex gap-3 pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isExporting}
+            className="flex-1 py-2 px-4 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white font-medium rounded-lg transition"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!canExport}
+            className="flex-1 py-2 px-4 bg-purple-600 hover:bg-purple-700 disabled:bg-purple-600/50 text-white font-medium rounded-lg transition"
+          >
+            {isExporting ? "Exporting..." : "Export PNG"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  MAX_EXPORT_SIZE,
+  SUPERSAMPLE_OPTIONS,
+  Supersample,
+  TileRenderer,
+  exportPoster,
+} from "@/lib/posterExport";
+import { openExportSink } from "@/lib/exportSink";
+import { createMetadataChunks } from "@/lib/pngMetadata";
+import { FractalParams } from "@/types/fractal";
+
+interface ExportModalProps {
+  isOpen: boolean;
+  // Embedded in the PNG so the image can be dropped back onto the editor
+  params: FractalParams;
+  onClose: () => void;
+  // Size of the on-screen canvas, for the "Screen" preset
+  getCanvasSize: () => { width: number; height: number };
+  createTileRenderer: () => TileRenderer | null;
+  fileName: string;
+}
+
+const PRESETS = [
+  { label: "4K", width: 3840, height: 2160 },
+  { label: "8K", width: 7680, height: 4320 },
+  { label: "16K²", width: 16384, height: 16384 },
+];
+
+interface Progress {
+  completed: number;
+  total: number;
+}
+
+export default function ExportModal({ isOpen, params, onClose, getCanvasSize, createTileRenderer, fileName }: ExportModalProps) {
+  const [width, setWidth] = useState(3840);
+  const [height, setHeight] = useState(2160);
+  const [supersample, setSupersample] = useState<Supersample>(2);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  if (!isOpen) return null;
+
+  const isExporting = progress !== null;
+  const isValidSize = (value: number) => Number.isInteger(value) && value >= 1 && value <= MAX_EXPORT_SIZE;
+  const canExport = isValidSize(width) && isValidSize(height) && !isExporting;
+  const megapixels = (width * height) / 1e6;
+
+  const handleExport = async () => {
+    setError(null);
+
+    // The file picker needs the click's user activation, so open it first
+    const sink = await openExportSink(fileName, "png");
+    if (!sink) return;
+
+    const renderer = createTileRenderer();
+    if (!renderer) {
+      await sink.abort();
+      setError("WebGL is not available");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ completed: 0, total: 1 });
+
+    try {
+      await exportPoster(renderer, sink, {
+        width,
+        height,
+        supersample,
+        metadata: createMetadataChunks(params),
+        signal: controller.signal,
+        onProgress: (completed, total) => setProgress({ completed, total }),
+      });
+      onClose();
+    } catch (exportError) {
+      if (!controller.signal.aborted) {
+        console.error("Export failed:", exportError);
+        setError("Export failed. Try a smaller size or less supersampling.");
+      }
+    } finally {
+      renderer.dispose();
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    if (isExporting) {
+      abortRef.current?.abort();
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-xl p-6 w-full max-w-md border border-gray-800">
+        <h2 className="text-xl font-semibold text-white mb-4">Export Image</h2>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              disabled={isExporting}
+              onClick={() => {
+                const size = getCanvasSize();
+                setWidth(size.width);
+                setHeight(size.height);
+              }}
+              className="px-3 py-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-sm rounded-lg transition"
+            >
+              Screen
+            </button>
+            {PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                type="button"
+                disabled={isExporting}
+                onClick={() => {
+                  setWidth(preset.width);
+                  setHeight(preset.height);
+                }}
+                className="px-3 py-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-sm rounded-lg transition"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Width</label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_EXPORT_SIZE}
+                value={width}
+                disabled={isExporting}
+                onChange={(e) => setWidth(Math.round(Number(e.target.value)))}
+                className={`w-full px-4 py-2 bg-gray-800 border rounded-lg text-white focus:outline-none focus:border-purple-500 ${
+                  isValidSize(width) ? "border-gray-700" : "border-red-500"
+                }`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Height</label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_EXPORT_SIZE}
+                value={height}
+                disabled={isExporting}
+                onChange={(e) => setHeight(Math.round(Number(e.target.value)))}
+                className={`w-full px-4 py-2 bg-gray-800 border rounded-lg text-white focus:outline-none focus:border-purple-500 ${
+                  isValidSize(height) ? "border-gray-700" : "border-red-500"
+                }`}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Supersampling</label>
+            <select
+              value={supersample}
+              disabled={isExporting}
+              onChange={(e) => setSupersample(Number(e.target.value) as Supersample)}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+            >
+              {SUPERSAMPLE_OPTIONS.map((factor) => (
+                <option key={factor} value={factor}>
+                  {factor === 1 ? "Off" : `${factor}×${factor}`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {megapixels.toFixed(1)} megapixels, rendered in tiles at full iterations. Sizes up to{" "}
+            {MAX_EXPORT_SIZE.toLocaleString()} px per side.
+          </p>
+
+          {isExporting && (
+            <div>
+              <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-purple-600 transition-all"
+                  style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                Tile {progress.completed} of {progress.total}
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-sm text-red-400">{error}</div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="flex-1 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-medium rounded-lg transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={!canExport}
+              className="flex-1 py-2 px-4 bg-purple-600 hover:bg-purple-700 disabled:bg-purple-600/50 text-white font-medium rounded-lg transition"
+            >
+              {isExporting ? "Exporting..." : "Export PNG"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
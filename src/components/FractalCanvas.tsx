@@ -1,15 +1,55 @@
 "use client";
 
-import { useEffect, useRef, useCallback } from "react";
-import { FractalParams } from "@/types/fractal";
-import vertexShaderSource from "@/shaders/vertex.glsl";
-import fragmentShaderSource from "@/shaders/fragment.glsl";
+import { useEffect, useRef, useCallback, useImperativeHandle, useState } from "react";
+import { FractalParams, Gradient } from "@/types/fractal";
+import { FRACTAL_TYPES, getEscapeDegree, getFractalStart, getFractalTypeIndex } from "@/fractals";
+import {
+  vertexShaderSource,
+  standardFragmentShader,
+  perturbationFragmentShader,
+  doubleFloatFragmentShader,
+  raymarchFragmentShader,
+  densityFragmentShader,
+  buildFormulaFragmentShader,
+} from "@/shaders";
+import { computeReferenceOrbit, getScaleExponent } from "@/lib/perturbation";
+import { getNumericView, getRequiredPrecision, scaleZoom, toNumber, translateCoordinate } from "@/lib/coordinates";
+import { RenderMode, selectRenderMode, splitDouble } from "@/lib/precision";
+import { captureThumbnail } from "@/lib/thumbnail";
+import { TileRenderer } from "@/lib/posterExport";
+import { FrameRenderer } from "@/lib/videoExport";
+import { GRADIENT_TABLE_SIZE, createGradientTable } from "@/lib/gradient";
+import { DEFAULT_FORMULA, MAX_FORMULA_PARAMS, getCompiledFormula, getFormulaParamValues } from "@/lib/formula";
+import { getSequenceMask } from "@/lib/lyapunov";
+import { dollyCamera, getCameraBasis, orbitCamera } from "@/lib/view3d";
+import { DensityBuffer, DensityChannels, createDensityBuffer, getDensityWhitePoint } from "@/lib/buddhabrot";
+import { DensityAccumulator, createDensityAccumulator, getDensitySize } from "@/lib/densityAccumulator";
+import { MAX_NEWTON_ROOTS } from "@/lib/polynomial";
+import { HISTOGRAM_BINS, IterationHistogram, buildIterationHistogram, getHistogramSampleSize } from "@/lib/histogram";
+
+export interface FractalCanvasHandle {
+  // Render the current view and return a downscaled copy as a data URL
+  captureThumbnail: () => string | null;
+  // Drawing buffer size of the on-screen canvas
+  getCanvasSize: () => { width: number; height: number };
+  // Offscreen tile rendering of the current view for poster export, at full
+  // iterations whatever the performance settings
+  createTileRenderer: () => TileRenderer | null;
+  // Offscreen rendering of arbitrary views for video export, or null if the
+  // size is beyond what the GPU can draw in one pass
+  createFrameRenderer: (width: number, height: number) => FrameRenderer | null;
+  // The Buddhabrot's counts so far, or null outside Buddhabrot mode
+  getDensityBuffer: () => DensityBuffer | null;
+}
 
 interface FractalCanvasProps {
   params: FractalParams;
   onParamsChange: (params: Partial<FractalParams>) => void;
   className?: string;
   onPerformanceDetected?: (isSlowDevice: boolean) => void;
+  // Starting points the Buddhabrot has tried so far, as its counts come in
+  onDensityProgress?: (samples: number) => void;
+  ref?: React.Ref<FractalCanvasHandle>;
 }
 
 // Detect if we're on a mobile device for performance optimization
@@ -25,6 +65,180 @@ const PERFORMANCE_SCALE = 0.25; // 25% resolution in performance mode (more aggr
 const FULL_SCALE = 1.0;         // 100% resolution when idle
 const REFINEMENT_DELAY = 150;   // ms to wait before rendering full quality
 const PERF_MAX_ITERATIONS = 100; // Max iterations in performance mode
+const SHADER_MAX_ITERATIONS = 10000; // Loop bound in the fragment programs
+const MAX_TILE_SIZE = 1024;      // Poster export tile side, before the GPU's own limits
+
+// Uniforms shared by every fragment program (see shaders/common.glsl)
+const COMMON_UNIFORMS = [
+  "u_resolution", "u_pixelOffset", "u_center", "u_zoom", "u_maxIterations", "u_escapeRadius",
+  "u_fractalType", "u_power", "u_escapeDegree", "u_julia", "u_juliaMode", "u_phoenix", "u_colorScheme", "u_coloringMethod",
+  "u_colorOffset", "u_colorScale", "u_time", "u_colorCycleSpeed",
+  "u_glowIntensity", "u_posterize", "u_hueShift", "u_saturation",
+  "u_brightness", "u_stripeFrequency", "u_orbitTrapSize", "u_gradient", "u_gradientRepeat",
+  "u_valuePass", "u_histogram", "u_histogramRange",
+  "u_boundaryWidth", "u_lighting", "u_lightAngle", "u_lightHeight", "u_specular",
+  "u_interiorColoring", "u_interiorGradient", "u_interiorGradientRepeat",
+  "u_newtonRoots", "u_newtonDegree", "u_newtonRelaxation", "u_basinCount",
+  "u_lyapunovSequence", "u_lyapunovLength"
+];
+
+// Fragment source and extra uniforms for each render mode
+const PROGRAM_SOURCES: Record<RenderMode, { source: string; uniforms: string[] }> = {
+  standard: { source: standardFragmentShader, uniforms: ["u_formulaParams"] },
+  doubleFloat: { source: doubleFloatFragmentShader, uniforms: ["u_centerLo", "u_zoomLo"] },
+  perturbation: { source: perturbationFragmentShader, uniforms: ["u_refOrbit", "u_refLength", "u_scaleExp"] },
+  raymarch: {
+    source: raymarchFragmentShader,
+    uniforms: [
+      "u_shape3d", "u_juliaJK", "u_cameraPosition", "u_cameraRight", "u_cameraUp", "u_cameraForward",
+      "u_softShadows", "u_ambientOcclusion",
+    ],
+  },
+  density: { source: densityFragmentShader, uniforms: ["u_density", "u_densityWhitePoint", "u_nebulabrot", "u_buddhabrotGamma"] },
+};
+
+// Value of u_shape3d for each shape
+const SHAPE_3D_INDEX: Record<FractalParams["shape3d"], number> = { mandelbulb: 0, quaternionJulia: 1 };
+
+// Texture unit each gradient is uploaded to
+const GRADIENT_UNITS = { exterior: 1, interior: 3 } as const;
+type GradientSlot = keyof typeof GRADIENT_UNITS;
+
+// Texture unit of the Buddhabrot's counts
+const DENSITY_UNIT = 4;
+
+// Vertex attribute slot for the fullscreen quad, bound before linking so
+// every program shares the same buffer setup
+const POSITION_LOCATION = 0;
+
+// Viewport to draw into and where it sits within the full image (GL
+// coordinates, origin bottom left). The two only differ for export tiles.
+interface DrawTarget {
+  width: number;
+  height: number;
+  imageWidth: number;
+  imageHeight: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+interface ShaderProgram {
+  program: WebGLProgram;
+  uniforms: Record<string, WebGLUniformLocation | null>;
+}
+
+// Compile and link a fragment program against the shared vertex shader,
+// caching all uniform locations for performance
+const createShaderProgram = (
+  gl: WebGL2RenderingContext,
+  fragmentSource: string,
+  uniformNames: string[]
+): ShaderProgram | null => {
+  const vertexShader = gl.createShader(gl.VERTEX_SHADER)!;
+  gl.shaderSource(vertexShader, vertexShaderSource);
+  gl.compileShader(vertexShader);
+
+  if (!gl.getShaderParameter(vertexShader, gl.COMPILE_STATUS)) {
+    console.error("Vertex shader error:", gl.getShaderInfoLog(vertexShader));
+    return null;
+  }
+
+  const fragmentShader = gl.createShader(gl.FRAGMENT_SHADER)!;
+  gl.shaderSource(fragmentShader, fragmentSource);
+  gl.compileShader(fragmentShader);
+
+  if (!gl.getShaderParameter(fragmentShader, gl.COMPILE_STATUS)) {
+    console.error("Fragment shader error:", gl.getShaderInfoLog(fragmentShader));
+    return null;
+  }
+
+  const program = gl.createProgram()!;
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.bindAttribLocation(program, POSITION_LOCATION, "a_position");
+  gl.linkProgram(program);
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error("Program link error:", gl.getProgramInfoLog(program));
+    return null;
+  }
+
+  const uniforms: Record<string, WebGLUniformLocation | null> = {};
+  uniformNames.forEach(name => {
+    uniforms[name] = gl.getUniformLocation(program, name);
+  });
+
+  return { program, uniforms };
+};
+
+// Increase iterations as we zoom in to maintain detail
+const getZoomIterations = (baseIterations: number, zoom: number): number => {
+  const zoomFactor = Math.log10(Math.max(zoom, 1));
+  return Math.floor(baseIterations * (1 + zoomFactor * 0.5));
+};
+
+// Exports render at full zoom-scaled iterations whatever the performance
+// settings, up to what the shaders can loop
+const getExportIterations = (params: FractalParams): number => {
+  return Math.min(getZoomIterations(params.maxIterations, toNumber(params.zoom)), SHADER_MAX_ITERATIONS);
+};
+
+// Framebuffer for drawing off screen and reading the result back
+interface OffscreenTarget {
+  // Run `draw` against a width × height framebuffer and return its RGBA
+  // pixels, top row first, or null if drawing failed
+  draw: (width: number, height: number, draw: () => boolean) => Uint8Array | null;
+  dispose: () => void;
+}
+
+const createOffscreenTarget = (gl: WebGL2RenderingContext): OffscreenTarget => {
+  const framebuffer = gl.createFramebuffer();
+  const texture = gl.createTexture();
+  let textureSize = { width: 0, height: 0 };
+
+  return {
+    draw: (width, height, draw) => {
+      if (width !== textureSize.width || height !== textureSize.height) {
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+        gl.bindTexture(gl.TEXTURE_2D, null);
+        textureSize = { width, height };
+      }
+
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+
+      const drawn = draw();
+      const pixels = new Uint8Array(width * height * 4);
+      if (drawn) {
+        gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+      }
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      if (!drawn) return null;
+
+      // readPixels returns the bottom row first
+      const stride = width * 4;
+      const flipped = new Uint8Array(pixels.length);
+      for (let row = 0; row < height; row++) {
+        flipped.set(pixels.subarray(row * stride, (row + 1) * stride), (height - 1 - row) * stride);
+      }
+      return flipped;
+    },
+
+    dispose: () => {
+      gl.deleteFramebuffer(framebuffer);
+      gl.deleteTexture(texture);
+    },
+  };
+};
+
+// Float framebuffer the histogram value pass draws into
+interface ValueTarget {
+  framebuffer: WebGLFramebuffer | null;
+  texture: WebGLTexture | null;
+  width: number;
+  height: number;
+}
 
 // Check if any animation is active
 const isAnimating = (params: FractalParams) => {
@@ -36,10 +250,19 @@ const isAnimating = (params: FractalParams) => {
          params.autoPower;
 };
 
-export default function FractalCanvas({ params, onParamsChange, className, onPerformanceDetected }: FractalCanvasProps) {
+export default function FractalCanvas({
+  params,
+  onParamsChange,
+  className,
+  onPerformanceDetected,
+  onDensityProgress,
+  ref,
+}: FractalCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const glRef = useRef<WebGL2RenderingContext | null>(null);
-  const programRef = useRef<WebGLProgram | null>(null);
+  const programsRef = useRef<Partial<Record<RenderMode, ShaderProgram | null>>>({});
+  // Custom formula compiled into the standard program
+  const standardFormulaRef = useRef(DEFAULT_FORMULA);
   const isDraggingRef = useRef(false);
   const hasDraggedRef = useRef(false);
   const lastMouseRef = useRef({ x: 0, y: 0 });
@@ -50,6 +273,10 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
   const lastTouchCenterRef = useRef<{ x: number; y: number } | null>(null);
   const lastTapTimeRef = useRef(0);
   const isMobileRef = useRef(false);
+  // Root being dragged on the canvas, for the types drawn from a polynomial
+  const draggedRootRef = useRef<number | null>(null);
+  // CSS size of the canvas, which places the root handles
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
 
   // Performance optimization refs
   const resolutionScaleRef = useRef(FULL_SCALE);
@@ -57,8 +284,38 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
   const isInteractingRef = useRef(false);
   const renderRef = useRef<() => void>(() => {});
 
-  // Cached uniform locations for performance
-  const uniformsRef = useRef<Record<string, WebGLUniformLocation | null>>({});
+  // Deep zoom reference orbit, recomputed only when its inputs change
+  const refOrbitTextureRef = useRef<WebGLTexture | null>(null);
+  const refOrbitKeyRef = useRef("");
+  const refOrbitLengthRef = useRef(0);
+
+  // Custom and interior gradient textures, each re-uploaded only when its
+  // gradient changes
+  const gradientTexturesRef = useRef<Partial<Record<GradientSlot, { texture: WebGLTexture | null; key: string }>>>({});
+
+  // Histogram coloring: the CDF texture and the float target its counts are
+  // rendered into, recomputed only when the iteration counts would change.
+  // Support is null until the float render extension has been checked.
+  const histogramTextureRef = useRef<WebGLTexture | null>(null);
+  const valueTargetRef = useRef<ValueTarget | null>(null);
+  const histogramKeyRef = useRef("");
+  const histogramRef = useRef<IterationHistogram | null>(null);
+  const histogramSupportedRef = useRef<boolean | null>(null);
+
+  // Buddhabrot mode: the workers, the counts they have sent so far and the
+  // texture those are uploaded to whenever more came in since the last draw
+  const accumulatorRef = useRef<DensityAccumulator | null>(null);
+  const densityBufferRef = useRef<DensityBuffer | null>(null);
+  const densityTextureRef = useRef<WebGLTexture | null>(null);
+  const densityDirtyRef = useRef(true);
+  const densityWhitePointRef = useRef<DensityChannels>([0, 0, 0]);
+  const densityFrameRef = useRef<number | null>(null);
+  const onDensityProgressRef = useRef(onDensityProgress);
+  onDensityProgressRef.current = onDensityProgress;
+  // The view the workers start on when densityKey changes. Coloring changes
+  // only redraw the counts, so the key leaves them out.
+  const densityViewRef = useRef({ params, canvasSize });
+  densityViewRef.current = { params, canvasSize };
 
   // Performance detection
   const hasRunBenchmarkRef = useRef(false);
@@ -68,27 +325,28 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
     isMobileRef.current = isMobileDevice();
   }, []);
 
-  const fractalTypeToInt = (type: string): number => {
-    const types: Record<string, number> = {
-      mandelbrot: 0, julia: 1, burningship: 2, tricorn: 3, phoenix: 4, newton: 5
-    };
-    return types[type] ?? 0;
-  };
-
   const colorSchemeToInt = (scheme: string): number => {
     const schemes: Record<string, number> = {
-      classic: 0, smooth: 1, fire: 2, ocean: 3, rainbow: 4, monochrome: 5, psychedelic: 6, neon: 7, pastel: 8
+      classic: 0, smooth: 1, fire: 2, ocean: 3, rainbow: 4, monochrome: 5, psychedelic: 6, neon: 7, pastel: 8,
+      custom: 9
     };
     return schemes[scheme] ?? 0;
   };
 
   const coloringMethodToInt = (method: string): number => {
     const methods: Record<string, number> = {
-      escape: 0, smooth: 1, orbit: 2, angle: 3, stripe: 4, domain: 5
+      escape: 0, smooth: 1, orbit: 2, angle: 3, stripe: 4, domain: 5, histogram: 6, distance: 7
     };
     return methods[method] ?? 1;
   };
 
+  const interiorColoringToInt = (coloring: string): number => {
+    const colorings: Record<string, number> = {
+      black: 0, period: 1, magnitude: 2, distance: 3
+    };
+    return colorings[coloring] ?? 0;
+  };
+
   // Calculate adaptive iterations based on zoom level for "infinite zoom" effect
   const getAdaptiveIterations = useCallback((baseIterations: number, zoom: number, performanceMode: boolean): number => {
     // In performance mode, use fixed low iteration count for smooth animation
@@ -96,9 +354,7 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
       return PERF_MAX_ITERATIONS;
     }
 
-    // Increase iterations as we zoom in to maintain detail
-    const zoomFactor = Math.log10(Math.max(zoom, 1));
-    const adaptiveIterations = Math.floor(baseIterations * (1 + zoomFactor * 0.5));
+    const adaptiveIterations = getZoomIterations(baseIterations, zoom);
 
     // Cap iterations based on device capability
     const maxCap = isMobileRef.current ? 500 : 2000;
@@ -111,7 +367,7 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
     hasRunBenchmarkRef.current = true;
 
     const gl = glRef.current;
-    const program = programRef.current;
+    const program = programsRef.current.standard;
     const canvas = canvasRef.current;
     if (!gl || !program || !canvas) return;
 
@@ -123,17 +379,18 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
       gl.viewport(0, 0, canvas.width, canvas.height);
       gl.clearColor(0, 0, 0, 1);
       gl.clear(gl.COLOR_BUFFER_BIT);
-      gl.useProgram(program);
+      gl.useProgram(program.program);
 
       // Use test params that stress the GPU (high iterations at default zoom)
-      const u = uniformsRef.current;
+      const u = program.uniforms;
       gl.uniform2f(u.u_resolution, canvas.width, canvas.height);
       gl.uniform2f(u.u_center, -0.5, 0.0);
       gl.uniform1f(u.u_zoom, 1.0);
       gl.uniform1i(u.u_maxIterations, 200);
       gl.uniform1f(u.u_escapeRadius, 4.0);
-      gl.uniform1i(u.u_fractalType, 0);
+      gl.uniform1i(u.u_fractalType, getFractalTypeIndex("mandelbrot"));
       gl.uniform1f(u.u_power, 2.0);
+      gl.uniform1f(u.u_escapeDegree, 2.0);
       gl.uniform2f(u.u_julia, 0.0, 0.0);
       gl.uniform1i(u.u_colorScheme, 0);
       gl.uniform1i(u.u_coloringMethod, 1);
@@ -207,7 +464,7 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
   // Convert screen coordinates to fractal coordinates
   const screenToFractal = useCallback((screenX: number, screenY: number) => {
     const canvas = canvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
+    if (!canvas) return { x: params.centerX, y: params.centerY };
 
     const rect = canvas.getBoundingClientRect();
     const canvasX = screenX - rect.left;
@@ -218,78 +475,478 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
     const nx = (canvasX - rect.width / 2) / minDim * 2;
     const ny = -(canvasY - rect.height / 2) / minDim * 2; // Flip Y
 
-    // Convert to fractal coordinates
+    // Convert to fractal coordinates, keeping every digit of the center
+    const zoom = toNumber(params.zoom);
     return {
-      x: nx / params.zoom + params.centerX,
-      y: ny / params.zoom + params.centerY,
+      x: translateCoordinate(params.centerX, nx / zoom, params.zoom),
+      y: translateCoordinate(params.centerY, ny / zoom, params.zoom),
     };
   }, [params.zoom, params.centerX, params.centerY]);
 
-  const render = useCallback(() => {
+  // Recompute the high-precision reference orbit if the view moved, and
+  // upload it to the reference texture (texture unit 0)
+  const updateReferenceOrbit = useCallback((
+    gl: WebGL2RenderingContext,
+    frameParams: FractalParams,
+    maxIterations: number,
+    julia: { real: number; imag: number } | undefined
+  ) => {
+    const key = [
+      frameParams.centerX, frameParams.centerY, getRequiredPrecision(toNumber(frameParams.zoom)),
+      maxIterations, frameParams.escapeRadius, julia?.real, julia?.imag,
+    ].join(":");
+
+    if (!refOrbitTextureRef.current) {
+      const texture = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      refOrbitTextureRef.current = texture;
+    }
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, refOrbitTextureRef.current);
+
+    if (refOrbitKeyRef.current === key) return;
+
+    const orbit = computeReferenceOrbit({
+      centerX: frameParams.centerX,
+      centerY: frameParams.centerY,
+      zoom: toNumber(frameParams.zoom),
+      maxIterations,
+      escapeRadius: frameParams.escapeRadius,
+      julia,
+    });
+
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RG32F, orbit.width, orbit.height, 0, gl.RG, gl.FLOAT, orbit.data);
+    refOrbitKeyRef.current = key;
+    refOrbitLengthRef.current = orbit.length;
+  }, []);
+
+  // Upload a gradient to its slot's texture (see GRADIENT_UNITS) if it changed
+  const updateGradientTexture = useCallback((gl: WebGL2RenderingContext, slot: GradientSlot, gradient: Gradient) => {
+    let entry = gradientTexturesRef.current[slot];
+    if (!entry) {
+      const texture = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      entry = { texture, key: "" };
+      gradientTexturesRef.current[slot] = entry;
+    }
+
+    gl.activeTexture(gl.TEXTURE0 + GRADIENT_UNITS[slot]);
+    gl.bindTexture(gl.TEXTURE_2D, entry.texture);
+
+    const key = JSON.stringify(gradient);
+    if (entry.key === key) return;
+
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(
+      gl.TEXTURE_2D, 0, gl.RGBA8, GRADIENT_TABLE_SIZE, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, createGradientTable(gradient)
+    );
+    entry.key = key;
+  }, []);
+
+  // Upload the Buddhabrot's counts to the density texture (see DENSITY_UNIT)
+  // if more came in, or an empty pixel before the first
+  const updateDensityTexture = useCallback((gl: WebGL2RenderingContext) => {
+    if (!densityTextureRef.current) {
+      const texture = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      densityTextureRef.current = texture;
+      densityDirtyRef.current = true;
+    }
+
+    gl.activeTexture(gl.TEXTURE0 + DENSITY_UNIT);
+    gl.bindTexture(gl.TEXTURE_2D, densityTextureRef.current);
+    if (!densityDirtyRef.current) return;
+
+    const buffer = densityBufferRef.current ?? createDensityBuffer(1, 1);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGB32F, buffer.width, buffer.height, 0, gl.RGB, gl.FLOAT, buffer.counts);
+    densityWhitePointRef.current = getDensityWhitePoint(buffer);
+    densityDirtyRef.current = false;
+  }, []);
+
+  // Render the smooth iteration counts of the whole image at reduced size
+  // with the program and uniforms already set up for `target`, and upload
+  // their CDF to the histogram texture (texture unit 2). Returns null when
+  // the GPU can't render to float textures.
+  const updateHistogram = useCallback((
+    gl: WebGL2RenderingContext,
+    uniforms: ShaderProgram["uniforms"],
+    target: DrawTarget,
+    key: string
+  ): IterationHistogram | null => {
+    if (histogramSupportedRef.current === null) {
+      histogramSupportedRef.current = gl.getExtension("EXT_color_buffer_float") !== null;
+      if (!histogramSupportedRef.current) {
+        console.warn("Float render targets unavailable; histogram coloring falls back to smooth coloring");
+      }
+    }
+    if (!histogramSupportedRef.current) return null;
+
+    if (!histogramTextureRef.current) {
+      const texture = gl.createTexture();
+      gl.activeTexture(gl.TEXTURE2);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      histogramTextureRef.current = texture;
+    }
+
+    if (histogramKeyRef.current !== key) {
+      const sample = getHistogramSampleSize(target.imageWidth, target.imageHeight);
+      let valueTarget = valueTargetRef.current;
+      if (!valueTarget) {
+        valueTarget = { framebuffer: gl.createFramebuffer(), texture: gl.createTexture(), width: 0, height: 0 };
+        valueTargetRef.current = valueTarget;
+      }
+
+      gl.activeTexture(gl.TEXTURE2);
+      if (valueTarget.width !== sample.width || valueTarget.height !== sample.height) {
+        gl.bindTexture(gl.TEXTURE_2D, valueTarget.texture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA32F, sample.width, sample.height, 0, gl.RGBA, gl.FLOAT, null);
+        valueTarget.width = sample.width;
+        valueTarget.height = sample.height;
+      }
+      // The value texture mustn't be bound while it's drawn into
+      gl.bindTexture(gl.TEXTURE_2D, histogramTextureRef.current);
+
+      // Draw the counts, then put back whatever the caller was drawing into
+      const previousFramebuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING) as WebGLFramebuffer | null;
+      gl.bindFramebuffer(gl.FRAMEBUFFER, valueTarget.framebuffer);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, valueTarget.texture, 0);
+      gl.viewport(0, 0, sample.width, sample.height);
+      gl.uniform2f(uniforms.u_resolution, sample.width, sample.height);
+      gl.uniform2f(uniforms.u_pixelOffset, 0, 0);
+      gl.uniform1i(uniforms.u_valuePass, 1);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+      const pixels = new Float32Array(sample.width * sample.height * 4);
+      gl.readPixels(0, 0, sample.width, sample.height, gl.RGBA, gl.FLOAT, pixels);
+
+      gl.bindFramebuffer(gl.FRAMEBUFFER, previousFramebuffer);
+      gl.viewport(0, 0, target.width, target.height);
+      gl.uniform2f(uniforms.u_resolution, target.imageWidth, target.imageHeight);
+      gl.uniform2f(uniforms.u_pixelOffset, target.offsetX, target.offsetY);
+      gl.uniform1i(uniforms.u_valuePass, 0);
+
+      const histogram = buildIterationHistogram(pixels);
+      gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, HISTOGRAM_BINS + 1, 1, 0, gl.RED, gl.FLOAT, histogram.cdf);
+      histogramRef.current = histogram;
+      histogramKeyRef.current = key;
+    }
+
+    gl.activeTexture(gl.TEXTURE2);
+    gl.bindTexture(gl.TEXTURE_2D, histogramTextureRef.current);
+    return histogramRef.current;
+  }, []);
+
+  // Draw a view into whatever framebuffer is bound. The canvas passes its
+  // own params and size as both viewport and image; poster export draws one
+  // tile of a larger image at a time, and video export one timeline frame.
+  const drawFrame = useCallback((frameParams: FractalParams, target: DrawTarget, iterations: number, time: number): boolean => {
     const gl = glRef.current;
-    const program = programRef.current;
-    const canvas = canvasRef.current;
 
-    if (!gl || !program || !canvas) return;
+    // Switch to a higher-precision program once single precision runs out.
+    // Deep zoom programs are compiled on first use so shallow exploration
+    // never pays for them.
+    const mode = selectRenderMode(frameParams);
+    if (gl && programsRef.current[mode] === undefined) {
+      const { source, uniforms } = PROGRAM_SOURCES[mode];
+      programsRef.current[mode] = createShaderProgram(gl, source, [...COMMON_UNIFORMS, ...uniforms]);
+    }
 
-    gl.viewport(0, 0, canvas.width, canvas.height);
+    // The custom type's formula is compiled into the standard program, so
+    // drawing another formula means building it again. One that fails to
+    // build leaves the previous program in place.
+    const formula = getCompiledFormula(frameParams.formula);
+    if (gl && mode === "standard" && FRACTAL_TYPES[frameParams.type].formula && formula.source !== standardFormulaRef.current) {
+      const previous = programsRef.current.standard;
+      const rebuilt = createShaderProgram(gl, buildFormulaFragmentShader(formula), [
+        ...COMMON_UNIFORMS,
+        ...PROGRAM_SOURCES.standard.uniforms,
+      ]);
+      if (rebuilt) {
+        if (previous) gl.deleteProgram(previous.program);
+        programsRef.current.standard = rebuilt;
+      }
+      standardFormulaRef.current = formula.source;
+    }
+    const program = programsRef.current[mode];
+
+    if (!gl || !program) return false;
+
+    gl.viewport(0, 0, target.width, target.height);
     gl.clearColor(0, 0, 0, 1);
     gl.clear(gl.COLOR_BUFFER_BIT);
 
-    gl.useProgram(program);
+    gl.useProgram(program.program);
 
-    const time = (Date.now() - startTimeRef.current) / 1000;
-
-    // Calculate adaptive iterations for deep zooms
-    // Use performance mode when enabled AND animating
-    const usePerformance = params.performanceMode && isAnimating(params);
-    const effectiveIterations = getAdaptiveIterations(params.maxIterations, params.zoom, usePerformance);
+    const view = getNumericView(frameParams);
 
     // Set uniforms using cached locations
-    const u = uniformsRef.current;
-    gl.uniform2f(u.u_resolution, canvas.width, canvas.height);
-    gl.uniform2f(u.u_center, params.centerX, params.centerY);
-    gl.uniform1f(u.u_zoom, params.zoom);
-    gl.uniform1i(u.u_maxIterations, effectiveIterations);
-    gl.uniform1f(u.u_escapeRadius, params.escapeRadius);
-    gl.uniform1i(u.u_fractalType, fractalTypeToInt(params.type));
-    gl.uniform1f(u.u_power, params.power);
+    const u = program.uniforms;
+    gl.uniform2f(u.u_resolution, target.imageWidth, target.imageHeight);
+    gl.uniform2f(u.u_pixelOffset, target.offsetX, target.offsetY);
+    gl.uniform1i(u.u_valuePass, 0);
+    gl.uniform2f(u.u_center, view.centerX, view.centerY);
+    gl.uniform1f(u.u_zoom, view.zoom);
+    gl.uniform1i(u.u_maxIterations, iterations);
+    gl.uniform1f(u.u_escapeRadius, frameParams.escapeRadius);
+    gl.uniform1i(u.u_fractalType, getFractalTypeIndex(frameParams.type));
+    gl.uniform1f(u.u_power, frameParams.power);
+    gl.uniform1f(u.u_escapeDegree, getEscapeDegree(frameParams));
+    const formulaParams = new Float32Array(MAX_FORMULA_PARAMS);
+    formulaParams.set(getFormulaParamValues(formula, frameParams.formulaParams));
+    gl.uniform1fv(u.u_formulaParams, formulaParams);
 
     // Julia params - apply animation if enabled
-    let juliaReal = params.juliaReal;
-    let juliaImag = params.juliaImag;
-    if (params.animateJulia) {
-      juliaReal = Math.sin(time * params.juliaAnimSpeed * 0.5) * 0.7;
-      juliaImag = Math.cos(time * params.juliaAnimSpeed * 0.3) * 0.7;
+    let juliaReal = frameParams.juliaReal;
+    let juliaImag = frameParams.juliaImag;
+    if (frameParams.animateJulia) {
+      juliaReal = Math.sin(time * frameParams.juliaAnimSpeed * 0.5) * 0.7;
+      juliaImag = Math.cos(time * frameParams.juliaAnimSpeed * 0.3) * 0.7;
     }
     gl.uniform2f(u.u_julia, juliaReal, juliaImag);
+    gl.uniform1i(u.u_juliaMode, frameParams.juliaMode ? 1 : 0);
+    gl.uniform2f(u.u_phoenix, frameParams.phoenixReal, frameParams.phoenixImag);
+
+    // Polynomial roots for the Newton and Nova types
+    const newtonRoots = new Float32Array(MAX_NEWTON_ROOTS * 2);
+    newtonRoots.set(frameParams.newtonRoots.flat());
+    gl.uniform2fv(u.u_newtonRoots, newtonRoots);
+    gl.uniform1i(u.u_newtonDegree, frameParams.newtonRoots.length);
+    gl.uniform1f(u.u_newtonRelaxation, frameParams.newtonRelaxation);
+    gl.uniform1i(u.u_basinCount, FRACTAL_TYPES[frameParams.type].basinCount?.(frameParams) ?? 1);
+
+    // A/B sequence for the Lyapunov type
+    gl.uniform1ui(u.u_lyapunovSequence, getSequenceMask(frameParams.lyapunovSequence));
+    gl.uniform1i(u.u_lyapunovLength, frameParams.lyapunovSequence.length);
+
+    // u_center and u_zoom already hold the float-rounded high parts
+    if (mode === "doubleFloat") {
+      gl.uniform2f(u.u_centerLo, splitDouble(view.centerX)[1], splitDouble(view.centerY)[1]);
+      gl.uniform1f(u.u_zoomLo, splitDouble(view.zoom)[1]);
+    }
+
+    if (mode === "perturbation") {
+      const julia = getFractalStart(frameParams) === "julia" ? { real: juliaReal, imag: juliaImag } : undefined;
+      updateReferenceOrbit(gl, frameParams, iterations, julia);
+      gl.uniform1i(u.u_refOrbit, 0);
+      gl.uniform1i(u.u_refLength, refOrbitLengthRef.current);
+      gl.uniform1f(u.u_scaleExp, getScaleExponent(view.zoom));
+    }
+
+    if (mode === "raymarch") {
+      const camera = getCameraBasis(frameParams);
+      gl.uniform1i(u.u_shape3d, SHAPE_3D_INDEX[frameParams.shape3d]);
+      gl.uniform2f(u.u_juliaJK, frameParams.juliaJ, frameParams.juliaK);
+      gl.uniform3fv(u.u_cameraPosition, camera.position);
+      gl.uniform3fv(u.u_cameraRight, camera.right);
+      gl.uniform3fv(u.u_cameraUp, camera.up);
+      gl.uniform3fv(u.u_cameraForward, camera.forward);
+      gl.uniform1i(u.u_softShadows, frameParams.softShadows ? 1 : 0);
+      gl.uniform1i(u.u_ambientOcclusion, frameParams.ambientOcclusion ? 1 : 0);
+    }
+
+    if (mode === "density") {
+      updateDensityTexture(gl);
+      gl.uniform1i(u.u_density, DENSITY_UNIT);
+      gl.uniform3fv(u.u_densityWhitePoint, densityWhitePointRef.current);
+      gl.uniform1i(u.u_nebulabrot, frameParams.nebulabrot ? 1 : 0);
+      gl.uniform1f(u.u_buddhabrotGamma, frameParams.buddhabrotGamma);
+    }
 
     // Coloring
-    gl.uniform1i(u.u_colorScheme, colorSchemeToInt(params.colorScheme));
-    gl.uniform1i(u.u_coloringMethod, coloringMethodToInt(params.coloringMethod));
-    gl.uniform1f(u.u_colorOffset, params.colorOffset);
-    gl.uniform1f(u.u_colorScale, params.colorScale);
+    gl.uniform1i(u.u_colorScheme, colorSchemeToInt(frameParams.colorScheme));
+    gl.uniform1i(u.u_coloringMethod, coloringMethodToInt(frameParams.coloringMethod));
+    gl.uniform1f(u.u_colorOffset, frameParams.colorOffset);
+    gl.uniform1f(u.u_colorScale, frameParams.colorScale);
     gl.uniform1f(u.u_time, time);
-    gl.uniform1f(u.u_colorCycleSpeed, params.colorCycleSpeed);
-    gl.uniform1f(u.u_glowIntensity, params.glowIntensity);
-    gl.uniform1f(u.u_posterize, params.posterize);
-    gl.uniform1f(u.u_hueShift, params.hueShift);
-    gl.uniform1f(u.u_saturation, params.saturation);
-    gl.uniform1f(u.u_brightness, params.brightness);
-    gl.uniform1f(u.u_stripeFrequency, params.stripeFrequency);
-    gl.uniform1f(u.u_orbitTrapSize, params.orbitTrapSize);
+    gl.uniform1f(u.u_colorCycleSpeed, frameParams.colorCycleSpeed);
+    gl.uniform1f(u.u_glowIntensity, frameParams.glowIntensity);
+    gl.uniform1f(u.u_posterize, frameParams.posterize);
+    gl.uniform1f(u.u_hueShift, frameParams.hueShift);
+    gl.uniform1f(u.u_saturation, frameParams.saturation);
+    gl.uniform1f(u.u_brightness, frameParams.brightness);
+    gl.uniform1f(u.u_stripeFrequency, frameParams.stripeFrequency);
+    gl.uniform1f(u.u_orbitTrapSize, frameParams.orbitTrapSize);
+    gl.uniform1f(u.u_boundaryWidth, frameParams.boundaryWidth);
+    gl.uniform1i(u.u_lighting, frameParams.lighting ? 1 : 0);
+    gl.uniform1f(u.u_lightAngle, frameParams.lightAngle);
+    gl.uniform1f(u.u_lightHeight, frameParams.lightHeight);
+    gl.uniform1f(u.u_specular, frameParams.specular);
+
+    updateGradientTexture(gl, "exterior", frameParams.gradient);
+    gl.uniform1i(u.u_gradient, GRADIENT_UNITS.exterior);
+    gl.uniform1i(u.u_gradientRepeat, frameParams.gradient.repeat === "mirror" ? 1 : 0);
+
+    gl.uniform1i(u.u_interiorColoring, interiorColoringToInt(frameParams.interiorColoring));
+    updateGradientTexture(gl, "interior", frameParams.interiorGradient);
+    gl.uniform1i(u.u_interiorGradient, GRADIENT_UNITS.interior);
+    gl.uniform1i(u.u_interiorGradientRepeat, frameParams.interiorGradient.repeat === "mirror" ? 1 : 0);
+
+    // Histogram coloring needs the counts of the whole image first, which
+    // every tile of an export then shares. Types that converge color by root
+    // instead, exponent types by their exponent, the 3D mode by orbit trap
+    // and the Buddhabrot by its counts.
+    const { converges, exponent } = FRACTAL_TYPES[frameParams.type];
+    const colorsByIteration = mode !== "raymarch" && mode !== "density";
+    if (frameParams.coloringMethod === "histogram" && !converges && !exponent && colorsByIteration) {
+      const sample = getHistogramSampleSize(target.imageWidth, target.imageHeight);
+      const key = [
+        frameParams.centerX, frameParams.centerY, frameParams.zoom, iterations, frameParams.type,
+        frameParams.power, frameParams.escapeRadius, juliaReal, juliaImag, frameParams.juliaMode,
+        frameParams.phoenixReal, frameParams.phoenixImag, sample.width, sample.height,
+        formula.source, formulaParams.join(","),
+      ].join(":");
+      const histogram = updateHistogram(gl, u, target, key);
+      if (histogram) {
+        gl.uniform1i(u.u_histogram, 2);
+        gl.uniform2f(u.u_histogramRange, histogram.min, histogram.max);
+      } else {
+        gl.uniform1i(u.u_coloringMethod, coloringMethodToInt("smooth"));
+      }
+    }
 
     gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    return true;
+  }, [updateReferenceOrbit, updateGradientTexture, updateDensityTexture, updateHistogram]);
+
+  const render = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const time = (Date.now() - startTimeRef.current) / 1000;
+
+    // Calculate adaptive iterations for deep zooms
+    // Use performance mode when enabled AND animating
+    const usePerformance = params.performanceMode && isAnimating(params);
+    const effectiveIterations = getAdaptiveIterations(params.maxIterations, toNumber(params.zoom), usePerformance);
+
+    const drawn = drawFrame(params, {
+      width: canvas.width,
+      height: canvas.height,
+      imageWidth: canvas.width,
+      imageHeight: canvas.height,
+      offsetX: 0,
+      offsetY: 0,
+    }, effectiveIterations, time);
+    if (!drawn) return;
 
     // Continue animation if needed
     if (params.colorCycleSpeed > 0 || params.animateJulia) {
       animationFrameRef.current = requestAnimationFrame(render);
     }
-  }, [params, getAdaptiveIterations]);
+  }, [params, getAdaptiveIterations, drawFrame]);
 
   // Keep render ref updated for use in callbacks
   renderRef.current = render;
 
+  useImperativeHandle(ref, () => ({
+    // The drawing buffer isn't preserved between frames, so draw a fresh frame
+    // and read it back before the browser composites it
+    captureThumbnail: () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return null;
+
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+      renderRef.current();
+      return captureThumbnail(canvas);
+    },
+
+    getCanvasSize: () => ({
+      width: canvasRef.current?.width ?? 0,
+      height: canvasRef.current?.height ?? 0,
+    }),
+
+    // Tiles render into a framebuffer on the canvas's own context, so the
+    // compiled programs and reference orbit are shared. Each tile is drawn and
+    // read back within one task; the visible canvas is left untouched.
+    createTileRenderer: () => {
+      const gl = glRef.current;
+      if (!gl) return null;
+
+      const maxViewport = gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array;
+      const maxTileSize = Math.min(
+        MAX_TILE_SIZE,
+        gl.getParameter(gl.MAX_TEXTURE_SIZE) as number,
+        maxViewport[0],
+        maxViewport[1]
+      );
+
+      // Frozen for the whole export so color cycling and Julia animation
+      // don't shift between tiles
+      const tileParams = params;
+      const time = (Date.now() - startTimeRef.current) / 1000;
+      const iterations = getExportIterations(tileParams);
+      const offscreen = createOffscreenTarget(gl);
+
+      return {
+        maxTileSize,
+
+        renderTile: (tile) => offscreen.draw(tile.width, tile.height, () => drawFrame(tileParams, {
+          width: tile.width,
+          height: tile.height,
+          imageWidth: tile.imageWidth,
+          imageHeight: tile.imageHeight,
+          offsetX: tile.x,
+          offsetY: tile.imageHeight - tile.y - tile.height,
+        }, iterations, time)),
+
+        dispose: () => {
+          offscreen.dispose();
+          // The export may have replaced the reference orbit with one at
+          // export iterations; redraw the canvas at its own settings
+          renderRef.current();
+        },
+      };
+    },
+
+    // Whole frames of arbitrary views at a fixed size, for video export
+    createFrameRenderer: (width, height) => {
+      const gl = glRef.current;
+      if (!gl) return null;
+
+      const maxViewport = gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array;
+      const maxSize = Math.min(gl.getParameter(gl.MAX_TEXTURE_SIZE) as number, maxViewport[0], maxViewport[1]);
+      if (width > maxSize || height > maxSize) return null;
+
+      const offscreen = createOffscreenTarget(gl);
+      const target = { width, height, imageWidth: width, imageHeight: height, offsetX: 0, offsetY: 0 };
+
+      return {
+        renderFrame: (frameParams, time) => {
+          return offscreen.draw(width, height, () => drawFrame(frameParams, target, getExportIterations(frameParams), time));
+        },
+
+        dispose: () => {
+          offscreen.dispose();
+          renderRef.current();
+        },
+      };
+    },
+
+    getDensityBuffer: () => (selectRenderMode(params) === "density" ? densityBufferRef.current : null),
+  }), [drawFrame, params]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -301,49 +958,10 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
     }
     glRef.current = gl;
 
-    // Create shaders
-    const vertexShader = gl.createShader(gl.VERTEX_SHADER)!;
-    gl.shaderSource(vertexShader, vertexShaderSource);
-    gl.compileShader(vertexShader);
-
-    if (!gl.getShaderParameter(vertexShader, gl.COMPILE_STATUS)) {
-      console.error("Vertex shader error:", gl.getShaderInfoLog(vertexShader));
-      return;
-    }
-
-    const fragmentShader = gl.createShader(gl.FRAGMENT_SHADER)!;
-    gl.shaderSource(fragmentShader, fragmentShaderSource);
-    gl.compileShader(fragmentShader);
-
-    if (!gl.getShaderParameter(fragmentShader, gl.COMPILE_STATUS)) {
-      console.error("Fragment shader error:", gl.getShaderInfoLog(fragmentShader));
-      return;
-    }
-
-    // Create program
-    const program = gl.createProgram()!;
-    gl.attachShader(program, vertexShader);
-    gl.attachShader(program, fragmentShader);
-    gl.linkProgram(program);
-
-    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-      console.error("Program link error:", gl.getProgramInfoLog(program));
-      return;
-    }
-
-    programRef.current = program;
-
-    // Cache all uniform locations for performance
-    const uniforms = [
-      "u_resolution", "u_center", "u_zoom", "u_maxIterations", "u_escapeRadius",
-      "u_fractalType", "u_power", "u_julia", "u_colorScheme", "u_coloringMethod",
-      "u_colorOffset", "u_colorScale", "u_time", "u_colorCycleSpeed",
-      "u_glowIntensity", "u_posterize", "u_hueShift", "u_saturation",
-      "u_brightness", "u_stripeFrequency", "u_orbitTrapSize"
-    ];
-    uniforms.forEach(name => {
-      uniformsRef.current[name] = gl.getUniformLocation(program, name);
-    });
+    const { source, uniforms } = PROGRAM_SOURCES.standard;
+    const program = createShaderProgram(gl, source, [...COMMON_UNIFORMS, ...uniforms]);
+    if (!program) return;
+    programsRef.current.standard = program;
 
     // Create fullscreen quad
     const positions = new Float32Array([
@@ -357,9 +975,8 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
     gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
     gl.bufferData(gl.ARRAY_BUFFER, positions, gl.STATIC_DRAW);
 
-    const positionLocation = gl.getAttribLocation(program, "a_position");
-    gl.enableVertexAttribArray(positionLocation);
-    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
+    gl.enableVertexAttribArray(POSITION_LOCATION);
+    gl.vertexAttribPointer(POSITION_LOCATION, 2, gl.FLOAT, false, 0, 0);
 
     render();
 
@@ -389,6 +1006,7 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
     const resizeObserver = new ResizeObserver(() => {
       // Use current resolution scale (may be reduced during interaction)
       updateCanvasResolution(resolutionScaleRef.current);
+      setCanvasSize({ width: canvas.clientWidth, height: canvas.clientHeight });
       render();
     });
 
@@ -396,6 +1014,53 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
     return () => resizeObserver.disconnect();
   }, [render, updateCanvasResolution]);
 
+  // Buddhabrot mode: start the workers over whenever the orbits they follow
+  // or the buffer's size change, and redraw as their counts come in
+  const densityKey = selectRenderMode(params) === "density" && canvasSize.width > 0 && canvasSize.height > 0
+    ? JSON.stringify([
+      params.type, params.centerX, params.centerY, params.zoom, params.maxIterations, params.escapeRadius,
+      params.power, params.juliaReal, params.juliaImag, params.juliaMode, params.phoenixReal, params.phoenixImag,
+      params.formula, params.formulaParams, params.buddhabrotMinIterations, params.nebulabrot,
+      params.redIterations, params.greenIterations, params.blueIterations, canvasSize.width, canvasSize.height,
+    ])
+    : null;
+
+  useEffect(() => {
+    if (!densityKey) {
+      accumulatorRef.current?.stop();
+      densityBufferRef.current = null;
+      return;
+    }
+
+    if (!accumulatorRef.current) {
+      accumulatorRef.current = createDensityAccumulator((buffer) => {
+        densityBufferRef.current = buffer;
+        densityDirtyRef.current = true;
+        onDensityProgressRef.current?.(buffer.samples);
+        if (densityFrameRef.current === null) {
+          densityFrameRef.current = requestAnimationFrame(() => {
+            densityFrameRef.current = null;
+            renderRef.current();
+          });
+        }
+      });
+    }
+
+    const { params: densityParams, canvasSize: densityCanvasSize } = densityViewRef.current;
+    const pixelRatio = window.devicePixelRatio;
+    const size = getDensitySize(densityCanvasSize.width * pixelRatio, densityCanvasSize.height * pixelRatio);
+    accumulatorRef.current.start(densityParams, size.width, size.height);
+  }, [densityKey]);
+
+  useEffect(() => {
+    return () => {
+      accumulatorRef.current?.dispose();
+      if (densityFrameRef.current !== null) {
+        cancelAnimationFrame(densityFrameRef.current);
+      }
+    };
+  }, []);
+
   // Clean up refinement timeout on unmount
   useEffect(() => {
     return () => {
@@ -443,11 +1108,17 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
 
     lastMouseRef.current = { x: e.clientX, y: e.clientY };
 
-    const scale = 2 / (Math.min(canvasRef.current.clientWidth, canvasRef.current.clientHeight) * params.zoom);
+    // Dragging turns the 3D camera instead of panning
+    if (params.view3d) {
+      onParamsChange(orbitCamera(params, dx, dy));
+      return;
+    }
+
+    const scale = 2 / (Math.min(canvasRef.current.clientWidth, canvasRef.current.clientHeight) * toNumber(params.zoom));
 
     onParamsChange({
-      centerX: params.centerX - dx * scale,
-      centerY: params.centerY + dy * scale,
+      centerX: translateCoordinate(params.centerX, -dx * scale, params.zoom),
+      centerY: translateCoordinate(params.centerY, dy * scale, params.zoom),
     });
   };
 
@@ -458,11 +1129,12 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
 
   // Double-click to set zoom target
   const handleDoubleClick = (e: React.MouseEvent) => {
+    if (params.view3d) return;
     const fractalPos = screenToFractal(e.clientX, e.clientY);
     onParamsChange({
       centerX: fractalPos.x,
       centerY: fractalPos.y,
-      zoom: params.zoom * 2, // Zoom in 2x on double-click
+      zoom: scaleZoom(params.zoom, 2), // Zoom in 2x on double-click
     });
   };
 
@@ -470,10 +1142,17 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
     e.preventDefault();
     startInteraction();
 
+    // The wheel moves the 3D camera in and out
+    if (params.view3d) {
+      onParamsChange(dollyCamera(params, e.deltaY > 0 ? 1.1 : 0.9));
+      endInteraction();
+      return;
+    }
+
     // Zoom towards mouse position
     const fractalPosBefore = screenToFractal(e.clientX, e.clientY);
     const zoomFactor = e.deltaY > 0 ? 0.9 : 1.1;
-    const newZoom = params.zoom * zoomFactor;
+    const newZoom = scaleZoom(params.zoom, zoomFactor);
 
     // Calculate new center to keep mouse position fixed
     const canvas = canvasRef.current;
@@ -486,8 +1165,8 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
       const ny = -(canvasY - rect.height / 2) / minDim * 2;
 
       // New center = old fractal position - screen offset at new zoom
-      const newCenterX = fractalPosBefore.x - nx / newZoom;
-      const newCenterY = fractalPosBefore.y - ny / newZoom;
+      const newCenterX = translateCoordinate(fractalPosBefore.x, -nx / toNumber(newZoom), newZoom);
+      const newCenterY = translateCoordinate(fractalPosBefore.y, -ny / toNumber(newZoom), newZoom);
 
       onParamsChange({
         zoom: newZoom,
@@ -527,13 +1206,13 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
 
     if (touches.length === 1) {
       // Check for double-tap
-      if (now - lastTapTimeRef.current < 300) {
+      if (now - lastTapTimeRef.current < 300 && !params.view3d) {
         // Double-tap detected - zoom to this point
         const fractalPos = screenToFractal(touches[0].clientX, touches[0].clientY);
         onParamsChange({
           centerX: fractalPos.x,
           centerY: fractalPos.y,
-          zoom: params.zoom * 2,
+          zoom: scaleZoom(params.zoom, 2),
         });
         lastTapTimeRef.current = 0;
         endInteraction();
@@ -563,7 +1242,9 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
       const currentDistance = getTouchDistance(touches);
       if (currentDistance && lastTouchDistanceRef.current) {
         const zoomFactor = currentDistance / lastTouchDistanceRef.current;
-        onParamsChange({ zoom: params.zoom * zoomFactor });
+        onParamsChange(params.view3d
+          ? dollyCamera(params, 1 / zoomFactor)
+          : { zoom: scaleZoom(params.zoom, zoomFactor) });
       }
       lastTouchDistanceRef.current = currentDistance;
     }
@@ -573,11 +1254,17 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
       const dx = currentCenter.x - lastTouchCenterRef.current.x;
       const dy = currentCenter.y - lastTouchCenterRef.current.y;
 
-      const scale = 2 / (Math.min(canvas.clientWidth, canvas.clientHeight) * params.zoom);
+      if (params.view3d) {
+        if (touches.length === 1) onParamsChange(orbitCamera(params, dx, dy));
+        lastTouchCenterRef.current = currentCenter;
+        return;
+      }
+
+      const scale = 2 / (Math.min(canvas.clientWidth, canvas.clientHeight) * toNumber(params.zoom));
 
       onParamsChange({
-        centerX: params.centerX - dx * scale,
-        centerY: params.centerY + dy * scale,
+        centerX: translateCoordinate(params.centerX, -dx * scale, params.zoom),
+        centerY: translateCoordinate(params.centerY, dy * scale, params.zoom),
       });
     }
 
@@ -596,20 +1283,69 @@ export default function FractalCanvas({ params, onParamsChange, className, onPer
     }
   };
 
+  // Root handles, placed the way the fragment programs map the plane onto
+  // the canvas
+  const view = getNumericView(params);
+  const minDim = Math.min(canvasSize.width, canvasSize.height);
+  const rootHandles = FRACTAL_TYPES[params.type].roots && !params.view3d && minDim > 0 ? params.newtonRoots : [];
+
+  const handleRootPointerDown = (index: number) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggedRootRef.current = index;
+    startInteraction();
+  };
+
+  const handleRootPointerMove = (e: React.PointerEvent) => {
+    const index = draggedRootRef.current;
+    const canvas = canvasRef.current;
+    if (index === null || !canvas) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const root: [number, number] = [
+      view.centerX + (e.clientX - rect.left - rect.width / 2) / minDim / view.zoom,
+      view.centerY - (e.clientY - rect.top - rect.height / 2) / minDim / view.zoom,
+    ];
+    onParamsChange({ newtonRoots: params.newtonRoots.map((r, i) => (i === index ? root : r)) });
+  };
+
+  const handleRootPointerUp = () => {
+    if (draggedRootRef.current === null) return;
+    draggedRootRef.current = null;
+    endInteraction();
+  };
+
   return (
-    <canvas
-      ref={canvasRef}
-      className={`w-full h-full cursor-grab active:cursor-grabbing touch-none ${className || ""}`}
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
-      onDoubleClick={handleDoubleClick}
-      onWheel={handleWheel}
-      onTouchStart={handleTouchStart}
-      onTouchMove={handleTouchMove}
-      onTouchEnd={handleTouchEnd}
-      onTouchCancel={handleTouchEnd}
-    />
+    <div className="relative w-full h-full overflow-hidden">
+      <canvas
+        ref={canvasRef}
+        className={`w-full h-full cursor-grab active:cursor-grabbing touch-none ${className || ""}`}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+        onDoubleClick={handleDoubleClick}
+        onWheel={handleWheel}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        onTouchCancel={handleTouchEnd}
+      />
+      {rootHandles.map(([x, y], i) => (
+        <div
+          key={i}
+          title={`Root ${i + 1}: drag to move`}
+          className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white bg-black/50 shadow cursor-move touch-none"
+          style={{
+            left: canvasSize.width / 2 + (x - view.centerX) * view.zoom * minDim,
+            top: canvasSize.height / 2 - (y - view.centerY) * view.zoom * minDim,
+          }}
+          onPointerDown={handleRootPointerDown(i)}
+          onPointerMove={handleRootPointerMove}
+          onPointerUp={handleRootPointerUp}
+          onPointerCancel={handleRootPointerUp}
+        />
+      ))}
+    </div>
   );
 }
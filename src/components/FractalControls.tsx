@@ -1,26 +1,47 @@
 "use client";
 
-import { useState } from "react";
-import { FractalParams, FractalType, ColorScheme, ColoringMethod } from "@/types/fractal";
+import { useMemo, useRef, useState } from "react";
+import {
+  FractalParams, FractalType, ColorScheme, ColoringMethod, InteriorColoring, BuiltInColorScheme, Gradient, Shape3D
+} from "@/types/fractal";
+import { FRACTAL_TYPES, FRACTAL_TYPE_IDS, FractalTypeParam, getFractalStart, getTypeParams } from "@/fractals";
 import FractalLearn from "./FractalLearn";
+import GradientEditor from "./GradientEditor";
+import { formatZoom, isValidDecimal, toNumber } from "@/lib/coordinates";
+import { PALETTE_FORMATS, PaletteFormat, parsePaletteFile, schemeToGradient, serializePalette } from "@/lib/paletteFiles";
+import { GRADIENT_TABLE_SIZE } from "@/lib/gradient";
+import { openExportSink } from "@/lib/exportSink";
+import {
+  CompiledFormula,
+  DEFAULT_FORMULA_PARAM,
+  FORMULA_FUNCTIONS,
+  compileFormula,
+  getCompiledFormula,
+} from "@/lib/formula";
+import { Complex } from "@/lib/complex";
+import {
+  MAX_NEWTON_ROOTS,
+  MIN_NEWTON_ROOTS,
+  findRoots,
+  formatComplex,
+  parseCoefficients,
+  polynomialFromRoots,
+} from "@/lib/polynomial";
+import { MAX_LYAPUNOV_SEQUENCE, isLyapunovSequence } from "@/lib/lyapunov";
+import { CAMERA_PARAMS, SHAPES_3D } from "@/lib/view3d";
+import { BUDDHABROT_PARAMS, NEBULABROT_PARAMS, supportsBuddhabrot } from "@/lib/buddhabrot";
 
 interface FractalControlsProps {
   params: FractalParams;
   onParamsChange: (params: Partial<FractalParams>) => void;
   onSave?: () => void;
+  onExport?: () => void;
+  onExportLoop?: () => void;
+  onTimeline?: () => void;
   onReset?: () => void;
   isSaving?: boolean;
 }
 
-const FRACTAL_TYPES: { value: FractalType; label: string; description: string }[] = [
-  { value: "mandelbrot", label: "Mandelbrot", description: "z = z^n + c" },
-  { value: "julia", label: "Julia Set", description: "Uses constant c" },
-  { value: "burningship", label: "Burning Ship", description: "Uses |Re(z)| and |Im(z)|" },
-  { value: "tricorn", label: "Tricorn", description: "Uses complex conjugate" },
-  { value: "phoenix", label: "Phoenix", description: "Uses previous z value" },
-  { value: "newton", label: "Newton", description: "Newton's method for z³-1" },
-];
-
 const COLOR_SCHEMES: { value: ColorScheme; label: string }[] = [
   { value: "classic", label: "Classic Blue" },
   { value: "smooth", label: "Smooth" },
@@ -31,8 +52,16 @@ const COLOR_SCHEMES: { value: ColorScheme; label: string }[] = [
   { value: "psychedelic", label: "Psychedelic" },
   { value: "neon", label: "Neon" },
   { value: "pastel", label: "Pastel" },
+  { value: "custom", label: "Custom Gradient" },
 ];
 
+const BUILT_IN_SCHEMES = COLOR_SCHEMES.filter(
+  (scheme): scheme is { value: BuiltInColorScheme; label: string } => scheme.value !== "custom"
+);
+
+// Dropdown values for palettes imported this session
+const IMPORTED_PREFIX = "imported:";
+
 const COLORING_METHODS: { value: ColoringMethod; label: string; description: string }[] = [
   { value: "escape", label: "Escape Time", description: "Classic iteration count" },
   { value: "smooth", label: "Smooth", description: "Anti-aliased smooth coloring" },
@@ -40,20 +69,332 @@ const COLORING_METHODS: { value: ColoringMethod; label: string; description: str
   { value: "angle", label: "Angle", description: "Cumulative angle coloring" },
   { value: "stripe", label: "Stripe", description: "Striped pattern overlay" },
   { value: "domain", label: "Domain", description: "Final angle coloring" },
+  { value: "histogram", label: "Histogram", description: "Spreads the palette evenly over the view" },
+  { value: "distance", label: "Distance", description: "Estimated distance to the boundary" },
 ];
 
-type Section = "fractal" | "iteration" | "julia" | "view" | "coloring" | "effects" | "animation" | "learn";
+const INTERIOR_COLORINGS: { value: InteriorColoring; label: string; description: string }[] = [
+  { value: "black", label: "Black", description: "Solid black inside the set" },
+  { value: "period", label: "Period", description: "Length of the cycle each orbit settles into" },
+  { value: "magnitude", label: "Final |z|", description: "Where each orbit ends up" },
+  { value: "distance", label: "Distance", description: "Distance to the edge of the set (Mandelbrot only)" },
+];
+
+interface CoordinateInputProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Free-form entry for arbitrary-precision coordinates. Edits stay local while
+// focused and are only committed once they parse, so partial input like "-"
+// or "1e" never resets the view.
+function CoordinateInput({ label, value, onChange }: CoordinateInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const isValid = draft === null || isValidDecimal(draft);
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-400 mb-1">{label}</label>
+      <textarea
+        rows={2}
+        spellCheck={false}
+        inputMode="decimal"
+        value={draft ?? value}
+        onFocus={() => setDraft(value)}
+        onBlur={() => setDraft(null)}
+        onChange={(e) => {
+          const next = e.target.value.replace(/\s/g, "");
+          setDraft(next);
+          if (isValidDecimal(next)) onChange(next);
+        }}
+        className={`w-full px-2 py-1 bg-gray-800 border rounded text-white text-xs font-mono break-all resize-y ${
+          isValid ? "border-gray-700" : "border-red-500"
+        }`}
+      />
+    </div>
+  );
+}
+
+// Slider range of a custom formula's parameters
+const FORMULA_PARAM_RANGE = 4;
+
+interface FormulaInputProps {
+  value: string;
+  onChange: (formula: CompiledFormula) => void;
+}
+
+// Formula entry for the custom type. As with coordinates, edits stay local
+// while focused and only formulas that compile are committed; until then
+// the error is shown underneath, with the part of the formula it concerns
+// marked.
+function FormulaInput({ value, onChange }: FormulaInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const source = draft ?? value;
+  const result = useMemo(() => compileFormula(source), [source]);
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-400 mb-1">Formula</label>
+      <input
+        type="text"
+        spellCheck={false}
+        autoComplete="off"
+        value={source}
+        onFocus={() => setDraft(value)}
+        onBlur={() => setDraft(null)}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          const compiled = compileFormula(e.target.value);
+          if (compiled.ok) onChange(compiled.formula);
+        }}
+        className={`w-full px-2 py-1 bg-gray-800 border rounded text-white text-sm font-mono ${
+          result.ok ? "border-gray-700" : "border-red-500"
+        }`}
+      />
+      {result.ok ? (
+        <p className="text-xs text-gray-500 mt-1">
+          Use z, c, i, pi, e, + - * / ^ and {Object.keys(FORMULA_FUNCTIONS).join(", ")}. Other names become sliders.
+        </p>
+      ) : (
+        <div className="text-xs mt-1">
+          <p className="font-mono text-gray-400 break-all whitespace-pre-wrap">
+            {source.slice(0, result.error.start)}
+            <span className="bg-red-500/40 text-white">{source.slice(result.error.start, result.error.end) || " "}</span>
+            {source.slice(result.error.end)}
+          </p>
+          <p className="text-red-400">{result.error.message}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface PolynomialInputProps {
+  roots: Complex[];
+  onChange: (roots: Complex[]) => void;
+}
+
+// Polynomial for the Newton and Nova types, entered either as coefficients
+// or root by root. The coefficients are a draft like the formula's, and
+// committed as the roots they solve to.
+function PolynomialInput({ roots, onChange }: PolynomialInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const value = polynomialFromRoots(roots).map((coefficient) => formatComplex(coefficient)).join(", ");
+  const source = draft ?? value;
+  const parsed = useMemo(() => parseCoefficients(source), [source]);
+
+  const setRoot = (index: number, root: Complex) => onChange(roots.map((r, i) => (i === index ? root : r)));
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Coefficients</label>
+        <input
+          type="text"
+          spellCheck={false}
+          autoComplete="off"
+          value={source}
+          onFocus={() => setDraft(value)}
+          onBlur={() => setDraft(null)}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            const coefficients = parseCoefficients(e.target.value);
+            if (typeof coefficients !== "string") onChange(findRoots(coefficients));
+          }}
+          className={`w-full px-2 py-1 bg-gray-800 border rounded text-white text-sm font-mono ${
+            typeof parsed === "string" ? "border-red-500" : "border-gray-700"
+          }`}
+        />
+        {typeof parsed === "string" ? (
+          <p className="text-xs text-red-400 mt-1">{parsed}</p>
+        ) : (
+          <p className="text-xs text-gray-500 mt-1">Highest degree first, so 1, 0, 0, -1 is z³ - 1</p>
+        )}
+      </div>
+
+      <label className="block text-xs text-gray-400">Roots</label>
+      {roots.map(([x, y], i) => (
+        <div key={i} className="flex items-center gap-1">
+          {([x, y] as const).map((part, axis) => (
+            <input
+              key={axis}
+              type="number"
+              step="0.01"
+              aria-label={`Root ${i + 1} ${axis ? "imaginary" : "real"} part`}
+              value={part}
+              onChange={(e) => {
+                const next = parseFloat(e.target.value);
+                if (Number.isFinite(next)) setRoot(i, axis ? [x, next] : [next, y]);
+              }}
+              className="w-full min-w-0 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-xs font-mono"
+            />
+          ))}
+          <span className="text-xs text-gray-500">i</span>
+          <button
+            onClick={() => onChange(roots.filter((_, j) => j !== i))}
+            disabled={roots.length <= MIN_NEWTON_ROOTS}
+            title="Remove root"
+            className="px-2 text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...roots, [0, 0]])}
+        disabled={roots.length >= MAX_NEWTON_ROOTS}
+        className="w-full py-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 rounded text-xs text-gray-300"
+      >
+        Add root
+      </button>
+      <p className="text-xs text-gray-500">Drag the roots on the canvas to move them</p>
+    </div>
+  );
+}
+
+interface ParamSliderProps {
+  param: FractalTypeParam;
+  params: FractalParams;
+  onParamsChange: (params: Partial<FractalParams>) => void;
+}
+
+// Slider for one of a fractal type's (or 3D shape's) own parameters
+function ParamSlider({ param, params, onParamsChange }: ParamSliderProps) {
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <label className="text-gray-300">{param.label}</label>
+        <span className="text-gray-500">{params[param.key].toFixed(param.digits)}</span>
+      </div>
+      <input
+        type="range"
+        min={param.min}
+        max={param.max}
+        step={param.step}
+        value={params[param.key]}
+        onChange={(e) => onParamsChange({ [param.key]: parseFloat(e.target.value) })}
+        className="w-full accent-purple-500"
+      />
+      {param.hint && <p className="text-xs text-gray-500">{param.hint}</p>}
+    </div>
+  );
+}
+
+interface SequenceInputProps {
+  value: string;
+  onChange: (sequence: string) => void;
+}
+
+// A/B sequence for the Lyapunov type, a draft like the formula's; letters
+// are taken in either case
+function SequenceInput({ value, onChange }: SequenceInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const source = draft ?? value;
+  const isValid = isLyapunovSequence(source);
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-400 mb-1">Sequence</label>
+      <input
+        type="text"
+        spellCheck={false}
+        autoComplete="off"
+        value={source}
+        onFocus={() => setDraft(value)}
+        onBlur={() => setDraft(null)}
+        onChange={(e) => {
+          const next = e.target.value.replace(/\s/g, "").toUpperCase();
+          setDraft(next);
+          if (isLyapunovSequence(next)) onChange(next);
+        }}
+        className={`w-full px-2 py-1 bg-gray-800 border rounded text-white text-sm font-mono ${
+          isValid ? "border-gray-700" : "border-red-500"
+        }`}
+      />
+      {isValid ? (
+        <p className="text-xs text-gray-500 mt-1">Which of a (x) and b (y) drives each step, repeated</p>
+      ) : (
+        <p className="text-xs text-red-400 mt-1">Use 1 to {MAX_LYAPUNOV_SEQUENCE} letters A or B</p>
+      )}
+    </div>
+  );
+}
+
+type Section = "fractal" | "view3d" | "buddhabrot" | "iteration" | "view" | "coloring" | "effects" | "animation" | "learn";
 
 export default function FractalControls({
   params,
   onParamsChange,
   onSave,
+  onExport,
+  onExportLoop,
+  onTimeline,
   onReset,
   isSaving,
 }: FractalControlsProps) {
   const [expandedSections, setExpandedSections] = useState<Set<Section>>(
     new Set(["fractal", "coloring", "effects"])
   );
+  const [importedPalettes, setImportedPalettes] = useState<Gradient[]>([]);
+  const [paletteFormat, setPaletteFormat] = useState<PaletteFormat>("map");
+  const [paletteError, setPaletteError] = useState<string | null>(null);
+  const paletteInputRef = useRef<HTMLInputElement>(null);
+  const fractalType = FRACTAL_TYPES[params.type];
+  const formulaParameters = fractalType.formula ? getCompiledFormula(params.formula).parameters : [];
+
+  // An imported palette stays selected in the dropdown until it's edited
+  const importedIndex = params.colorScheme === "custom" ? importedPalettes.indexOf(params.gradient) : -1;
+  const colorSchemeValue = importedIndex >= 0 ? `${IMPORTED_PREFIX}${importedIndex}` : params.colorScheme;
+
+  const handleColorSchemeChange = (value: string) => {
+    if (value.startsWith(IMPORTED_PREFIX)) {
+      const gradient = importedPalettes[Number(value.slice(IMPORTED_PREFIX.length))];
+      if (gradient) onParamsChange({ colorScheme: "custom", gradient });
+    } else {
+      onParamsChange({ colorScheme: value as ColorScheme });
+    }
+  };
+
+  const handlePaletteImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setPaletteError(null);
+    try {
+      const palettes = parsePaletteFile(file.name, await file.text());
+      setImportedPalettes((current) => [...current, ...palettes]);
+      onParamsChange({ colorScheme: "custom", gradient: palettes[0] });
+    } catch (error) {
+      setPaletteError(error instanceof Error ? error.message : "Could not read that palette");
+    }
+  };
+
+  // Built-in schemes are sampled at the texture's resolution
+  const handlePaletteExport = async () => {
+    setPaletteError(null);
+    const gradient =
+      params.colorScheme === "custom"
+        ? params.gradient
+        : schemeToGradient(
+            params.colorScheme,
+            GRADIENT_TABLE_SIZE,
+            COLOR_SCHEMES.find((scheme) => scheme.value === params.colorScheme)?.label
+          );
+    const name = gradient.name || "Fractalater";
+    const fileName = `${name.replace(/[^\w-]+/g, "-").toLowerCase()}${PALETTE_FORMATS[paletteFormat].extension}`;
+
+    try {
+      const sink = await openExportSink(fileName, paletteFormat);
+      if (!sink) return;
+      await sink.write(new TextEncoder().encode(serializePalette(gradient, paletteFormat, name)));
+      await sink.close();
+    } catch (error) {
+      console.error("Palette export failed:", error);
+      setPaletteError("Palette export failed");
+    }
+  };
 
   const toggleSection = (section: Section) => {
     const newSet = new Set(expandedSections);
@@ -86,36 +427,268 @@ export default function FractalControls({
           <div className="space-y-3">
             <select
               value={params.type}
-              onChange={(e) => onParamsChange({ type: e.target.value as FractalType })}
+              onChange={(e) => {
+                const type = e.target.value as FractalType;
+                onParamsChange({ ...FRACTAL_TYPES[type].defaults, type });
+              }}
               className="w-full px-3 py-3 md:py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500 text-base md:text-sm"
             >
-              {FRACTAL_TYPES.map((type) => (
-                <option key={type.value} value={type.value}>
-                  {type.label}
+              {FRACTAL_TYPE_IDS.map((type) => (
+                <option key={type} value={type}>
+                  {FRACTAL_TYPES[type].label}
                 </option>
               ))}
             </select>
-            <p className="text-xs text-gray-500">
-              {FRACTAL_TYPES.find((t) => t.value === params.type)?.description}
-            </p>
+            <p className="text-xs text-gray-500">{fractalType.description}</p>
 
-            {/* Power slider */}
-            <div>
-              <div className="flex justify-between text-sm mb-1">
-                <label className="text-gray-300">Power (n)</label>
-                <span className="text-gray-500">{params.power.toFixed(2)}</span>
+            {/* Julia mode, for the types that offer it */}
+            {fractalType.juliaToggle && (
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="juliaMode"
+                  checked={params.juliaMode}
+                  onChange={(e) => onParamsChange({ juliaMode: e.target.checked })}
+                  className="w-4 h-4 accent-purple-500"
+                />
+                <label htmlFor="juliaMode" className="text-sm text-gray-300">
+                  Julia mode (fixed c)
+                </label>
               </div>
-              <input
-                type="range"
-                min="1"
-                max="8"
-                step="0.1"
-                value={params.power}
-                onChange={(e) => onParamsChange({ power: parseFloat(e.target.value) })}
-                className="w-full accent-purple-500"
+            )}
+
+            {/* The type's own parameters */}
+            {getTypeParams(params).map((param) => (
+              <ParamSlider key={param.key} param={param} params={params} onParamsChange={onParamsChange} />
+            ))}
+
+            {/* Custom formula, with a slider for each name it introduces.
+                Values of names the new formula drops are dropped with them. */}
+            {fractalType.formula && (
+              <>
+                <FormulaInput
+                  value={params.formula}
+                  onChange={(formula) => onParamsChange({
+                    formula: formula.source,
+                    formulaParams: Object.fromEntries(formula.parameters
+                      .filter((name) => Object.hasOwn(params.formulaParams, name))
+                      .map((name) => [name, params.formulaParams[name]])),
+                  })}
+                />
+                {formulaParameters.map((name) => {
+                  const value = params.formulaParams[name] ?? DEFAULT_FORMULA_PARAM;
+                  return (
+                    <div key={name}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <label className="text-gray-300 font-mono">{name}</label>
+                        <span className="text-gray-500">{value.toFixed(2)}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={-FORMULA_PARAM_RANGE}
+                        max={FORMULA_PARAM_RANGE}
+                        step="0.01"
+                        value={value}
+                        onChange={(e) => onParamsChange({
+                          formulaParams: { ...params.formulaParams, [name]: parseFloat(e.target.value) },
+                        })}
+                        className="w-full accent-purple-500"
+                      />
+                    </div>
+                  );
+                })}
+              </>
+            )}
+
+            {/* Polynomial for the types drawn from its roots */}
+            {fractalType.roots && (
+              <PolynomialInput roots={params.newtonRoots} onChange={(newtonRoots) => onParamsChange({ newtonRoots })} />
+            )}
+
+            {/* Sequence for the types forced by one */}
+            {fractalType.sequence && (
+              <SequenceInput
+                value={params.lyapunovSequence}
+                onChange={(lyapunovSequence) => onParamsChange({ lyapunovSequence })}
               />
-              <p className="text-xs text-gray-500">z^n instead of z²</p>
+            )}
+
+            {/* Julia Animation */}
+            {getFractalStart(params) === "julia" && (
+              <>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="animateJulia"
+                    checked={params.animateJulia}
+                    onChange={(e) => onParamsChange({ animateJulia: e.target.checked })}
+                    className="w-4 h-4 accent-purple-500"
+                  />
+                  <label htmlFor="animateJulia" className="text-sm text-gray-300">
+                    Animate Julia (morphing)
+                  </label>
+                </div>
+
+                {params.animateJulia && (
+                  <div>
+                    <div className="flex justify-between text-sm mb-1">
+                      <label className="text-gray-300">Animation Speed</label>
+                      <span className="text-gray-500">{params.juliaAnimSpeed.toFixed(1)}x</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0.1"
+                      max="5"
+                      step="0.1"
+                      value={params.juliaAnimSpeed}
+                      onChange={(e) => onParamsChange({ juliaAnimSpeed: parseFloat(e.target.value) })}
+                      className="w-full accent-purple-500"
+                    />
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* 3D Mode */}
+      <div className="mb-4">
+        <SectionHeader section="view3d" title="3D Mode" />
+        {expandedSections.has("view3d") && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <label className="text-sm text-gray-300">Raymarch in 3D</label>
+              <button
+                onClick={() => onParamsChange(
+                  params.view3d ? { view3d: false } : { ...SHAPES_3D[params.shape3d].defaults, view3d: true, buddhabrot: false }
+                )}
+                className={`px-3 py-1 text-xs rounded-full transition ${
+                  params.view3d
+                    ? "bg-purple-600 text-white"
+                    : "bg-gray-700 text-gray-400 hover:bg-gray-600"
+                }`}
+              >
+                {params.view3d ? "ON" : "OFF"}
+              </button>
+            </div>
+
+            {params.view3d && (
+              <>
+                <select
+                  value={params.shape3d}
+                  onChange={(e) => {
+                    const shape3d = e.target.value as Shape3D;
+                    onParamsChange({ ...SHAPES_3D[shape3d].defaults, shape3d });
+                  }}
+                  className="w-full px-3 py-3 md:py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500 text-base md:text-sm"
+                >
+                  {(Object.keys(SHAPES_3D) as Shape3D[]).map((shape) => (
+                    <option key={shape} value={shape}>
+                      {SHAPES_3D[shape].label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500">{SHAPES_3D[params.shape3d].description}</p>
+
+                {/* The shape's own parameters */}
+                {SHAPES_3D[params.shape3d].params.map((param) => (
+                  <ParamSlider key={param.key} param={param} params={params} onParamsChange={onParamsChange} />
+                ))}
+
+                {/* Orbit camera */}
+                {CAMERA_PARAMS.map((param) => (
+                  <ParamSlider key={param.key} param={param} params={params} onParamsChange={onParamsChange} />
+                ))}
+
+                {/* Shading */}
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="softShadows"
+                    checked={params.softShadows}
+                    onChange={(e) => onParamsChange({ softShadows: e.target.checked })}
+                    className="w-4 h-4 accent-purple-500"
+                  />
+                  <label htmlFor="softShadows" className="text-sm text-gray-300">
+                    Soft shadows
+                  </label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="ambientOcclusion"
+                    checked={params.ambientOcclusion}
+                    onChange={(e) => onParamsChange({ ambientOcclusion: e.target.checked })}
+                    className="w-4 h-4 accent-purple-500"
+                  />
+                  <label htmlFor="ambientOcclusion" className="text-sm text-gray-300">
+                    Ambient occlusion
+                  </label>
+                </div>
+                <p className="text-xs text-gray-500">
+                  The surface takes the palette by orbit trap; the light is set under 3D Lighting
+                </p>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Buddhabrot Mode */}
+      <div className="mb-4">
+        <SectionHeader section="buddhabrot" title="Buddhabrot" />
+        {expandedSections.has("buddhabrot") && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <label className="text-sm text-gray-300">Trace escaping orbits</label>
+              <button
+                onClick={() => onParamsChange(params.buddhabrot ? { buddhabrot: false } : { buddhabrot: true, view3d: false })}
+                className={`px-3 py-1 text-xs rounded-full transition ${
+                  params.buddhabrot
+                    ? "bg-purple-600 text-white"
+                    : "bg-gray-700 text-gray-400 hover:bg-gray-600"
+                }`}
+              >
+                {params.buddhabrot ? "ON" : "OFF"}
+              </button>
             </div>
+
+            {params.buddhabrot && !supportsBuddhabrot(params) && (
+              <p className="text-xs text-yellow-500">
+                {FRACTAL_TYPES[params.type].label} has no escaping orbits to trace, so it is drawn as usual
+              </p>
+            )}
+
+            {params.buddhabrot && supportsBuddhabrot(params) && (
+              <>
+                {BUDDHABROT_PARAMS.map((param) => (
+                  <ParamSlider key={param.key} param={param} params={params} onParamsChange={onParamsChange} />
+                ))}
+
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="nebulabrot"
+                    checked={params.nebulabrot}
+                    onChange={(e) => onParamsChange({ nebulabrot: e.target.checked })}
+                    className="w-4 h-4 accent-purple-500"
+                  />
+                  <label htmlFor="nebulabrot" className="text-sm text-gray-300">
+                    Nebulabrot (an iteration limit per color)
+                  </label>
+                </div>
+                {params.nebulabrot &&
+                  NEBULABROT_PARAMS.map((param) => (
+                    <ParamSlider key={param.key} param={param} params={params} onParamsChange={onParamsChange} />
+                  ))}
+
+                <p className="text-xs text-gray-500">
+                  {params.nebulabrot ? "" : "Orbits are followed up to Max Iterations. "}
+                  The image sharpens the longer it runs; zoom out to about 0.35x to see the whole figure
+                </p>
+              </>
+            )}
           </div>
         )}
       </div>
@@ -159,80 +732,6 @@ export default function FractalControls({
         )}
       </div>
 
-      {/* Julia Set Parameters */}
-      {params.type === "julia" && (
-        <div className="mb-4">
-          <SectionHeader section="julia" title="Julia Constant (c)" />
-          {expandedSections.has("julia") && (
-            <div className="space-y-4">
-              <div>
-                <div className="flex justify-between text-sm mb-1">
-                  <label className="text-gray-300">Real Part</label>
-                  <span className="text-gray-500">{params.juliaReal.toFixed(4)}</span>
-                </div>
-                <input
-                  type="range"
-                  min="-2"
-                  max="2"
-                  step="0.001"
-                  value={params.juliaReal}
-                  onChange={(e) => onParamsChange({ juliaReal: parseFloat(e.target.value) })}
-                  className="w-full accent-purple-500"
-                />
-              </div>
-
-              <div>
-                <div className="flex justify-between text-sm mb-1">
-                  <label className="text-gray-300">Imaginary Part</label>
-                  <span className="text-gray-500">{params.juliaImag.toFixed(4)}</span>
-                </div>
-                <input
-                  type="range"
-                  min="-2"
-                  max="2"
-                  step="0.001"
-                  value={params.juliaImag}
-                  onChange={(e) => onParamsChange({ juliaImag: parseFloat(e.target.value) })}
-                  className="w-full accent-purple-500"
-                />
-              </div>
-
-              {/* Julia Animation */}
-              <div className="flex items-center gap-2">
-                <input
-                  type="checkbox"
-                  id="animateJulia"
-                  checked={params.animateJulia}
-                  onChange={(e) => onParamsChange({ animateJulia: e.target.checked })}
-                  className="w-4 h-4 accent-purple-500"
-                />
-                <label htmlFor="animateJulia" className="text-sm text-gray-300">
-                  Animate Julia (morphing)
-                </label>
-              </div>
-
-              {params.animateJulia && (
-                <div>
-                  <div className="flex justify-between text-sm mb-1">
-                    <label className="text-gray-300">Animation Speed</label>
-                    <span className="text-gray-500">{params.juliaAnimSpeed.toFixed(1)}x</span>
-                  </div>
-                  <input
-                    type="range"
-                    min="0.1"
-                    max="5"
-                    step="0.1"
-                    value={params.juliaAnimSpeed}
-                    onChange={(e) => onParamsChange({ juliaAnimSpeed: parseFloat(e.target.value) })}
-                    className="w-full accent-purple-500"
-                  />
-                </div>
-              )}
-            </div>
-          )}
-        </div>
-      )}
-
       {/* View Controls */}
       <div className="mb-4">
         <SectionHeader section="view" title="View" />
@@ -241,41 +740,29 @@ export default function FractalControls({
             <div>
               <div className="flex justify-between text-sm mb-1">
                 <label className="text-gray-300">Zoom</label>
-                <span className="text-gray-500">{params.zoom.toFixed(2)}x</span>
+                <span className="text-gray-500">{formatZoom(params.zoom)}x</span>
               </div>
               <input
                 type="range"
                 min="-2"
                 max="8"
                 step="0.01"
-                value={Math.log10(params.zoom)}
-                onChange={(e) => onParamsChange({ zoom: Math.pow(10, parseFloat(e.target.value)) })}
+                value={Math.log10(toNumber(params.zoom))}
+                onChange={(e) => onParamsChange({ zoom: String(Math.pow(10, parseFloat(e.target.value))) })}
                 className="w-full accent-purple-500"
               />
             </div>
 
-            <div className="grid grid-cols-2 gap-2">
-              <div>
-                <label className="block text-xs text-gray-400 mb-1">Center X</label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={params.centerX}
-                  onChange={(e) => onParamsChange({ centerX: parseFloat(e.target.value) || 0 })}
-                  className="w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm"
-                />
-              </div>
-              <div>
-                <label className="block text-xs text-gray-400 mb-1">Center Y</label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={params.centerY}
-                  onChange={(e) => onParamsChange({ centerY: parseFloat(e.target.value) || 0 })}
-                  className="w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm"
-                />
-              </div>
-            </div>
+            <CoordinateInput
+              label="Center X"
+              value={params.centerX}
+              onChange={(centerX) => onParamsChange({ centerX })}
+            />
+            <CoordinateInput
+              label="Center Y"
+              value={params.centerY}
+              onChange={(centerY) => onParamsChange({ centerY })}
+            />
           </div>
         )}
       </div>
@@ -288,8 +775,8 @@ export default function FractalControls({
             <div>
               <label className="block text-sm text-gray-300 mb-1">Color Scheme</label>
               <select
-                value={params.colorScheme}
-                onChange={(e) => onParamsChange({ colorScheme: e.target.value as ColorScheme })}
+                value={colorSchemeValue}
+                onChange={(e) => handleColorSchemeChange(e.target.value)}
                 className="w-full px-3 py-3 md:py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500 text-base md:text-sm"
               >
                 {COLOR_SCHEMES.map((scheme) => (
@@ -297,9 +784,63 @@ export default function FractalControls({
                     {scheme.label}
                   </option>
                 ))}
+                {importedPalettes.length > 0 && (
+                  <optgroup label="Imported">
+                    {importedPalettes.map((palette, index) => (
+                      <option key={index} value={`${IMPORTED_PREFIX}${index}`}>
+                        {palette.name || `Palette ${index + 1}`}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
               </select>
+
+              <div className="flex gap-2 mt-2">
+                <button
+                  type="button"
+                  onClick={() => paletteInputRef.current?.click()}
+                  className="flex-1 px-2 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded transition"
+                >
+                  Import...
+                </button>
+                <select
+                  value={paletteFormat}
+                  onChange={(e) => setPaletteFormat(e.target.value as PaletteFormat)}
+                  aria-label="Palette export format"
+                  className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-purple-500"
+                >
+                  {(Object.keys(PALETTE_FORMATS) as PaletteFormat[]).map((format) => (
+                    <option key={format} value={format}>
+                      {PALETTE_FORMATS[format].label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={handlePaletteExport}
+                  className="flex-1 px-2 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded transition"
+                >
+                  Export
+                </button>
+              </div>
+              <input
+                ref={paletteInputRef}
+                type="file"
+                accept=".map,.ggr,.ugr,.css,.txt"
+                onChange={handlePaletteImport}
+                className="hidden"
+              />
+              {paletteError && <p className="text-xs text-red-400 mt-1">{paletteError}</p>}
             </div>
 
+            {params.colorScheme === "custom" && (
+              <GradientEditor
+                gradient={params.gradient}
+                onChange={(gradient) => onParamsChange({ gradient })}
+                presets={BUILT_IN_SCHEMES}
+              />
+            )}
+
             <div>
               <label className="block text-sm text-gray-300 mb-1">Coloring Method</label>
               <select
@@ -318,6 +859,32 @@ export default function FractalControls({
               </p>
             </div>
 
+            <div>
+              <label className="block text-sm text-gray-300 mb-1">Interior</label>
+              <select
+                value={params.interiorColoring}
+                onChange={(e) => onParamsChange({ interiorColoring: e.target.value as InteriorColoring })}
+                className="w-full px-3 py-3 md:py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500 text-base md:text-sm"
+              >
+                {INTERIOR_COLORINGS.map((coloring) => (
+                  <option key={coloring.value} value={coloring.value}>
+                    {coloring.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {INTERIOR_COLORINGS.find((c) => c.value === params.interiorColoring)?.description}
+              </p>
+            </div>
+
+            {params.interiorColoring !== "black" && (
+              <GradientEditor
+                gradient={params.interiorGradient}
+                onChange={(interiorGradient) => onParamsChange({ interiorGradient })}
+                presets={BUILT_IN_SCHEMES}
+              />
+            )}
+
             <div>
               <div className="flex justify-between text-sm mb-1">
                 <label className="text-gray-300">Color Offset</label>
@@ -497,6 +1064,98 @@ export default function FractalControls({
                 />
               </div>
             )}
+
+            {/* Distance Estimation */}
+            <div className="space-y-4 pt-4 border-t border-gray-800">
+              {(fractalType.converges || fractalType.exponent) && (
+                <p className="text-xs text-gray-500">{fractalType.label} fractals have no distance estimate</p>
+              )}
+
+              <div>
+                <div className="flex justify-between text-sm mb-1">
+                  <label className="text-gray-300">Boundary Lines</label>
+                  <span className="text-gray-500">
+                    {params.boundaryWidth === 0 ? "Off" : `${params.boundaryWidth.toFixed(1)} px`}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="8"
+                  step="0.5"
+                  value={params.boundaryWidth}
+                  onChange={(e) => onParamsChange({ boundaryWidth: parseFloat(e.target.value) })}
+                  className="w-full accent-purple-500"
+                />
+                <p className="text-xs text-gray-500">Crisp lines along the edge of the set at any zoom</p>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm text-gray-300">3D Lighting</label>
+                  <button
+                    onClick={() => onParamsChange({ lighting: !params.lighting })}
+                    className={`px-3 py-1 text-xs rounded-full transition ${
+                      params.lighting
+                        ? "bg-purple-600 text-white"
+                        : "bg-gray-700 text-gray-400 hover:bg-gray-600"
+                    }`}
+                  >
+                    {params.lighting ? "ON" : "OFF"}
+                  </button>
+                </div>
+                {/* The 3D mode is always lit, by the same light */}
+                {(params.lighting || params.view3d) && (
+                  <>
+                    <div>
+                      <div className="flex justify-between text-xs mb-1">
+                        <span className="text-gray-400">Light Angle</span>
+                        <span className="text-gray-500">{params.lightAngle.toFixed(0)}°</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="360"
+                        step="1"
+                        value={params.lightAngle}
+                        onChange={(e) => onParamsChange({ lightAngle: parseFloat(e.target.value) })}
+                        className="w-full accent-purple-500"
+                      />
+                    </div>
+                    <div>
+                      <div className="flex justify-between text-xs mb-1">
+                        <span className="text-gray-400">Light Height</span>
+                        <span className="text-gray-500">{params.lightHeight.toFixed(2)}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0.1"
+                        max="4"
+                        step="0.05"
+                        value={params.lightHeight}
+                        onChange={(e) => onParamsChange({ lightHeight: parseFloat(e.target.value) })}
+                        className="w-full accent-purple-500"
+                      />
+                    </div>
+                    <div>
+                      <div className="flex justify-between text-xs mb-1">
+                        <span className="text-gray-400">Specular</span>
+                        <span className="text-gray-500">{params.specular.toFixed(2)}</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={params.specular}
+                        onChange={(e) => onParamsChange({ specular: parseFloat(e.target.value) })}
+                        className="w-full accent-purple-500"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
           </div>
         )}
       </div>
@@ -795,6 +1454,30 @@ export default function FractalControls({
             {isSaving ? "Saving..." : "Save Fractal"}
           </button>
         )}
+        {onExport && (
+          <button
+            onClick={onExport}
+            className="w-full py-3 md:py-2 px-4 bg-gray-700 hover:bg-gray-600 active:bg-gray-500 text-white font-medium rounded-lg transition touch-manipulation"
+          >
+            Export Image
+          </button>
+        )}
+        {onExportLoop && (
+          <button
+            onClick={onExportLoop}
+            className="w-full py-3 md:py-2 px-4 bg-gray-700 hover:bg-gray-600 active:bg-gray-500 text-white font-medium rounded-lg transition touch-manipulation"
+          >
+            Export Loop
+          </button>
+        )}
+        {onTimeline && (
+          <button
+            onClick={onTimeline}
+            className="w-full py-3 md:py-2 px-4 bg-gray-700 hover:bg-gray-600 active:bg-gray-500 text-white font-medium rounded-lg transition touch-manipulation"
+          >
+            Timeline
+          </button>
+        )}
         {onReset && (
           <button
             onClick={onReset}
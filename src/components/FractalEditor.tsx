@@ -3,11 +3,24 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import { useSession } from "next-auth/react";
 import Link from "next/link";
-import FractalCanvas from "./FractalCanvas";
+import FractalCanvas, { FractalCanvasHandle } from "./FractalCanvas";
 import FractalControls from "./FractalControls";
 import SaveModal from "./SaveModal";
+import ExportModal from "./ExportModal";
+import VideoExportModal from "./VideoExportModal";
+import LoopExportModal from "./LoopExportModal";
+import DensityExportModal from "./DensityExportModal";
+import TimelinePanel from "./TimelinePanel";
 import Logo from "./Logo";
 import { FractalParams, DEFAULT_FRACTAL_PARAMS, DEEP_ZOOM_TARGETS, DeepZoomTarget } from "@/types/fractal";
+import { FRACTAL_TYPES } from "@/fractals";
+import { selectRenderMode } from "@/lib/precision";
+import { AUTO_ORBIT_DEGREES, SHAPES_3D, wrapYaw } from "@/lib/view3d";
+import { createParamsDocument } from "@/lib/fractalParams";
+import { readParamsFromPng } from "@/lib/pngMetadata";
+import { EMPTY_TIMELINE, Timeline, addKeyframe, createKeyframe, interpolateTimeline } from "@/lib/timeline";
+import { FieldErrors, validateFractalPayload } from "@/lib/validation";
+import { coordinateDifference, formatZoom, scaleZoom, toNumber, translateCoordinate } from "@/lib/coordinates";
 
 interface FractalEditorProps {
   initialParams?: FractalParams;
@@ -18,12 +31,28 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
   const { data: session } = useSession();
   const [params, setParams] = useState<FractalParams>(initialParams || DEFAULT_FRACTAL_PARAMS);
   const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveFieldErrors, setSaveFieldErrors] = useState<FieldErrors>({});
   const [isControlsOpen, setIsControlsOpen] = useState(false);
-
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  const [isVideoModalOpen, setIsVideoModalOpen] = useState(false);
+  const [isLoopModalOpen, setIsLoopModalOpen] = useState(false);
+  const [isDensityModalOpen, setIsDensityModalOpen] = useState(false);
+  const [densitySamples, setDensitySamples] = useState(0);
+  const [timeline, setTimeline] = useState<Timeline>(EMPTY_TIMELINE);
+  const [timelineTime, setTimelineTime] = useState(0);
+  const [isTimelinePlaying, setIsTimelinePlaying] = useState(false);
+  const [dropError, setDropError] = useState<string | null>(null);
+
+  const canvasRef = useRef<FractalCanvasHandle>(null);
   const animationFrameRef = useRef<number | null>(null);
   const lastTimeRef = useRef<number>(0);
   const zoomTargetRef = useRef<DeepZoomTarget | null>(null);
+  // The playhead as of the last seek, for playback to start from
+  const timelineTimeRef = useRef(0);
 
   // Select a random deep zoom target when auto-zoom starts
   const selectZoomTarget = useCallback(() => {
@@ -81,7 +110,7 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
         // Auto zoom - exponential growth/decay with target seeking
         if (prev.autoZoom) {
           const zoomFactor = Math.exp(prev.autoZoomSpeed * speed * deltaTime);
-          updates.zoom = prev.zoom * zoomFactor;
+          updates.zoom = scaleZoom(prev.zoom, zoomFactor);
 
           // When zooming in, move toward an interesting target
           if (prev.autoZoomSpeed > 0 && prev.type === "mandelbrot") {
@@ -93,8 +122,8 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
             const target = zoomTargetRef.current;
             if (target) {
               // Calculate distance to target
-              const dx = target.centerX - prev.centerX;
-              const dy = target.centerY - prev.centerY;
+              const dx = coordinateDifference(target.centerX, prev.centerX);
+              const dy = coordinateDifference(target.centerY, prev.centerY);
               const distance = Math.sqrt(dx * dx + dy * dy);
 
               // Move toward target - faster when zoomed out, slower when zoomed in
@@ -103,8 +132,8 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
               const moveFraction = Math.min(moveSpeed, distance * 0.1);
 
               if (distance > 1e-14) { // Prevent jitter at extreme zooms
-                updates.centerX = prev.centerX + (dx / distance) * moveFraction;
-                updates.centerY = prev.centerY + (dy / distance) * moveFraction;
+                updates.centerX = translateCoordinate(prev.centerX, (dx / distance) * moveFraction, prev.zoom);
+                updates.centerY = translateCoordinate(prev.centerY, (dy / distance) * moveFraction, prev.zoom);
               }
             }
           } else if (prev.autoZoomSpeed < 0) {
@@ -113,12 +142,15 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
           }
         }
 
-        // Auto rotate - move around current center in a circle
-        if (prev.autoRotate) {
-          const radius = 0.01 / prev.zoom; // Smaller radius at higher zoom
+        // Auto rotate - swing the 3D camera around the shape, or move around
+        // the current center in a circle
+        if (prev.autoRotate && prev.view3d) {
+          updates.cameraYaw = wrapYaw(prev.cameraYaw + prev.autoRotateSpeed * speed * deltaTime * AUTO_ORBIT_DEGREES);
+        } else if (prev.autoRotate) {
+          const radius = 0.01 / toNumber(prev.zoom); // Smaller radius at higher zoom
           const t = Date.now() / 1000 * prev.autoRotateSpeed * speed;
-          updates.centerX = prev.centerX + Math.cos(t) * radius * deltaTime;
-          updates.centerY = prev.centerY + Math.sin(t) * radius * deltaTime;
+          updates.centerX = translateCoordinate(prev.centerX, Math.cos(t) * radius * deltaTime, prev.zoom);
+          updates.centerY = translateCoordinate(prev.centerY, Math.sin(t) * radius * deltaTime, prev.zoom);
         }
 
         // Auto hue shift
@@ -129,7 +161,9 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
         // Auto power oscillation
         if (prev.autoPower) {
           const powerOsc = Math.sin(Date.now() / 1000 * prev.autoPowerSpeed * speed);
-          updates.power = 2 + powerOsc * 2; // Oscillate between 0 and 4, centered on 2
+          // Oscillate between 0 and 4, centered on 2, or for the Mandelbulb
+          // between 2 and 10 around the classic 8-ish bulbs
+          updates.power = prev.view3d ? 6 + powerOsc * 4 : 2 + powerOsc * 2;
         }
 
         return { ...prev, ...updates };
@@ -164,7 +198,25 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
     async (name: string, description: string, isPublic: boolean) => {
       if (!session) return;
 
+      const payload = {
+        name,
+        description,
+        isPublic,
+        params: createParamsDocument(params),
+        thumbnail: canvasRef.current?.captureThumbnail() ?? undefined,
+      };
+
+      // Same checks the API runs, so bad params are reported without a round trip
+      const validation = validateFractalPayload(payload);
+      if (!validation.ok) {
+        setSaveError(null);
+        setSaveFieldErrors(validation.errors);
+        return;
+      }
+
       setIsSaving(true);
+      setSaveError(null);
+      setSaveFieldErrors({});
       try {
         const endpoint = fractalId ? `/api/fractals/${fractalId}` : "/api/fractals";
         const method = fractalId ? "PUT" : "POST";
@@ -172,19 +224,22 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
         const res = await fetch(endpoint, {
           method,
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            name,
-            description,
-            isPublic,
-            ...params,
-          }),
+          body: JSON.stringify(payload),
         });
 
         if (res.ok) {
           setIsSaveModalOpen(false);
+        } else {
+          const data = await res.json().catch(() => ({}));
+          if (data.fieldErrors) {
+            setSaveFieldErrors(data.fieldErrors);
+          } else {
+            setSaveError(data.error || "Failed to save fractal");
+          }
         }
       } catch (error) {
         console.error("Failed to save:", error);
+        setSaveError("Failed to save fractal");
       } finally {
         setIsSaving(false);
       }
@@ -192,6 +247,95 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
     [session, params, fractalId]
   );
 
+  // Move the playhead and show the interpolated view there
+  const seekTimeline = useCallback((time: number) => {
+    timelineTimeRef.current = time;
+    setTimelineTime(time);
+    const interpolated = interpolateTimeline(timeline, time);
+    if (interpolated) {
+      zoomTargetRef.current = null;
+      setParams(interpolated);
+    }
+  }, [timeline]);
+
+  const handleAddKeyframe = useCallback(() => {
+    setTimeline((prev) => addKeyframe(prev, createKeyframe(params, timelineTime)));
+  }, [params, timelineTime]);
+
+  const toggleTimelinePlayback = useCallback(() => {
+    if (!isTimelinePlaying && timelineTime >= timeline.duration) {
+      seekTimeline(0);
+    }
+    setIsTimelinePlaying(!isTimelinePlaying);
+  }, [isTimelinePlaying, timelineTime, timeline.duration, seekTimeline]);
+
+  // Preview playback runs on the wall clock; exports step frame by frame
+  useEffect(() => {
+    if (!isTimelinePlaying) return;
+
+    let frame: number;
+    let last = performance.now();
+    let time = timelineTimeRef.current;
+    const tick = (now: number) => {
+      time = Math.min(time + (now - last) / 1000, timeline.duration);
+      last = now;
+      seekTimeline(time);
+      if (time >= timeline.duration) {
+        setIsTimelinePlaying(false);
+      } else {
+        frame = requestAnimationFrame(tick);
+      }
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isTimelinePlaying, timeline, seekTimeline]);
+
+  // Dropping an exported PNG restores the view embedded in it
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setIsDraggingFile(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFile(false);
+  }, []);
+
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+
+    try {
+      const imported = readParamsFromPng(new Uint8Array(await file.arrayBuffer()));
+      zoomTargetRef.current = null;
+      setParams(imported);
+      setDropError(null);
+    } catch (error) {
+      setDropError(error instanceof Error ? error.message : "Failed to read image");
+    }
+  }, []);
+
+  // Hide the drop error after a few seconds
+  useEffect(() => {
+    if (!dropError) return;
+    const timeout = setTimeout(() => setDropError(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [dropError]);
+
+  const openSaveModal = useCallback(() => {
+    setSaveError(null);
+    setSaveFieldErrors({});
+    setIsSaveModalOpen(true);
+  }, []);
+
+  const renderMode = selectRenderMode(params);
+
   // Check if any animation is active
   const isAnimating =
     params.autoZoom ||
@@ -210,7 +354,7 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
             <Logo />
           </Link>
           <span className="hidden sm:inline text-gray-500 text-sm">
-            {params.type.charAt(0).toUpperCase() + params.type.slice(1)} Set
+            {FRACTAL_TYPES[params.type].label}
           </span>
           {isAnimating && (
             <span className="px-2 py-0.5 bg-purple-600/30 text-purple-300 text-xs rounded-full animate-pulse">
@@ -258,26 +402,78 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
 
       {/* Main Content */}
       <div className="flex-1 flex flex-col md:flex-row overflow-hidden relative">
-        {/* Canvas */}
-        <div className="flex-1 relative min-h-0">
-          <FractalCanvas
-            params={params}
-            onParamsChange={handleParamsChange}
-            onPerformanceDetected={handlePerformanceDetected}
-          />
-
-          {/* Status overlay */}
-          <div className="absolute bottom-20 md:bottom-4 left-4 flex flex-col gap-2">
-            <div className="bg-gray-900/80 px-3 py-1 rounded-lg text-sm text-gray-300">
-              Zoom: {params.zoom < 1000 ? params.zoom.toFixed(2) : params.zoom.toExponential(2)}x
+        <div className="flex-1 flex flex-col min-h-0">
+          {/* Canvas */}
+          <div
+            className="flex-1 relative min-h-0"
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+          >
+            <FractalCanvas
+              ref={canvasRef}
+              params={params}
+              onParamsChange={handleParamsChange}
+              onPerformanceDetected={handlePerformanceDetected}
+              onDensityProgress={setDensitySamples}
+            />
+
+            {/* Status overlay */}
+            <div className="absolute bottom-20 md:bottom-4 left-4 flex flex-col gap-2">
+              <div className="bg-gray-900/80 px-3 py-1 rounded-lg text-sm text-gray-300">
+                {params.view3d ? `3D: ${SHAPES_3D[params.shape3d].label}` : `Zoom: ${formatZoom(params.zoom)}x`}
+              </div>
+              {(renderMode === "perturbation" || renderMode === "doubleFloat") && (
+                <div className="bg-blue-900/80 px-3 py-1 rounded-lg text-xs text-blue-300">
+                  Deep zoom ({renderMode === "perturbation" ? "perturbation" : "double precision"})
+                </div>
+              )}
+              {renderMode === "density" && (
+                <div className="bg-blue-900/80 px-3 py-1 rounded-lg text-xs text-blue-300">
+                  {params.nebulabrot ? "Nebulabrot" : "Buddhabrot"}: {densitySamples.toLocaleString()} samples
+                </div>
+              )}
+              {params.autoZoom && (
+                <div className="bg-purple-900/80 px-3 py-1 rounded-lg text-xs text-purple-300">
+                  Auto-zoom: {params.autoZoomSpeed > 0 ? "In" : "Out"}
+                </div>
+              )}
             </div>
-            {params.autoZoom && (
-              <div className="bg-purple-900/80 px-3 py-1 rounded-lg text-xs text-purple-300">
-                Auto-zoom: {params.autoZoomSpeed > 0 ? "In" : "Out"}
+
+            {isDraggingFile && (
+              <div className="absolute inset-4 border-2 border-dashed border-purple-400 rounded-xl bg-black/50 flex items-center justify-center pointer-events-none">
+                <p className="text-lg text-white">Drop an exported PNG to load its view</p>
+              </div>
+            )}
+            {dropError && (
+              <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-red-900/80 px-4 py-2 rounded-lg text-sm text-red-200">
+                {dropError}
               </div>
             )}
           </div>
 
+          {isTimelineOpen && (
+            <TimelinePanel
+              timeline={timeline}
+              onTimelineChange={setTimeline}
+              time={timelineTime}
+              onSeek={(time) => {
+                setIsTimelinePlaying(false);
+                seekTimeline(time);
+              }}
+              isPlaying={isTimelinePlaying}
+              onTogglePlay={toggleTimelinePlayback}
+              onAddKeyframe={handleAddKeyframe}
+              onExport={() => {
+                setIsTimelinePlaying(false);
+                setIsVideoModalOpen(true);
+              }}
+              onClose={() => {
+                setIsTimelinePlaying(false);
+                setIsTimelineOpen(false);
+              }}
+            />
+          )}
         </div>
 
         {/* Mobile controls toggle button - positioned fixed for visibility */}
@@ -319,7 +515,10 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
           <FractalControls
             params={params}
             onParamsChange={handleParamsChange}
-            onSave={session ? () => setIsSaveModalOpen(true) : undefined}
+            onSave={session ? openSaveModal : undefined}
+            onExport={() => (renderMode === "density" ? setIsDensityModalOpen(true) : setIsExportModalOpen(true))}
+            onExportLoop={() => setIsLoopModalOpen(true)}
+            onTimeline={() => setIsTimelineOpen(true)}
             onReset={handleReset}
             isSaving={isSaving}
           />
@@ -340,6 +539,46 @@ export default function FractalEditor({ initialParams, fractalId }: FractalEdito
         onClose={() => setIsSaveModalOpen(false)}
         onSave={handleSave}
         isSaving={isSaving}
+        error={saveError}
+        fieldErrors={saveFieldErrors}
+      />
+
+      {/* Export Modal */}
+      <ExportModal
+        isOpen={isExportModalOpen}
+        params={params}
+        onClose={() => setIsExportModalOpen(false)}
+        getCanvasSize={() => canvasRef.current?.getCanvasSize() ?? { width: 0, height: 0 }}
+        createTileRenderer={() => canvasRef.current?.createTileRenderer() ?? null}
+        fileName={`fractalater-${params.type}.png`}
+      />
+
+      {/* Video Export Modal */}
+      <VideoExportModal
+        isOpen={isVideoModalOpen}
+        timeline={timeline}
+        onClose={() => setIsVideoModalOpen(false)}
+        createFrameRenderer={(width, height) => canvasRef.current?.createFrameRenderer(width, height) ?? null}
+        fileName={`fractalater-${params.type}.webm`}
+      />
+
+      {/* Loop Export Modal */}
+      <LoopExportModal
+        isOpen={isLoopModalOpen}
+        params={params}
+        onClose={() => setIsLoopModalOpen(false)}
+        createFrameRenderer={(width, height) => canvasRef.current?.createFrameRenderer(width, height) ?? null}
+        fileName={`fractalater-${params.type}-loop`}
+      />
+
+      {/* Buddhabrot Export Modal */}
+      <DensityExportModal
+        isOpen={isDensityModalOpen}
+        params={params}
+        onClose={() => setIsDensityModalOpen(false)}
+        getDensityBuffer={() => canvasRef.current?.getDensityBuffer() ?? null}
+        samples={densitySamples}
+        fileName={`fractalater-${params.type}-${params.nebulabrot ? "nebulabrot" : "buddhabrot"}.png`}
       />
     </div>
   );
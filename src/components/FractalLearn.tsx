@@ -1,144 +1,14 @@
 "use client";
 
+import { Fragment } from "react";
 import { FractalParams } from "@/types/fractal";
+import { FRACTAL_TYPES, getFractalStart, getTypeParams } from "@/fractals";
+import { formatZoom, getNumericView } from "@/lib/coordinates";
 
 interface FractalLearnProps {
   params: FractalParams;
 }
 
-interface FractalInfo {
-  name: string;
-  formula: string;
-  description: string;
-  howItWorks: string[];
-  keyInsights: string[];
-  discoveredBy?: string;
-  year?: string;
-}
-
-const fractalData: Record<string, FractalInfo> = {
-  mandelbrot: {
-    name: "Mandelbrot Set",
-    formula: "z_{n+1} = z_n² + c",
-    description:
-      "The Mandelbrot set is the set of complex numbers c for which the iteration z_{n+1} = z_n² + c does not diverge to infinity when starting with z_0 = 0.",
-    howItWorks: [
-      "Start with z = 0 and a point c on the complex plane",
-      "Repeatedly apply: z = z² + c",
-      "If |z| stays bounded (< escape radius), c is IN the set (colored black)",
-      "If |z| escapes to infinity, c is OUTSIDE the set (colored by iteration count)",
-    ],
-    keyInsights: [
-      "The boundary has infinite complexity at every scale",
-      "Small Mandelbrot copies appear throughout the boundary",
-      "The area is approximately 1.50659...",
-      "Connected: you can draw a path between any two points in the set",
-    ],
-    discoveredBy: "Benoît Mandelbrot",
-    year: "1980",
-  },
-  julia: {
-    name: "Julia Set",
-    formula: "z_{n+1} = z_n² + c",
-    description:
-      "Julia sets use the same formula as Mandelbrot, but c is fixed and we vary the starting point z_0. Each point c produces a unique Julia set.",
-    howItWorks: [
-      "Fix a complex constant c (the Julia parameter)",
-      "For each pixel, use that position as z_0",
-      "Repeatedly apply: z = z² + c",
-      "Color based on whether z escapes and how fast",
-    ],
-    keyInsights: [
-      "Points INSIDE the Mandelbrot set give connected Julia sets",
-      "Points OUTSIDE give disconnected 'dust' Julia sets",
-      "Points on the boundary give the most intricate patterns",
-      "Julia and Mandelbrot sets are deeply related: zoom into Mandelbrot and you'll see Julia-like shapes",
-    ],
-    discoveredBy: "Gaston Julia",
-    year: "1918",
-  },
-  burningShip: {
-    name: "Burning Ship",
-    formula: "z_{n+1} = (|Re(z_n)| + i|Im(z_n)|)² + c",
-    description:
-      "A variant that takes the absolute value of the real and imaginary parts before squaring. This breaks the symmetry and creates the distinctive 'ship' shape.",
-    howItWorks: [
-      "Start with z = 0 and point c",
-      "Take absolute values: z = |Re(z)| + i|Im(z)|",
-      "Square and add c: z = z² + c",
-      "The absolute value creates asymmetric, flame-like structures",
-    ],
-    keyInsights: [
-      "Named for its resemblance to a burning ship on the sea",
-      "The absolute value operation breaks complex conjugate symmetry",
-      "Contains many smaller 'ships' at different scales",
-      "Often rotated 180° for the classic ship appearance",
-    ],
-    discoveredBy: "Michael Michelitsch & Otto E. Rössler",
-    year: "1992",
-  },
-  tricorn: {
-    name: "Tricorn (Mandelbar)",
-    formula: "z_{n+1} = z̄_n² + c",
-    description:
-      "Uses the complex conjugate of z before squaring. The conjugate flips the imaginary part's sign, creating three-fold rotational symmetry.",
-    howItWorks: [
-      "Start with z = 0 and point c",
-      "Take conjugate: z̄ = Re(z) - i·Im(z)",
-      "Square and add c: z = z̄² + c",
-      "The conjugation creates the characteristic three-cornered shape",
-    ],
-    keyInsights: [
-      "Also called the 'Mandelbar' set",
-      "Has 3-fold rotational symmetry (hence 'tricorn')",
-      "The conjugate operation reverses rotation direction each iteration",
-      "Contains both Mandelbrot-like and unique structures",
-    ],
-    discoveredBy: "W.D. Crowe et al.",
-    year: "1989",
-  },
-  phoenix: {
-    name: "Phoenix Fractal",
-    formula: "z_{n+1} = z_n² + Re(c) + Im(c)·z_{n-1}",
-    description:
-      "A fractal with 'memory' - each iteration depends on both the current z and the previous z value, creating flowing, organic patterns.",
-    howItWorks: [
-      "Keep track of both z and the previous z (z_prev)",
-      "New z = z² + Re(c) + Im(c) × z_prev",
-      "The 'memory' term creates flowing, connected structures",
-      "Often produces more organic-looking fractals",
-    ],
-    keyInsights: [
-      "The z_{n-1} term adds 'inertia' to the iteration",
-      "Creates smoother, more connected patterns than standard Mandelbrot",
-      "Named for its rising, flame-like appearance",
-      "The memory effect can create spiral and wave patterns",
-    ],
-    discoveredBy: "Shigehiro Ushiki",
-    year: "1988",
-  },
-  newton: {
-    name: "Newton Fractal",
-    formula: "z_{n+1} = z_n - f(z_n)/f'(z_n)",
-    description:
-      "Based on Newton's method for finding roots of equations. Colors show which root each starting point converges to and how quickly.",
-    howItWorks: [
-      "Uses Newton's root-finding method on f(z) = z³ - 1",
-      "This equation has three roots (cube roots of 1)",
-      "Each pixel is colored by which root it converges to",
-      "Brightness shows convergence speed",
-    ],
-    keyInsights: [
-      "Boundaries between root basins are fractally complex",
-      "Points on boundaries may never converge",
-      "Different polynomials create different Newton fractals",
-      "Demonstrates chaos: tiny changes in start → different outcomes",
-    ],
-    discoveredBy: "Based on Isaac Newton's method (1669)",
-    year: "Fractal visualization: ~1980s",
-  },
-};
-
 const coloringMethodInfo: Record<string, { name: string; description: string }> = {
   escape: {
     name: "Escape Time",
@@ -164,11 +34,21 @@ const coloringMethodInfo: Record<string, { name: string; description: string }>
     name: "Domain Coloring",
     description: "Colors the final z value directly: hue from angle, brightness from magnitude. Shows the complex function's behavior.",
   },
+  histogram: {
+    name: "Histogram Coloring",
+    description: "Counts how many pixels escape at each smooth iteration count and colors by rank instead of count, so every band of the view gets an equal share of the palette at any zoom.",
+  },
+  distance: {
+    name: "Distance Estimation",
+    description: "Tracks the derivative dz/dc alongside z to estimate each point's distance to the set: |z|·log|z| / 2|dz/dc|. Colors by that distance, on a log scale.",
+  },
 };
 
 export default function FractalLearn({ params }: FractalLearnProps) {
-  const info = fractalData[params.type] || fractalData.mandelbrot;
+  const fractalType = FRACTAL_TYPES[params.type] ?? FRACTAL_TYPES.mandelbrot;
+  const info = fractalType.learn;
   const colorInfo = coloringMethodInfo[params.coloringMethod] || coloringMethodInfo.escape;
+  const view = getNumericView(params);
 
   return (
     <div className="space-y-4 text-sm">
@@ -185,6 +65,12 @@ export default function FractalLearn({ params }: FractalLearnProps) {
           {info.description}
         </p>
 
+        {info.juliaMode && getFractalStart(params) === "julia" && (
+          <p className="text-gray-400 text-xs leading-relaxed mb-3">
+            <span className="text-blue-300">Julia mode:</span> {info.juliaMode}
+          </p>
+        )}
+
         {info.discoveredBy && (
           <p className="text-xs text-gray-500">
             Discovered by {info.discoveredBy} ({info.year})
@@ -215,12 +101,12 @@ export default function FractalLearn({ params }: FractalLearnProps) {
         <div className="grid grid-cols-2 gap-2 text-xs font-mono">
           <div className="text-gray-500">Center:</div>
           <div className="text-gray-300">
-            {params.centerX.toFixed(6)} {params.centerY >= 0 ? "+" : ""}{params.centerY.toFixed(6)}i
+            {view.centerX.toFixed(6)} {view.centerY >= 0 ? "+" : ""}{view.centerY.toFixed(6)}i
           </div>
 
           <div className="text-gray-500">Zoom:</div>
           <div className="text-gray-300">
-            {params.zoom < 1000 ? params.zoom.toFixed(2) : params.zoom.toExponential(2)}×
+            {formatZoom(params.zoom)}×
           </div>
 
           <div className="text-gray-500">Iterations:</div>
@@ -229,21 +115,12 @@ export default function FractalLearn({ params }: FractalLearnProps) {
           <div className="text-gray-500">Escape radius:</div>
           <div className="text-gray-300">{params.escapeRadius}</div>
 
-          {params.type === "julia" && (
-            <>
-              <div className="text-gray-500">Julia c:</div>
-              <div className="text-gray-300">
-                {params.juliaReal.toFixed(4)} {params.juliaImag >= 0 ? "+" : ""}{params.juliaImag.toFixed(4)}i
-              </div>
-            </>
-          )}
-
-          {params.power !== 2 && (
-            <>
-              <div className="text-gray-500">Power:</div>
-              <div className="text-gray-300">{params.power.toFixed(2)}</div>
-            </>
-          )}
+          {getTypeParams(params).map((param) => (
+            <Fragment key={param.key}>
+              <div className="text-gray-500">{param.label}:</div>
+              <div className="text-gray-300">{params[param.key].toFixed(param.digits)}</div>
+            </Fragment>
+          ))}
         </div>
       </div>
 
@@ -0,0 +1,209 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { BuiltInColorScheme, Gradient, GradientRepeat, GradientSpace } from "@/types/fractal";
+import { MAX_GRADIENT_STOPS, MIN_GRADIENT_STOPS, insertGradientStop, toCssGradient } from "@/lib/gradient";
+import { schemeToGradient } from "@/lib/paletteFiles";
+
+interface GradientEditorProps {
+  gradient: Gradient;
+  onChange: (gradient: Gradient) => void;
+  // Built-in schemes offered as starting points
+  presets: { value: BuiltInColorScheme; label: string }[];
+}
+
+const SPACES: { value: GradientSpace; label: string }[] = [
+  { value: "rgb", label: "RGB" },
+  { value: "hsv", label: "HSV" },
+  { value: "oklab", label: "OKLab" },
+];
+
+const REPEATS: { value: GradientRepeat; label: string }[] = [
+  { value: "repeat", label: "Repeat" },
+  { value: "mirror", label: "Mirror" },
+];
+
+// Stops sampled from a built-in scheme when starting from it: few enough
+// to edit by hand
+const PRESET_STOPS = 9;
+
+// Arrow keys move the focused stop by this much (ten times with Shift)
+const KEYBOARD_STEP = 0.01;
+
+const clampPosition = (position: number) => Math.min(1, Math.max(0, position));
+
+export default function GradientEditor({ gradient, onChange, presets }: GradientEditorProps) {
+  const [selected, setSelected] = useState(0);
+  const barRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef<number | null>(null);
+
+  const selectedIndex = Math.min(selected, gradient.stops.length - 1);
+  const selectedStop = gradient.stops[selectedIndex];
+  const canAdd = gradient.stops.length < MAX_GRADIENT_STOPS;
+  const canRemove = gradient.stops.length > MIN_GRADIENT_STOPS;
+
+  const positionAt = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return clampPosition((clientX - rect.left) / rect.width);
+  };
+
+  const updateStop = (index: number, changes: Partial<Gradient["stops"][number]>) => {
+    onChange({
+      ...gradient,
+      stops: gradient.stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop)),
+    });
+  };
+
+  const removeStop = (index: number) => {
+    if (!canRemove) return;
+    onChange({ ...gradient, stops: gradient.stops.filter((_, i) => i !== index) });
+    setSelected(Math.max(0, index - 1));
+  };
+
+  // Clicking the bar away from a handle adds a stop there
+  const handleBarPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!canAdd || e.target !== e.currentTarget) return;
+    onChange(insertGradientStop(gradient, positionAt(e.clientX)));
+    setSelected(gradient.stops.length);
+  };
+
+  const handleStopPointerDown = (index: number, e: React.PointerEvent<HTMLButtonElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    draggingRef.current = index;
+    setSelected(index);
+  };
+
+  const handleStopPointerMove = (index: number, e: React.PointerEvent<HTMLButtonElement>) => {
+    if (draggingRef.current !== index) return;
+    updateStop(index, { position: positionAt(e.clientX) });
+  };
+
+  const handleStopKeyDown = (index: number, e: React.KeyboardEvent<HTMLButtonElement>) => {
+    const step = e.shiftKey ? KEYBOARD_STEP * 10 : KEYBOARD_STEP;
+    if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      e.preventDefault();
+      const direction = e.key === "ArrowLeft" ? -1 : 1;
+      updateStop(index, { position: clampPosition(gradient.stops[index].position + direction * step) });
+    } else if (e.key === "Delete" || e.key === "Backspace") {
+      e.preventDefault();
+      removeStop(index);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative pb-4">
+        <div
+          ref={barRef}
+          onPointerDown={handleBarPointerDown}
+          className={`h-8 rounded-lg border border-gray-700 ${canAdd ? "cursor-copy" : ""}`}
+          style={{ background: toCssGradient(gradient) }}
+          title={canAdd ? "Click to add a color stop" : undefined}
+        />
+        {gradient.stops.map((stop, index) => (
+          <button
+            key={index}
+            type="button"
+            aria-label={`Color stop at ${Math.round(stop.position * 100)}%`}
+            onPointerDown={(e) => handleStopPointerDown(index, e)}
+            onPointerMove={(e) => handleStopPointerMove(index, e)}
+            onPointerUp={() => (draggingRef.current = null)}
+            onKeyDown={(e) => handleStopKeyDown(index, e)}
+            className={`absolute bottom-0 w-4 h-4 -ml-2 rounded-sm border-2 touch-none cursor-ew-resize ${
+              index === selectedIndex ? "border-white ring-2 ring-purple-500" : "border-gray-400"
+            }`}
+            style={{ left: `${stop.position * 100}%`, backgroundColor: stop.color }}
+          />
+        ))}
+      </div>
+
+      {selectedStop && (
+        <div className="flex items-end gap-2">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Color</label>
+            <input
+              type="color"
+              value={selectedStop.color}
+              onChange={(e) => updateStop(selectedIndex, { color: e.target.value })}
+              className="w-10 h-8 bg-gray-800 border border-gray-700 rounded cursor-pointer"
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-xs text-gray-400 mb-1">Position (%)</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={1}
+              value={Math.round(selectedStop.position * 1000) / 10}
+              onChange={(e) => updateStop(selectedIndex, { position: clampPosition(Number(e.target.value) / 100) })}
+              className="w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-purple-500"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => removeStop(selectedIndex)}
+            disabled={!canRemove}
+            className="px-3 py-1 h-8 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-sm rounded transition"
+          >
+            Remove
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Blend In</label>
+          <select
+            value={gradient.space}
+            onChange={(e) => onChange({ ...gradient, space: e.target.value as GradientSpace })}
+            className="w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-purple-500"
+          >
+            {SPACES.map((space) => (
+              <option key={space.value} value={space.value}>
+                {space.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Past the Ends</label>
+          <select
+            value={gradient.repeat}
+            onChange={(e) => onChange({ ...gradient, repeat: e.target.value as GradientRepeat })}
+            className="w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-purple-500"
+          >
+            {REPEATS.map((repeat) => (
+              <option key={repeat.value} value={repeat.value}>
+                {repeat.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Start From</label>
+        <select
+          value=""
+          onChange={(e) => {
+            if (!e.target.value) return;
+            onChange(schemeToGradient(e.target.value as BuiltInColorScheme, PRESET_STOPS));
+            setSelected(0);
+          }}
+          className="w-full px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-purple-500"
+        >
+          <option value="">Built-in scheme…</option>
+          {presets.map((preset) => (
+            <option key={preset.value} value={preset.value}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-gray-500">Click the bar to add a stop; drag stops to move them.</p>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { FractalParams } from "@/types/fractal";
+import {
+  LoopFormat,
+  MAX_LOOP_SIZE,
+  computeLoop,
+  exportLoop,
+  getMaxLoopFrames,
+} from "@/lib/loopExport";
+import { DitherMode } from "@/lib/quantize";
+import { FrameRenderer } from "@/lib/videoExport";
+import { openExportSink } from "@/lib/exportSink";
+
+interface LoopExportModalProps {
+  isOpen: boolean;
+  params: FractalParams;
+  onClose: () => void;
+  createFrameRenderer: (width: number, height: number) => FrameRenderer | null;
+  // File name without extension
+  fileName: string;
+}
+
+const SIZE_PRESETS = [
+  { label: "320×180", width: 320, height: 180 },
+  { label: "480×270", width: 480, height: 270 },
+  { label: "640×360", width: 640, height: 360 },
+  { label: "512²", width: 512, height: 512 },
+];
+
+const DITHER_OPTIONS: { value: DitherMode; label: string }[] = [
+  { value: "ordered", label: "Ordered (stable between frames)" },
+  { value: "floyd-steinberg", label: "Floyd–Steinberg (smoother, may shimmer)" },
+  { value: "none", label: "None" },
+];
+
+// Frames per second we suggest before the user picks a count
+const DEFAULT_LOOP_FPS = 25;
+
+interface Progress {
+  completed: number;
+  total: number;
+}
+
+export default function LoopExportModal({ isOpen, params, onClose, createFrameRenderer, fileName }: LoopExportModalProps) {
+  const [format, setFormat] = useState<LoopFormat>("gif");
+  const [width, setWidth] = useState(480);
+  const [height, setHeight] = useState(270);
+  const [frameCount, setFrameCount] = useState<number | null>(null);
+  const [dither, setDither] = useState<DitherMode>("ordered");
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  if (!isOpen) return null;
+
+  const loop = computeLoop(params);
+  const maxFrames = loop ? getMaxLoopFrames(loop) : 2;
+  // Until the user picks a count, follow the loop length
+  const suggestedFrames = Math.round((loop?.duration ?? 0) * DEFAULT_LOOP_FPS);
+  const effectiveFrames = Math.max(2, Math.min(frameCount ?? suggestedFrames, maxFrames));
+
+  const isExporting = progress !== null;
+  const isValidSize = (value: number) => Number.isInteger(value) && value >= 1 && value <= MAX_LOOP_SIZE;
+  const canExport = loop !== null && isValidSize(width) && isValidSize(height) && !isExporting;
+
+  const handleExport = async () => {
+    setError(null);
+
+    // The file picker needs the click's user activation, so open it first
+    const sink = await openExportSink(`${fileName}.${format === "gif" ? "gif" : "png"}`, format);
+    if (!sink) return;
+
+    const renderer = createFrameRenderer(width, height);
+    if (!renderer) {
+      await sink.abort();
+      setError("WebGL is not available");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ completed: 0, total: effectiveFrames });
+
+    try {
+      await exportLoop(renderer, params, sink, {
+        format,
+        width,
+        height,
+        frameCount: effectiveFrames,
+        dither,
+        signal: controller.signal,
+        onProgress: (completed, total) => setProgress({ completed, total }),
+      });
+      onClose();
+    } catch (exportError) {
+      if (!controller.signal.aborted) {
+        console.error("Loop export failed:", exportError);
+        setError(exportError instanceof Error ? exportError.message : "Loop export failed");
+      }
+    } finally {
+      renderer.dispose();
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    if (isExporting) {
+      abortRef.current?.abort();
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-xl p-6 w-full max-w-md border border-gray-800">
+        <h2 className="text-xl font-semibold text-white mb-4">Export Loop</h2>
+
+        {loop ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {(["gif", "apng"] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  disabled={isExporting}
+                  onClick={() => setFormat(option)}
+                  className={`py-2 rounded-lg text-sm font-medium transition ${
+                    format === option ? "bg-purple-600 text-white" : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                  }`}
+                >
+                  {option === "gif" ? "GIF" : "APNG"}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {SIZE_PRESETS.map((preset) => (
+                <button
+                  key={preset.label}
+                  type="button"
+                  disabled={isExporting}
+                  onClick={() => {
+                    setWidth(preset.width);
+                    setHeight(preset.height);
+                  }}
+                  className="px-3 py-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-sm rounded-lg transition"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Width</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_LOOP_SIZE}
+                  value={width}
+                  disabled={isExporting}
+                  onChange={(e) => setWidth(Math.round(Number(e.target.value)))}
+                  className={`w-full px-3 py-2 bg-gray-800 border rounded-lg text-white focus:outline-none focus:border-purple-500 ${
+                    isValidSize(width) ? "border-gray-700" : "border-red-500"
+                  }`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Height</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_LOOP_SIZE}
+                  value={height}
+                  disabled={isExporting}
+                  onChange={(e) => setHeight(Math.round(Number(e.target.value)))}
+                  className={`w-full px-3 py-2 bg-gray-800 border rounded-lg text-white focus:outline-none focus:border-purple-500 ${
+                    isValidSize(height) ? "border-gray-700" : "border-red-500"
+                  }`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Frames</label>
+                <input
+                  type="number"
+                  min={2}
+                  max={maxFrames}
+                  value={effectiveFrames}
+                  disabled={isExporting}
+                  onChange={(e) => setFrameCount(Math.max(2, Math.round(Number(e.target.value))))}
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+                />
+              </div>
+            </div>
+
+            {format === "gif" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Dithering</label>
+                <select
+                  value={dither}
+                  disabled={isExporting}
+                  onChange={(e) => setDither(e.target.value as DitherMode)}
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+                >
+                  {DITHER_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Seamless loop of {loop.duration.toFixed(2)}s at {(effectiveFrames / loop.duration).toFixed(1)} fps.
+              {format === "gif" ? " Each frame gets its own 256-color palette." : " Full color; plays in modern browsers."}
+            </p>
+
+            {isExporting && (
+              <div>
+                <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-purple-600 transition-all"
+                    style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+                  />
+                </div>
+                <p className="text-xs text-gray-400 mt-1">
+                  Frame {progress.completed} of {progress.total}
+                </p>
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">
+            Nothing in this view repeats over time. Turn on color cycling, auto hue shift or Julia animation to export a
+            loop.
+          </p>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-sm text-red-400">{error}</div>
+        )}
+
+        <div className="flex gap-3 pt-6">
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="flex-1 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-medium rounded-lg transition"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!canExport}
+            className="flex-1 py-2 px-4 bg-purple-600 hover:bg-purple-700 disabled:bg-purple-600/50 text-white font-medium rounded-lg transition"
+          >
+            {isExporting ? "Exporting..." : `Export ${format === "gif" ? "GIF" : "APNG"}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,45 @@
 "use client";
 
 import { useState } from "react";
+import { FieldErrors, validateFractalDetails, MAX_NAME_LENGTH, MAX_DESCRIPTION_LENGTH } from "@/lib/validation";
 
 interface SaveModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (name: string, description: string, isPublic: boolean) => void;
   isSaving: boolean;
+  // Message for failures that aren't tied to a field
+  error?: string | null;
+  // Field errors from the API, keyed by path ("name", "params.zoom", ...)
+  fieldErrors?: FieldErrors;
 }
 
-export default function SaveModal({ isOpen, onClose, onSave, isSaving }: SaveModalProps) {
+const FieldError = ({ message }: { message?: string }) => {
+  if (!message) return null;
+  return <p className="text-xs text-red-400 mt-1">{message}</p>;
+};
+
+export default function SaveModal({ isOpen, onClose, onSave, isSaving, error, fieldErrors = {} }: SaveModalProps) {
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [isPublic, setIsPublic] = useState(false);
+  const [localErrors, setLocalErrors] = useState<FieldErrors>({});
 
   if (!isOpen) return null;
 
+  const errors = { ...fieldErrors, ...localErrors };
+
+  // Errors for the view settings have no input in this form, so they are
+  // listed together above the buttons
+  const otherErrors = Object.entries(errors).filter(
+    ([field]) => field !== "name" && field !== "description" && field !== "isPublic"
+  );
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (name.trim()) {
+    const detailErrors = validateFractalDetails(name, description);
+    setLocalErrors(detailErrors);
+    if (Object.keys(detailErrors).length === 0) {
       onSave(name.trim(), description.trim(), isPublic);
     }
   };
@@ -37,10 +58,14 @@ export default function SaveModal({ isOpen, onClose, onSave, isSaving }: SaveMod
               type="text"
               value={name}
               onChange={(e) => setName(e.target.value)}
-              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+              className={`w-full px-4 py-2 bg-gray-800 border rounded-lg text-white focus:outline-none focus:border-purple-500 ${
+                errors.name ? "border-red-500" : "border-gray-700"
+              }`}
               placeholder="My awesome fractal"
+              maxLength={MAX_NAME_LENGTH}
               required
             />
+            <FieldError message={errors.name} />
           </div>
 
           <div>
@@ -50,10 +75,14 @@ export default function SaveModal({ isOpen, onClose, onSave, isSaving }: SaveMod
             <textarea
               value={description}
               onChange={(e) => setDescription(e.target.value)}
-              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500 resize-none"
+              className={`w-full px-4 py-2 bg-gray-800 border rounded-lg text-white focus:outline-none focus:border-purple-500 resize-none ${
+                errors.description ? "border-red-500" : "border-gray-700"
+              }`}
               rows={3}
               placeholder="Optional description..."
+              maxLength={MAX_DESCRIPTION_LENGTH}
             />
+            <FieldError message={errors.description} />
           </div>
 
           <div className="flex items-center gap-2">
@@ -68,6 +97,22 @@ export default function SaveModal({ isOpen, onClose, onSave, isSaving }: SaveMod
               Make this fractal public
             </label>
           </div>
+          <FieldError message={errors.isPublic} />
+
+          {(error || otherErrors.length > 0) && (
+            <div className="p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-sm text-red-400">
+              {error && <p>{error}</p>}
+              {otherErrors.length > 0 && (
+                <ul className="space-y-1">
+                  {otherErrors.map(([field, message]) => (
+                    <li key={field}>
+                      <span className="font-mono text-xs text-red-300">{field.replace(/^params\./, "")}</span>: {message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
 
           <div className="flex gap-3 pt-2">
             <button
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import {
+  MAX_TIMELINE_DURATION,
+  Timeline,
+  moveKeyframe,
+  removeKeyframe,
+  setTimelineDuration,
+} from "@/lib/timeline";
+
+interface TimelinePanelProps {
+  timeline: Timeline;
+  onTimelineChange: (timeline: Timeline) => void;
+  // Playhead position in seconds; seeking loads the interpolated view
+  time: number;
+  onSeek: (time: number) => void;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  // Pin the current view at the playhead
+  onAddKeyframe: () => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+export default function TimelinePanel({
+  timeline,
+  onTimelineChange,
+  time,
+  onSeek,
+  isPlaying,
+  onTogglePlay,
+  onAddKeyframe,
+  onExport,
+  onClose,
+}: TimelinePanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = timeline.keyframes.find((k) => k.id === selectedId) ?? null;
+  const hasKeyframes = timeline.keyframes.length > 0;
+
+  const position = (seconds: number) => `${(seconds / timeline.duration) * 100}%`;
+
+  return (
+    <div className="bg-gray-900 border-t border-gray-800 p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={onTogglePlay}
+          disabled={!hasKeyframes}
+          className="px-3 py-1 bg-purple-600 hover:bg-purple-700 disabled:bg-purple-600/50 text-white text-sm font-medium rounded-lg transition"
+        >
+          {isPlaying ? "Pause" : "Play"}
+        </button>
+        <button
+          onClick={onAddKeyframe}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm font-medium rounded-lg transition"
+        >
+          Add Keyframe
+        </button>
+        <span className="text-sm text-gray-400 tabular-nums">
+          {formatTime(time)} / {formatTime(timeline.duration)}
+        </span>
+
+        <label className="flex items-center gap-2 text-sm text-gray-400 ml-auto">
+          Duration
+          <input
+            type="number"
+            min={1}
+            max={MAX_TIMELINE_DURATION}
+            step={1}
+            value={timeline.duration}
+            onChange={(e) => {
+              const duration = parseFloat(e.target.value);
+              if (Number.isFinite(duration) && duration > 0) {
+                onTimelineChange(setTimelineDuration(timeline, duration));
+              }
+            }}
+            className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+          />
+        </label>
+        <button
+          onClick={onExport}
+          disabled={!hasKeyframes}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition"
+        >
+          Export Video
+        </button>
+        <button
+          onClick={onClose}
+          className="px-2 py-1 text-gray-400 hover:text-white text-sm transition"
+          aria-label="Close timeline"
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Scrubber with keyframe markers */}
+      <div className="relative h-8">
+        <input
+          type="range"
+          min={0}
+          max={timeline.duration}
+          step={0.01}
+          value={time}
+          onChange={(e) => onSeek(parseFloat(e.target.value))}
+          className="absolute inset-x-0 top-1/2 -translate-y-1/2 w-full accent-purple-500"
+          aria-label="Playhead"
+        />
+        {timeline.keyframes.map((keyframe) => (
+          <button
+            key={keyframe.id}
+            onClick={() => {
+              setSelectedId(keyframe.id);
+              onSeek(keyframe.time);
+            }}
+            style={{ left: position(keyframe.time) }}
+            className={`absolute top-0 w-3 h-3 -translate-x-1/2 rotate-45 border ${
+              keyframe.id === selectedId ? "bg-yellow-400 border-yellow-200" : "bg-purple-500 border-purple-300"
+            }`}
+            title={`Keyframe at ${formatTime(keyframe.time)}`}
+          />
+        ))}
+      </div>
+
+      {selected ? (
+        <div className="flex items-center gap-3 text-sm text-gray-400">
+          <label className="flex items-center gap-2">
+            Keyframe time
+            <input
+              type="number"
+              min={0}
+              max={timeline.duration}
+              step={0.1}
+              value={selected.time}
+              onChange={(e) => {
+                const keyframeTime = parseFloat(e.target.value);
+                if (Number.isFinite(keyframeTime)) {
+                  onTimelineChange(moveKeyframe(timeline, selected.id, keyframeTime));
+                }
+              }}
+              className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+            />
+          </label>
+          <button
+            onClick={() => {
+              onTimelineChange(removeKeyframe(timeline, selected.id));
+              setSelectedId(null);
+            }}
+            className="text-red-400 hover:text-red-300 transition"
+          >
+            Delete
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {hasKeyframes
+            ? "Click a keyframe to edit it. Zoom follows a constant rate between keyframes, and the center follows a smooth path."
+            : "Move the playhead, set up a view and add a keyframe. Views between keyframes are interpolated."}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  FRAME_RATES,
+  FrameRate,
+  FrameRenderer,
+  VIDEO_QUALITIES,
+  VideoQuality,
+  canEncodeVideo,
+  exportVideo,
+} from "@/lib/videoExport";
+import { openExportSink } from "@/lib/exportSink";
+import { Timeline, getFrameCount } from "@/lib/timeline";
+
+interface VideoExportModalProps {
+  isOpen: boolean;
+  timeline: Timeline;
+  onClose: () => void;
+  createFrameRenderer: (width: number, height: number) => FrameRenderer | null;
+  fileName: string;
+}
+
+// Encoders want even dimensions, so only fixed sizes are offered
+const RESOLUTIONS = [
+  { label: "720p", width: 1280, height: 720 },
+  { label: "1080p", width: 1920, height: 1080 },
+  { label: "1440p", width: 2560, height: 1440 },
+  { label: "4K", width: 3840, height: 2160 },
+  { label: "Square 1080", width: 1080, height: 1080 },
+];
+
+const QUALITY_LABELS: Record<VideoQuality, string> = {
+  standard: "Standard",
+  high: "High",
+  maximum: "Maximum",
+};
+
+interface Progress {
+  completed: number;
+  total: number;
+}
+
+export default function VideoExportModal({ isOpen, timeline, onClose, createFrameRenderer, fileName }: VideoExportModalProps) {
+  const [resolution, setResolution] = useState(1);
+  const [fps, setFps] = useState<FrameRate>(60);
+  const [quality, setQuality] = useState<VideoQuality>("high");
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  if (!isOpen) return null;
+
+  const isExporting = progress !== null;
+  const { width, height } = RESOLUTIONS[resolution];
+  const totalFrames = getFrameCount(timeline, fps);
+
+  const handleExport = async () => {
+    setError(null);
+
+    // The file picker needs the click's user activation, so open it first
+    const sink = await openExportSink(fileName, "webm");
+    if (!sink) return;
+
+    const renderer = createFrameRenderer(width, height);
+    if (!renderer) {
+      await sink.abort();
+      setError("This GPU can't render frames that large");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ completed: 0, total: totalFrames });
+
+    try {
+      await exportVideo(renderer, timeline, sink, {
+        width,
+        height,
+        fps,
+        quality,
+        signal: controller.signal,
+        onProgress: (completed, total) => setProgress({ completed, total }),
+      });
+      onClose();
+    } catch (exportError) {
+      if (!controller.signal.aborted) {
+        console.error("Video export failed:", exportError);
+        setError(exportError instanceof Error ? exportError.message : "Video export failed");
+      }
+    } finally {
+      renderer.dispose();
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    if (isExporting) {
+      abortRef.current?.abort();
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-xl p-6 w-full max-w-md border border-gray-800">
+        <h2 className="text-xl font-semibold text-white mb-4">Export Video</h2>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Resolution</label>
+            <select
+              value={resolution}
+              disabled={isExporting}
+              onChange={(e) => setResolution(Number(e.target.value))}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+            >
+              {RESOLUTIONS.map((option, index) => (
+                <option key={option.label} value={index}>
+                  {option.label} ({option.width}×{option.height})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Frame rate</label>
+              <select
+                value={fps}
+                disabled={isExporting}
+                onChange={(e) => setFps(Number(e.target.value) as FrameRate)}
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+              >
+                {FRAME_RATES.map((rate) => (
+                  <option key={rate} value={rate}>
+                    {rate} fps
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Quality</label>
+              <select
+                value={quality}
+                disabled={isExporting}
+                onChange={(e) => setQuality(e.target.value as VideoQuality)}
+                className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:border-purple-500"
+              >
+                {(Object.keys(VIDEO_QUALITIES) as VideoQuality[]).map((option) => (
+                  <option key={option} value={option}>
+                    {QUALITY_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {totalFrames.toLocaleString()} frames over {timeline.duration}s, each rendered at full iterations.
+          </p>
+          {!canEncodeVideo() && (
+            <p className="text-xs text-yellow-400">
+              This browser lacks WebCodecs, so frames are recorded in real time and slow frames may stutter.
+            </p>
+          )}
+
+          {isExporting && (
+            <div>
+              <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-purple-600 transition-all"
+                  style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                Frame {progress.completed} of {progress.total}
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-sm text-red-400">{error}</div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="flex-1 py-2 px-4 bg-gray-700 hover:bg-gray-600 text-white font-medium rounded-lg transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={isExporting}
+              className="flex-1 py-2 px-4 bg-purple-600 hover:bg-purple-700 disabled:bg-purple-600/50 text-white font-medium rounded-lg transition"
+            >
+              {isExporting ? "Exporting..." : "Export WebM"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { FractalTypeDefinition } from "./types";
+import { POWER_PARAM, powerWithDerivative } from "./shared";
+
+export const buffalo: FractalTypeDefinition = {
+  label: "Buffalo",
+  description: "Uses |Re(z²)| and |Im(z²)|",
+  start: "zero",
+  juliaToggle: true,
+  defaults: { centerX: "-0.4", centerY: "-0.4", zoom: "0.35" },
+  params: [POWER_PARAM],
+  // Not analytic: der is the derivative along uv's x axis, folded with z^n
+  // by the Burning Ship type's foldBurningShip()
+  shader: {
+    iterate: `
+      vec2 w = complexPow(z, u_power);
+      der = foldBurningShip(stepDerivative(z, der, vec2(0.0)), w) + dc;
+      z = abs(w) + c;`,
+    doubleFloat: `
+      der = foldBurningShip(stepDerivative(z, der, vec2(0.0)), complexMul(z, z)) + dc;
+      dsSquareAdd(x, y, vec2(0.0), vec2(0.0));
+      x = dsAdd(dsAbs(x), cx);
+      y = dsAdd(dsAbs(y), cy);`,
+  },
+  iterate: (state, { power }) => {
+    const [wx, wy, dwx, dwy] = powerWithDerivative(power, state.zx, state.zy, state.derX, state.derY);
+    state.derX = (wx < 0 ? -dwx : dwx) + state.dc;
+    state.derY = wy < 0 ? -dwy : dwy;
+    state.zx = Math.abs(wx) + state.cx;
+    state.zy = Math.abs(wy) + state.cy;
+  },
+  learn: {
+    name: "Buffalo",
+    formula: "z_{n+1} = |Re(z_n²)| + i·|Im(z_n²)| + c",
+    description:
+      "A close relative of the Burning Ship that folds after squaring instead of before: both parts of z² are made positive. The main body resembles a buffalo's head, horns and all.",
+    howItWorks: [
+      "Start with z = 0 and c at the pixel",
+      "Square z as for the Mandelbrot set",
+      "Take the absolute value of both the real and the imaginary part, then add c",
+      "Color based on whether z escapes and how fast",
+    ],
+    keyInsights: [
+      "Folding after squaring instead of before is the only difference from the Burning Ship",
+      "The fold removes all symmetry, like the Burning Ship's",
+      "Its minibrots carry small horns of their own",
+      "Julia mode draws the matching Buffalo Julia sets",
+    ],
+    juliaMode: "Each pixel is the starting z and c is the Julia constant; both folds still apply at every step.",
+  },
+};
@@ -0,0 +1,50 @@
+import { FractalTypeDefinition } from "./types";
+import { POWER_PARAM, stepPower } from "./shared";
+
+export const burningShip: FractalTypeDefinition = {
+  label: "Burning Ship",
+  description: "Uses |Re(z)| and |Im(z)|",
+  start: "zero",
+  defaults: { centerX: "-0.4", centerY: "-0.5", zoom: "0.5" },
+  params: [POWER_PARAM],
+  // Not analytic: der is the derivative along uv's x axis, which the fold
+  // into the first quadrant flips with z
+  shader: {
+    functions: `
+      vec2 foldBurningShip(vec2 v, vec2 z) {
+        return vec2(z.x < 0.0 ? -v.x : v.x, z.y < 0.0 ? -v.y : v.y);
+      }`,
+    iterate: `
+      der = stepDerivative(abs(z), foldBurningShip(der, z), dc);
+      z = complexPow(abs(z), u_power) + c;`,
+    doubleFloat: `
+      der = stepDerivative(abs(z), foldBurningShip(der, z), dc);
+      x = dsAbs(x);
+      y = dsAbs(y);
+      dsSquareAdd(x, y, cx, cy);`,
+  },
+  iterate: (state, { power }) => {
+    const { zx, zy, derX, derY } = state;
+    stepPower(state, power, Math.abs(zx), Math.abs(zy), zx < 0 ? -derX : derX, zy < 0 ? -derY : derY);
+  },
+  learn: {
+    name: "Burning Ship",
+    formula: "z_{n+1} = (|Re(z_n)| + i|Im(z_n)|)² + c",
+    description:
+      "A variant that takes the absolute value of the real and imaginary parts before squaring. This breaks the symmetry and creates the distinctive 'ship' shape.",
+    howItWorks: [
+      "Start with z = 0 and point c",
+      "Take absolute values: z = |Re(z)| + i|Im(z)|",
+      "Square and add c: z = z² + c",
+      "The absolute value creates asymmetric, flame-like structures",
+    ],
+    keyInsights: [
+      "Named for its resemblance to a burning ship on the sea",
+      "The absolute value operation breaks complex conjugate symmetry",
+      "Contains many smaller 'ships' at different scales",
+      "Often rotated 180° for the classic ship appearance",
+    ],
+    discoveredBy: "Michael Michelitsch & Otto E. Rössler",
+    year: "1992",
+  },
+};
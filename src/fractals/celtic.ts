@@ -0,0 +1,53 @@
+import { FractalTypeDefinition } from "./types";
+import { POWER_PARAM, powerWithDerivative } from "./shared";
+
+export const celtic: FractalTypeDefinition = {
+  label: "Celtic",
+  description: "Uses |Re(z²)|",
+  start: "zero",
+  juliaToggle: true,
+  defaults: { centerX: "-0.5", centerY: "0", zoom: "0.4" },
+  params: [POWER_PARAM],
+  // Not analytic: der is the derivative along uv's x axis, whose real part
+  // flips with the real part of z^n
+  shader: {
+    iterate: `
+      vec2 w = complexPow(z, u_power);
+      der = stepDerivative(z, der, vec2(0.0));
+      der = vec2(w.x < 0.0 ? -der.x : der.x, der.y) + dc;
+      z = vec2(abs(w.x), w.y) + c;`,
+    doubleFloat: `
+      vec2 w = complexMul(z, z);
+      der = stepDerivative(z, der, vec2(0.0));
+      der = vec2(w.x < 0.0 ? -der.x : der.x, der.y) + dc;
+      dsSquareAdd(x, y, vec2(0.0), vec2(0.0));
+      x = dsAdd(dsAbs(x), cx);
+      y = dsAdd(y, cy);`,
+  },
+  iterate: (state, { power }) => {
+    const [wx, wy, dwx, dwy] = powerWithDerivative(power, state.zx, state.zy, state.derX, state.derY);
+    state.derX = (wx < 0 ? -dwx : dwx) + state.dc;
+    state.derY = dwy;
+    state.zx = Math.abs(wx) + state.cx;
+    state.zy = wy + state.cy;
+  },
+  learn: {
+    name: "Celtic Mandelbrot",
+    formula: "z_{n+1} = |Re(z_n²)| + i·Im(z_n²) + c",
+    description:
+      "The Mandelbrot formula with one fold: after squaring, the real part is made positive. The familiar bulbs survive but are stretched and knotted into interlaced shapes reminiscent of Celtic knotwork.",
+    howItWorks: [
+      "Start with z = 0 and c at the pixel",
+      "Square z as for the Mandelbrot set",
+      "Replace the real part of the result with its absolute value, then add c",
+      "Color based on whether z escapes and how fast",
+    ],
+    keyInsights: [
+      "Only the real part is folded, so the set stays symmetric about the real axis",
+      "Minibrots appear distorted, with knotted rather than round bulbs",
+      "One of a family of 'abs' variations alongside the Burning Ship and Buffalo",
+      "Julia mode draws the matching Celtic Julia sets",
+    ],
+    juliaMode: "Each pixel is the starting z and c is the Julia constant, giving Celtic Julia sets with the same knotted folds.",
+  },
+};
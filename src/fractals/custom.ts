@@ -0,0 +1,83 @@
+import { MAX_FORMULA_PARAMS, getCompiledFormula, getFormulaParamValues } from "@/lib/formula";
+import { FractalTypeDefinition } from "./types";
+
+// The user's own formula (params.formula), compiled by lib/formula into
+// iterateFormula(), which the canvas splices in at <fractal/formula>
+export const custom: FractalTypeDefinition = {
+  label: "Custom Formula",
+  description: "Type your own iteration in z and c",
+  // Starting from z = 0 would leave formulas like sin(z) + c*z at 0 forever
+  start: "pixel",
+  formula: true,
+  defaults: { centerX: "-0.5", centerY: "0", zoom: "0.8" },
+  params: [],
+  shader: {
+    functions: `
+      uniform float u_formulaParams[${MAX_FORMULA_PARAMS}];
+
+      vec2 complexExp(vec2 z) {
+        return exp(z.x) * vec2(cos(z.y), sin(z.y));
+      }
+
+      // Principal branch, with log 0 clamped to log EPSILON
+      vec2 complexLog(vec2 z) {
+        float r = length(z);
+        if (r < EPSILON) return vec2(log(EPSILON), 0.0);
+        return vec2(log(r), atan(z.y, z.x));
+      }
+
+      float complexArg(vec2 z) {
+        return length(z) < EPSILON ? 0.0 : atan(z.y, z.x);
+      }
+
+      vec2 complexSin(vec2 z) {
+        return vec2(sin(z.x) * cosh(z.y), cos(z.x) * sinh(z.y));
+      }
+
+      vec2 complexCos(vec2 z) {
+        return vec2(cos(z.x) * cosh(z.y), -sin(z.x) * sinh(z.y));
+      }
+
+      vec2 complexSinh(vec2 z) {
+        return vec2(sinh(z.x) * cos(z.y), cosh(z.x) * sin(z.y));
+      }
+
+      vec2 complexCosh(vec2 z) {
+        return vec2(cosh(z.x) * cos(z.y), sinh(z.x) * sin(z.y));
+      }
+
+      #include <fractal/formula>`,
+    iterate: `
+      z = iterateFormula(z, c, der, dc);`,
+  },
+  iterate: (state, params) => {
+    const formula = getCompiledFormula(params.formula);
+    const { z, der } = formula.evaluate(
+      [state.zx, state.zy],
+      [state.cx, state.cy],
+      [state.derX, state.derY],
+      [state.dc, 0],
+      getFormulaParamValues(formula, params.formulaParams)
+    );
+    [state.zx, state.zy] = z;
+    [state.derX, state.derY] = der;
+  },
+  learn: {
+    name: "Custom Formula",
+    formula: "z_{n+1} = f(z_n, c)",
+    description:
+      "Any iteration you can write down. The formula is checked as you type, compiled into the shader, and saved with the fractal.",
+    howItWorks: [
+      "Write the next z in terms of z and c, like sin(z)^3 + c*z",
+      "z starts at the pixel, and c is the pixel too",
+      "Use + - * / ^, the constants i, pi and e, and functions like sin, exp, log, abs and conj",
+      "Any other name, like k in z^2 + k*c, becomes a slider",
+    ],
+    keyInsights: [
+      "z^2 + c is the Mandelbrot set, one iteration ahead",
+      "abs() folds the plane like the Burning Ship, conj() mirrors it like the Tricorn",
+      "Transcendental functions like sin and exp escape in their own ways, giving very different shapes",
+      "Derivatives are worked out automatically, so distance coloring and lighting still work",
+    ],
+  },
+};
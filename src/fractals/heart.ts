@@ -0,0 +1,46 @@
+import { FractalTypeDefinition } from "./types";
+import { POWER_PARAM, stepPower } from "./shared";
+
+export const heart: FractalTypeDefinition = {
+  label: "Heart",
+  description: "Uses |Re(z)| and Im(z)",
+  start: "zero",
+  juliaToggle: true,
+  defaults: { centerX: "-0.3", centerY: "0", zoom: "0.5" },
+  params: [POWER_PARAM],
+  // Not analytic: der is the derivative along uv's x axis, whose real part
+  // flips with the fold
+  shader: {
+    iterate: `
+      vec2 folded = vec2(abs(z.x), z.y);
+      der = stepDerivative(folded, vec2(z.x < 0.0 ? -der.x : der.x, der.y), dc);
+      z = complexPow(folded, u_power) + c;`,
+    doubleFloat: `
+      der = stepDerivative(vec2(abs(z.x), z.y), vec2(z.x < 0.0 ? -der.x : der.x, der.y), dc);
+      x = dsAbs(x);
+      dsSquareAdd(x, y, cx, cy);`,
+  },
+  iterate: (state, { power }) => {
+    const { zx, zy, derX, derY } = state;
+    stepPower(state, power, Math.abs(zx), zy, zx < 0 ? -derX : derX, derY);
+  },
+  learn: {
+    name: "Heart Mandelbrot",
+    formula: "z_{n+1} = (|Re(z_n)| + i·Im(z_n))² + c",
+    description:
+      "The Mandelbrot formula with the real part of z folded before squaring. The main cardioid is pulled into a heart, and the bulbs around it into lobes and spikes.",
+    howItWorks: [
+      "Start with z = 0 and c at the pixel",
+      "Make the real part of z positive, leaving the imaginary part alone",
+      "Square the result and add c",
+      "Color based on whether z escapes and how fast",
+    ],
+    keyInsights: [
+      "The fold is the Burning Ship's on one axis only",
+      "The set stays symmetric about the real axis",
+      "Higher powers give hearts with more lobes",
+      "Julia mode draws the matching Julia sets",
+    ],
+    juliaMode: "Each pixel is the starting z and c is the Julia constant, folded the same way at every step.",
+  },
+};
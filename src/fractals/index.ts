@@ -0,0 +1,104 @@
+// Registry of fractal types. Each type declares its formula (GLSL for the
+// shaders and a CPU port), starting view, parameters and Learn panel content
+// in its own module; the type picker, the shader programs, validation and
+// the CPU renderer are all built from this list. Adding a type is a module
+// here plus one line below.
+
+import { FractalParams } from "@/types/fractal";
+import type { Complex } from "@/lib/complex";
+import { FractalStart, FractalTypeDefinition, FractalTypeParam, OrbitState } from "./types";
+import { JULIA_PARAMS } from "./shared";
+import { mandelbrot } from "./mandelbrot";
+import { julia } from "./julia";
+import { burningShip } from "./burningShip";
+import { tricorn } from "./tricorn";
+import { phoenix } from "./phoenix";
+import { phoenixJulia } from "./phoenixJulia";
+import { celtic } from "./celtic";
+import { buffalo } from "./buffalo";
+import { perpendicularBurningShip } from "./perpendicularBurningShip";
+import { heart } from "./heart";
+import { magnet1, magnet2 } from "./magnet";
+import { lambda } from "./lambda";
+import { lyapunov } from "./lyapunov";
+import { newton } from "./newton";
+import { nova } from "./nova";
+import { custom } from "./custom";
+
+export type { FractalInfo, FractalStart, FractalTypeDefinition, FractalTypeParam, OrbitState } from "./types";
+
+// In picker order, which is also each type's u_fractalType value in the
+// generated shaders
+export const FRACTAL_TYPES = {
+  mandelbrot,
+  julia,
+  burningship: burningShip,
+  tricorn,
+  phoenix,
+  phoenixjulia: phoenixJulia,
+  celtic,
+  buffalo,
+  perpendicularburningship: perpendicularBurningShip,
+  heart,
+  magnet1,
+  magnet2,
+  lambda,
+  lyapunov,
+  newton,
+  nova,
+  custom,
+} satisfies Record<string, FractalTypeDefinition>;
+
+export type FractalType = keyof typeof FRACTAL_TYPES;
+
+export const FRACTAL_TYPE_IDS = Object.keys(FRACTAL_TYPES) as FractalType[];
+
+export const isFractalType = (type: string): type is FractalType => Object.hasOwn(FRACTAL_TYPES, type);
+
+// Value of u_fractalType for the type
+export const getFractalTypeIndex = (type: FractalType): number => FRACTAL_TYPE_IDS.indexOf(type);
+
+// Where the orbits start, with Julia mode applied
+export const getFractalStart = ({ type, juliaMode }: FractalParams): FractalStart => {
+  const fractalType = FRACTAL_TYPES[type];
+  return fractalType.juliaToggle && juliaMode ? "julia" : fractalType.start;
+};
+
+// The orbit of the point (cx, cy) before its first step, as the programs'
+// #include <fractal/start> sets it up: z = 0 and c at the point unless the
+// type starts elsewhere. julia is u_julia, for Julia starts.
+export const createOrbitState = (params: FractalParams, cx: number, cy: number, julia: Complex): OrbitState => {
+  const state: OrbitState = {
+    zx: 0, zy: 0, cx, cy, prevX: 0, prevY: 0, derX: 0, derY: 0, prevDerX: 0, prevDerY: 0, dc: 1, rootIndex: -1,
+    step: 0,
+  };
+
+  const start = getFractalStart(params);
+  if (start === "julia") {
+    state.zx = cx;
+    state.zy = cy;
+    [state.cx, state.cy] = julia;
+    state.derX = 1;
+    state.dc = 0;
+  } else if (start === "pixel") {
+    state.zx = cx;
+    state.zy = cy;
+    state.derX = state.dc;
+  } else if (start === "root") {
+    [state.zx, state.zy] = params.newtonRoots[0];
+  } else if (start === "critical") {
+    state.zx = 0.5;
+  }
+  return state;
+};
+
+// The type's sliders, plus the Julia constant's in Julia mode
+export const getTypeParams = (params: FractalParams): FractalTypeParam[] => {
+  const fractalType = FRACTAL_TYPES[params.type];
+  return fractalType.juliaToggle && params.juliaMode ? [...fractalType.params, ...JULIA_PARAMS] : fractalType.params;
+};
+
+// Value of u_escapeDegree
+export const getEscapeDegree = (params: FractalParams): number => {
+  return FRACTAL_TYPES[params.type].escapeDegree?.(params) ?? params.power;
+};
@@ -0,0 +1,33 @@
+import { FractalTypeDefinition } from "./types";
+import { JULIA_PARAMS, POWER_PARAM, POWER_SHADER, iteratePower } from "./shared";
+
+export const julia: FractalTypeDefinition = {
+  label: "Julia Set",
+  description: "Uses constant c",
+  start: "julia",
+  defaults: { centerX: "0", centerY: "0", zoom: "0.8" },
+  params: [POWER_PARAM, ...JULIA_PARAMS],
+  shader: POWER_SHADER,
+  iterate: iteratePower,
+  perturbation: true,
+  learn: {
+    name: "Julia Set",
+    formula: "z_{n+1} = z_n² + c",
+    description:
+      "Julia sets use the same formula as Mandelbrot, but c is fixed and we vary the starting point z_0. Each point c produces a unique Julia set.",
+    howItWorks: [
+      "Fix a complex constant c (the Julia parameter)",
+      "For each pixel, use that position as z_0",
+      "Repeatedly apply: z = z² + c",
+      "Color based on whether z escapes and how fast",
+    ],
+    keyInsights: [
+      "Points INSIDE the Mandelbrot set give connected Julia sets",
+      "Points OUTSIDE give disconnected 'dust' Julia sets",
+      "Points on the boundary give the most intricate patterns",
+      "Julia and Mandelbrot sets are deeply related: zoom into Mandelbrot and you'll see Julia-like shapes",
+    ],
+    discoveredBy: "Gaston Julia",
+    year: "1918",
+  },
+};
@@ -0,0 +1,50 @@
+import { FractalTypeDefinition } from "./types";
+
+export const lambda: FractalTypeDefinition = {
+  label: "Lambda",
+  description: "The logistic map c·z(1 - z)",
+  start: "critical",
+  juliaToggle: true,
+  escapeDegree: () => 2,
+  defaults: { centerX: "1", centerY: "0", zoom: "0.3" },
+  params: [],
+  shader: {
+    iterate: `
+      vec2 w = z - complexMul(z, z);
+      der = complexMul(c, complexMul(vec2(1.0, 0.0) - 2.0 * z, der)) + complexMul(dc, w);
+      z = complexMul(c, w);`,
+  },
+  iterate: (state) => {
+    const { zx, zy, cx, cy, derX, derY, dc } = state;
+    const wx = zx - (zx * zx - zy * zy);
+    const wy = zy - 2 * zx * zy;
+    // c·(1 - 2z)·der + dc·w
+    const ax = 1 - 2 * zx;
+    const ay = -2 * zy;
+    const px = ax * derX - ay * derY;
+    const py = ax * derY + ay * derX;
+    state.derX = cx * px - cy * py + dc * wx;
+    state.derY = cx * py + cy * px + dc * wy;
+    state.zx = cx * wx - cy * wy;
+    state.zy = cx * wy + cy * wx;
+  },
+  learn: {
+    name: "Lambda (Logistic) Set",
+    formula: "z_{n+1} = c·z_n(1 - z_n)",
+    description:
+      "The logistic map from population dynamics, taken into the complex plane. Starting every orbit at the critical point 1/2 gives a parameter space with two Mandelbrot sets joined back to back.",
+    howItWorks: [
+      "Start with z = 1/2, where the map's derivative vanishes, and c at the pixel",
+      "Repeatedly apply: z = c·z·(1 - z)",
+      "Color based on whether z escapes and how fast",
+      "Points whose orbit stays bounded form the set",
+    ],
+    keyInsights: [
+      "The map is conjugate to z² + c, so the same Mandelbrot set appears, twice",
+      "The real axis from 1 to 4 is the logistic map's period-doubling route to chaos",
+      "c and 2 - c give the same picture, mirrored",
+      "Julia mode draws the logistic map's Julia sets",
+    ],
+    juliaMode: "Each pixel is the starting z and c is the Julia constant, which for Lambda often wants values near 1 to 3.",
+  },
+};
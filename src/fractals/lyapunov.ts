@@ -0,0 +1,53 @@
+import { FractalTypeDefinition } from "./types";
+
+// The logistic map x → r·x(1 - x) on the real line, with r switching
+// between a (the pixel's x) and b (its y) by params.lyapunovSequence, which
+// reaches the shader as a bit mask from lib/lyapunov.
+export const lyapunov: FractalTypeDefinition = {
+  label: "Lyapunov",
+  description: "The logistic map, forced by an A/B sequence",
+  start: "critical",
+  exponent: true,
+  sequence: true,
+  defaults: { centerX: "3", centerY: "3", zoom: "0.5" },
+  params: [],
+  shader: {
+    functions: `
+      uniform uint u_lyapunovSequence;
+      uniform int u_lyapunovLength;
+
+      // Whether step i of the sequence uses b
+      bool lyapunovUsesB(int i) {
+        return ((u_lyapunovSequence >> uint(i % u_lyapunovLength)) & 1u) == 1u;
+      }`,
+    iterate: `
+      float r = lyapunovUsesB(i) ? c.y : c.x;
+      z.y += log(max(abs(r * (1.0 - 2.0 * z.x)), EPSILON));
+      z.x = r * z.x * (1.0 - z.x);`,
+  },
+  iterate: (state, { lyapunovSequence }) => {
+    const r = lyapunovSequence[state.step % lyapunovSequence.length] === "B" ? state.cy : state.cx;
+    state.zy += Math.log(Math.max(Math.abs(r * (1 - 2 * state.zx)), 1e-10));
+    state.zx = r * state.zx * (1 - state.zx);
+  },
+  learn: {
+    name: "Lyapunov Fractal",
+    formula: "x_{n+1} = r_n·x_n(1 - x_n),  λ = (1/N)·Σ log|r_n(1 - 2x_n)|",
+    description:
+      "A map of order and chaos in the logistic map, when its growth rate r keeps switching between two values a and b in a fixed pattern. Each pixel is one pair (a, b), colored by the Lyapunov exponent λ: how fast nearby orbits pull together or fly apart.",
+    howItWorks: [
+      "Take a from the pixel's x and b from its y",
+      "Start with x = 1/2 and apply the logistic map, using a or b at each step as the sequence says",
+      "Average the log of the map's slope along the orbit to get λ",
+      "Stable points (λ < 0) take the palette, brighter towards λ = 0; chaotic ones (λ ≥ 0) use the interior coloring",
+    ],
+    keyInsights: [
+      "The classic view has a and b between 2 and 4, where the logistic map goes from order to chaos",
+      "Along the diagonal a = b, every sequence gives the ordinary logistic map",
+      "Longer sequences such as BBBBBBAAAAAA (\"Zircon Zity\") give the well-known swallow shapes",
+      "Swapping every A and B mirrors the picture in the diagonal",
+    ],
+    discoveredBy: "Mario Markus",
+    year: "1989",
+  },
+};
@@ -0,0 +1,130 @@
+import { Complex, complexDiv, complexMul } from "@/lib/complex";
+import { FractalTypeDefinition, OrbitState } from "./types";
+
+// The two magnet types: rational maps from the renormalization of magnetic
+// lattice models. Both are analytic, and both fix z = 1, where orbits that
+// don't escape usually end up.
+
+const add = ([ax, ay]: Complex, [bx, by]: Complex): Complex => [ax + bx, ay + by];
+const sub = ([ax, ay]: Complex, [bx, by]: Complex): Complex => [ax - bx, ay - by];
+const scale = (k: number, [x, y]: Complex): Complex => [k * x, k * y];
+
+// (n/d)² and its derivative, from n, d and their derivatives dn and dd
+const squareQuotient = (state: OrbitState, n: Complex, d: Complex, dn: Complex, dd: Complex) => {
+  const q = complexDiv(n, d);
+  const dq = complexDiv(sub(complexMul(dn, d), complexMul(n, dd)), complexMul(d, d));
+  [state.derX, state.derY] = scale(2, complexMul(q, dq));
+  [state.zx, state.zy] = complexMul(q, q);
+};
+
+const MAGNET_LEARN = {
+  howItWorks: [
+    "Start with z = 0 and c at the pixel",
+    "Apply the rational map, a quotient of polynomials in z and c, squared",
+    "Orbits either escape to infinity or settle on the fixed point z = 1",
+    "Color the escaping points by how fast they escape",
+  ],
+  keyInsights: [
+    "The maps come from statistical physics: the points where the orbits don't escape relate to phase transitions of a magnet",
+    "Mandelbrot-like minibrots appear throughout the escaping region",
+    "Points that settle on z = 1 are drawn as interior",
+    "Julia mode draws the matching magnet Julia sets",
+  ],
+  juliaMode: "Each pixel is the starting z and c is the Julia constant; the fixed point at z = 1 attracts just as before.",
+};
+
+export const magnet1: FractalTypeDefinition = {
+  label: "Magnet I",
+  description: "((z² + c - 1) / (2z + c - 2))²",
+  start: "zero",
+  juliaToggle: true,
+  escapeDegree: () => 2,
+  defaults: { centerX: "1.4", centerY: "0", zoom: "0.2" },
+  params: [],
+  shader: {
+    functions: `
+      // Magnet I, advancing der with z
+      vec2 iterateMagnet1(vec2 z, vec2 c, inout vec2 der, vec2 dc) {
+        vec2 n = complexMul(z, z) + c - vec2(1.0, 0.0);
+        vec2 d = 2.0 * z + c - vec2(2.0, 0.0);
+        vec2 dn = 2.0 * complexMul(z, der) + dc;
+        vec2 dd = 2.0 * der + dc;
+        vec2 q = complexDiv(n, d);
+        der = 2.0 * complexMul(q, complexDiv(complexMul(dn, d) - complexMul(n, dd), complexMul(d, d)));
+        return complexMul(q, q);
+      }
+
+      // Magnet II, likewise
+      vec2 iterateMagnet2(vec2 z, vec2 c, inout vec2 der, vec2 dc) {
+        vec2 c1 = c - vec2(1.0, 0.0);
+        vec2 c2 = c - vec2(2.0, 0.0);
+        vec2 c12 = complexMul(c1, c2);
+        vec2 dc12 = complexMul(c1 + c2, dc);
+        vec2 z2 = complexMul(z, z);
+        vec2 n = complexMul(z2, z) + 3.0 * complexMul(c1, z) + c12;
+        vec2 d = 3.0 * z2 + 3.0 * complexMul(c2, z) + c12 + vec2(1.0, 0.0);
+        vec2 dn = complexMul(3.0 * z2 + 3.0 * c1, der) + 3.0 * complexMul(z, dc) + dc12;
+        vec2 dd = complexMul(6.0 * z + 3.0 * c2, der) + 3.0 * complexMul(z, dc) + dc12;
+        vec2 q = complexDiv(n, d);
+        der = 2.0 * complexMul(q, complexDiv(complexMul(dn, d) - complexMul(n, dd), complexMul(d, d)));
+        return complexMul(q, q);
+      }`,
+    iterate: `
+      z = iterateMagnet1(z, c, der, dc);`,
+  },
+  iterate: (state) => {
+    const z: Complex = [state.zx, state.zy];
+    const der: Complex = [state.derX, state.derY];
+    const c: Complex = [state.cx, state.cy];
+    const dc: Complex = [state.dc, 0];
+    const n = add(complexMul(z, z), sub(c, [1, 0]));
+    const d = add(scale(2, z), sub(c, [2, 0]));
+    squareQuotient(state, n, d, add(scale(2, complexMul(z, der)), dc), add(scale(2, der), dc));
+  },
+  learn: {
+    name: "Magnet I",
+    formula: "z_{n+1} = ((z_n² + c - 1) / (2z_n + c - 2))²",
+    description:
+      "A rational map found in the renormalization of a magnetic lattice model. Its escaping region is full of Mandelbrot-like islands, while most other points are drawn to z = 1.",
+    ...MAGNET_LEARN,
+  },
+};
+
+export const magnet2: FractalTypeDefinition = {
+  label: "Magnet II",
+  description: "The cubic magnet map",
+  start: "zero",
+  juliaToggle: true,
+  escapeDegree: () => 2,
+  defaults: { centerX: "1", centerY: "0", zoom: "0.25" },
+  params: [],
+  // iterateMagnet2() is with Magnet I's functions
+  shader: {
+    iterate: `
+      z = iterateMagnet2(z, c, der, dc);`,
+  },
+  iterate: (state) => {
+    const z: Complex = [state.zx, state.zy];
+    const der: Complex = [state.derX, state.derY];
+    const c: Complex = [state.cx, state.cy];
+    const dc: Complex = [state.dc, 0];
+    const c1 = sub(c, [1, 0]);
+    const c2 = sub(c, [2, 0]);
+    const c12 = complexMul(c1, c2);
+    const dc12 = complexMul(add(c1, c2), dc);
+    const z2 = complexMul(z, z);
+    const n = add(add(complexMul(z2, z), scale(3, complexMul(c1, z))), c12);
+    const d = add(add(add(scale(3, z2), scale(3, complexMul(c2, z))), c12), [1, 0]);
+    const zdc = scale(3, complexMul(z, dc));
+    const dn = add(add(complexMul(add(scale(3, z2), scale(3, c1)), der), zdc), dc12);
+    const dd = add(add(complexMul(add(scale(6, z), scale(3, c2)), der), zdc), dc12);
+    squareQuotient(state, n, d, dn, dd);
+  },
+  learn: {
+    name: "Magnet II",
+    formula: "z_{n+1} = ((z_n³ + 3(c-1)z_n + (c-1)(c-2)) / (3z_n² + 3(c-2)z_n + (c-1)(c-2) + 1))²",
+    description:
+      "The second of the magnet maps, from the same renormalization with a cubic rather than quadratic quotient. Its islands are more elaborate than Magnet I's.",
+    ...MAGNET_LEARN,
+  },
+};
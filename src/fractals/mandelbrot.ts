@@ -0,0 +1,33 @@
+import { FractalTypeDefinition } from "./types";
+import { POWER_PARAM, POWER_SHADER, iteratePower } from "./shared";
+
+export const mandelbrot: FractalTypeDefinition = {
+  label: "Mandelbrot",
+  description: "z = z^n + c",
+  start: "zero",
+  defaults: { centerX: "-0.5", centerY: "0", zoom: "1" },
+  params: [POWER_PARAM],
+  shader: POWER_SHADER,
+  iterate: iteratePower,
+  perturbation: true,
+  learn: {
+    name: "Mandelbrot Set",
+    formula: "z_{n+1} = z_n² + c",
+    description:
+      "The Mandelbrot set is the set of complex numbers c for which the iteration z_{n+1} = z_n² + c does not diverge to infinity when starting with z_0 = 0.",
+    howItWorks: [
+      "Start with z = 0 and a point c on the complex plane",
+      "Repeatedly apply: z = z² + c",
+      "If |z| stays bounded (< escape radius), c is IN the set (colored black)",
+      "If |z| escapes to infinity, c is OUTSIDE the set (colored by iteration count)",
+    ],
+    keyInsights: [
+      "The boundary has infinite complexity at every scale",
+      "Small Mandelbrot copies appear throughout the boundary",
+      "The area is approximately 1.50659...",
+      "Connected: you can draw a path between any two points in the set",
+    ],
+    discoveredBy: "Benoît Mandelbrot",
+    year: "1980",
+  },
+};
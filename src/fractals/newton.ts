@@ -0,0 +1,108 @@
+import { Complex, EPSILON, complexDiv } from "@/lib/complex";
+import { MAX_NEWTON_ROOTS } from "@/lib/polynomial";
+import { FractalTypeDefinition, FractalTypeParam } from "./types";
+
+export const NEWTON_TOLERANCE = 0.0001;
+
+// The a in z - a·p/p': 1 is Newton's method, below 1 damps it and above
+// overshoots
+export const RELAXATION_PARAM: FractalTypeParam = {
+  key: "newtonRelaxation",
+  label: "Relaxation (a)",
+  min: 0.1,
+  max: 2,
+  step: 0.01,
+  digits: 2,
+  hint: "Step size: z - a·p(z)/p'(z)",
+};
+
+// The polynomial's roots as uniforms, and the Newton step for them, which
+// Nova uses too
+export const NEWTON_FUNCTIONS = `
+  #define MAX_NEWTON_ROOTS ${MAX_NEWTON_ROOTS}
+  #define NEWTON_TOLERANCE ${NEWTON_TOLERANCE}
+
+  uniform vec2 u_newtonRoots[MAX_NEWTON_ROOTS];
+  uniform int u_newtonDegree;
+  uniform float u_newtonRelaxation;
+
+  // p(z)/p'(z) for the polynomial with roots u_newtonRoots, from
+  // p'/p = sum of 1/(z - root); 0 at a root
+  vec2 newtonStep(vec2 z) {
+    vec2 sum = vec2(0.0);
+    for (int k = 0; k < MAX_NEWTON_ROOTS; k++) {
+      if (k >= u_newtonDegree) break;
+      vec2 d = z - u_newtonRoots[k];
+      if (dot(d, d) < EPSILON) return vec2(0.0);
+      sum += complexDiv(vec2(1.0, 0.0), d);
+    }
+    return complexDiv(vec2(1.0, 0.0), sum);
+  }
+
+  // Index of the root z has converged on, or -1
+  int findRoot(vec2 z) {
+    for (int k = 0; k < MAX_NEWTON_ROOTS; k++) {
+      if (k >= u_newtonDegree) break;
+      if (length(z - u_newtonRoots[k]) < NEWTON_TOLERANCE) return k;
+    }
+    return -1;
+  }`;
+
+// CPU port of newtonStep()
+export const newtonStep = (z: Complex, roots: Complex[]): Complex => {
+  let sum: Complex = [0, 0];
+  for (const [rx, ry] of roots) {
+    const dx = z[0] - rx;
+    const dy = z[1] - ry;
+    if (dx * dx + dy * dy < EPSILON) return [0, 0];
+    const [ix, iy] = complexDiv([1, 0], [dx, dy]);
+    sum = [sum[0] + ix, sum[1] + iy];
+  }
+  return complexDiv([1, 0], sum);
+};
+
+export const newton: FractalTypeDefinition = {
+  label: "Newton",
+  description: "Newton's method for any polynomial",
+  start: "pixel",
+  converges: true,
+  basinCount: ({ newtonRoots }) => newtonRoots.length,
+  roots: true,
+  defaults: { centerX: "0", centerY: "0", zoom: "0.5" },
+  params: [RELAXATION_PARAM],
+  shader: {
+    functions: NEWTON_FUNCTIONS,
+    iterate: `
+      z -= u_newtonRelaxation * newtonStep(z);
+      rootIndex = findRoot(z);`,
+  },
+  iterate: (state, { newtonRoots, newtonRelaxation }) => {
+    const [sx, sy] = newtonStep([state.zx, state.zy], newtonRoots);
+    state.zx -= newtonRelaxation * sx;
+    state.zy -= newtonRelaxation * sy;
+    state.rootIndex = newtonRoots.findIndex(
+      ([rx, ry]) => Math.hypot(state.zx - rx, state.zy - ry) < NEWTON_TOLERANCE
+    );
+  },
+  learn: {
+    name: "Newton Fractal",
+    formula: "z_{n+1} = z_n - a·p(z_n)/p'(z_n)",
+    description:
+      "Based on Newton's method for finding roots of equations. Colors show which root each starting point converges to and how quickly.",
+    howItWorks: [
+      "Uses Newton's root-finding method on a polynomial, z³ - 1 to start with",
+      "Set the polynomial by its coefficients, or drag its roots around the view",
+      "Each pixel is colored by which root it converges to",
+      "Brightness shows convergence speed",
+    ],
+    keyInsights: [
+      "Boundaries between root basins are fractally complex",
+      "Points on boundaries may never converge",
+      "Different polynomials create different Newton fractals",
+      "A relaxation factor other than 1 shrinks or stretches each step, twisting the basins",
+      "Demonstrates chaos: tiny changes in start → different outcomes",
+    ],
+    discoveredBy: "Based on Isaac Newton's method (1669)",
+    year: "Fractal visualization: ~1980s",
+  },
+};
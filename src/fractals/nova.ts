@@ -0,0 +1,50 @@
+import { FractalTypeDefinition } from "./types";
+import { NEWTON_TOLERANCE, RELAXATION_PARAM, newtonStep } from "./newton";
+
+// Newton's method plus c. Uses newtonStep() and the root uniforms from the
+// Newton type's functions.
+export const nova: FractalTypeDefinition = {
+  label: "Nova",
+  description: "Newton's method plus c",
+  // A root is a critical point of the Newton step when a = 1, the way 0 is
+  // for z² + c
+  start: "root",
+  converges: true,
+  roots: true,
+  defaults: { centerX: "-0.3", centerY: "0", zoom: "0.7" },
+  params: [RELAXATION_PARAM],
+  shader: {
+    iterate: `
+      vec2 nextZ = z - u_newtonRelaxation * newtonStep(z) + c;
+      if (length(nextZ - z) < NEWTON_TOLERANCE) rootIndex = 0;
+      z = nextZ;`,
+  },
+  iterate: (state, { newtonRoots, newtonRelaxation }) => {
+    const [sx, sy] = newtonStep([state.zx, state.zy], newtonRoots);
+    const nextX = state.zx - newtonRelaxation * sx + state.cx;
+    const nextY = state.zy - newtonRelaxation * sy + state.cy;
+    if (Math.hypot(nextX - state.zx, nextY - state.zy) < NEWTON_TOLERANCE) state.rootIndex = 0;
+    state.zx = nextX;
+    state.zy = nextY;
+  },
+  learn: {
+    name: "Nova Fractal",
+    formula: "z_{n+1} = z_n - a·p(z_n)/p'(z_n) + c",
+    description:
+      "Newton's method with a twist: c, the pixel, is added after every step, so the orbits settle somewhere new for every point and Mandelbrot-like islands appear where they never settle at all.",
+    howItWorks: [
+      "Take one Newton step towards a root of p, then add c",
+      "Every orbit starts from the polynomial's first root",
+      "Points are colored by how quickly their orbit settles",
+      "Points whose orbit never settles stay dark",
+    ],
+    keyInsights: [
+      "Near c = 0 the orbits still find the root they start at",
+      "Small copies of the Mandelbrot set appear along the boundary",
+      "The relaxation factor a reshapes the whole picture",
+      "The same polynomial editor and root handles as Newton apply",
+    ],
+    discoveredBy: "Paul Derbyshire",
+    year: "1990s",
+  },
+};
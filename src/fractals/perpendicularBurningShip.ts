@@ -0,0 +1,46 @@
+import { FractalTypeDefinition } from "./types";
+import { POWER_PARAM, stepPower } from "./shared";
+
+export const perpendicularBurningShip: FractalTypeDefinition = {
+  label: "Perpendicular Burning Ship",
+  description: "Uses Re(z) and -|Im(z)|",
+  start: "zero",
+  juliaToggle: true,
+  defaults: { centerX: "-0.5", centerY: "0", zoom: "0.35" },
+  params: [POWER_PARAM],
+  // Not analytic: der is the derivative along uv's x axis, whose imaginary
+  // part flips with the fold
+  shader: {
+    iterate: `
+      vec2 folded = vec2(z.x, -abs(z.y));
+      der = stepDerivative(folded, vec2(der.x, z.y > 0.0 ? -der.y : der.y), dc);
+      z = complexPow(folded, u_power) + c;`,
+    doubleFloat: `
+      der = stepDerivative(vec2(z.x, -abs(z.y)), vec2(der.x, z.y > 0.0 ? -der.y : der.y), dc);
+      y = -dsAbs(y);
+      dsSquareAdd(x, y, cx, cy);`,
+  },
+  iterate: (state, { power }) => {
+    const { zx, zy, derX, derY } = state;
+    stepPower(state, power, zx, -Math.abs(zy), derX, zy > 0 ? -derY : derY);
+  },
+  learn: {
+    name: "Perpendicular Burning Ship",
+    formula: "z_{n+1} = (Re(z_n) - i|Im(z_n)|)² + c",
+    description:
+      "The Burning Ship with only the imaginary part folded. The hull takes on a new silhouette, with a long neck rising from it, and the structures along its spine are turned relative to the Burning Ship's.",
+    howItWorks: [
+      "Start with z = 0 and c at the pixel",
+      "Make the imaginary part of z negative, leaving the real part alone",
+      "Square the result and add c",
+      "Color based on whether z escapes and how fast",
+    ],
+    keyInsights: [
+      "Folding the imaginary part breaks the symmetry about the real axis",
+      "Folding the real part instead gives the symmetric Heart",
+      "Its deep zooms are full of distorted minibrots, as in the Burning Ship",
+      "Julia mode draws the matching Julia sets",
+    ],
+    juliaMode: "Each pixel is the starting z and c is the Julia constant, folded the same way at every step.",
+  },
+};
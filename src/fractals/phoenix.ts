@@ -0,0 +1,87 @@
+import { FractalTypeDefinition, FractalTypeParam, OrbitState } from "./types";
+import { POWER_PARAM, stepPower } from "./shared";
+
+// The complex weight p of the previous z
+export const PHOENIX_PARAMS: FractalTypeParam[] = [
+  { key: "phoenixReal", label: "Real Part (p)", min: -2, max: 2, step: 0.001, digits: 4 },
+  { key: "phoenixImag", label: "Imaginary Part (p)", min: -2, max: 2, step: 0.001, digits: 4 },
+];
+
+// The Phoenix step, shared with Phoenix-Julia, which only differs in where
+// the orbit starts
+export const PHOENIX_STEP = {
+  iterate: `
+    vec2 nextDer = stepDerivative(z, der, dc) + complexMul(u_phoenix, prevDer);
+    prevDer = der;
+    der = nextDer;
+    vec2 nextZ = iteratePhoenix(z, c, prevZ);
+    prevZ = z;
+    z = nextZ;`,
+  doubleFloat: `
+    vec2 nextDer = stepDerivative(z, der, dc) + complexMul(u_phoenix, prevDer);
+    prevDer = der;
+    der = nextDer;
+    vec2 lastX = x;
+    vec2 lastY = y;
+    dsSquareAdd(x, y, cx, cy);
+    x = dsAdd(x, dsSub(dsMul(vec2(u_phoenix.x, 0.0), px), dsMul(vec2(u_phoenix.y, 0.0), py)));
+    y = dsAdd(y, dsAdd(dsMul(vec2(u_phoenix.x, 0.0), py), dsMul(vec2(u_phoenix.y, 0.0), px)));
+    px = lastX;
+    py = lastY;`,
+};
+
+export const iteratePhoenix = (state: OrbitState, { power, phoenixReal: pr, phoenixImag: pi }: {
+  power: number;
+  phoenixReal: number;
+  phoenixImag: number;
+}) => {
+  const { zx, zy, derX, derY } = state;
+  stepPower(state, power, zx, zy, derX, derY);
+  state.derX += pr * state.prevDerX - pi * state.prevDerY;
+  state.derY += pr * state.prevDerY + pi * state.prevDerX;
+  state.prevDerX = derX;
+  state.prevDerY = derY;
+  state.zx += pr * state.prevX - pi * state.prevY;
+  state.zy += pr * state.prevY + pi * state.prevX;
+  state.prevX = zx;
+  state.prevY = zy;
+};
+
+export const phoenix: FractalTypeDefinition = {
+  label: "Phoenix",
+  description: "Uses previous z value",
+  start: "zero",
+  defaults: { centerX: "-0.5", centerY: "0", zoom: "0.8" },
+  params: [POWER_PARAM, ...PHOENIX_PARAMS],
+  shader: {
+    functions: `
+      uniform vec2 u_phoenix;
+
+      // z^n + c + p*prevZ
+      vec2 iteratePhoenix(vec2 z, vec2 c, vec2 prevZ) {
+        return complexPow(z, u_power) + c + complexMul(u_phoenix, prevZ);
+      }`,
+    ...PHOENIX_STEP,
+  },
+  iterate: iteratePhoenix,
+  learn: {
+    name: "Phoenix Fractal",
+    formula: "z_{n+1} = z_n² + c + p·z_{n-1}",
+    description:
+      "A fractal with 'memory' - each iteration depends on both the current z and the previous z value, creating flowing, organic patterns.",
+    howItWorks: [
+      "Keep track of both z and the previous z (z_prev)",
+      "New z = z² + c + p × z_prev, for a fixed complex weight p",
+      "The 'memory' term creates flowing, connected structures",
+      "Often produces more organic-looking fractals",
+    ],
+    keyInsights: [
+      "The z_{n-1} term adds 'inertia' to the iteration",
+      "With p = 0 it is the Mandelbrot set again",
+      "Named for its rising, flame-like appearance",
+      "The memory effect can create spiral and wave patterns",
+    ],
+    discoveredBy: "Shigehiro Ushiki",
+    year: "1988",
+  },
+};
@@ -0,0 +1,36 @@
+import { FractalTypeDefinition } from "./types";
+import { JULIA_PARAMS, POWER_PARAM } from "./shared";
+import { PHOENIX_PARAMS, PHOENIX_STEP, iteratePhoenix } from "./phoenix";
+
+// Phoenix with the pixel as the starting z and c fixed, as Ushiki drew it.
+// Uses iteratePhoenix() and u_phoenix from the Phoenix type's functions.
+export const phoenixJulia: FractalTypeDefinition = {
+  label: "Phoenix-Julia",
+  description: "Phoenix with constant c",
+  start: "julia",
+  // The classic Phoenix: c = 0.5667, p = -0.5
+  defaults: { centerX: "0", centerY: "0", zoom: "0.35", juliaReal: 0.5667, juliaImag: 0, phoenixReal: -0.5, phoenixImag: 0 },
+  params: [POWER_PARAM, ...JULIA_PARAMS, ...PHOENIX_PARAMS],
+  shader: PHOENIX_STEP,
+  iterate: iteratePhoenix,
+  learn: {
+    name: "Phoenix-Julia Set",
+    formula: "z_{n+1} = z_n² + c + p·z_{n-1}",
+    description:
+      "The Phoenix map drawn the way Julia sets are: c and p stay fixed and every pixel is a starting point. With c = 0.5667 and p = -0.5 it gives the famous bird rising from its flames.",
+    howItWorks: [
+      "Fix the complex constants c and p",
+      "For each pixel, use that position as z_0, with z_{-1} = 0",
+      "Repeatedly apply: z = z² + c + p × z_prev",
+      "Color based on whether z escapes and how fast",
+    ],
+    keyInsights: [
+      "Each point of the Phoenix fractal gives one of these sets",
+      "The classic picture is usually shown turned on its side",
+      "Small changes to p bend and twist the wings",
+      "With p = 0 it is an ordinary Julia set",
+    ],
+    discoveredBy: "Shigehiro Ushiki",
+    year: "1988",
+  },
+};
@@ -0,0 +1,51 @@
+import { complexPow } from "@/lib/complex";
+import { FractalTypeParam, OrbitState } from "./types";
+
+// The exponent of the z^n + c family
+export const POWER_PARAM: FractalTypeParam = {
+  key: "power",
+  label: "Power (n)",
+  min: 1,
+  max: 8,
+  step: 0.1,
+  digits: 2,
+  hint: "z^n instead of z²",
+};
+
+// The fixed c of the Julia-style types
+export const JULIA_PARAMS: FractalTypeParam[] = [
+  { key: "juliaReal", label: "Real Part (c)", min: -2, max: 2, step: 0.001, digits: 4 },
+  { key: "juliaImag", label: "Imaginary Part (c)", min: -2, max: 2, step: 0.001, digits: 4 },
+];
+
+// z = p^n + c, where p is z after any folding and (dx, dy) is der folded the
+// same way: stepDerivative() followed by complexPow() in the shaders
+export const stepPower = (state: OrbitState, power: number, px: number, py: number, dx: number, dy: number) => {
+  const [wx, wy, dwx, dwy] = powerWithDerivative(power, px, py, dx, dy);
+  state.derX = dwx + state.dc;
+  state.derY = dwy;
+  state.zx = wx + state.cx;
+  state.zy = wy + state.cy;
+};
+
+// p^n and its derivative n·p^(n-1)·(dx, dy), for types that fold p^n
+// before c is added
+export const powerWithDerivative = (power: number, px: number, py: number, dx: number, dy: number) => {
+  const [qx, qy] = power === 2 ? [px, py] : complexPow(px, py, power - 1);
+  const [wx, wy] = complexPow(px, py, power);
+  return [wx, wy, power * (qx * dx - qy * dy), power * (qx * dy + qy * dx)];
+};
+
+// The plain z^n + c step, shared by Mandelbrot and Julia
+export const POWER_SHADER = {
+  iterate: `
+    der = stepDerivative(z, der, dc);
+    z = complexPow(z, u_power) + c;`,
+  doubleFloat: `
+    der = stepDerivative(z, der, dc);
+    dsSquareAdd(x, y, cx, cy);`,
+};
+
+export const iteratePower = (state: OrbitState, { power }: { power: number }) => {
+  stepPower(state, power, state.zx, state.zy, state.derX, state.derY);
+};
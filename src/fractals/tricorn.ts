@@ -0,0 +1,43 @@
+import { FractalTypeDefinition } from "./types";
+import { POWER_PARAM, stepPower } from "./shared";
+
+export const tricorn: FractalTypeDefinition = {
+  label: "Tricorn",
+  description: "Uses complex conjugate",
+  start: "zero",
+  defaults: { centerX: "-0.3", centerY: "0", zoom: "0.8" },
+  params: [POWER_PARAM],
+  // Not analytic: der is the derivative along uv's x axis, conjugated with z
+  shader: {
+    iterate: `
+      der = stepDerivative(vec2(z.x, -z.y), vec2(der.x, -der.y), dc);
+      z = complexPow(vec2(z.x, -z.y), u_power) + c;`,
+    doubleFloat: `
+      der = stepDerivative(vec2(z.x, -z.y), vec2(der.x, -der.y), dc);
+      y = -y;
+      dsSquareAdd(x, y, cx, cy);`,
+  },
+  iterate: (state, { power }) => {
+    stepPower(state, power, state.zx, -state.zy, state.derX, -state.derY);
+  },
+  learn: {
+    name: "Tricorn (Mandelbar)",
+    formula: "z_{n+1} = z̄_n² + c",
+    description:
+      "Uses the complex conjugate of z before squaring. The conjugate flips the imaginary part's sign, creating three-fold rotational symmetry.",
+    howItWorks: [
+      "Start with z = 0 and point c",
+      "Take conjugate: z̄ = Re(z) - i·Im(z)",
+      "Square and add c: z = z̄² + c",
+      "The conjugation creates the characteristic three-cornered shape",
+    ],
+    keyInsights: [
+      "Also called the 'Mandelbar' set",
+      "Has 3-fold rotational symmetry (hence 'tricorn')",
+      "The conjugate operation reverses rotation direction each iteration",
+      "Contains both Mandelbrot-like and unique structures",
+    ],
+    discoveredBy: "W.D. Crowe et al.",
+    year: "1989",
+  },
+};
@@ -0,0 +1,119 @@
+import { FractalParams } from "@/types/fractal";
+
+// FractalParams fields holding a plain number
+export type NumericParamKey = {
+  [K in keyof FractalParams]: FractalParams[K] extends number ? K : never;
+}[keyof FractalParams];
+
+// A parameter of its own a type shows as a slider under the type picker
+export interface FractalTypeParam {
+  key: NumericParamKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  digits: number; // decimals shown next to the slider
+  hint?: string;
+}
+
+// Where each pixel's orbit starts:
+// - "zero": z at 0 and c at the pixel (the Mandelbrot family)
+// - "pixel": z and c both at the pixel
+// - "julia": z at the pixel and c fixed to the Julia constant
+// - "root": z at the first of params.newtonRoots and c at the pixel (Nova)
+// - "critical": z at the critical point 1/2 and c at the pixel (Lambda,
+//   Lyapunov)
+export type FractalStart = "zero" | "pixel" | "julia" | "root" | "critical";
+
+// What the Learn panel says about a type
+export interface FractalInfo {
+  name: string;
+  formula: string;
+  description: string;
+  howItWorks: string[];
+  keyInsights: string[];
+  discoveredBy?: string;
+  year?: string;
+  // What the picture shows in Julia mode, for types with the toggle
+  juliaMode?: string;
+}
+
+// The main loop's variables, as cpuRenderer carries them through a type's
+// iterate(). Derivatives are taken with respect to the point in fractal
+// space.
+export interface OrbitState {
+  zx: number;
+  zy: number;
+  cx: number;
+  cy: number;
+  // Previous z and der, for maps with memory
+  prevX: number;
+  prevY: number;
+  derX: number;
+  derY: number;
+  prevDerX: number;
+  prevDerY: number;
+  // Derivative of c: 1, or 0 when c is fixed
+  dc: number;
+  // Root the orbit settled on, for types that converge
+  rootIndex: number;
+  // Steps taken so far
+  step: number;
+}
+
+// GLSL spliced into the fragment programs by shaders/fractalTypes.ts. The
+// iteration snippets run inside the main loop of their program, which checks
+// for escape (or convergence) after them.
+export interface FractalShader {
+  // Top-level constants and helper functions
+  functions?: string;
+  // One step of the standard program: advance z and der. In scope: z, c,
+  // prevZ, der, prevDer, dc (all vec2), rootIndex and the step number i
+  iterate: string;
+  // The same step for the double-single program, which only runs for power
+  // 2: advance the (hi, lo) pairs x and y (c is cx, cy; previous z px, py)
+  // and der, with z holding the float value of x and y
+  doubleFloat?: string;
+}
+
+export interface FractalTypeDefinition {
+  label: string;
+  // One line under the type picker
+  description: string;
+  start: FractalStart;
+  // Offers Julia mode, which starts z at the pixel and fixes c to the Julia
+  // constant instead (see getFractalStart)
+  juliaToggle?: boolean;
+  // How fast |z| grows once it escapes, as in |z_{n+1}| ~ |z_n|^degree,
+  // which smooth coloring normalizes by (default params.power)
+  escapeDegree?: (params: FractalParams) => number;
+  // Orbits settle on a root rather than escaping: colored by root, with no
+  // interior, histogram or distance estimate
+  converges?: boolean;
+  // Orbits neither escape nor settle: z.x runs every iteration (unless it
+  // leaves the escape radius) and z.y sums log |f'(z.x)|. Colored by the
+  // Lyapunov exponent this gives, stable points from the palette and
+  // chaotic ones as interior, whatever the coloring method
+  exponent?: boolean;
+  // For types that converge, how many roots the coloring tells apart
+  // (default 1)
+  basinCount?: (params: FractalParams) => number;
+  // Iterates on params.newtonRoots, which the controls edit and the canvas
+  // shows handles to drag
+  roots?: boolean;
+  // Iterates params.formula, whose editor and parameter sliders the controls
+  // show in place of params
+  formula?: boolean;
+  // Iterates by params.lyapunovSequence, which the controls edit
+  sequence?: boolean;
+  // Applied when switching to the type, starting with a view that shows its
+  // characteristic structure
+  defaults: Partial<FractalParams>;
+  params: FractalTypeParam[];
+  shader: FractalShader;
+  // CPU port of shader.iterate, for cpuRenderer
+  iterate: (state: OrbitState, params: FractalParams) => void;
+  // Deep zoom against a reference orbit (power 2 only)
+  perturbation?: boolean;
+  learn: FractalInfo;
+}
@@ -0,0 +1,94 @@
+// Animated PNG encoder: full-color frames compressed losslessly, so unlike
+// GIF there's no palette or dithering. The first frame doubles as the
+// still image shown by viewers without APNG support.
+
+import { ByteSink, PNG_SIGNATURE, createChunk, createHeader, filterRows } from "./png";
+
+export interface ApngStream {
+  // Append a frame of RGBA pixels (alpha ignored), shown for `delay`
+  // milliseconds
+  addFrame: (rgba: Uint8Array, delay: number) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+const deflate = async (data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> => {
+  const compressed = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(compressed).arrayBuffer());
+};
+
+const toRgb = (rgba: Uint8Array): Uint8Array => {
+  const rgb = new Uint8Array((rgba.length / 4) * 3);
+  for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+    rgb[j] = rgba[i];
+    rgb[j + 1] = rgba[i + 1];
+    rgb[j + 2] = rgba[i + 2];
+  }
+  return rgb;
+};
+
+// acTL: frame count and play count (0 loops forever)
+const createAnimationControl = (frameCount: number) => {
+  const data = new Uint8Array(8);
+  new DataView(data.buffer).setUint32(0, frameCount);
+  return createChunk("acTL", data);
+};
+
+// fcTL: a full-size frame replacing the previous one after `delay` ms
+const createFrameControl = (sequence: number, width: number, height: number, delay: number) => {
+  const data = new Uint8Array(26);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, sequence);
+  view.setUint32(4, width);
+  view.setUint32(8, height);
+  // x and y offsets are 0
+  view.setUint16(20, delay);
+  view.setUint16(22, 1000);
+  // dispose and blend ops are 0: leave the frame, overwrite the region
+  return createChunk("fcTL", data);
+};
+
+export const createApngStream = async (
+  width: number,
+  height: number,
+  frameCount: number,
+  sink: ByteSink,
+  // Extra chunks (text metadata and the like) placed before the image data
+  chunks: Uint8Array[] = []
+): Promise<ApngStream> => {
+  await sink.write(PNG_SIGNATURE);
+  await sink.write(createHeader(width, height));
+  await sink.write(createAnimationControl(frameCount));
+  for (const chunk of chunks) await sink.write(chunk);
+
+  // fcTL and fdAT chunks share one sequence
+  let sequence = 0;
+  let framesWritten = 0;
+
+  return {
+    async addFrame(rgba, delay) {
+      if (framesWritten === frameCount) {
+        throw new Error("More frames written than the animation length");
+      }
+
+      await sink.write(createFrameControl(sequence++, width, height, delay));
+      const data = await deflate(filterRows(toRgb(rgba), width, height));
+
+      if (framesWritten === 0) {
+        await sink.write(createChunk("IDAT", data));
+      } else {
+        const frameData = new Uint8Array(data.length + 4);
+        new DataView(frameData.buffer).setUint32(0, sequence++);
+        frameData.set(data, 4);
+        await sink.write(createChunk("fdAT", frameData));
+      }
+      framesWritten++;
+    },
+
+    async close() {
+      if (framesWritten !== frameCount) {
+        throw new Error(`Expected ${frameCount} frames, got ${framesWritten}`);
+      }
+      await sink.write(createChunk("IEND", new Uint8Array(0)));
+    },
+  };
+};
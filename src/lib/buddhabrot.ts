@@ -0,0 +1,195 @@
+import { FractalParams } from "@/types/fractal";
+import { FRACTAL_TYPES, FractalTypeParam, createOrbitState } from "@/fractals";
+import { Complex } from "./complex";
+import { getNumericView } from "./coordinates";
+
+// Buddhabrot mode: rather than coloring each point by its own orbit, start
+// orbits at random points, follow the ones that escape and count every
+// pixel they pass through on the way out. The counts only get smoother the
+// longer this runs, so the canvas keeps workers adding batches to a density
+// buffer (see densityAccumulator) and redraws it through density.glsl as it
+// fills in.
+
+// Counts or limits for the red, green and blue channels
+export type DensityChannels = [number, number, number];
+
+export interface DensityBuffer {
+  width: number;
+  height: number;
+  // Orbit points that landed in each pixel, per channel: RGB triples, top
+  // row first
+  counts: Float32Array;
+  // Starting points tried so far, escaping or not
+  samples: number;
+}
+
+// Sliders for the Buddhabrot section of the controls
+export const BUDDHABROT_PARAMS: FractalTypeParam[] = [
+  {
+    key: "buddhabrotMinIterations",
+    label: "Min Iterations",
+    min: 0,
+    max: 1000,
+    step: 1,
+    digits: 0,
+    hint: "Leave out orbits that escape sooner, which blur the finer detail",
+  },
+  { key: "buddhabrotGamma", label: "Gamma", min: 0.2, max: 5, step: 0.05, digits: 2 },
+];
+
+// Iteration limits of a Nebulabrot's channels, classically high, medium and
+// low so each color shows orbits of a different length
+export const NEBULABROT_PARAMS: FractalTypeParam[] = [
+  { key: "redIterations", label: "Red Iterations", min: 10, max: 10000, step: 10, digits: 0 },
+  { key: "greenIterations", label: "Green Iterations", min: 10, max: 10000, step: 10, digits: 0 },
+  { key: "blueIterations", label: "Blue Iterations", min: 10, max: 10000, step: 10, digits: 0 },
+];
+
+// Starting points are drawn from the square this far either side of the
+// origin, which holds the Mandelbrot set and its relatives
+export const SAMPLE_RADIUS = 2;
+
+export const createDensityBuffer = (width: number, height: number): DensityBuffer => ({
+  width,
+  height,
+  counts: new Float32Array(width * height * 3),
+  samples: 0,
+});
+
+// Root-finding and exponent types have no escaping orbits to follow
+export const supportsBuddhabrot = (params: FractalParams): boolean => {
+  const { converges, exponent } = FRACTAL_TYPES[params.type];
+  return !converges && !exponent;
+};
+
+// Orbits escaping within a channel's limit count towards it: all three
+// share maxIterations, except in a Nebulabrot
+export const getDensityLimits = (params: FractalParams): DensityChannels => {
+  if (!params.nebulabrot) return [params.maxIterations, params.maxIterations, params.maxIterations];
+  return [params.redIterations, params.greenIterations, params.blueIterations];
+};
+
+// Points in the Mandelbrot set's main cardioid and period-2 bulb never
+// escape, and would otherwise use up most of the time spent on samples
+const isInMainBulbs = (cx: number, cy: number) => {
+  const y2 = cy * cy;
+  const q = (cx - 0.25) * (cx - 0.25) + y2;
+  return q * (q + cx - 0.25) <= 0.25 * y2 || (cx + 1) * (cx + 1) + y2 <= 0.0625;
+};
+
+export type Random = () => number;
+
+// Seeded uniform numbers in [0, 1) (mulberry32), so each worker draws its
+// own points and tests get the same ones every run
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Follow `samples` more orbits and add the points of the escaping ones to
+// the buffer, whose pixels cover the view as the canvas's do
+export const accumulateDensity = (buffer: DensityBuffer, params: FractalParams, samples: number, random: Random) => {
+  const { width, height, counts } = buffer;
+  const fractalType = FRACTAL_TYPES[params.type];
+  const [redLimit, greenLimit, blueLimit] = getDensityLimits(params);
+  const maxIter = Math.max(redLimit, greenLimit, blueLimit);
+  const escapeRadiusSq = params.escapeRadius * params.escapeRadius;
+  const julia: Complex = [params.juliaReal, params.juliaImag];
+  const skipBulbs = params.type === "mandelbrot" && params.power === 2;
+
+  const view = getNumericView(params);
+  const scale = Math.min(width, height) * view.zoom;
+  const orbit = new Float64Array(maxIter * 2);
+
+  for (let sample = 0; sample < samples; sample++) {
+    const cx = (random() * 2 - 1) * SAMPLE_RADIUS;
+    const cy = (random() * 2 - 1) * SAMPLE_RADIUS;
+    if (skipBulbs && isInMainBulbs(cx, cy)) continue;
+
+    // The points before the escape, as iteratePoint() counts them
+    const state = createOrbitState(params, cx, cy, julia);
+    let iter = 0;
+    for (; iter < maxIter; iter++) {
+      fractalType.iterate(state, params);
+      state.step += 1;
+      if (state.zx * state.zx + state.zy * state.zy > escapeRadiusSq) break;
+      orbit[iter * 2] = state.zx;
+      orbit[iter * 2 + 1] = state.zy;
+    }
+    if (iter >= maxIter || iter < params.buddhabrotMinIterations) continue;
+
+    const red = iter < redLimit ? 1 : 0;
+    const green = iter < greenLimit ? 1 : 0;
+    const blue = iter < blueLimit ? 1 : 0;
+    // The pixel whose center is nearest, as forEachPixel() places them
+    for (let i = 0; i < iter; i++) {
+      const col = Math.floor((orbit[i * 2] - view.centerX) * scale + width * 0.5);
+      const row = Math.floor(height * 0.5 - (orbit[i * 2 + 1] - view.centerY) * scale);
+      if (col < 0 || col >= width || row < 0 || row >= height) continue;
+      const offset = (row * width + col) * 3;
+      counts[offset] += red;
+      counts[offset + 1] += green;
+      counts[offset + 2] += blue;
+    }
+  }
+  buffer.samples += samples;
+};
+
+// Highest count in each channel
+export const getDensityMax = ({ counts }: DensityBuffer): DensityChannels => {
+  const max: DensityChannels = [0, 0, 0];
+  for (let i = 0; i < counts.length; i += 3) {
+    max[0] = Math.max(max[0], counts[i]);
+    max[1] = Math.max(max[1], counts[i + 1]);
+    max[2] = Math.max(max[2], counts[i + 2]);
+  }
+  return max;
+};
+
+// Share of the lit pixels in a channel allowed above full brightness. The
+// few pixels slow orbits keep circling collect far more than the rest, and
+// scaling to the highest count would leave everything else dark.
+const WHITE_POINT_CLIP = 0.002;
+// Lit pixels looked at to place the white point, spread over the buffer
+const WHITE_POINT_SAMPLES = 65536;
+
+// Count in each channel that maps to full brightness
+export const getDensityWhitePoint = ({ counts }: DensityBuffer): DensityChannels => {
+  const pixels = counts.length / 3;
+  const stride = Math.max(1, Math.floor(pixels / WHITE_POINT_SAMPLES));
+  const whitePoint: DensityChannels = [0, 0, 0];
+
+  for (let channel = 0; channel < 3; channel++) {
+    const lit: number[] = [];
+    for (let i = 0; i < pixels; i += stride) {
+      const count = counts[i * 3 + channel];
+      if (count > 0) lit.push(count);
+    }
+    if (lit.length === 0) continue;
+    const sorted = Float32Array.from(lit).sort();
+    whitePoint[channel] = sorted[Math.floor((sorted.length - 1) * (1 - WHITE_POINT_CLIP))];
+  }
+  return whitePoint;
+};
+
+// Add counts accumulated separately over the same view
+export const addDensity = (target: DensityBuffer, source: DensityBuffer) => {
+  for (let i = 0; i < target.counts.length; i++) target.counts[i] += source.counts[i];
+  target.samples += source.samples;
+};
+
+// The raw counts as 16-bit RGB rows for a PNG, top row first and big-endian,
+// scaled down evenly only if the highest count doesn't fit
+export const encodeDensityCounts = (buffer: DensityBuffer): Uint8Array => {
+  const peak = Math.max(...getDensityMax(buffer));
+  const scale = peak > 0xffff ? 0xffff / peak : 1;
+  const bytes = new Uint8Array(buffer.counts.length * 2);
+  const view = new DataView(bytes.buffer);
+  buffer.counts.forEach((count, i) => view.setUint16(i * 2, Math.round(count * scale)));
+  return bytes;
+};
@@ -0,0 +1,47 @@
+// Complex arithmetic on (re, im) pairs, matching the helpers in
+// shaders/common.glsl. Shared by the CPU renderer and the fractal types.
+
+export type Complex = [number, number];
+
+export const EPSILON = 1e-10;
+
+export const complexMul = ([ax, ay]: Complex, [bx, by]: Complex): Complex => [ax * bx - ay * by, ax * by + ay * bx];
+
+export const complexDiv = ([ax, ay]: Complex, [bx, by]: Complex): Complex => {
+  const denom = bx * bx + by * by;
+  if (denom < EPSILON) return [0, 0];
+  return [(ax * bx + ay * by) / denom, (ay * bx - ax * by) / denom];
+};
+
+export const complexPow = (x: number, y: number, n: number): Complex => {
+  const r = Math.hypot(x, y);
+  if (r < EPSILON) return [0, 0];
+  const theta = Math.atan2(y, x);
+  const rn = Math.pow(r, n);
+  return [rn * Math.cos(n * theta), rn * Math.sin(n * theta)];
+};
+
+// Elementary functions for custom formulas, matching the helpers the
+// custom type adds to the shaders
+
+export const complexExp = ([x, y]: Complex): Complex => {
+  const r = Math.exp(x);
+  return [r * Math.cos(y), r * Math.sin(y)];
+};
+
+// Principal branch; log 0 is clamped to log EPSILON rather than -Infinity
+export const complexLog = ([x, y]: Complex): Complex => {
+  const r = Math.hypot(x, y);
+  if (r < EPSILON) return [Math.log(EPSILON), 0];
+  return [Math.log(r), Math.atan2(y, x)];
+};
+
+export const complexSqrt = ([x, y]: Complex): Complex => complexPow(x, y, 0.5);
+
+export const complexSin = ([x, y]: Complex): Complex => [Math.sin(x) * Math.cosh(y), Math.cos(x) * Math.sinh(y)];
+
+export const complexCos = ([x, y]: Complex): Complex => [Math.cos(x) * Math.cosh(y), -Math.sin(x) * Math.sinh(y)];
+
+export const complexSinh = ([x, y]: Complex): Complex => [Math.sinh(x) * Math.cos(y), Math.cosh(x) * Math.sin(y)];
+
+export const complexCosh = ([x, y]: Complex): Complex => [Math.cosh(x) * Math.cos(y), Math.sinh(x) * Math.sin(y)];
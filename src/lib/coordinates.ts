@@ -0,0 +1,70 @@
+import Decimal from "decimal.js";
+import { FractalParams } from "@/types/fractal";
+
+// Extra decimal digits kept beyond what the zoom level strictly needs
+const GUARD_DIGITS = 20;
+
+// Matches plain and exponent-notation decimals such as "-1.25", ".5" or "3e-40"
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+// Floating-point view of the arbitrary-precision coordinates, for display,
+// shader uniforms and anything else that doesn't need every digit
+export interface NumericView {
+  centerX: number;
+  centerY: number;
+  zoom: number;
+}
+
+// Digits needed to resolve one pixel at this zoom, plus guard digits
+export const getRequiredPrecision = (zoom: number): number => {
+  return Math.ceil(Math.log10(Math.max(zoom, 1))) + GUARD_DIGITS;
+};
+
+// Decimal constructor working at the precision a zoom level needs. Exponent
+// notation is disabled so coordinates always read as plain decimals.
+export const createDecimal = (zoom: number): typeof Decimal => {
+  return Decimal.clone({
+    precision: getRequiredPrecision(zoom),
+    toExpNeg: -9e15,
+    toExpPos: 9e15,
+  });
+};
+
+export const isValidDecimal = (value: string): boolean => {
+  return DECIMAL_PATTERN.test(value.trim());
+};
+
+export const toNumber = (value: string): number => {
+  return Number(value);
+};
+
+export const getNumericView = (params: Pick<FractalParams, "centerX" | "centerY" | "zoom">): NumericView => {
+  return {
+    centerX: toNumber(params.centerX),
+    centerY: toNumber(params.centerY),
+    zoom: toNumber(params.zoom),
+  };
+};
+
+// Move a coordinate by a floating-point offset without losing the digits
+// below double precision
+export const translateCoordinate = (value: string, delta: number, zoom: string): string => {
+  const D = createDecimal(toNumber(zoom));
+  return new D(value).plus(delta).toString();
+};
+
+// Exact difference a - b of two coordinates, rounded to a double
+export const coordinateDifference = (a: string, b: string): number => {
+  return new Decimal(a).minus(b).toNumber();
+};
+
+// Zoom only needs double precision; it is kept as a string so it can travel
+// alongside the center and be stored without a lossy float column
+export const scaleZoom = (zoom: string, factor: number): string => {
+  return String(toNumber(zoom) * factor);
+};
+
+export const formatZoom = (zoom: string): string => {
+  const value = toNumber(zoom);
+  return value < 1000 ? value.toFixed(2) : value.toExponential(2);
+};
@@ -0,0 +1,842 @@
+import { DEFAULT_GRADIENT, FractalParams, Gradient } from "@/types/fractal";
+import { FRACTAL_TYPES, createOrbitState, getEscapeDegree } from "@/fractals";
+import { getNumericView } from "./coordinates";
+import { CAMERA_FOCAL_LENGTH, getCameraBasis } from "./view3d";
+import {
+  DensityBuffer,
+  DensityChannels,
+  accumulateDensity,
+  createDensityBuffer,
+  createRandom,
+  getDensityWhitePoint,
+  supportsBuddhabrot,
+} from "./buddhabrot";
+import { Complex, EPSILON, complexDiv, complexMul, complexPow } from "./complex";
+import { GRADIENT_TABLE_SIZE, createGradientTable } from "./gradient";
+import {
+  IterationHistogram,
+  buildIterationHistogram,
+  getHistogramSampleSize,
+  lookupIterationHistogram,
+} from "./histogram";
+
+// Pure TypeScript port of fragment.glsl, raymarch.glsl, density.glsl and the
+// coloring pipeline in common.glsl, for rendering without WebGL (server, tests, old
+// browsers). Each fractal type's step is ported alongside its GLSL in
+// src/fractals.
+// Keep it in step with the shaders: every function below is named after the
+// GLSL function it mirrors. Arithmetic is double precision, so deep zooms
+// stay sharp a little longer than on the GPU but are otherwise identical.
+
+export interface CpuRenderOptions {
+  width: number;
+  height: number;
+  // Seconds since the animation started (u_time); drives color cycling and
+  // Julia animation
+  time?: number;
+}
+
+export interface RenderedImage {
+  width: number;
+  height: number;
+  // Row-major RGBA, top row first, like ImageData
+  data: Uint8ClampedArray;
+}
+
+type Vec3 = [number, number, number];
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PI = 3.14159265359;
+
+// Same hard cap as the shader's loop bound
+const MAX_LOOP_ITERATIONS = 10000;
+
+// Distance coloring runs through the palette once per this many doublings
+// of the distance
+const DISTANCE_OCTAVES = 10;
+const LIGHT_AMBIENT = 0.25;
+const SPECULAR_POWER = 32;
+
+// Orbits back within this distance of a checkpoint have closed a cycle
+const PERIOD_TOLERANCE = 1e-4;
+// Cycle lengths 1 to INTERIOR_PERIODS span the interior gradient once
+const INTERIOR_PERIODS = 16;
+
+export const COLOR_SCHEME_INDEX: Record<FractalParams["colorScheme"], number> = {
+  classic: 0, smooth: 1, fire: 2, ocean: 3, rainbow: 4, monochrome: 5, psychedelic: 6, neon: 7, pastel: 8, custom: 9,
+};
+
+const COLOR_SCHEME_CUSTOM = 9;
+
+// ============================================================================
+// GLSL BUILT-INS
+// ============================================================================
+
+const fract = (x: number) => x - Math.floor(x);
+const clamp = (x: number, min: number, max: number) => Math.min(Math.max(x, min), max);
+const mix = (a: number, b: number, t: number) => a * (1 - t) + b * t;
+const step = (edge: number, x: number) => (x < edge ? 0 : 1);
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const normalize = (v: Vec3): Vec3 => {
+  const length = Math.sqrt(dot(v, v));
+  return [v[0] / length, v[1] / length, v[2] / length];
+};
+
+// ============================================================================
+// COLOR CONVERSION
+// ============================================================================
+
+export const hsv2rgb = ([h, s, v]: Vec3): Vec3 => {
+  const channel = (k: number) => {
+    const p = Math.abs(fract(h + k) * 6 - 3);
+    return v * mix(1, clamp(p - 1, 0, 1), s);
+  };
+  return [channel(1), channel(2 / 3), channel(1 / 3)];
+};
+
+export const rgb2hsv = ([r, g, b]: Vec3): Vec3 => {
+  const s1 = step(b, g);
+  const p = [mix(b, g, s1), mix(g, b, s1), mix(-1, 0, s1), mix(2 / 3, -1 / 3, s1)];
+  const s2 = step(p[0], r);
+  const q = [mix(p[0], r, s2), mix(p[1], p[1], s2), mix(p[3], p[2], s2), mix(r, p[0], s2)];
+  const d = q[0] - Math.min(q[3], q[1]);
+  const e = 1.0e-10;
+  return [Math.abs(q[2] + (q[3] - q[1]) / (6 * d + e)), d / (q[0] + e), q[0]];
+};
+
+// ============================================================================
+// COLOR PALETTES
+// ============================================================================
+
+// Palette parameters for each color scheme, indexed like u_colorScheme.
+// Schemes 4 (Rainbow), 5 (Monochrome), 7 (Neon) have special handling.
+export const PALETTE_A: Vec3[] = [
+  [0.5, 0.5, 0.5], [0.5, 0.5, 0.5], [0.5, 0.2, 0.0], [0.0, 0.2, 0.4], [0, 0, 0],
+  [0, 0, 0], [0.5, 0.5, 0.5], [0.5, 0.5, 0.5], [0.8, 0.8, 0.8],
+];
+
+export const PALETTE_B: Vec3[] = [
+  [0.5, 0.5, 0.5], [0.5, 0.5, 0.5], [0.5, 0.4, 0.2], [0.0, 0.4, 0.5], [0, 0, 0],
+  [0, 0, 0], [0.5, 0.5, 0.5], [0.5, 0.5, 0.5], [0.2, 0.2, 0.2],
+];
+
+export const PALETTE_C: Vec3[] = [
+  [1.0, 1.0, 1.0], [1.0, 1.0, 1.0], [1.0, 0.8, 0.4], [0.0, 0.6, 0.8], [0, 0, 0],
+  [0, 0, 0], [2.0, 1.0, 0.0], [1.0, 1.0, 1.0], [1.0, 1.0, 1.0],
+];
+
+export const PALETTE_D: Vec3[] = [
+  [0.0, 0.1, 0.2], [0.0, 0.33, 0.67], [0.0, 0.1, 0.2], [0.0, 0.1, 0.3], [0, 0, 0],
+  [0, 0, 0], [0.5, 0.2, 0.25], [0.0, 0.1, 0.2], [0.0, 0.33, 0.67],
+];
+
+const palette = (t: number, a: Vec3, b: Vec3, c: Vec3, d: Vec3): Vec3 => [
+  a[0] + b[0] * Math.cos(6.28318 * (c[0] * t + d[0])),
+  a[1] + b[1] * Math.cos(6.28318 * (c[1] * t + d[1])),
+  a[2] + b[2] * Math.cos(6.28318 * (c[2] * t + d[2])),
+];
+
+// The texture drawFrame() uploads for each gradient, built once per gradient
+// object rather than per pixel
+const gradientTables = new WeakMap<Gradient, Uint8Array>();
+
+const getGradientTable = (gradient: Gradient) => {
+  let table = gradientTables.get(gradient);
+  if (!table) {
+    table = createGradientTable(gradient);
+    gradientTables.set(gradient, table);
+  }
+  return table;
+};
+
+// Linear filtering between texel centers, as the GPU samples u_gradient
+const sampleGradient = (value: number, gradient: Gradient): Vec3 => {
+  const t = gradient.repeat === "mirror" ? 1 - Math.abs(fract(value * 0.5) * 2 - 1) : fract(value);
+  const table = getGradientTable(gradient);
+  const position = t * (GRADIENT_TABLE_SIZE - 1);
+  const i = Math.min(Math.floor(position), GRADIENT_TABLE_SIZE - 2);
+  const f = position - i;
+  return [0, 1, 2].map((c) => mix(table[i * 4 + c], table[(i + 1) * 4 + c], f) / 255) as Vec3;
+};
+
+export const getColorScheme = (value: number, scheme: number, gradient: Gradient = DEFAULT_GRADIENT): Vec3 => {
+  if (scheme === COLOR_SCHEME_CUSTOM) return sampleGradient(value, gradient);
+
+  const t = fract(value);
+
+  if (scheme === 4) return hsv2rgb([t, 0.85, 0.95]); // Rainbow
+  if (scheme === 5) return [t, t, t];                // Monochrome
+
+  const idx = clamp(scheme, 0, 8);
+  const col = palette(t, PALETTE_A[idx], PALETTE_B[idx], PALETTE_C[idx], PALETTE_D[idx]);
+
+  // Neon gets extra brightness boost
+  if (scheme === 7) return col.map((c) => Math.pow(c, 0.5) * 1.5) as Vec3;
+
+  return col;
+};
+
+// ============================================================================
+// COLORING METHODS
+// ============================================================================
+
+// Orbit statistics gathered while iterating, as in updateOrbitStats()
+interface OrbitStats {
+  minDist: number;
+  stripe: number;
+  totalAngle: number;
+}
+
+const smoothIterationCount = (iter: number, maxIter: number, zx: number, zy: number, degree: number) => {
+  if (iter < maxIter) {
+    const logZn = Math.log(zx * zx + zy * zy) / 2;
+    const nu = Math.log(Math.max(logZn / Math.log(2), EPSILON)) / Math.log(Math.max(degree, 1.1));
+    iter = iter + 1 - nu;
+  }
+  return iter;
+};
+
+const calcSmoothColor = (iter: number, maxIter: number, zx: number, zy: number, degree: number) => {
+  return smoothIterationCount(iter, maxIter, zx, zy, degree) / maxIter;
+};
+
+const calcDistanceColor = (distance: number) => {
+  return Math.log2(Math.max(distance, 1)) / DISTANCE_OCTAVES;
+};
+
+const calcNewtonColor = (rootIndex: number, iter: number, maxIter: number, basinCount: number) => {
+  if (rootIndex >= 0) {
+    return (rootIndex + (iter / maxIter) * 0.9) / basinCount;
+  }
+  return 0;
+};
+
+const lyapunovExponent = (sum: number, iter: number) => {
+  return sum / Math.max(iter, 1);
+};
+
+const calcExponentColor = (exponent: number) => {
+  return 1 - Math.exp(exponent);
+};
+
+const calculateColorValue = (
+  params: FractalParams,
+  iter: number,
+  maxIter: number,
+  zx: number,
+  zy: number,
+  stats: OrbitStats,
+  rootIndex: number,
+  distance: number,
+  histogram?: IterationHistogram
+): number => {
+  const fractalType = FRACTAL_TYPES[params.type];
+  if (fractalType.converges) {
+    return calcNewtonColor(rootIndex, iter, maxIter, fractalType.basinCount?.(params) ?? 1);
+  }
+  if (fractalType.exponent) {
+    return calcExponentColor(zx);
+  }
+
+  switch (params.coloringMethod) {
+    case "escape":
+      return iter / maxIter;
+    case "smooth":
+      return calcSmoothColor(iter, maxIter, zx, zy, getEscapeDegree(params));
+    case "orbit":
+      return clamp(1 - stats.minDist / params.orbitTrapSize, 0, 1);
+    case "angle":
+      return stats.totalAngle / (Math.max(iter, 1) * PI * 2) + 0.5;
+    case "stripe":
+      return (stats.stripe / Math.max(iter, 1)) * 0.5 + 0.5;
+    case "histogram":
+      // calcHistogramColor; without a histogram, smooth coloring as the
+      // canvas falls back to
+      return histogram
+        ? lookupIterationHistogram(histogram, smoothIterationCount(iter, maxIter, zx, zy, getEscapeDegree(params)))
+        : calcSmoothColor(iter, maxIter, zx, zy, getEscapeDegree(params));
+    case "distance":
+      return calcDistanceColor(distance);
+    default: // Domain
+      return Math.atan2(zy, zx) / (2 * PI) + 0.5;
+  }
+};
+
+// ============================================================================
+// POST-PROCESSING EFFECTS
+// ============================================================================
+
+// applyLighting: Blinn-Phong shading of the surface whose normal leans
+// along z / der
+const applyLighting = (params: FractalParams, color: Vec3, orbit: Orbit): Vec3 => {
+  // z * conj(der)
+  const slopeX = orbit.zx * orbit.derX + orbit.zy * orbit.derY;
+  const slopeY = orbit.zy * orbit.derX - orbit.zx * orbit.derY;
+  const slopeLength = Math.hypot(slopeX, slopeY);
+  if (slopeLength * slopeLength < EPSILON) return color;
+
+  const normal = normalize([slopeX / slopeLength, slopeY / slopeLength, 1]);
+  const angle = (params.lightAngle * PI) / 180;
+  const light = normalize([Math.cos(angle), Math.sin(angle), params.lightHeight]);
+  const halfway = normalize([light[0], light[1], light[2] + 1]);
+
+  const diffuse = Math.max(dot(normal, light), 0);
+  const specular = Math.pow(Math.max(dot(normal, halfway), 0), SPECULAR_POWER) * params.specular;
+  return color.map((c) => c * (LIGHT_AMBIENT + (1 - LIGHT_AMBIENT) * diffuse) + specular) as Vec3;
+};
+
+// applyBoundary: darken toward the set over boundaryWidth pixels
+const applyBoundary = (params: FractalParams, color: Vec3, distance: number): Vec3 => {
+  if (params.boundaryWidth > 0) {
+    const t = clamp(distance / params.boundaryWidth, 0, 1);
+    const fade = t * t * (3 - 2 * t);
+    return color.map((c) => c * fade) as Vec3;
+  }
+  return color;
+};
+
+const postProcess = (
+  params: FractalParams,
+  color: Vec3,
+  iter: number,
+  maxIter: number,
+  colorVal: number,
+  scheme: number
+): Vec3 => {
+  // applyHueShift
+  if (params.hueShift > 0.001) {
+    const hsv = rgb2hsv(color);
+    hsv[0] = fract(hsv[0] + params.hueShift);
+    color = hsv2rgb(hsv);
+  }
+
+  // applySaturation
+  const gray = color[0] * 0.299 + color[1] * 0.587 + color[2] * 0.114;
+  color = color.map((c) => mix(gray, c, params.saturation) * params.brightness) as Vec3;
+
+  // applyGlow
+  if (params.glowIntensity > 0 && !FRACTAL_TYPES[params.type].converges && !FRACTAL_TYPES[params.type].exponent) {
+    const glow = Math.pow(1 - iter / maxIter, 3) * params.glowIntensity;
+    const glowColor = getColorScheme(colorVal + 0.5, scheme, params.gradient);
+    color = color.map((c, i) => c + glow * glowColor[i]) as Vec3;
+  }
+
+  // applyPosterize
+  if (params.posterize > 1.5) {
+    color = color.map((c) => Math.floor(c * params.posterize) / params.posterize) as Vec3;
+  }
+
+  return color.map((c) => clamp(c, 0, 1)) as Vec3;
+};
+
+// ============================================================================
+// INTERIOR
+// ============================================================================
+
+// Cycle detection state, as in the Interior struct
+interface Interior {
+  checkpoint: Complex;
+  checkIter: number;
+  period: number;
+  dz: Complex;
+  dc: Complex;
+  dzz: Complex;
+  dzc: Complex;
+  distance: number;
+}
+
+const initInterior = (): Interior => ({
+  checkpoint: [0, 0],
+  checkIter: 0.5,
+  period: 0,
+  dz: [1, 0],
+  dc: [0, 0],
+  dzz: [0, 0],
+  dzc: [0, 0],
+  distance: 0,
+});
+
+const updateInterior = (params: FractalParams, state: Interior, z: Complex, iteration: number) => {
+  const tracked = params.interiorColoring === "period" || params.interiorColoring === "distance";
+  if (!tracked || state.period > 0) return;
+
+  const fromX = z[0] - state.checkpoint[0];
+  const fromY = z[1] - state.checkpoint[1];
+  if (iteration > state.checkIter && fromX * fromX + fromY * fromY < PERIOD_TOLERANCE * PERIOD_TOLERANCE) {
+    state.period = iteration - state.checkIter;
+    const ratio = complexDiv(state.dc, [1 - state.dz[0], -state.dz[1]]);
+    const [slopeX, slopeY] = complexMul(state.dzz, ratio);
+    const slope = Math.hypot(state.dzc[0] + slopeX, state.dzc[1] + slopeY);
+    state.distance = (1 - (state.dz[0] ** 2 + state.dz[1] ** 2)) / Math.max(slope, EPSILON);
+    return;
+  }
+
+  if (iteration >= state.checkIter * 2) {
+    Object.assign(state, { checkpoint: z, checkIter: iteration, dz: [1, 0], dc: [0, 0], dzz: [0, 0], dzc: [0, 0] });
+  }
+
+  if (params.interiorColoring === "distance" && params.type === "mandelbrot") {
+    const power = params.power;
+    const [p1x, p1y] = power === 2 ? z : complexPow(z[0], z[1], power - 1);
+    const [p2x, p2y] = power === 2 ? [1, 0] : complexPow(z[0], z[1], power - 2);
+    const d1: Complex = [power * p1x, power * p1y];
+    const d2: Complex = [power * (power - 1) * p2x, power * (power - 1) * p2y];
+    const add = (a: Complex, b: Complex): Complex => [a[0] + b[0], a[1] + b[1]];
+    state.dzc = add(complexMul(d2, complexMul(state.dz, state.dc)), complexMul(d1, state.dzc));
+    state.dzz = add(complexMul(d2, complexMul(state.dz, state.dz)), complexMul(d1, state.dzz));
+    state.dz = complexMul(d1, state.dz);
+    state.dc = add(complexMul(d1, state.dc), [1, 0]);
+  }
+};
+
+const getInteriorColor = (params: FractalParams, orbit: Orbit, context: ShadeContext): Vec3 => {
+  const { interior } = orbit;
+  let mode = params.interiorColoring;
+  if (mode === "distance" && params.type !== "mandelbrot") mode = "period";
+
+  let t: number;
+  if (mode === "magnitude") {
+    t = Math.hypot(orbit.zx, orbit.zy) * 0.5;
+  } else if (mode === "period" && interior.period > 0) {
+    t = (interior.period - 1) / INTERIOR_PERIODS;
+  } else if (mode === "distance" && interior.period > 0) {
+    t = Math.log2(clamp(interior.distance / context.pixelSize, 1, 1e30)) / DISTANCE_OCTAVES;
+  } else {
+    // Black, or no cycle found within the iterations
+    return [0, 0, 0];
+  }
+
+  t += params.colorOffset + context.time * params.colorCycleSpeed;
+  return sampleGradient(t, params.interiorGradient);
+};
+
+// ============================================================================
+// ITERATION
+// ============================================================================
+
+// Where the orbit of a point ended up, ready for coloring. der is the
+// derivative of z with respect to the point, as stepDerivative() tracks it
+interface Orbit {
+  iter: number;
+  maxIter: number;
+  zx: number;
+  zy: number;
+  derX: number;
+  derY: number;
+  stats: OrbitStats;
+  rootIndex: number;
+  interior: Interior;
+}
+
+// Distance from an escaped point to the set, in pixels of the given size
+const distanceEstimate = (orbit: Orbit, pixelSize: number) => {
+  const r = Math.hypot(orbit.zx, orbit.zy);
+  return (0.5 * r * Math.log(r)) / Math.max(Math.hypot(orbit.derX, orbit.derY), EPSILON) / pixelSize;
+};
+
+// u_julia: the Julia params, with the same animation the canvas applies
+const getJulia = (params: FractalParams, time: number): Complex => {
+  if (params.animateJulia) {
+    return [Math.sin(time * params.juliaAnimSpeed * 0.5) * 0.7, Math.cos(time * params.juliaAnimSpeed * 0.3) * 0.7];
+  }
+  return [params.juliaReal, params.juliaImag];
+};
+
+// Iterate the point (cx, cy) in fractal space: the loop in main()
+const iteratePoint = (params: FractalParams, cx: number, cy: number, time: number): Orbit => {
+  const fractalType = FRACTAL_TYPES[params.type];
+  const state = createOrbitState(params, cx, cy, getJulia(params, time));
+
+  let iter = 0;
+  const maxIter = params.maxIterations;
+  const stats: OrbitStats = { minDist: 1e20, stripe: 0, totalAngle: 0 };
+  const escapeRadiusSq = params.escapeRadius * params.escapeRadius;
+  const interior = initInterior();
+
+  for (let i = 0; i < MAX_LOOP_ITERATIONS; i++) {
+    if (i >= maxIter) break;
+
+    // updateOrbitStats
+    const dist = Math.hypot(state.zx, state.zy);
+    stats.minDist = Math.min(stats.minDist, dist);
+    if (dist > EPSILON) {
+      const angle = Math.atan2(state.zy, state.zx);
+      stats.stripe += Math.sin(angle * params.stripeFrequency);
+      stats.totalAngle += angle;
+    }
+    updateInterior(params, interior, [state.zx, state.zy], i);
+
+    fractalType.iterate(state, params);
+    state.step += 1;
+
+    if (fractalType.converges) {
+      if (state.rootIndex >= 0) break;
+    } else if (fractalType.exponent) {
+      if (Math.abs(state.zx) > params.escapeRadius) break;
+    } else if (state.zx * state.zx + state.zy * state.zy > escapeRadiusSq) {
+      break;
+    }
+    iter += 1;
+  }
+
+  const { zx, zy, derX, derY, rootIndex } = state;
+  // Types colored by their Lyapunov exponent end with it in z, as in
+  // writeFragment()
+  if (fractalType.exponent) {
+    return { iter, maxIter, zx: lyapunovExponent(zy, iter), zy: 0, derX, derY, stats, rootIndex, interior };
+  }
+  return { iter, maxIter, zx, zy, derX, derY, stats, rootIndex, interior };
+};
+
+const isInterior = (params: FractalParams, orbit: Orbit) => {
+  const fractalType = FRACTAL_TYPES[params.type];
+  if (fractalType.exponent) return orbit.zx >= 0;
+  return orbit.iter >= orbit.maxIter && !fractalType.converges;
+};
+
+// What shadePoint needs to know about the image beyond the point itself
+export interface ShadeContext {
+  // Seconds since the animation started (u_time)
+  time: number;
+  // Fractal-space size of one image pixel, for distance estimation
+  pixelSize: number;
+  // The view's histogram, for histogram coloring
+  histogram?: IterationHistogram;
+}
+
+// Color of the point (cx, cy) in fractal space, as writeFragment() finishes
+// main()
+export const shadePoint = (params: FractalParams, cx: number, cy: number, context: ShadeContext): Vec3 => {
+  const { time, pixelSize, histogram } = context;
+  const orbit = iteratePoint(params, cx, cy, time);
+  const { iter, maxIter, zx, zy, stats, rootIndex } = orbit;
+  const interior = isInterior(params, orbit);
+  // Root basins and exponents have no distance estimate
+  const estimated = !interior && !FRACTAL_TYPES[params.type].converges && !FRACTAL_TYPES[params.type].exponent;
+  const distance = estimated ? distanceEstimate(orbit, pixelSize) : 0;
+
+  const scheme = COLOR_SCHEME_INDEX[params.colorScheme] ?? 0;
+  let colorVal = calculateColorValue(params, iter, maxIter, zx, zy, stats, rootIndex, distance, histogram);
+  colorVal = colorVal * params.colorScale + params.colorOffset + time * params.colorCycleSpeed;
+
+  let color: Vec3 = interior
+    ? getInteriorColor(params, orbit, context)
+    : getColorScheme(colorVal, scheme, params.gradient);
+  if (estimated && params.lighting) {
+    color = applyLighting(params, color, orbit);
+  }
+
+  color = postProcess(params, color, iter, maxIter, colorVal, scheme);
+  return estimated ? applyBoundary(params, color, distance) : color;
+};
+
+// ============================================================================
+// 3D MODE (raymarch.glsl)
+// ============================================================================
+
+const BOUNDING_RADIUS = 2;
+const MAX_MARCH_STEPS = 256;
+const MAX_SHAPE_ITERATIONS = 32;
+const HIT_PIXELS = 0.5;
+const STEP_FACTOR = 0.8;
+const SHADOW_STEPS = 48;
+const SHADOW_SOFTNESS = 8;
+const AO_SAMPLES = 5;
+const AO_SPACING = 0.03;
+const AO_STRENGTH = 5;
+
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const scale = (a: Vec3, s: number): Vec3 => [a[0] * s, a[1] * s, a[2] * s];
+
+// Distance to the shape and the orbit's closest approach to the origin
+type ShapeDistance = (p: Vec3) => [number, number];
+
+const mandelbulbDistance = (params: FractalParams, p: Vec3): [number, number] => {
+  const { power } = params;
+  let z = p;
+  let dr = 1;
+  let r = Math.sqrt(dot(z, z));
+  let trap = dot(z, z);
+  for (let i = 0; i < MAX_SHAPE_ITERATIONS; i++) {
+    if (i >= params.maxIterations || r > params.escapeRadius) break;
+    const theta = Math.acos(clamp(z[2] / r, -1, 1)) * power;
+    const phi = Math.atan2(z[1], z[0]) * power;
+    dr = power * Math.pow(r, power - 1) * dr + 1;
+    const rn = Math.pow(r, power);
+    z = add(scale([Math.sin(theta) * Math.cos(phi), Math.sin(theta) * Math.sin(phi), Math.cos(theta)], rn), p);
+    r = Math.sqrt(dot(z, z));
+    trap = Math.min(trap, dot(z, z));
+  }
+  return [(0.5 * Math.log(r) * r) / dr, trap];
+};
+
+const quaternionJuliaDistance = (params: FractalParams, [cr, ci]: Complex, p: Vec3): [number, number] => {
+  let [x, y, z, w] = [p[0], p[1], p[2], 0];
+  const escapeRadiusSq = params.escapeRadius * params.escapeRadius;
+  let dr = 1;
+  let r2 = x * x + y * y + z * z + w * w;
+  let trap = r2;
+  for (let i = 0; i < MAX_SHAPE_ITERATIONS; i++) {
+    if (i >= params.maxIterations || r2 > escapeRadiusSq) break;
+    dr = 2 * Math.sqrt(r2) * dr;
+    [x, y, z, w] = [x * x - (y * y + z * z + w * w) + cr, 2 * x * y + ci, 2 * x * z + params.juliaJ, 2 * x * w + params.juliaK];
+    r2 = x * x + y * y + z * z + w * w;
+    trap = Math.min(trap, r2);
+  }
+  const r = Math.sqrt(r2);
+  return [(0.5 * Math.log(r) * r) / dr, trap];
+};
+
+const getShapeDistance = (params: FractalParams, time: number): ShapeDistance => {
+  if (params.shape3d === "quaternionJulia") {
+    const julia = getJulia(params, time);
+    return (p) => quaternionJuliaDistance(params, julia, p);
+  }
+  return ([x, y, z]) => mandelbulbDistance(params, [x, z, y]);
+};
+
+const intersectBounds = (origin: Vec3, dir: Vec3): [number, number] => {
+  const b = dot(origin, dir);
+  const c = dot(origin, origin) - BOUNDING_RADIUS * BOUNDING_RADIUS;
+  let h = b * b - c;
+  if (h < 0) return [-1, -1];
+  h = Math.sqrt(h);
+  return [Math.max(-b - h, 0), -b + h];
+};
+
+const shapeNormal = (distance: ShapeDistance, p: Vec3, eps: number): Vec3 => {
+  const corners: Vec3[] = [[1, -1, -1], [-1, -1, 1], [-1, 1, -1], [1, 1, 1]];
+  return normalize(corners.reduce<Vec3>(
+    (sum, corner) => add(sum, scale(corner, distance(add(p, scale(corner, eps)))[0])),
+    [0, 0, 0]
+  ));
+};
+
+const softShadow = (distance: ShapeDistance, p: Vec3, light: Vec3, eps: number) => {
+  let shade = 1;
+  let t = eps * 10;
+  for (let i = 0; i < SHADOW_STEPS; i++) {
+    const d = distance(add(p, scale(light, t)))[0];
+    if (d < eps) return 0;
+    shade = Math.min(shade, (SHADOW_SOFTNESS * d) / t);
+    t += d * STEP_FACTOR;
+    if (t > BOUNDING_RADIUS * 2) break;
+  }
+  return clamp(shade, 0, 1);
+};
+
+const ambientOcclusion = (distance: ShapeDistance, p: Vec3, normal: Vec3) => {
+  let occlusion = 0;
+  let weight = 1;
+  for (let i = 1; i <= AO_SAMPLES; i++) {
+    const h = AO_SPACING * i;
+    occlusion += weight * (h - distance(add(p, scale(normal, h)))[0]);
+    weight *= 0.5;
+  }
+  return clamp(1 - AO_STRENGTH * occlusion, 0, 1);
+};
+
+const shadeSurface = (
+  params: FractalParams,
+  time: number,
+  distance: ShapeDistance,
+  p: Vec3,
+  dir: Vec3,
+  eps: number,
+  trap: number
+): Vec3 => {
+  const camera = getCameraBasis(params);
+  const normal = shapeNormal(distance, p, eps);
+
+  const scheme = COLOR_SCHEME_INDEX[params.colorScheme] ?? 0;
+  const colorVal = Math.sqrt(trap) * params.colorScale + params.colorOffset + time * params.colorCycleSpeed;
+  const color = getColorScheme(colorVal, scheme, params.gradient);
+
+  const angle = (params.lightAngle * PI) / 180;
+  const light = normalize(add(
+    add(scale(camera.right, Math.cos(angle)), scale(camera.up, Math.sin(angle))),
+    scale(camera.forward, -params.lightHeight)
+  ));
+  const halfway = normalize(add(light, scale(dir, -1)));
+
+  const shadow = params.softShadows ? softShadow(distance, add(p, scale(normal, eps * 2)), light, eps) : 1;
+  const occlusion = params.ambientOcclusion ? ambientOcclusion(distance, p, normal) : 1;
+  const diffuse = Math.max(dot(normal, light), 0) * shadow;
+  const specular = Math.pow(Math.max(dot(normal, halfway), 0), SPECULAR_POWER) * params.specular * shadow;
+  const lit = color.map((c) => c * (LIGHT_AMBIENT * occlusion + (1 - LIGHT_AMBIENT) * diffuse) + specular) as Vec3;
+
+  return postProcess(params, lit, params.maxIterations, params.maxIterations, colorVal, scheme);
+};
+
+// Color of the ray through (u, v) on the image plane, as raymarch.glsl's
+// main()
+const shadeRay = (params: FractalParams, time: number, distance: ShapeDistance, u: number, v: number, pixelWidth: number): Vec3 => {
+  const camera = getCameraBasis(params);
+  const dir = normalize(add(
+    add(scale(camera.forward, CAMERA_FOCAL_LENGTH), scale(camera.right, u)),
+    scale(camera.up, v)
+  ));
+
+  const bounds = intersectBounds(camera.position, dir);
+  let t = bounds[0];
+  for (let i = 0; i < MAX_MARCH_STEPS; i++) {
+    if (bounds[1] < 0 || t > bounds[1]) break;
+    const p = add(camera.position, scale(dir, t));
+    const [d, trap] = distance(p);
+    const eps = Math.max(t * pixelWidth * HIT_PIXELS, EPSILON);
+    if (d < eps) return shadeSurface(params, time, distance, p, dir, eps, trap);
+    t += d * STEP_FACTOR;
+  }
+  return [0, 0, 0];
+};
+
+// ============================================================================
+// BUDDHABROT (density.glsl)
+// ============================================================================
+
+// Starting points per pixel for a Buddhabrot rendered in one go, and the
+// seed they are drawn with, so the same params give the same image
+const DENSITY_SAMPLES_PER_PIXEL = 50;
+const DENSITY_SEED = 1;
+
+// Color of a buffer pixel with these counts, as main() does
+const shadeDensity = (params: FractalParams, time: number, counts: Vec3, whitePoint: DensityChannels): Vec3 => {
+  const level = counts.map((count, i) => {
+    return Math.pow(clamp(count / Math.max(whitePoint[i], 1), 0, 1), 1 / params.buddhabrotGamma);
+  }) as Vec3;
+
+  const scheme = COLOR_SCHEME_INDEX[params.colorScheme] ?? 0;
+  const colorVal = level[0] * params.colorScale + params.colorOffset + time * params.colorCycleSpeed;
+  const color = params.nebulabrot
+    ? level
+    : getColorScheme(colorVal, scheme, params.gradient).map((c) => c * level[0]) as Vec3;
+
+  return postProcess(params, color, params.maxIterations, params.maxIterations, colorVal, scheme);
+};
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+// Visit every pixel of a width x height image, top row first. Pixels are
+// sampled at their centers and mapped to fractal space exactly as
+// gl_FragCoord is in the shader, with y up.
+const forEachPixel = (
+  params: FractalParams,
+  width: number,
+  height: number,
+  visit: (cx: number, cy: number, index: number) => void
+) => {
+  const view = getNumericView(params);
+  const minDim = Math.min(width, height);
+
+  for (let row = 0; row < height; row++) {
+    const fragY = height - row - 0.5;
+    const cy = (fragY - height * 0.5) / minDim / view.zoom + view.centerY;
+
+    for (let col = 0; col < width; col++) {
+      const fragX = col + 0.5;
+      const cx = (fragX - width * 0.5) / minDim / view.zoom + view.centerX;
+      visit(cx, cy, row * width + col);
+    }
+  }
+};
+
+// The histogram value pass: smooth counts of a reduced-size render, laid
+// out like the float texture the canvas reads back
+const buildHistogram = (params: FractalParams, width: number, height: number, time: number) => {
+  const sample = getHistogramSampleSize(width, height);
+  const pixels = new Float32Array(sample.width * sample.height * 4);
+
+  forEachPixel(params, sample.width, sample.height, (cx, cy, index) => {
+    const orbit = iteratePoint(params, cx, cy, time);
+    pixels[index * 4] = smoothIterationCount(orbit.iter, orbit.maxIter, orbit.zx, orbit.zy, getEscapeDegree(params));
+    pixels[index * 4 + 1] = isInterior(params, orbit) ? 0 : 1;
+    pixels[index * 4 + 3] = 1;
+  });
+
+  return buildIterationHistogram(pixels);
+};
+
+// Render a full image
+export const renderFractal = (params: FractalParams, options: CpuRenderOptions): RenderedImage => {
+  if (params.view3d) return render3d(params, options);
+  if (params.buddhabrot && supportsBuddhabrot(params)) return renderBuddhabrot(params, options);
+
+  const { width, height, time = 0 } = options;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const context: ShadeContext = {
+    time,
+    pixelSize: 1 / Math.min(width, height) / getNumericView(params).zoom,
+    histogram: params.coloringMethod === "histogram" && !FRACTAL_TYPES[params.type].converges && !FRACTAL_TYPES[params.type].exponent
+      ? buildHistogram(params, width, height, time)
+      : undefined,
+  };
+
+  forEachPixel(params, width, height, (cx, cy, index) => {
+    const [r, g, b] = shadePoint(params, cx, cy, context);
+    const offset = index * 4;
+    data[offset] = Math.round(r * 255);
+    data[offset + 1] = Math.round(g * 255);
+    data[offset + 2] = Math.round(b * 255);
+    data[offset + 3] = 255;
+  });
+
+  return { width, height, data };
+};
+
+// The 3D mode, pixel by pixel like forEachPixel() but onto the image plane
+const render3d = (params: FractalParams, options: CpuRenderOptions): RenderedImage => {
+  const { width, height, time = 0 } = options;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const distance = getShapeDistance(params, time);
+  const minDim = Math.min(width, height);
+  const pixelWidth = 1 / (minDim * CAMERA_FOCAL_LENGTH);
+
+  for (let row = 0; row < height; row++) {
+    const v = (height - row - 0.5 - height * 0.5) / minDim;
+    for (let col = 0; col < width; col++) {
+      const u = (col + 0.5 - width * 0.5) / minDim;
+      const [r, g, b] = shadeRay(params, time, distance, u, v, pixelWidth);
+      const offset = (row * width + col) * 4;
+      data[offset] = Math.round(r * 255);
+      data[offset + 1] = Math.round(g * 255);
+      data[offset + 2] = Math.round(b * 255);
+      data[offset + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+};
+
+// Color a density buffer pixel for pixel, at the buffer's size. The canvas
+// exports its running buffer through this too.
+export const renderDensityBuffer = (params: FractalParams, buffer: DensityBuffer, time = 0): RenderedImage => {
+  const { width, height, counts } = buffer;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const whitePoint = getDensityWhitePoint(buffer);
+
+  for (let index = 0; index < width * height; index++) {
+    const pixel = Array.from(counts.subarray(index * 3, index * 3 + 3)) as Vec3;
+    const [r, g, b] = shadeDensity(params, time, pixel, whitePoint);
+    const offset = index * 4;
+    data[offset] = Math.round(r * 255);
+    data[offset + 1] = Math.round(g * 255);
+    data[offset + 2] = Math.round(b * 255);
+    data[offset + 3] = 255;
+  }
+
+  return { width, height, data };
+};
+
+// The Buddhabrot mode, from a fixed number of seeded samples rather than
+// the canvas's open-ended run
+const renderBuddhabrot = (params: FractalParams, options: CpuRenderOptions): RenderedImage => {
+  const { width, height, time = 0 } = options;
+  const buffer = createDensityBuffer(width, height);
+  accumulateDensity(buffer, params, width * height * DENSITY_SAMPLES_PER_PIXEL, createRandom(DENSITY_SEED));
+  return renderDensityBuffer(params, buffer, time);
+};
@@ -0,0 +1,86 @@
+import { FractalParams } from "@/types/fractal";
+import { DensityBuffer, addDensity, createDensityBuffer } from "./buddhabrot";
+
+// Runs the Buddhabrot on a few workers (densityWorker.ts), each following
+// its own random orbits over the same view, and adds up what they send
+// back. Starting a new view drops whatever the workers were still sending
+// for the old one.
+
+// Longest side of the density buffer; the canvas stretches it to fit
+export const MAX_DENSITY_SIZE = 1024;
+
+// Starting points per buffer pixel after which the workers stop, by when
+// the image has long stopped changing
+export const MAX_SAMPLES_PER_PIXEL = 2000;
+
+const MAX_WORKERS = 4;
+
+export type DensityWorkerRequest =
+  | { type: "start"; generation: number; params: FractalParams; width: number; height: number; samples: number; seed: number }
+  | { type: "stop" };
+
+// Counts a worker added since its last update; its own buffer starts over
+// so this one can be transferred
+export interface DensityWorkerUpdate {
+  generation: number;
+  counts: Float32Array;
+  samples: number;
+}
+
+export interface DensityAccumulator {
+  // Start over on params' view with a width × height buffer
+  start: (params: FractalParams, width: number, height: number) => void;
+  stop: () => void;
+  dispose: () => void;
+}
+
+// Buffer size for a width × height image
+export const getDensitySize = (width: number, height: number) => {
+  const scale = Math.min(1, MAX_DENSITY_SIZE / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+// onUpdate gets the running totals, the same buffer each time, after every
+// worker update
+export const createDensityAccumulator = (onUpdate: (buffer: DensityBuffer) => void): DensityAccumulator => {
+  const workerCount = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency ?? 2) - 1));
+  let generation = 0;
+  let buffer: DensityBuffer | null = null;
+
+  const workers = Array.from({ length: workerCount }, () => {
+    const worker = new Worker(new URL("./densityWorker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = ({ data }: MessageEvent<DensityWorkerUpdate>) => {
+      if (data.generation !== generation || !buffer) return;
+      addDensity(buffer, { width: buffer.width, height: buffer.height, counts: data.counts, samples: data.samples });
+      onUpdate(buffer);
+    };
+    return worker;
+  });
+
+  const post = (request: DensityWorkerRequest, worker: Worker) => worker.postMessage(request);
+
+  return {
+    start: (params, width, height) => {
+      generation++;
+      buffer = createDensityBuffer(width, height);
+      onUpdate(buffer);
+      const samples = Math.ceil((width * height * MAX_SAMPLES_PER_PIXEL) / workerCount);
+      workers.forEach((worker, i) => {
+        post({ type: "start", generation, params, width, height, samples, seed: generation * workerCount + i }, worker);
+      });
+    },
+
+    stop: () => {
+      generation++;
+      workers.forEach((worker) => post({ type: "stop" }, worker));
+    },
+
+    dispose: () => {
+      generation++;
+      workers.forEach((worker) => worker.terminate());
+    },
+  };
+};
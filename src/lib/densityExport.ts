@@ -0,0 +1,50 @@
+import { FractalParams } from "@/types/fractal";
+import { DensityBuffer, encodeDensityCounts } from "./buddhabrot";
+import { renderDensityBuffer } from "./cpuRenderer";
+import { ExportSink } from "./exportSink";
+import { createPngStream } from "./png";
+
+// "image" is the Buddhabrot as the canvas shows it; "counts" is the buffer
+// behind it as 16-bit linear RGB, to tone-map in another program
+export type DensityFormat = "image" | "counts";
+
+export interface DensityExportOptions {
+  format: DensityFormat;
+  // PNG chunks to write ahead of the image data, e.g. embedded params
+  metadata?: Uint8Array[];
+}
+
+const toRgb = (rgba: Uint8ClampedArray): Uint8Array => {
+  const rgb = new Uint8Array((rgba.length / 4) * 3);
+  for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+    rgb[j] = rgba[i];
+    rgb[j + 1] = rgba[i + 1];
+    rgb[j + 2] = rgba[i + 2];
+  }
+  return rgb;
+};
+
+// Write the density buffer to `sink` as a PNG at the buffer's own size.
+// The rows are taken before anything is awaited, so workers still adding to
+// the buffer don't change the file halfway through.
+export const exportDensity = async (
+  buffer: DensityBuffer,
+  params: FractalParams,
+  sink: ExportSink,
+  { format, metadata }: DensityExportOptions
+): Promise<void> => {
+  const { width, height } = buffer;
+  const rows =
+    format === "counts" ? encodeDensityCounts(buffer) : toRgb(renderDensityBuffer(params, buffer).data);
+
+  const png = await createPngStream(width, height, sink, metadata, format === "counts" ? 16 : 8);
+  try {
+    await png.writeRows(rows, height);
+    await png.close();
+    await sink.close();
+  } catch (error) {
+    await png.abort();
+    await sink.abort().catch(() => {});
+    throw error;
+  }
+};
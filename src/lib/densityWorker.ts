@@ -0,0 +1,58 @@
+import { DensityBuffer, Random, accumulateDensity, createDensityBuffer, createRandom } from "./buddhabrot";
+import type { DensityWorkerRequest, DensityWorkerUpdate } from "./densityAccumulator";
+
+// Worker entry point: one share of the canvas's Buddhabrot (see
+// densityAccumulator). Orbits are followed in short bursts so new requests
+// get through, and what each run of bursts added is posted back, at first
+// every FIRST_UPDATE_MS so the image appears quickly and then less often.
+
+const BURST_SAMPLES = 1000;
+const FIRST_UPDATE_MS = 100;
+const MAX_UPDATE_MS = 1000;
+
+interface Job {
+  request: Extract<DensityWorkerRequest, { type: "start" }>;
+  buffer: DensityBuffer;
+  random: Random;
+  // Samples left before stopping
+  remaining: number;
+  interval: number;
+}
+
+let job: Job | null = null;
+
+const run = (current: Job) => {
+  if (job !== current) return;
+
+  const { generation, params, width, height } = current.request;
+  const started = performance.now();
+  while (current.remaining > 0 && performance.now() - started < current.interval) {
+    const samples = Math.min(BURST_SAMPLES, current.remaining);
+    accumulateDensity(current.buffer, params, samples, current.random);
+    current.remaining -= samples;
+  }
+
+  const { counts, samples } = current.buffer;
+  const update: DensityWorkerUpdate = { generation, counts, samples };
+  self.postMessage(update, { transfer: [counts.buffer] });
+  current.buffer = createDensityBuffer(width, height);
+  current.interval = Math.min(current.interval * 2, MAX_UPDATE_MS);
+
+  if (current.remaining > 0) setTimeout(() => run(current), 0);
+};
+
+self.onmessage = ({ data }: MessageEvent<DensityWorkerRequest>) => {
+  if (data.type === "stop") {
+    job = null;
+    return;
+  }
+
+  job = {
+    request: data,
+    buffer: createDensityBuffer(data.width, data.height),
+    random: createRandom(data.seed),
+    remaining: data.samples,
+    interval: FIRST_UPDATE_MS,
+  };
+  run(job);
+};
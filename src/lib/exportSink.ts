@@ -0,0 +1,72 @@
+import { ByteSink } from "./png";
+
+// Written file plus an abort hook for cancelled exports
+export interface ExportSink extends ByteSink {
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+export const EXPORT_FILE_TYPES = {
+  png: { description: "PNG image", mimeType: "image/png", extension: ".png" },
+  webm: { description: "WebM video", mimeType: "video/webm", extension: ".webm" },
+  gif: { description: "Animated GIF", mimeType: "image/gif", extension: ".gif" },
+  apng: { description: "Animated PNG", mimeType: "image/apng", extension: ".png" },
+  map: { description: "Fractint palette", mimeType: "text/plain", extension: ".map" },
+  ggr: { description: "GIMP gradient", mimeType: "text/plain", extension: ".ggr" },
+  ugr: { description: "Ultra Fractal gradient", mimeType: "text/plain", extension: ".ugr" },
+  css: { description: "CSS gradient", mimeType: "text/css", extension: ".css" },
+};
+
+export type ExportFileType = keyof typeof EXPORT_FILE_TYPES;
+
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+// Stream straight to a file where the File System Access API exists;
+// elsewhere collect the bytes in a Blob (which browsers page to disk) and
+// download it at the end. Resolves to null if the user cancels the picker.
+// Must be called from a user gesture.
+export const openExportSink = async (suggestedName: string, fileType: ExportFileType): Promise<ExportSink | null> => {
+  const { description, mimeType, extension } = EXPORT_FILE_TYPES[fileType];
+  const fileSystem = window as Window & { showSaveFilePicker?: SaveFilePicker };
+
+  if (fileSystem.showSaveFilePicker) {
+    let handle: FileSystemFileHandle;
+    try {
+      handle = await fileSystem.showSaveFilePicker({
+        suggestedName,
+        types: [{ description, accept: { [mimeType]: [extension] } }],
+      });
+    } catch (error) {
+      if ((error as DOMException).name === "AbortError") return null;
+      throw error;
+    }
+
+    const writable = await handle.createWritable();
+    return {
+      write: (bytes) => writable.write(bytes as Uint8Array<ArrayBuffer>),
+      close: () => writable.close(),
+      abort: () => writable.abort(),
+    };
+  }
+
+  const parts: BlobPart[] = [];
+  return {
+    write: async (bytes) => {
+      parts.push(bytes as Uint8Array<ArrayBuffer>);
+    },
+    close: async () => {
+      const url = URL.createObjectURL(new Blob(parts, { type: mimeType }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = suggestedName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 10000);
+    },
+    abort: async () => {
+      parts.length = 0;
+    },
+  };
+};
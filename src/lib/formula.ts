@@ -0,0 +1,708 @@
+import {
+  Complex,
+  EPSILON,
+  complexCos,
+  complexCosh,
+  complexDiv,
+  complexExp,
+  complexLog,
+  complexMul,
+  complexPow,
+  complexSin,
+  complexSinh,
+  complexSqrt,
+} from "./complex";
+
+// Custom formulas for the "custom" fractal type, such as
+//
+//   z = sin(z)^3 + c*z
+//
+// A formula is an expression in z and c over complex numbers, optionally
+// written as an assignment to z. It is parsed and type-checked here, then
+// compiled twice: to a GLSL function the standard program calls once per
+// iteration, and to a program the CPU renderer runs. Both carry the
+// derivative along (forward-mode), so distance estimation and lighting work
+// for any formula.
+//
+// Besides z and c a formula can use numbers, the constants i, pi and e, the
+// operators + - * / ^ and the functions in FORMULA_FUNCTIONS. Any other name
+// is a real parameter, set with a slider and passed to the shader in
+// u_formulaParams. Errors are reported with the span of source they concern.
+
+export const DEFAULT_FORMULA = "z = z^2 + c";
+export const MAX_FORMULA_LENGTH = 500;
+export const MAX_FORMULA_PARAMS = 8;
+
+// Value of a parameter the params don't set yet
+export const DEFAULT_FORMULA_PARAM = 1;
+
+// Integer exponents up to this size are expanded into multiplications,
+// which are exact where complexPow() goes through polar form
+const MAX_EXPANDED_POWER = 64;
+
+// Largest magnitude a constant may have, so it still fits in a float
+const MAX_CONSTANT = 1e30;
+
+export const FORMULA_FUNCTIONS = {
+  sqr: { arity: 1, description: "z²" },
+  sqrt: { arity: 1, description: "Square root" },
+  exp: { arity: 1, description: "e^z" },
+  log: { arity: 1, description: "Natural log" },
+  pow: { arity: 2, description: "pow(a, b) = a^b" },
+  sin: { arity: 1, description: "Sine" },
+  cos: { arity: 1, description: "Cosine" },
+  tan: { arity: 1, description: "Tangent" },
+  sinh: { arity: 1, description: "Hyperbolic sine" },
+  cosh: { arity: 1, description: "Hyperbolic cosine" },
+  tanh: { arity: 1, description: "Hyperbolic tangent" },
+  abs: { arity: 1, description: "|Re| + i|Im|, as in the Burning Ship" },
+  conj: { arity: 1, description: "Complex conjugate" },
+  flip: { arity: 1, description: "Swap real and imaginary parts" },
+  real: { arity: 1, description: "Real part" },
+  imag: { arity: 1, description: "Imaginary part" },
+  cabs: { arity: 1, description: "Modulus |z|" },
+  arg: { arity: 1, description: "Argument (angle) of z" },
+} satisfies Record<string, { arity: number; description: string }>;
+
+type FormulaFunction = keyof typeof FORMULA_FUNCTIONS;
+
+const CONSTANTS: Record<string, Complex> = { i: [0, 1], pi: [Math.PI, 0], e: [Math.E, 0] };
+
+// A problem with the formula, at source[start..end)
+export class FormulaError extends Error {
+  constructor(message: string, readonly start: number, readonly end: number) {
+    super(message);
+  }
+}
+
+// z and its derivative after one step
+export interface FormulaStep {
+  z: Complex;
+  der: Complex;
+}
+
+export interface CompiledFormula {
+  source: string;
+  // Names of the formula's parameters, in order of first use: their
+  // u_formulaParams index
+  parameters: string[];
+  // vec2 iterateFormula(vec2 z, vec2 c, inout vec2 der, vec2 dc)
+  glsl: string;
+  // The same step on the CPU. der is z's derivative and dc c's; params are
+  // the parameter values in order.
+  evaluate: (z: Complex, c: Complex, der: Complex, dc: Complex, params: number[]) => FormulaStep;
+}
+
+export type FormulaResult = { ok: true; formula: CompiledFormula } | { ok: false; error: FormulaError };
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+type Token = Span &
+  ({ kind: "number"; value: number } | { kind: "name"; name: string } | { kind: "symbol"; symbol: string } | { kind: "end" });
+
+type BinaryOperator = "+" | "-" | "*" | "/" | "^";
+
+type Node = Span &
+  (
+    | { kind: "number"; value: number }
+    | { kind: "name"; name: string }
+    | { kind: "negate"; operand: Node }
+    | { kind: "binary"; operator: BinaryOperator; left: Node; right: Node }
+    | { kind: "call"; name: string; args: Node[] }
+  );
+
+const WHITESPACE_PATTERN = /\s*/y;
+const TOKEN_PATTERN = /(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([A-Za-z_]\w*)|([-+*/^(),=])/y;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+  for (;;) {
+    WHITESPACE_PATTERN.lastIndex = position;
+    WHITESPACE_PATTERN.exec(source);
+    position = WHITESPACE_PATTERN.lastIndex;
+    if (position >= source.length) break;
+
+    TOKEN_PATTERN.lastIndex = position;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) throw new FormulaError(`Unexpected "${source[position]}"`, position, position + 1);
+    const [text, number, name, symbol] = match;
+    const span = { start: position, end: position + text.length };
+    if (number !== undefined) {
+      const value = Number(number);
+      if (value > MAX_CONSTANT) throw new FormulaError("Number is too large", span.start, span.end);
+      tokens.push({ kind: "number", value, ...span });
+    } else if (name !== undefined) {
+      tokens.push({ kind: "name", name, ...span });
+    } else {
+      tokens.push({ kind: "symbol", symbol, ...span });
+    }
+    position = span.end;
+  }
+  tokens.push({ kind: "end", start: source.length, end: source.length });
+  return tokens;
+};
+
+const describeToken = (token: Token) => {
+  switch (token.kind) {
+    case "number":
+      return `"${token.value}"`;
+    case "name":
+      return `"${token.name}"`;
+    case "symbol":
+      return `"${token.symbol}"`;
+    case "end":
+      return "the end of the formula";
+  }
+};
+
+// Recursive descent over
+//
+//   formula  = [ "z" "=" ] sum
+//   sum      = product { ("+" | "-") product }
+//   product  = unary { ("*" | "/") unary }
+//   unary    = ("-" | "+") unary | power
+//   power    = primary [ "^" unary ]          right-associative, so -z^2 = -(z^2)
+//   primary  = number | name | name "(" sum { "," sum } ")" | "(" sum ")"
+const parse = (source: string): Node => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isSymbol = (symbol: string) => {
+    const token = peek();
+    return token.kind === "symbol" && token.symbol === symbol;
+  };
+  const expect = (symbol: string, what: string) => {
+    if (!isSymbol(symbol)) throw new FormulaError(`Expected ${what} but found ${describeToken(peek())}`, peek().start, peek().end);
+    return tokens[index++];
+  };
+
+  const parseSum = (): Node => {
+    let left = parseProduct();
+    while (isSymbol("+") || isSymbol("-")) {
+      const operator = (tokens[index++] as { symbol: BinaryOperator }).symbol;
+      const right = parseProduct();
+      left = { kind: "binary", operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseProduct = (): Node => {
+    let left = parseUnary();
+    while (isSymbol("*") || isSymbol("/")) {
+      const operator = (tokens[index++] as { symbol: BinaryOperator }).symbol;
+      const right = parseUnary();
+      left = { kind: "binary", operator, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Node => {
+    if (isSymbol("-") || isSymbol("+")) {
+      const sign = tokens[index++];
+      const operand = parseUnary();
+      const span = { start: sign.start, end: operand.end };
+      return sign.kind === "symbol" && sign.symbol === "-" ? { kind: "negate", operand, ...span } : { ...operand, ...span };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Node => {
+    const base = parsePrimary();
+    if (!isSymbol("^")) return base;
+    index++;
+    const exponent = parseUnary();
+    return { kind: "binary", operator: "^", left: base, right: exponent, start: base.start, end: exponent.end };
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[index++];
+    if (token.kind === "number") return { kind: "number", value: token.value, start: token.start, end: token.end };
+    if (token.kind === "name") {
+      if (!isSymbol("(")) return { kind: "name", name: token.name, start: token.start, end: token.end };
+      index++;
+      const args = [parseSum()];
+      while (isSymbol(",")) {
+        index++;
+        args.push(parseSum());
+      }
+      const close = expect(")", `"," or ")"`);
+      return { kind: "call", name: token.name, args, start: token.start, end: close.end };
+    }
+    if (token.kind === "symbol" && token.symbol === "(") {
+      const inner = parseSum();
+      const close = expect(")", `")"`);
+      return { ...inner, start: token.start, end: close.end };
+    }
+    throw new FormulaError(`Expected a value but found ${describeToken(token)}`, token.start, token.end);
+  };
+
+  // An optional "z =" in front
+  const [first, second] = tokens;
+  if (second?.kind === "symbol" && second.symbol === "=") {
+    if (first.kind !== "name" || first.name !== "z") throw new FormulaError("Only z can be assigned", first.start, first.end);
+    index = 2;
+  }
+  if (peek().kind === "end") throw new FormulaError("Enter a formula in z and c, like z^2 + c", peek().start, peek().end);
+
+  const formula = parseSum();
+  if (peek().kind !== "end") {
+    throw new FormulaError(`Expected an operator but found ${describeToken(peek())}`, peek().start, peek().end);
+  }
+  return formula;
+};
+
+// ============================================================================
+// COMPILATION
+// ============================================================================
+
+// Every value is complex; real values have a zero imaginary part, which the
+// GLSL backend uses to multiply by a float instead of calling complexMul()
+type ValueType = "real" | "complex";
+
+type Operation =
+  | "add" | "sub" | "mul" | "div" | "neg"
+  | "exp" | "log" | "sqrt" | "sin" | "cos" | "tan" | "sinh" | "cosh" | "tanh"
+  | "pow" // a^b for b real and independent of z and c
+  | "abs" | "signMul" | "conj" | "flip" | "real" | "imag" | "cabs" | "arg";
+
+// Straight-line program: each instruction's result is the register at its
+// index
+type Instruction = { type: ValueType } & (
+  | { op: "z" | "c" | "der" | "dc" }
+  | { op: "const"; value: Complex }
+  | { op: "param"; index: number }
+  | { op: Operation; args: number[] }
+);
+
+// Results that are real whenever their arguments are; the rest are always
+// real or always complex
+const REAL_PRESERVING = new Set<Operation>([
+  "add", "sub", "mul", "div", "neg", "exp", "sin", "cos", "tan", "sinh", "cosh", "tanh", "abs", "signMul", "conj",
+]);
+const ALWAYS_REAL = new Set<Operation>(["real", "imag", "cabs", "arg"]);
+
+const complexArg = ([x, y]: Complex) => (Math.hypot(x, y) < EPSILON ? 0 : Math.atan2(y, x));
+
+const CPU_OPERATIONS: Record<Operation, (a: Complex, b: Complex) => Complex> = {
+  add: (a, b) => [a[0] + b[0], a[1] + b[1]],
+  sub: (a, b) => [a[0] - b[0], a[1] - b[1]],
+  mul: complexMul,
+  div: complexDiv,
+  neg: (a) => [-a[0], -a[1]],
+  exp: complexExp,
+  log: complexLog,
+  sqrt: complexSqrt,
+  sin: complexSin,
+  cos: complexCos,
+  tan: (a) => complexDiv(complexSin(a), complexCos(a)),
+  sinh: complexSinh,
+  cosh: complexCosh,
+  tanh: (a) => complexDiv(complexSinh(a), complexCosh(a)),
+  pow: (a, b) => complexPow(a[0], a[1], b[0]),
+  abs: (a) => [Math.abs(a[0]), Math.abs(a[1])],
+  signMul: (a, b) => [Math.sign(a[0]) * b[0], Math.sign(a[1]) * b[1]],
+  conj: (a) => [a[0], -a[1]],
+  flip: (a) => [a[1], a[0]],
+  real: (a) => [a[0], 0],
+  imag: (a) => [a[1], 0],
+  cabs: (a) => [Math.hypot(a[0], a[1]), 0],
+  arg: (a) => [complexArg(a), 0],
+};
+
+// The helpers these call are defined by the custom type (fractals/custom.ts).
+// pow takes its exponent as a float.
+const GLSL_OPERATIONS: Record<Operation, (a: string, b: string) => string> = {
+  add: (a, b) => `${a} + ${b}`,
+  sub: (a, b) => `${a} - ${b}`,
+  mul: (a, b) => `complexMul(${a}, ${b})`,
+  div: (a, b) => `complexDiv(${a}, ${b})`,
+  neg: (a) => `-${a}`,
+  exp: (a) => `complexExp(${a})`,
+  log: (a) => `complexLog(${a})`,
+  sqrt: (a) => `complexPow(${a}, 0.5)`,
+  sin: (a) => `complexSin(${a})`,
+  cos: (a) => `complexCos(${a})`,
+  tan: (a) => `complexDiv(complexSin(${a}), complexCos(${a}))`,
+  sinh: (a) => `complexSinh(${a})`,
+  cosh: (a) => `complexCosh(${a})`,
+  tanh: (a) => `complexDiv(complexSinh(${a}), complexCosh(${a}))`,
+  pow: (a, b) => `complexPow(${a}, ${b})`,
+  abs: (a) => `abs(${a})`,
+  signMul: (a, b) => `sign(${a}) * ${b}`,
+  conj: (a) => `vec2(${a}.x, -${a}.y)`,
+  flip: (a) => `${a}.yx`,
+  real: (a) => `vec2(${a}.x, 0.0)`,
+  imag: (a) => `vec2(${a}.y, 0.0)`,
+  cabs: (a) => `vec2(length(${a}), 0.0)`,
+  arg: (a) => `vec2(complexArg(${a}), 0.0)`,
+};
+
+// A value and its derivative with respect to the pixel, or null where it
+// doesn't depend on z or c. Non-analytic functions (abs, conj, ...) take
+// the derivative along the real axis, as the Burning Ship's fold does.
+interface Dual {
+  value: number;
+  der: number | null;
+}
+
+// Lower the syntax tree to instructions, resolving names and checking calls
+const lower = (formula: Node) => {
+  const program: Instruction[] = [];
+  const parameters: string[] = [];
+  const leaves = new Map<string, number>();
+
+  const push = (instruction: Instruction) => program.push(instruction) - 1;
+
+  const leaf = (op: "z" | "c" | "der" | "dc") => {
+    if (!leaves.has(op)) leaves.set(op, push({ op, type: "complex" }));
+    return leaves.get(op)!;
+  };
+
+  const constant = (value: Complex) => push({ op: "const", value, type: value[1] === 0 ? "real" : "complex" });
+
+  const constantValue = (register: number) => {
+    const instruction = program[register];
+    return instruction.op === "const" ? instruction.value : null;
+  };
+
+  // Emit an operation, folding it when every argument is a constant
+  const emit = (op: Operation, ...args: number[]): number => {
+    const values = args.map(constantValue);
+    if (values.every((value): value is Complex => value !== null)) {
+      const [x, y] = CPU_OPERATIONS[op](values[0], values[1] ?? [0, 0]);
+      if (Math.abs(x) < MAX_CONSTANT && Math.abs(y) < MAX_CONSTANT) return constant([x, y]);
+    }
+    const real = ALWAYS_REAL.has(op) || (REAL_PRESERVING.has(op) && args.every((arg) => program[arg].type === "real"));
+    return push({ op, args, type: real ? "real" : "complex" });
+  };
+
+  // Arithmetic on duals, with the usual rules for the derivative
+  const add = (a: Dual, b: Dual): Dual => ({
+    value: emit("add", a.value, b.value),
+    der: a.der !== null && b.der !== null ? emit("add", a.der, b.der) : (a.der ?? b.der),
+  });
+
+  const sub = (a: Dual, b: Dual): Dual => ({
+    value: emit("sub", a.value, b.value),
+    der: b.der === null ? a.der : a.der === null ? emit("neg", b.der) : emit("sub", a.der, b.der),
+  });
+
+  const mul = (a: Dual, b: Dual): Dual => {
+    // (a²)' = 2 a a'
+    if (a === b) {
+      return { value: emit("mul", a.value, a.value), der: a.der === null ? null : emit("mul", emit("add", a.value, a.value), a.der) };
+    }
+    const left = a.der === null ? null : emit("mul", a.der, b.value);
+    const right = b.der === null ? null : emit("mul", a.value, b.der);
+    return { value: emit("mul", a.value, b.value), der: left !== null && right !== null ? emit("add", left, right) : (left ?? right) };
+  };
+
+  // (a/b)' = (a' - (a/b) b') / b
+  const div = (a: Dual, b: Dual): Dual => {
+    const value = emit("div", a.value, b.value);
+    if (b.der === null) return { value, der: a.der === null ? null : emit("div", a.der, b.value) };
+    const change = emit("mul", value, b.der);
+    const numerator = a.der === null ? emit("neg", change) : emit("sub", a.der, change);
+    return { value, der: emit("div", numerator, b.value) };
+  };
+
+  const lift = (value: Complex): Dual => ({ value: constant(value), der: null });
+
+  // f(a) where f' is given in terms of a and f(a)
+  const chain = (a: Dual, op: Operation, derivative: (value: number) => number): Dual => {
+    const value = emit(op, a.value);
+    return { value, der: a.der === null ? null : emit("mul", derivative(value), a.der) };
+  };
+
+  // f(a) for a linear f, which applies to the derivative as is
+  const linear = (a: Dual, op: Operation): Dual => ({
+    value: emit(op, a.value),
+    der: a.der === null ? null : emit(op, a.der),
+  });
+
+  // log(a)' = a' / a
+  const logOf = (a: Dual): Dual => ({
+    value: emit("log", a.value),
+    der: a.der === null ? null : emit("div", a.der, a.value),
+  });
+
+  const power = (base: Dual, exponent: Dual): Dual => {
+    const n = constantValue(exponent.value);
+    if (n && n[1] === 0 && Number.isInteger(n[0]) && Math.abs(n[0]) <= MAX_EXPANDED_POWER) {
+      // Square and multiply
+      let result: Dual | null = null;
+      let square = base;
+      for (let k = Math.abs(n[0]); k > 0; k >>= 1) {
+        if (k & 1) result = result ? mul(result, square) : square;
+        if (k > 1) square = mul(square, square);
+      }
+      if (!result) return lift([1, 0]);
+      return n[0] < 0 ? div(lift([1, 0]), result) : result;
+    }
+    if (exponent.der === null && program[exponent.value].type === "real") {
+      // (a^n)' = n a^(n-1) a'
+      const value = emit("pow", base.value, exponent.value);
+      if (base.der === null) return { value, der: null };
+      const reduced = emit("pow", base.value, emit("sub", exponent.value, constant([1, 0])));
+      return { value, der: emit("mul", emit("mul", exponent.value, reduced), base.der) };
+    }
+    // a^b = exp(b log a)
+    return chain(mul(exponent, logOf(base)), "exp", (value) => value);
+  };
+
+  const call = (name: FormulaFunction, args: Dual[]): Dual => {
+    const [a, b] = args;
+    switch (name) {
+      case "sqr":
+        return mul(a, a);
+      case "sqrt":
+        return chain(a, "sqrt", (value) => emit("div", constant([0.5, 0]), value));
+      case "exp":
+        return chain(a, "exp", (value) => value);
+      case "log":
+        return logOf(a);
+      case "pow":
+        return power(a, b);
+      case "sin":
+        return chain(a, "sin", () => emit("cos", a.value));
+      case "cos":
+        return chain(a, "cos", () => emit("neg", emit("sin", a.value)));
+      case "tan":
+        return chain(a, "tan", (value) => emit("add", constant([1, 0]), emit("mul", value, value)));
+      case "sinh":
+        return chain(a, "sinh", () => emit("cosh", a.value));
+      case "cosh":
+        return chain(a, "cosh", () => emit("sinh", a.value));
+      case "tanh":
+        return chain(a, "tanh", (value) => emit("sub", constant([1, 0]), emit("mul", value, value)));
+      case "abs":
+        return { value: emit("abs", a.value), der: a.der === null ? null : emit("signMul", a.value, a.der) };
+      case "conj":
+      case "flip":
+      case "real":
+      case "imag":
+        return linear(a, name);
+      case "cabs": {
+        // |a|' = Re(conj(a) a') / |a|
+        const value = emit("cabs", a.value);
+        if (a.der === null) return { value, der: null };
+        const slope = emit("real", emit("mul", emit("conj", a.value), a.der));
+        return { value, der: emit("div", slope, value) };
+      }
+      case "arg": {
+        // arg(a)' = Im(conj(a) a') / |a|²
+        const value = emit("arg", a.value);
+        if (a.der === null) return { value, der: null };
+        const modulus = emit("cabs", a.value);
+        const slope = emit("imag", emit("mul", emit("conj", a.value), a.der));
+        return { value, der: emit("div", slope, emit("mul", modulus, modulus)) };
+      }
+    }
+  };
+
+  const visit = (node: Node): Dual => {
+    switch (node.kind) {
+      case "number":
+        return lift([node.value, 0]);
+      case "name": {
+        const { name } = node;
+        if (name === "z") return { value: leaf("z"), der: leaf("der") };
+        if (name === "c") return { value: leaf("c"), der: leaf("dc") };
+        if (Object.hasOwn(CONSTANTS, name)) return lift(CONSTANTS[name]);
+        if (Object.hasOwn(FORMULA_FUNCTIONS, name)) {
+          throw new FormulaError(`${name} is a function: ${name}(...)`, node.start, node.end);
+        }
+        let index = parameters.indexOf(name);
+        if (index < 0) {
+          if (parameters.length === MAX_FORMULA_PARAMS) {
+            throw new FormulaError(`Formulas can have at most ${MAX_FORMULA_PARAMS} parameters`, node.start, node.end);
+          }
+          index = parameters.push(name) - 1;
+        }
+        return { value: push({ op: "param", index, type: "real" }), der: null };
+      }
+      case "negate": {
+        const operand = visit(node.operand);
+        return linear(operand, "neg");
+      }
+      case "binary": {
+        const left = visit(node.left);
+        const right = visit(node.right);
+        if (node.operator === "^") return power(left, right);
+        return { "+": add, "-": sub, "*": mul, "/": div }[node.operator](left, right);
+      }
+      case "call": {
+        const { name, args } = node;
+        if (!Object.hasOwn(FORMULA_FUNCTIONS, name)) {
+          const message = name === "z" || name === "c" || Object.hasOwn(CONSTANTS, name)
+            ? `${name} is not a function; use * to multiply`
+            : `Unknown function "${name}"`;
+          throw new FormulaError(message, node.start, node.start + name.length);
+        }
+        const { arity } = FORMULA_FUNCTIONS[name as FormulaFunction];
+        if (args.length !== arity) {
+          throw new FormulaError(`${name} takes ${arity === 1 ? "1 argument" : `${arity} arguments`}`, node.start, node.end);
+        }
+        return call(name as FormulaFunction, args.map(visit));
+      }
+    }
+  };
+
+  const result = visit(formula);
+  return { program, parameters, result };
+};
+
+// Registers the result depends on, in program order
+const liveRegisters = (program: Instruction[], outputs: number[]): number[] => {
+  const live = new Set(outputs);
+  for (let i = program.length - 1; i >= 0; i--) {
+    const instruction = program[i];
+    if (live.has(i) && "args" in instruction) instruction.args.forEach((arg) => live.add(arg));
+  }
+  return [...live].sort((a, b) => a - b);
+};
+
+const formatFloat = (value: number) => (Number.isInteger(value) ? value.toFixed(1) : String(value));
+
+const generateGlsl = (source: string, program: Instruction[], live: number[], result: Dual): string => {
+  const names = new Map<number, string>();
+  const lines: string[] = [];
+
+  // Leaves are written in place; everything else gets a temporary
+  const reference = (register: number): string => {
+    const instruction = program[register];
+    switch (instruction.op) {
+      case "z":
+      case "c":
+      case "der":
+      case "dc":
+        return instruction.op;
+      case "const":
+        return `vec2(${formatFloat(instruction.value[0])}, ${formatFloat(instruction.value[1])})`;
+      case "param":
+        return `vec2(u_formulaParams[${instruction.index}], 0.0)`;
+      default:
+        return names.get(register)!;
+    }
+  };
+
+  // The real part alone, for multiplying by a real value
+  const scalar = (register: number): string => {
+    const instruction = program[register];
+    if (instruction.op === "const") return formatFloat(instruction.value[0]);
+    if (instruction.op === "param") return `u_formulaParams[${instruction.index}]`;
+    return `${reference(register)}.x`;
+  };
+
+  live.forEach((register) => {
+    const instruction = program[register];
+    if (!("args" in instruction)) return;
+    const [a, b] = instruction.args;
+    let expression: string;
+    if (instruction.op === "mul" && program[a].type === "real") {
+      expression = `${scalar(a)} * ${reference(b)}`;
+    } else if (instruction.op === "mul" && program[b].type === "real") {
+      expression = `${scalar(b)} * ${reference(a)}`;
+    } else if (instruction.op === "pow") {
+      expression = GLSL_OPERATIONS.pow(reference(a), scalar(b));
+    } else {
+      expression = GLSL_OPERATIONS[instruction.op](reference(a), b === undefined ? "" : reference(b));
+    }
+    const name = `t${names.size}`;
+    names.set(register, name);
+    lines.push(`vec2 ${name} = ${expression};`);
+  });
+
+  lines.push(`der = ${result.der === null ? "vec2(0.0)" : reference(result.der)};`);
+  lines.push(`return ${reference(result.value)};`);
+  return [
+    `// ${source.replace(/\s+/g, " ").trim()}`,
+    "vec2 iterateFormula(vec2 z, vec2 c, inout vec2 der, vec2 dc) {",
+    ...lines.map((line) => `  ${line}`),
+    "}",
+  ].join("\n");
+};
+
+const createEvaluator = (program: Instruction[], live: number[], result: Dual): CompiledFormula["evaluate"] => {
+  const steps = live.map((register) => ({ register, instruction: program[register] }));
+  const registers: Complex[] = new Array(program.length);
+  const zero: Complex = [0, 0];
+
+  return (z, c, der, dc, params) => {
+    for (const { register, instruction } of steps) {
+      switch (instruction.op) {
+        case "z":
+          registers[register] = z;
+          break;
+        case "c":
+          registers[register] = c;
+          break;
+        case "der":
+          registers[register] = der;
+          break;
+        case "dc":
+          registers[register] = dc;
+          break;
+        case "const":
+          registers[register] = instruction.value;
+          break;
+        case "param":
+          registers[register] = [params[instruction.index], 0];
+          break;
+        default: {
+          const [a, b] = instruction.args;
+          registers[register] = CPU_OPERATIONS[instruction.op](registers[a], b === undefined ? zero : registers[b]);
+        }
+      }
+    }
+    return { z: registers[result.value], der: result.der === null ? zero : registers[result.der] };
+  };
+};
+
+export const compileFormula = (source: string): FormulaResult => {
+  try {
+    if (source.length > MAX_FORMULA_LENGTH) {
+      throw new FormulaError(`Formulas are limited to ${MAX_FORMULA_LENGTH} characters`, MAX_FORMULA_LENGTH, source.length);
+    }
+    const { program, parameters, result } = lower(parse(source));
+    const live = liveRegisters(program, result.der === null ? [result.value] : [result.value, result.der]);
+    return {
+      ok: true,
+      formula: {
+        source,
+        parameters,
+        glsl: generateGlsl(source, program, live, result),
+        evaluate: createEvaluator(program, live, result),
+      },
+    };
+  } catch (error) {
+    if (error instanceof FormulaError) return { ok: false, error };
+    throw error;
+  }
+};
+
+// compileFormula() for the formula being drawn, which every frame and every
+// CPU pixel asks for. Formulas that don't compile fall back to the default.
+let current: { source: string; formula: CompiledFormula } | null = null;
+
+export const getCompiledFormula = (source: string): CompiledFormula => {
+  if (current?.source !== source) {
+    const compiled = compileFormula(source);
+    current = { source, formula: compiled.ok ? compiled.formula : getCompiledFormula(DEFAULT_FORMULA) };
+  }
+  return current.formula;
+};
+
+// Values of the formula's parameters in u_formulaParams order
+export const getFormulaParamValues = (formula: CompiledFormula, values: Record<string, number>): number[] => {
+  return formula.parameters.map((name) => values[name] ?? DEFAULT_FORMULA_PARAM);
+};
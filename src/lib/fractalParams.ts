@@ -0,0 +1,159 @@
+import { FractalParams, DEFAULT_FRACTAL_PARAMS } from "@/types/fractal";
+
+// Bump this and add an entry to MIGRATIONS whenever FractalParams changes shape
+export const PARAMS_VERSION = 12;
+
+// Saved form of FractalParams, stored as JSON in Fractal.params
+export interface ParamsDocument {
+  version: number;
+  params: Record<string, unknown>;
+}
+
+// Columns of a Fractal row that describe the view (Prisma's Fractal model)
+export interface FractalParamsRow {
+  type: string;
+  centerX: string;
+  centerY: string;
+  zoom: string;
+  maxIterations: number;
+  escapeRadius: number;
+  juliaReal: number | null;
+  juliaImag: number | null;
+  colorScheme: string;
+  colorOffset: number;
+  colorScale: number;
+  extraParams: string | null;
+  params: string | null;
+}
+
+type Migration = (params: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 -> v2: center and zoom became decimal strings
+  1: (params) => {
+    const next = { ...params };
+    for (const key of ["centerX", "centerY", "zoom"]) {
+      if (typeof next[key] === "number") next[key] = String(next[key]);
+    }
+    return next;
+  },
+  // v2 -> v3: gradient added; documents without one get the default, so
+  // there is nothing to rewrite
+  // v3 -> v4: boundary lines and lighting added, likewise defaulted
+  // v4 -> v5: interior coloring and its gradient added, likewise defaulted
+  // v5 -> v6: custom formula and its parameters added, likewise defaulted
+  // v6 -> v7: Newton polynomial roots and relaxation added, likewise
+  // defaulted (to z³ - 1 and plain Newton's method, as before)
+  // v7 -> v8: Phoenix weight added, likewise defaulted (to the 0.5667 it
+  // was fixed at)
+  // v8 -> v9: Julia mode added, likewise defaulted (off)
+  // v9 -> v10: Lyapunov sequence added, likewise defaulted
+  // v10 -> v11: 3D mode and its camera added, likewise defaulted (off)
+  // v11 -> v12: Buddhabrot mode added, likewise defaulted (off)
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+export const createParamsDocument = (params: FractalParams): ParamsDocument => {
+  return { version: PARAMS_VERSION, params: { ...params } };
+};
+
+// Upgrade a document of any known version to the current FractalParams.
+// Fields the document doesn't know about take their defaults; fields the
+// current shape doesn't know about are dropped.
+export const migrateParamsDocument = (document: ParamsDocument): FractalParams => {
+  if (document.version > PARAMS_VERSION) {
+    throw new Error(`Unsupported params version ${document.version}`);
+  }
+
+  let params = document.params;
+  for (let version = document.version; version < PARAMS_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) params = migrate(params);
+  }
+
+  const result: Record<string, unknown> = { ...DEFAULT_FRACTAL_PARAMS };
+  for (const key of Object.keys(DEFAULT_FRACTAL_PARAMS)) {
+    if (params[key] !== undefined) result[key] = params[key];
+  }
+  return result as unknown as FractalParams;
+};
+
+// Check that an untrusted value (request body, stored JSON) is a document
+// this build knows how to migrate
+export const asParamsDocument = (value: unknown): ParamsDocument | null => {
+  if (!isRecord(value) || !isRecord(value.params)) return null;
+  const { version } = value;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1 || version > PARAMS_VERSION) {
+    return null;
+  }
+  return { version, params: value.params };
+};
+
+export const parseParamsDocument = (json: string): ParamsDocument | null => {
+  try {
+    return asParamsDocument(JSON.parse(json));
+  } catch {
+    return null;
+  }
+};
+
+// Rows saved before the params document existed only have the individual
+// columns (plus whatever extraParams held); treat them as a version 1 document
+const legacyDocument = (row: FractalParamsRow): ParamsDocument => {
+  let extraParams: Record<string, unknown> = {};
+  if (row.extraParams) {
+    try {
+      const parsed: unknown = JSON.parse(row.extraParams);
+      if (isRecord(parsed)) extraParams = parsed;
+    } catch {
+      // ignore parse errors
+    }
+  }
+
+  return {
+    version: 1,
+    params: {
+      type: row.type,
+      centerX: row.centerX,
+      centerY: row.centerY,
+      zoom: row.zoom,
+      maxIterations: row.maxIterations,
+      escapeRadius: row.escapeRadius,
+      juliaReal: row.juliaReal ?? undefined,
+      juliaImag: row.juliaImag ?? undefined,
+      colorScheme: row.colorScheme,
+      colorOffset: row.colorOffset,
+      colorScale: row.colorScale,
+      ...extraParams,
+    },
+  };
+};
+
+export const loadFractalParams = (row: FractalParamsRow): FractalParams => {
+  const document = (row.params && parseParamsDocument(row.params)) || legacyDocument(row);
+  return migrateParamsDocument(document);
+};
+
+// Everything Prisma needs to write for a set of params: the versioned
+// document plus the individual columns, which stay populated for listing
+// and filtering
+export const toFractalColumns = (params: FractalParams) => {
+  return {
+    type: params.type,
+    centerX: params.centerX,
+    centerY: params.centerY,
+    zoom: params.zoom,
+    maxIterations: params.maxIterations,
+    escapeRadius: params.escapeRadius,
+    juliaReal: params.juliaReal,
+    juliaImag: params.juliaImag,
+    colorScheme: params.colorScheme,
+    colorOffset: params.colorOffset,
+    colorScale: params.colorScale,
+    params: JSON.stringify(createParamsDocument(params)),
+  };
+};
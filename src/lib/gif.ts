@@ -0,0 +1,141 @@
+// Streaming animated GIF encoder. Every frame gets its own 256-color palette
+// (median cut, see lib/quantize) so color-cycling loops keep their full
+// range instead of sharing one table across the whole animation.
+
+import { ByteSink } from "./png";
+import { DitherMode, MAX_PALETTE_SIZE, quantize } from "./quantize";
+
+export interface GifStream {
+  // Append a frame of RGBA pixels (alpha ignored), shown for `delay`
+  // hundredths of a second
+  addFrame: (rgba: Uint8Array, delay: number) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+// Palette indices are 8 bits, so LZW starts with 9-bit codes
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+const MAX_SUB_BLOCK = 255;
+
+const encoder = new TextEncoder();
+
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+// Growable byte buffer for the LZW output
+const createByteWriter = () => {
+  let bytes = new Uint8Array(4096);
+  let length = 0;
+  return {
+    push(byte: number) {
+      if (length === bytes.length) {
+        const grown = new Uint8Array(bytes.length * 2);
+        grown.set(bytes);
+        bytes = grown;
+      }
+      bytes[length++] = byte;
+    },
+    result: () => bytes.subarray(0, length),
+  };
+};
+
+// Variable-length LZW as GIF defines it: codes packed least significant bit
+// first, growing up to 12 bits, with a clear code when the table fills
+const lzwEncode = (indices: Uint8Array): Uint8Array => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const output = createByteWriter();
+
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) output.push(bitBuffer & 0xff);
+
+  return output.result();
+};
+
+// Image data goes out in length-prefixed blocks of up to 255 bytes
+const toSubBlocks = (data: Uint8Array): Uint8Array => {
+  const blockCount = Math.ceil(data.length / MAX_SUB_BLOCK);
+  const result = new Uint8Array(data.length + blockCount + 1);
+  let offset = 0;
+  for (let start = 0; start < data.length; start += MAX_SUB_BLOCK) {
+    const block = data.subarray(start, start + MAX_SUB_BLOCK);
+    result[offset++] = block.length;
+    result.set(block, offset);
+    offset += block.length;
+  }
+  result[offset] = 0;
+  return result;
+};
+
+export const createGifStream = async (
+  width: number,
+  height: number,
+  sink: ByteSink,
+  dither: DitherMode
+): Promise<GifStream> => {
+  // Header and logical screen descriptor: no global color table, 8 bits of
+  // color resolution
+  await sink.write(new Uint8Array([...encoder.encode("GIF89a"), ...uint16(width), ...uint16(height), 0x70, 0, 0]));
+  // NETSCAPE2.0 application extension: loop forever
+  await sink.write(new Uint8Array([0x21, 0xff, 0x0b, ...encoder.encode("NETSCAPE2.0"), 0x03, 0x01, 0, 0, 0]));
+
+  return {
+    async addFrame(rgba, delay) {
+      const { palette, indices } = quantize(rgba, width, height, dither);
+      const colorTable = new Uint8Array(MAX_PALETTE_SIZE * 3);
+      colorTable.set(palette);
+
+      // Graphic control extension carrying the delay
+      const control = [0x21, 0xf9, 0x04, 0, ...uint16(delay), 0, 0];
+      // Image descriptor: full frame with a 256-entry local color table
+      const descriptor = [0x2c, 0, 0, 0, 0, ...uint16(width), ...uint16(height), 0x87];
+
+      await sink.write(new Uint8Array([...control, ...descriptor]));
+      await sink.write(colorTable);
+      await sink.write(new Uint8Array([MIN_CODE_SIZE]));
+      await sink.write(toSubBlocks(lzwEncode(indices)));
+    },
+
+    async close() {
+      await sink.write(new Uint8Array([0x3b]));
+    },
+  };
+};
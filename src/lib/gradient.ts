@@ -0,0 +1,178 @@
+import { Gradient, GradientSpace, GradientStop } from "@/types/fractal";
+
+// Custom palettes reach the shaders as a row of GRADIENT_TABLE_SIZE RGBA
+// texels spanning the gradient from its first stop to its last; the GPU
+// (and cpuRenderer, which mirrors it) filter linearly between them.
+
+export const GRADIENT_TABLE_SIZE = 256;
+export const MIN_GRADIENT_STOPS = 2;
+// One stop per texel, enough for palettes sampled from other tools
+export const MAX_GRADIENT_STOPS = GRADIENT_TABLE_SIZE;
+
+type Vec3 = [number, number, number];
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export const isHexColor = (value: unknown): value is string => {
+  return typeof value === "string" && HEX_COLOR_PATTERN.test(value);
+};
+
+// "#rrggbb" to channels in [0, 1]
+export const parseHexColor = (color: string): Vec3 => {
+  const value = parseInt(color.slice(1), 16);
+  return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+};
+
+export const formatHexColor = (rgb: Vec3): string => {
+  const hex = rgb.map((c) => Math.round(Math.min(Math.max(c, 0), 1) * 255).toString(16).padStart(2, "0"));
+  return `#${hex.join("")}`;
+};
+
+// ============================================================================
+// COLOR SPACES
+// ============================================================================
+
+export const rgbToHsv = ([r, g, b]: Vec3): Vec3 => {
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = (g - b) / delta;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+  }
+  return [(((h / 6) % 1) + 1) % 1, max > 0 ? delta / max : 0, max];
+};
+
+export const hsvToRgb = ([h, s, v]: Vec3): Vec3 => {
+  const channel = (n: number) => {
+    const k = (n + h * 6) % 6;
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return [channel(5), channel(3), channel(1)];
+};
+
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+const fromLinear = (c: number) => (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+
+// sRGB to OKLab and back, after https://bottosson.github.io/posts/oklab/
+const rgbToOklab = (rgb: Vec3): Vec3 => {
+  const [r, g, b] = rgb.map(toLinear);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+};
+
+const oklabToRgb = ([L, a, b]: Vec3): Vec3 => {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.291485548 * b, 3);
+  const linear: Vec3 = [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+  return linear.map((c) => fromLinear(Math.min(Math.max(c, 0), 1))) as Vec3;
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Blend two sRGB colors in the given space
+const mixColors = (from: Vec3, to: Vec3, t: number, space: GradientSpace): Vec3 => {
+  switch (space) {
+    case "rgb":
+      return [lerp(from[0], to[0], t), lerp(from[1], to[1], t), lerp(from[2], to[2], t)];
+    case "hsv": {
+      const a = rgbToHsv(from);
+      const b = rgbToHsv(to);
+      // Grays have no hue of their own; borrow the other end's so a fade to
+      // white doesn't sweep through the spectrum
+      if (a[1] === 0) a[0] = b[0];
+      if (b[1] === 0) b[0] = a[0];
+      let hueDelta = b[0] - a[0];
+      if (hueDelta > 0.5) hueDelta -= 1;
+      if (hueDelta < -0.5) hueDelta += 1;
+      const hue = (((a[0] + hueDelta * t) % 1) + 1) % 1;
+      return hsvToRgb([hue, lerp(a[1], b[1], t), lerp(a[2], b[2], t)]);
+    }
+    case "oklab": {
+      const a = rgbToOklab(from);
+      const b = rgbToOklab(to);
+      return oklabToRgb([lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t)]);
+    }
+  }
+};
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+export const sortStops = (stops: GradientStop[]): GradientStop[] => {
+  return [...stops].sort((a, b) => a.position - b.position);
+};
+
+// Color at position t in [0, 1]. Before the first stop and after the last
+// the end colors hold.
+export const evaluateGradient = (gradient: Gradient, t: number): Vec3 => {
+  const stops = sortStops(gradient.stops);
+  if (stops.length === 0) return [0, 0, 0];
+  if (t <= stops[0].position) return parseHexColor(stops[0].color);
+
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1];
+    const to = stops[i];
+    if (t <= to.position) {
+      const span = to.position - from.position;
+      const local = span > 0 ? (t - from.position) / span : 1;
+      return mixColors(parseHexColor(from.color), parseHexColor(to.color), local, gradient.space);
+    }
+  }
+  return parseHexColor(stops[stops.length - 1].color);
+};
+
+// RGBA texels for the shader's u_gradient texture; texel i holds the color
+// at i / (GRADIENT_TABLE_SIZE - 1)
+export const createGradientTable = (gradient: Gradient): Uint8Array => {
+  const table = new Uint8Array(GRADIENT_TABLE_SIZE * 4);
+  for (let i = 0; i < GRADIENT_TABLE_SIZE; i++) {
+    const color = evaluateGradient(gradient, i / (GRADIENT_TABLE_SIZE - 1));
+    table[i * 4] = Math.round(color[0] * 255);
+    table[i * 4 + 1] = Math.round(color[1] * 255);
+    table[i * 4 + 2] = Math.round(color[2] * 255);
+    table[i * 4 + 3] = 255;
+  }
+  return table;
+};
+
+// CSS linear-gradient() preview of the gradient, sampled finely enough that
+// HSV and OKLab blends look right in a browser that only mixes sRGB
+export const toCssGradient = (gradient: Gradient, samples = 32): string => {
+  const colors = Array.from({ length: samples + 1 }, (_, i) => {
+    const t = i / samples;
+    return `${formatHexColor(evaluateGradient(gradient, t))} ${(t * 100).toFixed(2)}%`;
+  });
+  return `linear-gradient(to right, ${colors.join(", ")})`;
+};
+
+// Resample into `count` evenly spaced stops, keeping the look as far as
+// that resolution allows
+export const resampleGradient = (gradient: Gradient, count: number): Gradient => {
+  const stops = Array.from({ length: count }, (_, i) => {
+    const position = i / (count - 1);
+    return { position, color: formatHexColor(evaluateGradient(gradient, position)) };
+  });
+  return { ...gradient, stops };
+};
+
+// Append a stop at `position` that doesn't change the gradient's look. Stops
+// are kept in the order they were added so an editor's selection stays put;
+// evaluation sorts them.
+export const insertGradientStop = (gradient: Gradient, position: number): Gradient => {
+  const stop = { position, color: formatHexColor(evaluateGradient(gradient, position)) };
+  return { ...gradient, stops: [...gradient.stops, stop] };
+};
@@ -0,0 +1,75 @@
+// Histogram coloring: the distribution of smooth iteration counts over a
+// view, turned into a cumulative distribution (CDF) that maps each count to
+// the share of escaped pixels below it. Coloring by that share spreads the
+// palette evenly however the counts bunch up.
+//
+// The counts come from a first render pass at reduced resolution (the
+// distribution barely changes with sampling), so the GPU reads back at most
+// HISTOGRAM_SAMPLE_SIZE² pixels and every tile of a poster shares one CDF.
+// cpuRenderer follows the same steps.
+
+// Resolution of the CDF; the shader's HISTOGRAM_BINS must match
+export const HISTOGRAM_BINS = 2048;
+// Longest side of the first pass
+export const HISTOGRAM_SAMPLE_SIZE = 512;
+
+export interface IterationHistogram {
+  // Range of smooth iteration counts among escaped pixels
+  min: number;
+  max: number;
+  // HISTOGRAM_BINS + 1 values rising from 0 to 1: the share of escaped
+  // pixels below each bin edge
+  cdf: Float32Array;
+}
+
+// Size of the first pass for an image of the given size
+export const getHistogramSampleSize = (width: number, height: number) => {
+  const scale = Math.min(1, HISTOGRAM_SAMPLE_SIZE / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Build the CDF from first-pass pixels: RGBA floats with the smooth
+// iteration count in red and 1 in green for points that escaped
+export const buildIterationHistogram = (pixels: Float32Array): IterationHistogram => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 1] > 0.5) {
+      min = Math.min(min, pixels[i]);
+      max = Math.max(max, pixels[i]);
+    }
+  }
+
+  const cdf = new Float32Array(HISTOGRAM_BINS + 1);
+  // Nothing escaped: any ramp will do, there is nothing to color
+  if (min > max) {
+    cdf.forEach((_, i) => (cdf[i] = i / HISTOGRAM_BINS));
+    return { min: 0, max: 1, cdf };
+  }
+
+  const span = Math.max(max - min, 1e-10);
+  const counts = new Uint32Array(HISTOGRAM_BINS);
+  let total = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 1] > 0.5) {
+      counts[Math.min(Math.floor(((pixels[i] - min) / span) * HISTOGRAM_BINS), HISTOGRAM_BINS - 1)]++;
+      total++;
+    }
+  }
+
+  let running = 0;
+  for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+    running += counts[bin];
+    cdf[bin + 1] = running / total;
+  }
+  return { min, max, cdf };
+};
+
+// Share of escaped pixels below `count`, interpolating within its bin, as
+// calcHistogramColor() does in the shader
+export const lookupIterationHistogram = ({ min, max, cdf }: IterationHistogram, count: number): number => {
+  const span = Math.max(max - min, 1e-10);
+  const x = Math.min(Math.max((count - min) / span, 0), 1) * HISTOGRAM_BINS;
+  const bin = Math.min(Math.floor(x), HISTOGRAM_BINS - 1);
+  return cdf[bin] + (cdf[bin + 1] - cdf[bin]) * (x - bin);
+};
@@ -0,0 +1,169 @@
+import { FractalParams } from "@/types/fractal";
+import { createApngStream } from "./apng";
+import { ExportSink } from "./exportSink";
+import { createGifStream } from "./gif";
+import { createMetadataChunks } from "./pngMetadata";
+import { DitherMode } from "./quantize";
+import { FrameRenderer } from "./videoExport";
+
+export type LoopFormat = "gif" | "apng";
+
+// Loops are meant for chat and the web; beyond this GIFs get huge and slow
+export const MAX_LOOP_SIZE = 1024;
+export const MAX_LOOP_FRAMES = 600;
+// Browsers slow down GIF frames shorter than 2/100 s, so stay under 50 fps
+export const MAX_LOOP_FPS = 50;
+
+// Longest loop we search for before settling for the closest fit
+const MAX_LOOP_SECONDS = 60;
+// How much each speed may be nudged so all cycles line up
+const RATE_TOLERANCE = 0.02;
+// Julia animation traces sin(0.5 s t), cos(0.3 s t), which repeats after 20π / s
+const JULIA_PERIOD = 20 * Math.PI;
+
+// Time-driven motions, in cycles per second (signed)
+interface LoopRates {
+  color: number;
+  hue: number;
+  julia: number;
+}
+
+export interface Loop {
+  duration: number; // seconds
+  // Whole cycles of each motion over the loop, signed by direction
+  cycles: LoopRates;
+}
+
+// Palette positions over which the colors repeat: a mirrored gradient runs
+// forward and then back, so it takes 2. The interior gradient cycles too.
+const getColorPeriod = (params: FractalParams): number => {
+  const mirrored =
+    (params.colorScheme === "custom" && params.gradient.repeat === "mirror") ||
+    (params.interiorColoring !== "black" && params.interiorGradient.repeat === "mirror");
+  return mirrored ? 2 : 1;
+};
+
+const getLoopRates = (params: FractalParams): LoopRates => ({
+  // The palette position advances by colorCycleSpeed per second of shader
+  // time and repeats every getColorPeriod()
+  color: params.colorCycleSpeed / getColorPeriod(params),
+  // The editor drifts the hue by autoHueSpeed per second, scaled by the
+  // global animation speed, and wraps at 1
+  hue: params.autoHueShift ? params.autoHueSpeed * params.globalAnimSpeed : 0,
+  julia: params.animateJulia ? params.juliaAnimSpeed / JULIA_PERIOD : 0,
+});
+
+// The shortest duration that fits a whole number of cycles of every motion,
+// after nudging each speed by at most RATE_TOLERANCE, or null if nothing
+// animates. Without an exact fit within MAX_LOOP_SECONDS the closest one
+// wins.
+export const computeLoop = (params: FractalParams): Loop | null => {
+  const rates = getLoopRates(params);
+  const active = Object.values(rates).filter((rate) => rate !== 0).map(Math.abs);
+  if (active.length === 0) return null;
+
+  const slowest = Math.min(...active);
+  const wholeCycles = (rate: number, duration: number) => Math.max(1, Math.round(rate * duration));
+
+  let best = { duration: 1 / slowest, error: Infinity };
+  for (let cycles = 1; cycles === 1 || cycles / slowest <= MAX_LOOP_SECONDS; cycles++) {
+    const duration = cycles / slowest;
+    const error = Math.max(...active.map((rate) => Math.abs(wholeCycles(rate, duration) / (rate * duration) - 1)));
+    if (error < best.error) best = { duration, error };
+    if (error <= RATE_TOLERANCE) break;
+  }
+
+  const signedCycles = (rate: number) => (rate === 0 ? 0 : Math.sign(rate) * wholeCycles(Math.abs(rate), best.duration));
+  return {
+    duration: best.duration,
+    cycles: { color: signedCycles(rates.color), hue: signedCycles(rates.hue), julia: signedCycles(rates.julia) },
+  };
+};
+
+// View and shader time for frame `index`. The loop's end is never rendered:
+// it is the first frame again.
+export const getLoopFrame = (params: FractalParams, loop: Loop, index: number, frameCount: number) => {
+  const progress = index / frameCount;
+  const frameParams: FractalParams = {
+    ...params,
+    colorCycleSpeed: (loop.cycles.color * getColorPeriod(params)) / loop.duration,
+    hueShift: (((params.hueShift + loop.cycles.hue * progress) % 1) + 1) % 1,
+  };
+  if (params.animateJulia) {
+    frameParams.juliaAnimSpeed = (loop.cycles.julia * JULIA_PERIOD) / loop.duration;
+  }
+  return { params: frameParams, time: progress * loop.duration };
+};
+
+// Whole-unit frame delays (e.g. hundredths of a second) that add up to the
+// loop duration exactly
+export const getFrameDelays = (duration: number, frameCount: number, unitsPerSecond: number): number[] => {
+  const total = duration * unitsPerSecond;
+  return Array.from(
+    { length: frameCount },
+    (_, index) => Math.round((total * (index + 1)) / frameCount) - Math.round((total * index) / frameCount)
+  );
+};
+
+// Most frames a loop can have while staying under MAX_LOOP_FPS
+export const getMaxLoopFrames = (loop: Loop): number => {
+  return Math.max(2, Math.min(MAX_LOOP_FRAMES, Math.floor(loop.duration * MAX_LOOP_FPS)));
+};
+
+export interface LoopExportOptions {
+  format: LoopFormat;
+  width: number;
+  height: number;
+  frameCount: number;
+  // GIF only; APNG keeps full color
+  dither: DitherMode;
+  signal?: AbortSignal;
+  onProgress?: (completedFrames: number, totalFrames: number) => void;
+}
+
+// Let the browser paint progress and handle the cancel button between frames
+const yieldToBrowser = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Render one seamless loop of the view's color animation and stream it into
+// `sink` as an animated GIF or APNG
+export const exportLoop = async (
+  renderer: FrameRenderer,
+  params: FractalParams,
+  sink: ExportSink,
+  { format, width, height, frameCount, dither, signal, onProgress }: LoopExportOptions
+): Promise<void> => {
+  const loop = computeLoop(params);
+  if (!loop) {
+    throw new Error("Turn on color cycling, hue shift or Julia animation to export a loop");
+  }
+
+  // GIF delays are in hundredths of a second, APNG's here in milliseconds.
+  // APNGs also carry the view, like exported PNGs.
+  const delays = getFrameDelays(loop.duration, frameCount, format === "gif" ? 100 : 1000);
+  const stream =
+    format === "gif"
+      ? await createGifStream(width, height, sink, dither)
+      : await createApngStream(width, height, frameCount, sink, createMetadataChunks(params));
+
+  try {
+    for (let index = 0; index < frameCount; index++) {
+      signal?.throwIfAborted();
+
+      const frame = getLoopFrame(params, loop, index, frameCount);
+      const pixels = renderer.renderFrame(frame.params, frame.time);
+      if (!pixels) {
+        throw new Error("Failed to render frame");
+      }
+      await stream.addFrame(pixels, delays[index]);
+
+      onProgress?.(index + 1, frameCount);
+      await yieldToBrowser();
+    }
+
+    await stream.close();
+    await sink.close();
+  } catch (error) {
+    await sink.abort().catch(() => {});
+    throw error;
+  }
+};
@@ -0,0 +1,22 @@
+// Sequences of the Lyapunov type: which of a and b, the two axes of the
+// parameter plane, drives each step of the logistic map. The sequence
+// repeats for as many iterations as the view asks for.
+
+export const DEFAULT_LYAPUNOV_SEQUENCE = "AB";
+// Letters that fit in the shader's 32-bit mask
+export const MAX_LYAPUNOV_SEQUENCE = 32;
+
+const SEQUENCE_PATTERN = new RegExp(`^[AB]{1,${MAX_LYAPUNOV_SEQUENCE}}$`);
+
+export const isLyapunovSequence = (value: unknown): value is string => {
+  return typeof value === "string" && SEQUENCE_PATTERN.test(value);
+};
+
+// The sequence as u_lyapunovSequence: bit k is set when step k uses b
+export const getSequenceMask = (sequence: string): number => {
+  let mask = 0;
+  for (let k = 0; k < sequence.length; k++) {
+    if (sequence[k] === "B") mask |= 1 << k;
+  }
+  return mask >>> 0;
+};
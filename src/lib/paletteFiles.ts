@@ -0,0 +1,590 @@
+import { BuiltInColorScheme, Gradient, GradientStop } from "@/types/fractal";
+import { COLOR_SCHEME_INDEX, getColorScheme } from "./cpuRenderer";
+import {
+  MAX_GRADIENT_STOPS,
+  evaluateGradient,
+  formatHexColor,
+  hsvToRgb,
+  parseHexColor,
+  resampleGradient,
+  rgbToHsv,
+  sortStops,
+} from "./gradient";
+import { MAX_NAME_LENGTH } from "./validation";
+
+// Palette files from other fractal and graphics tools, read into custom
+// gradients and written back out:
+//   .map  Fractint: one "R G B" line per color, usually 256
+//   .ggr  GIMP: segments with their own blend curve and color model
+//   .ugr  Ultra Fractal: named gradients with colors at indices 0-399
+//   .css  linear-gradient() or repeating-linear-gradient()
+// Parse errors are thrown with messages meant for the user.
+
+export type PaletteFormat = "map" | "ggr" | "ugr" | "css";
+
+export const PALETTE_FORMATS: Record<PaletteFormat, { label: string; extension: string }> = {
+  map: { label: "Fractint (.map)", extension: ".map" },
+  ggr: { label: "GIMP (.ggr)", extension: ".ggr" },
+  ugr: { label: "Ultra Fractal (.ugr)", extension: ".ugr" },
+  css: { label: "CSS (.css)", extension: ".css" },
+};
+
+type Vec3 = [number, number, number];
+
+// Fractint palettes have 256 entries; Ultra Fractal gradients 400 indices
+const MAP_SIZE = 256;
+const UGR_SIZE = 400;
+
+// Points sampled across each curved GIMP segment, and across each span of
+// an HSV gradient written to a format that only blends RGB
+const CURVE_SAMPLES = 16;
+const SPAN_SUBDIVISIONS = 8;
+
+const EPSILON = 1e-6;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const rgbStop = (position: number, rgb: Vec3): GradientStop => ({ position: clamp01(position), color: formatHexColor(rgb) });
+
+// Keep imports within what the texture can show
+const limitStops = (gradient: Gradient): Gradient => {
+  return gradient.stops.length > MAX_GRADIENT_STOPS ? resampleGradient(gradient, MAX_GRADIENT_STOPS) : gradient;
+};
+
+// Drop stops that repeat their neighbour exactly
+const dedupeStops = (stops: GradientStop[]): GradientStop[] => {
+  return stops.filter((stop, i) => {
+    const previous = stops[i - 1];
+    return !previous || previous.position !== stop.position || previous.color !== stop.color;
+  });
+};
+
+// ============================================================================
+// BUILT-IN SCHEMES
+// ============================================================================
+
+// A built-in scheme sampled into stops. It repeats with period 1, so the
+// last stop matches the first.
+export const schemeToGradient = (scheme: BuiltInColorScheme, stopCount: number, name?: string): Gradient => ({
+  name,
+  stops: Array.from({ length: stopCount }, (_, i) => {
+    const position = i / (stopCount - 1);
+    return rgbStop(position, getColorScheme(position, COLOR_SCHEME_INDEX[scheme]));
+  }),
+  space: "rgb",
+  repeat: "repeat",
+});
+
+// ============================================================================
+// EXPORT PREPARATION
+// ============================================================================
+
+// One period of what the shader shows: mirroring runs the stops forward over
+// the first half and back over the second
+const unrollMirror = (gradient: Gradient): Gradient => {
+  if (gradient.repeat !== "mirror") return gradient;
+  const stops = sortStops(gradient.stops);
+  return {
+    ...gradient,
+    stops: [
+      ...stops.map((stop) => ({ ...stop, position: stop.position / 2 })),
+      ...stops.reverse().map((stop) => ({ ...stop, position: 1 - stop.position / 2 })),
+    ],
+    repeat: "repeat",
+  };
+};
+
+// Sorted stops that look the same blended in plain RGB. HSV spans are
+// subdivided; OKLab is kept when the format (CSS) can say so.
+const toRgbStops = (gradient: Gradient, keepOklab = false): GradientStop[] => {
+  const unrolled = unrollMirror(gradient);
+  const stops = dedupeStops(sortStops(unrolled.stops));
+  if (unrolled.space === "rgb" || (keepOklab && unrolled.space === "oklab")) return stops;
+
+  const result: GradientStop[] = [];
+  stops.forEach((stop, i) => {
+    result.push(stop);
+    const next = stops[i + 1];
+    if (!next || next.position - stop.position < EPSILON) return;
+    for (let step = 1; step < SPAN_SUBDIVISIONS; step++) {
+      const position = stop.position + ((next.position - stop.position) * step) / SPAN_SUBDIVISIONS;
+      result.push(rgbStop(position, evaluateGradient(unrolled, position)));
+    }
+  });
+  return result;
+};
+
+// ============================================================================
+// FRACTINT .MAP
+// ============================================================================
+
+const parseMap = (text: string, name: string): Gradient[] => {
+  const colors: Vec3[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^\s*(\d+)\s+(\d+)\s+(\d+)/);
+    if (match) colors.push([Number(match[1]) / 255, Number(match[2]) / 255, Number(match[3]) / 255]);
+  }
+  if (colors.length < 2) {
+    throw new Error("This .map file has no colors");
+  }
+
+  const stops = colors.map((color, i) => rgbStop(i / (colors.length - 1), color.map(clamp01) as Vec3));
+  return [limitStops({ name, stops, space: "rgb", repeat: "repeat" })];
+};
+
+const writeMap = (gradient: Gradient): string => {
+  const unrolled = unrollMirror(gradient);
+  const lines = Array.from({ length: MAP_SIZE }, (_, i) => {
+    const color = evaluateGradient(unrolled, i / (MAP_SIZE - 1));
+    return color.map((c) => String(Math.round(clamp01(c) * 255)).padStart(3)).join(" ");
+  });
+  return `${lines.join("\n")}\n`;
+};
+
+// ============================================================================
+// GIMP .GGR
+// ============================================================================
+
+// Blend functions and color models, numbered as in GIMP's files
+type GgrBlend = (middle: number, position: number) => number;
+
+const ggrLinear: GgrBlend = (middle, position) => {
+  if (position <= middle) return middle < EPSILON ? 0 : (0.5 * position) / middle;
+  return 1 - middle < EPSILON ? 1 : 0.5 + (0.5 * (position - middle)) / (1 - middle);
+};
+
+const GGR_BLENDS: GgrBlend[] = [
+  ggrLinear,
+  // Curved
+  (middle, position) => {
+    if (middle < EPSILON) return 1;
+    if (1 - middle < EPSILON) return 0;
+    return Math.pow(position, Math.log(0.5) / Math.log(middle));
+  },
+  // Sine
+  (middle, position) => (Math.sin(-Math.PI / 2 + Math.PI * ggrLinear(middle, position)) + 1) / 2,
+  // Sphere increasing
+  (middle, position) => Math.sqrt(1 - Math.pow(ggrLinear(middle, position) - 1, 2)),
+  // Sphere decreasing
+  (middle, position) => 1 - Math.sqrt(1 - Math.pow(ggrLinear(middle, position), 2)),
+  // Step
+  (middle, position) => (position >= middle ? 1 : 0),
+];
+
+const GGR_LINEAR = 0;
+const GGR_STEP = 5;
+const GGR_RGB = 0;
+const GGR_HSV_CCW = 1;
+
+interface GgrSegment {
+  left: number;
+  middle: number;
+  right: number;
+  leftColor: Vec3;
+  rightColor: Vec3;
+  blend: number;
+  coloring: number;
+}
+
+const mixGgrColors = (segment: GgrSegment, factor: number): Vec3 => {
+  const { leftColor: from, rightColor: to } = segment;
+  if (segment.coloring === GGR_RGB) {
+    return [0, 1, 2].map((c) => from[c] + (to[c] - from[c]) * factor) as Vec3;
+  }
+
+  // HSV, counter-clockwise (hue increasing) or clockwise
+  const a = rgbToHsv(from);
+  const b = rgbToHsv(to);
+  let hue: number;
+  if (segment.coloring === GGR_HSV_CCW) {
+    hue = a[0] < b[0] ? a[0] + (b[0] - a[0]) * factor : a[0] + (1 - (a[0] - b[0])) * factor;
+  } else {
+    hue = b[0] < a[0] ? a[0] - (a[0] - b[0]) * factor : a[0] - (1 - (b[0] - a[0])) * factor;
+  }
+  return hsvToRgb([((hue % 1) + 1) % 1, a[1] + (b[1] - a[1]) * factor, a[2] + (b[2] - a[2]) * factor]);
+};
+
+const evaluateGgrSegment = (segment: GgrSegment, t: number): Vec3 => {
+  const length = segment.right - segment.left;
+  const middle = length < EPSILON ? 0.5 : (segment.middle - segment.left) / length;
+  const position = length < EPSILON ? 0.5 : (t - segment.left) / length;
+  const blend = GGR_BLENDS[segment.blend] ?? ggrLinear;
+  return mixGgrColors(segment, clamp01(blend(middle, position)));
+};
+
+const segmentStops = (segment: GgrSegment): GradientStop[] => {
+  const { left, middle, right, leftColor, rightColor } = segment;
+  const isPlain = segment.blend === GGR_LINEAR && segment.coloring === GGR_RGB;
+
+  if (isPlain && Math.abs(middle - (left + right) / 2) < EPSILON) {
+    return [rgbStop(left, leftColor), rgbStop(right, rightColor)];
+  }
+  if (segment.blend === GGR_STEP && segment.coloring === GGR_RGB) {
+    return [rgbStop(left, leftColor), rgbStop(middle, leftColor), rgbStop(middle, rightColor), rgbStop(right, rightColor)];
+  }
+  return Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) => {
+    const t = left + ((right - left) * i) / CURVE_SAMPLES;
+    return rgbStop(t, evaluateGgrSegment(segment, t));
+  });
+};
+
+const parseGgr = (text: string, fallbackName: string): Gradient[] => {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  if (lines[0] !== "GIMP Gradient") {
+    throw new Error("Not a GIMP gradient: the first line should be \"GIMP Gradient\"");
+  }
+
+  let index = 1;
+  let name = fallbackName;
+  if (lines[index]?.startsWith("Name:")) {
+    name = lines[index].slice(5).trim() || fallbackName;
+    index++;
+  }
+
+  const count = Number(lines[index++]);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("This GIMP gradient has no segments");
+  }
+
+  const stops: GradientStop[] = [];
+  for (let i = 0; i < count; i++) {
+    const values = (lines[index + i] ?? "").split(/\s+/).map(Number);
+    if (values.length < 11 || values.slice(0, 11).some((value) => !Number.isFinite(value))) {
+      throw new Error(`Segment ${i + 1} of this GIMP gradient is malformed`);
+    }
+    // Alpha (values 6 and 10) has no equivalent here and is dropped
+    stops.push(
+      ...segmentStops({
+        left: values[0],
+        middle: values[1],
+        right: values[2],
+        leftColor: [values[3], values[4], values[5]].map(clamp01) as Vec3,
+        rightColor: [values[7], values[8], values[9]].map(clamp01) as Vec3,
+        blend: values[11] ?? GGR_LINEAR,
+        coloring: values[12] ?? GGR_RGB,
+      })
+    );
+  }
+
+  return [limitStops({ name, stops: dedupeStops(stops), space: "rgb", repeat: "repeat" })];
+};
+
+const writeGgr = (gradient: Gradient, name: string): string => {
+  const stops = toRgbStops(gradient);
+  const number = (value: number) => value.toFixed(6);
+  const color = (stop: GradientStop) => [...parseHexColor(stop.color), 1].map(number).join(" ");
+  const segment = (from: GradientStop, to: GradientStop, left: number, right: number) => {
+    return [left, (left + right) / 2, right].map(number).join(" ") + ` ${color(from)} ${color(to)} 0 0`;
+  };
+
+  // Spans between stops; stops at the same position become hard edges.
+  // The end colors hold out to 0 and 1.
+  const segments: string[] = [];
+  const first = stops[0];
+  const last = stops[stops.length - 1];
+  if (first.position > EPSILON) segments.push(segment(first, first, 0, first.position));
+  stops.forEach((stop, i) => {
+    const next = stops[i + 1];
+    if (next && next.position - stop.position > EPSILON) segments.push(segment(stop, next, stop.position, next.position));
+  });
+  if (last.position < 1 - EPSILON) segments.push(segment(last, last, last.position, 1));
+  if (segments.length === 0) segments.push(segment(first, last, 0, 1));
+
+  return ["GIMP Gradient", `Name: ${name}`, String(segments.length), ...segments, ""].join("\n");
+};
+
+// ============================================================================
+// ULTRA FRACTAL .UGR
+// ============================================================================
+
+// Colors are stored as decimal integers with red in the low byte
+const fromUgrColor = (value: number): Vec3 => [(value & 0xff) / 255, ((value >> 8) & 0xff) / 255, ((value >> 16) & 0xff) / 255];
+
+const toUgrColor = (color: string): number => {
+  const [r, g, b] = parseHexColor(color).map((c) => Math.round(c * 255));
+  return r + g * 256 + b * 65536;
+};
+
+// Ultra Fractal gradients wrap: the last color blends back into the first
+// over the end of the 400-index cycle. Spline smoothing (smooth=yes) is
+// approximated by linear blending.
+const parseUgrEntry = (entryName: string, body: string): Gradient | null => {
+  const section = body.split(/\bopacity:/)[0];
+  const title = section.match(/title="([^"]*)"/)?.[1] || entryName;
+
+  const points = [...section.matchAll(/index=(-?\d+)\s+color=(\d+)/g)]
+    .map((match) => ({ index: ((Number(match[1]) % UGR_SIZE) + UGR_SIZE) % UGR_SIZE, color: fromUgrColor(Number(match[2])) }))
+    .sort((a, b) => a.index - b.index);
+  if (points.length === 0) return null;
+
+  // Color where the wrap-around span crosses index 0
+  const first = points[0];
+  const last = points[points.length - 1];
+  const wrapSpan = first.index + UGR_SIZE - last.index;
+  const wrapFactor = wrapSpan > 0 ? (UGR_SIZE - last.index) / wrapSpan : 0;
+  const wrapColor = last.color.map((c, i) => c + (first.color[i] - c) * wrapFactor) as Vec3;
+
+  const stops = [
+    rgbStop(0, wrapColor),
+    ...points.map((point) => rgbStop(point.index / UGR_SIZE, point.color)),
+    rgbStop(1, wrapColor),
+  ];
+  return limitStops({ name: title, stops: dedupeStops(stops), space: "rgb", repeat: "repeat" });
+};
+
+const parseUgr = (text: string): Gradient[] => {
+  const gradients: Gradient[] = [];
+  for (const match of text.matchAll(/([^{}\r\n]+?)\s*\{([^}]*)\}/g)) {
+    const gradient = parseUgrEntry(match[1].trim(), match[2]);
+    if (gradient) gradients.push(gradient);
+  }
+  if (gradients.length === 0) {
+    throw new Error("No Ultra Fractal gradients found in this file");
+  }
+  return gradients;
+};
+
+const writeUgr = (gradient: Gradient, name: string): string => {
+  // Whole indices, each used once; a stop at the very end shares index 0
+  // with the start, so it moves just before it
+  const points: { index: number; color: string }[] = [];
+  for (const stop of toRgbStops(gradient)) {
+    const previous = points[points.length - 1];
+    let index = Math.min(Math.round(stop.position * UGR_SIZE), UGR_SIZE - 1);
+    if (previous && index <= previous.index) index = previous.index + 1;
+    if (index < UGR_SIZE) points.push({ index, color: stop.color });
+  }
+
+  const entryName = name.replace(/[{}\r\n"]/g, "").trim() || "Gradient";
+  return [
+    `${entryName} {`,
+    "gradient:",
+    `  title="${entryName}" smooth=no`,
+    ...points.map((point) => `  index=${point.index} color=${toUgrColor(point.color)}`),
+    "}",
+    "",
+  ].join("\n");
+};
+
+// ============================================================================
+// CSS LINEAR-GRADIENT
+// ============================================================================
+
+// Split on a separator outside parentheses
+const splitTopLevel = (text: string, separator: RegExp): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of text) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (depth === 0 && separator.test(char)) {
+      if (current.trim()) parts.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+const hslToRgb = (h: number, s: number, l: number): Vec3 => {
+  const channel = (n: number) => {
+    const k = (n + h * 12) % 12;
+    return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+};
+
+// A number, or a percentage of `full`
+const cssNumber = (token: string, full: number): number => {
+  const value = parseFloat(token);
+  if (!Number.isFinite(value)) throw new Error(`"${token}" is not a number`);
+  return token.endsWith("%") ? (value / 100) * full : value;
+};
+
+const cssHue = (token: string): number => {
+  const value = parseFloat(token);
+  if (token.endsWith("turn")) return value;
+  if (token.endsWith("rad")) return value / (2 * Math.PI);
+  if (token.endsWith("grad")) return value / 400;
+  return value / 360;
+};
+
+// Hex, rgb() and hsl() colors; alpha is ignored
+const parseCssColor = (token: string): Vec3 => {
+  const hex = token.match(/^#([0-9a-f]{3,8})$/i)?.[1];
+  if (hex && (hex.length === 3 || hex.length === 4)) {
+    return [0, 1, 2].map((i) => parseInt(hex[i] + hex[i], 16) / 255) as Vec3;
+  }
+  if (hex && (hex.length === 6 || hex.length === 8)) {
+    return parseHexColor(`#${hex.slice(0, 6)}`);
+  }
+
+  const fn = token.match(/^(rgba?|hsla?)\((.*)\)$/i);
+  if (fn) {
+    const args = fn[2].split(/[\s,/]+/).filter(Boolean);
+    if (args.length >= 3) {
+      if (fn[1].toLowerCase().startsWith("rgb")) {
+        return args.slice(0, 3).map((arg) => clamp01(cssNumber(arg, 255) / 255)) as Vec3;
+      }
+      const h = ((cssHue(args[0]) % 1) + 1) % 1;
+      return hslToRgb(h, clamp01(cssNumber(args[1], 100) / 100), clamp01(cssNumber(args[2], 100) / 100));
+    }
+  }
+
+  throw new Error(`Unsupported CSS color "${token}"; use hex, rgb() or hsl()`);
+};
+
+const parseCssPosition = (token: string): number => {
+  if (token === "0") return 0;
+  if (!/^-?[\d.]+%$/.test(token)) {
+    throw new Error(`Unsupported stop position "${token}"; use percentages`);
+  }
+  return parseFloat(token) / 100;
+};
+
+// Fill in missing positions the way browsers do: ends default to 0% and
+// 100%, positions never go backwards, and gaps are spread evenly
+const resolveCssPositions = (positions: (number | null)[]): number[] => {
+  const resolved = [...positions];
+  if (resolved[0] === null) resolved[0] = 0;
+  if (resolved[resolved.length - 1] === null) resolved[resolved.length - 1] = 1;
+
+  let highest = -Infinity;
+  for (let i = 0; i < resolved.length; i++) {
+    if (resolved[i] !== null) {
+      highest = Math.max(highest, resolved[i]!);
+      resolved[i] = highest;
+    }
+  }
+
+  for (let i = 1; i < resolved.length; i++) {
+    if (resolved[i] !== null) continue;
+    let end = i;
+    while (resolved[end] === null) end++;
+    const from = resolved[i - 1]!;
+    const to = resolved[end]!;
+    for (let j = i; j < end; j++) resolved[j] = from + ((to - from) * (j - i + 1)) / (end - i + 1);
+  }
+  return resolved as number[];
+};
+
+const parseCss = (text: string, fallbackName: string): Gradient[] => {
+  // Files written by writeCss() lead with the gradient's name
+  const name = text.match(/^\s*\/\*\s*(.*?)\s*\*\//)?.[1] || fallbackName;
+  const start = text.search(/(repeating-)?linear-gradient\(/i);
+  if (start < 0) {
+    throw new Error("No linear-gradient() found in this file");
+  }
+
+  const open = text.indexOf("(", start);
+  let depth = 0;
+  let end = open;
+  for (; end < text.length; end++) {
+    if (text[end] === "(") depth++;
+    if (text[end] === ")" && --depth === 0) break;
+  }
+  const isRepeating = /^repeating-/i.test(text.slice(start));
+  const args = splitTopLevel(text.slice(open + 1, end), /,/);
+
+  // Optional direction and interpolation space come first. The direction
+  // doesn't matter here: the gradient runs along the coloring value.
+  let space: Gradient["space"] = "rgb";
+  const first = args[0]?.toLowerCase() ?? "";
+  if (/^(to\s|in\s|-?[\d.]+(deg|rad|turn|grad)\b)/.test(first)) {
+    if (/\bin\s+oklab\b/.test(first)) space = "oklab";
+    args.shift();
+  }
+
+  const colors: Vec3[] = [];
+  const positions: (number | null)[] = [];
+  for (const arg of args) {
+    const [color, ...rest] = splitTopLevel(arg, /\s/);
+    // A lone percentage is a transition hint; blends stay even here
+    if (rest.length === 0 && /%$/.test(color)) continue;
+
+    const rgb = parseCssColor(color);
+    const stopPositions = rest.length > 0 ? rest.slice(0, 2).map(parseCssPosition) : [null];
+    for (const position of stopPositions) {
+      colors.push(rgb);
+      positions.push(position);
+    }
+  }
+  if (colors.length < 2) {
+    throw new Error("A linear-gradient() needs at least two colors");
+  }
+
+  // A repeating gradient's period ends at its last stop
+  let resolved = resolveCssPositions(positions);
+  if (isRepeating) {
+    const startAt = resolved[0];
+    const period = resolved[resolved.length - 1] - startAt;
+    if (period > EPSILON) resolved = resolved.map((position) => (position - startAt) / period);
+  }
+
+  const stops = colors.map((color, i) => rgbStop(resolved[i], color));
+  return [limitStops({ name, stops, space, repeat: "repeat" })];
+};
+
+const writeCss = (gradient: Gradient, name: string): string => {
+  const stops = toRgbStops(gradient, true);
+  const space = gradient.space === "oklab" ? " in oklab" : "";
+  const stopList = stops.map((stop) => `${stop.color} ${Number((stop.position * 100).toFixed(2))}%`).join(", ");
+  return `/* ${name.replace(/\*\//g, "")} */\n.gradient {\n  background-image: linear-gradient(to right${space}, ${stopList});\n}\n`;
+};
+
+// ============================================================================
+// ENTRY POINTS
+// ============================================================================
+
+// Guess the format from the extension, then the content
+export const detectPaletteFormat = (fileName: string, text: string): PaletteFormat | null => {
+  const extension = fileName.toLowerCase().match(/\.[a-z]+$/)?.[0];
+  const byExtension = (Object.keys(PALETTE_FORMATS) as PaletteFormat[]).find(
+    (format) => PALETTE_FORMATS[format].extension === extension
+  );
+  if (byExtension) return byExtension;
+
+  if (text.startsWith("GIMP Gradient")) return "ggr";
+  if (/linear-gradient\(/i.test(text)) return "css";
+  if (/\{\s*gradient:/.test(text)) return "ugr";
+  if (/^\s*\d+\s+\d+\s+\d+/.test(text)) return "map";
+  return null;
+};
+
+// Every gradient in a palette file; Ultra Fractal files may hold several
+const readPalette = (fileName: string, text: string): Gradient[] => {
+  const name = fileName.replace(/\.[^.]*$/, "") || "Imported";
+  switch (detectPaletteFormat(fileName, text)) {
+    case "map":
+      return parseMap(text, name);
+    case "ggr":
+      return parseGgr(text, name);
+    case "ugr":
+      return parseUgr(text);
+    case "css":
+      return parseCss(text, name);
+    default:
+      throw new Error("Unrecognized palette file; use .map, .ggr, .ugr or .css");
+  }
+};
+
+// Names are saved with the fractal, so they're cut to the length saving allows
+export const parsePaletteFile = (fileName: string, text: string): Gradient[] => {
+  return readPalette(fileName, text).map((gradient) => ({ ...gradient, name: gradient.name?.slice(0, MAX_NAME_LENGTH) }));
+};
+
+export const serializePalette = (gradient: Gradient, format: PaletteFormat, name = gradient.name || "Fractalater"): string => {
+  switch (format) {
+    case "map":
+      return writeMap(gradient);
+    case "ggr":
+      return writeGgr(gradient, name);
+    case "ugr":
+      return writeUgr(gradient, name);
+    case "css":
+      return writeCss(gradient, name);
+  }
+};
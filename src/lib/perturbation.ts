@@ -0,0 +1,77 @@
+import { FractalParams } from "@/types/fractal";
+import { FRACTAL_TYPES } from "@/fractals";
+import { createDecimal } from "./coordinates";
+
+// Reference orbit texture width; rows are added as the orbit grows
+export const REFERENCE_ORBIT_WIDTH = 1024;
+
+export interface ReferenceOrbitOptions {
+  centerX: string;
+  centerY: string;
+  zoom: number;
+  maxIterations: number;
+  escapeRadius: number;
+  // Fixed c for Julia sets; the orbit then starts at the center instead of 0
+  julia?: { real: number; imag: number };
+}
+
+export interface ReferenceOrbit {
+  // Interleaved (re, im) pairs laid out for an RG32F texture
+  data: Float32Array;
+  length: number;
+  width: number;
+  height: number;
+}
+
+// Perturbation is only implemented for the quadratic Mandelbrot/Julia map,
+// so for the types that declare it at power 2
+export const supportsPerturbation = (params: FractalParams): boolean => {
+  return !!FRACTAL_TYPES[params.type].perturbation && params.power === 2;
+};
+
+// Exponent (base 2) of the distance between adjacent pixels, in units of uv
+export const getScaleExponent = (zoom: number): number => {
+  return -Math.log2(zoom);
+};
+
+// Iterate z^2 + c at the view center in arbitrary precision, recording every
+// point (rounded to float) until it escapes or maxIterations is reached
+export const computeReferenceOrbit = (options: ReferenceOrbitOptions): ReferenceOrbit => {
+  const D = createDecimal(options.zoom);
+
+  const centerX = new D(options.centerX);
+  const centerY = new D(options.centerY);
+  const isJulia = !!options.julia;
+
+  const cr = isJulia ? new D(options.julia!.real) : centerX;
+  const ci = isJulia ? new D(options.julia!.imag) : centerY;
+  let zr = isJulia ? centerX : new D(0);
+  let zi = isJulia ? centerY : new D(0);
+
+  const escapeRadiusSq = options.escapeRadius * options.escapeRadius;
+  const capacity = options.maxIterations + 1;
+  const points = new Float32Array(capacity * 2);
+  let length = 0;
+
+  for (let i = 0; i < capacity; i++) {
+    const x = zr.toNumber();
+    const y = zi.toNumber();
+    points[i * 2] = x;
+    points[i * 2 + 1] = y;
+    length++;
+
+    if (x * x + y * y > escapeRadiusSq) break;
+
+    const zr2 = zr.times(zr);
+    const zi2 = zi.times(zi);
+    zi = zr.times(zi).times(2).plus(ci);
+    zr = zr2.minus(zi2).plus(cr);
+  }
+
+  const width = Math.min(length, REFERENCE_ORBIT_WIDTH);
+  const height = Math.ceil(length / width);
+  const data = new Float32Array(width * height * 2);
+  data.set(points.subarray(0, length * 2));
+
+  return { data, length, width, height };
+};
@@ -0,0 +1,142 @@
+// Minimal streaming PNG encoder: 8- or 16-bit RGB, written in row batches so images
+// far larger than memory can go straight to disk. Compression uses the
+// browser's CompressionStream ("deflate" is the zlib format IDAT expects).
+
+export const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// Filter type 1 (Sub): each byte minus the same byte of the pixel to its left
+const FILTER_SUB = 1;
+
+export type BitDepth = 8 | 16;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array, crc = 0): number => {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+// Length, type, data and CRC of the type and data
+export const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+};
+
+export const createHeader = (width: number, height: number, bitDepth: BitDepth = 8): Uint8Array => {
+  const data = new Uint8Array(13);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  data[8] = bitDepth;
+  data[9] = 2; // color type: RGB
+  // compression, filter and interlace methods are all 0
+  return createChunk("IHDR", data);
+};
+
+// Prefix each row of tightly packed RGB pixels (16-bit samples big-endian)
+// with its filter type and apply the filter
+export const filterRows = (
+  rgb: Uint8Array,
+  width: number,
+  rowCount: number,
+  bitDepth: BitDepth = 8
+): Uint8Array<ArrayBuffer> => {
+  const bytesPerPixel = (3 * bitDepth) / 8;
+  const stride = width * bytesPerPixel;
+  const filtered = new Uint8Array(rowCount * (stride + 1));
+  for (let row = 0; row < rowCount; row++) {
+    const src = row * stride;
+    const dst = row * (stride + 1);
+    filtered[dst] = FILTER_SUB;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bytesPerPixel ? rgb[src + i - bytesPerPixel] : 0;
+      filtered[dst + 1 + i] = rgb[src + i] - left;
+    }
+  }
+  return filtered;
+};
+
+// Destination for encoded bytes, e.g. a file or an in-memory blob
+export interface ByteSink {
+  write: (bytes: Uint8Array) => Promise<void>;
+}
+
+export interface PngStream {
+  // Append rows of tightly packed RGB pixels, top to bottom
+  writeRows: (rgb: Uint8Array, rowCount: number) => Promise<void>;
+  // Flush the compressor and write the end of the file
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+export const createPngStream = async (
+  width: number,
+  height: number,
+  sink: ByteSink,
+  // Extra chunks (text metadata and the like) placed before the image data
+  chunks: Uint8Array[] = [],
+  bitDepth: BitDepth = 8
+): Promise<PngStream> => {
+  await sink.write(PNG_SIGNATURE);
+  await sink.write(createHeader(width, height, bitDepth));
+  for (const chunk of chunks) await sink.write(chunk);
+
+  const compressor = new CompressionStream("deflate");
+  const input = compressor.writable.getWriter();
+  const reader = compressor.readable.getReader();
+
+  // Every compressed block becomes its own IDAT chunk
+  const pump = (async () => {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      await sink.write(createChunk("IDAT", value));
+    }
+  })();
+
+  let rowsWritten = 0;
+
+  return {
+    async writeRows(rgb, rowCount) {
+      if (rowsWritten + rowCount > height) {
+        throw new Error("More rows written than the image height");
+      }
+
+      rowsWritten += rowCount;
+      await input.ready;
+      await input.write(filterRows(rgb, width, rowCount, bitDepth));
+    },
+
+    async close() {
+      if (rowsWritten !== height) {
+        throw new Error(`Expected ${height} rows, got ${rowsWritten}`);
+      }
+      await input.close();
+      await pump;
+      await sink.write(createChunk("IEND", new Uint8Array(0)));
+    },
+
+    async abort() {
+      await input.abort().catch(() => {});
+      await pump.catch(() => {});
+    },
+  };
+};
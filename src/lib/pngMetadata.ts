@@ -0,0 +1,109 @@
+import { FractalParams } from "@/types/fractal";
+import { PNG_SIGNATURE, createChunk } from "./png";
+import { PARAMS_VERSION, createParamsDocument } from "./fractalParams";
+import { validateFractalParams } from "./validation";
+
+// Exported PNGs carry the view that produced them, so any shared image can be
+// dropped back onto the editor to restore it. The params document goes in an
+// iTXt chunk under this keyword, next to a standard "Software" tEXt chunk.
+export const PARAMS_KEYWORD = "Fractalater";
+
+// From package.json, through next.config's env
+export const APP_VERSION: string = process.env.NEXT_PUBLIC_APP_VERSION ?? "unknown";
+
+// Saved alongside the params document so future builds know who wrote it
+interface EmbeddedParams {
+  appVersion: string;
+  version: number;
+  params: Record<string, unknown>;
+}
+
+const encoder = new TextEncoder();
+
+const latin1 = (text: string): Uint8Array => {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff);
+};
+
+// tEXt: keyword, NUL, Latin-1 text
+const createTextChunk = (keyword: string, text: string): Uint8Array => {
+  return createChunk("tEXt", new Uint8Array([...latin1(keyword), 0, ...latin1(text)]));
+};
+
+// iTXt: keyword, NUL, uncompressed flag and method, empty language tag and
+// translated keyword (each NUL-terminated), UTF-8 text
+const createInternationalTextChunk = (keyword: string, text: string): Uint8Array => {
+  return createChunk("iTXt", new Uint8Array([...latin1(keyword), 0, 0, 0, 0, 0, ...encoder.encode(text)]));
+};
+
+export const createMetadataChunks = (params: FractalParams): Uint8Array[] => {
+  const embedded: EmbeddedParams = { appVersion: APP_VERSION, ...createParamsDocument(params) };
+  return [
+    createTextChunk("Software", `Fractalater ${APP_VERSION}`),
+    createInternationalTextChunk(PARAMS_KEYWORD, JSON.stringify(embedded)),
+  ];
+};
+
+// Text chunks of a PNG by keyword. Compressed text (zTXt, compressed iTXt)
+// is skipped since we never write it.
+export const readPngText = (bytes: Uint8Array): Record<string, string> => {
+  if (bytes.length < PNG_SIGNATURE.length || PNG_SIGNATURE.some((byte, i) => bytes[i] !== byte)) {
+    throw new Error("Not a PNG image");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const latin1Decoder = new TextDecoder("latin1");
+  const utf8Decoder = new TextDecoder();
+  const text: Record<string, string> = {};
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1Decoder.decode(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === "IEND") break;
+    if (type !== "tEXt" && type !== "iTXt") continue;
+
+    const keywordEnd = data.indexOf(0);
+    if (keywordEnd < 0) continue;
+    const keyword = latin1Decoder.decode(data.subarray(0, keywordEnd));
+
+    if (type === "tEXt") {
+      text[keyword] = latin1Decoder.decode(data.subarray(keywordEnd + 1));
+      continue;
+    }
+
+    if (data[keywordEnd + 1] !== 0) continue; // compressed
+    const languageEnd = data.indexOf(0, keywordEnd + 3);
+    const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+    if (translatedEnd < 0) continue;
+    text[keyword] = utf8Decoder.decode(data.subarray(translatedEnd + 1));
+  }
+
+  return text;
+};
+
+// The view embedded in an exported PNG, migrated to the current params shape
+export const readParamsFromPng = (bytes: Uint8Array): FractalParams => {
+  const embedded = readPngText(bytes)[PARAMS_KEYWORD];
+  if (!embedded) {
+    throw new Error("This image has no Fractalater view embedded");
+  }
+
+  let document: Partial<EmbeddedParams>;
+  try {
+    document = JSON.parse(embedded);
+  } catch {
+    throw new Error("The view embedded in this image is unreadable");
+  }
+
+  const result = validateFractalParams(document);
+  if (!result.ok) {
+    if (typeof document?.version === "number" && document.version > PARAMS_VERSION) {
+      throw new Error(`This image was exported by a newer version of Fractalater (${document.appVersion})`);
+    }
+    throw new Error("The view embedded in this image is invalid");
+  }
+  return result.value;
+};
@@ -0,0 +1,116 @@
+import { Complex, complexDiv, complexMul } from "./complex";
+
+// Polynomials for the Newton and Nova types, which are defined by their
+// roots: Newton's method doesn't change when p is scaled, so the roots are
+// all it needs. Coefficients are entered and shown highest degree first and
+// converted to roots here before they reach the shader.
+
+export const MIN_NEWTON_ROOTS = 2;
+export const MAX_NEWTON_ROOTS = 8;
+
+// Roots of z³ - 1
+export const DEFAULT_NEWTON_ROOTS: Complex[] = [
+  [1, 0],
+  [-0.5, Math.sqrt(3) / 2],
+  [-0.5, -Math.sqrt(3) / 2],
+];
+
+// Durand-Kerner iterations, and the change below which the roots are done
+const ROOT_ITERATIONS = 500;
+const ROOT_TOLERANCE = 1e-14;
+
+// Coefficients of the monic polynomial with these roots
+export const polynomialFromRoots = (roots: Complex[]): Complex[] => {
+  let coefficients: Complex[] = [[1, 0]];
+  for (const root of roots) {
+    // Multiply by (z - root)
+    coefficients = [...coefficients, [0, 0]].map(([x, y], i) => {
+      if (i === 0) return [x, y];
+      const [px, py] = complexMul(coefficients[i - 1], root);
+      return [x - px, y - py];
+    });
+  }
+  return coefficients;
+};
+
+// Roots of the polynomial, by Durand-Kerner: every estimate moves towards a
+// root at once, pushed apart from the others. Leading zero coefficients are
+// dropped; a constant has no roots.
+export const findRoots = (coefficients: Complex[]): Complex[] => {
+  const first = coefficients.findIndex(([x, y]) => x !== 0 || y !== 0);
+  if (first < 0) return [];
+  const monic = coefficients.slice(first).map((coefficient) => complexDiv(coefficient, coefficients[first]));
+  const degree = monic.length - 1;
+
+  const evaluate = (z: Complex) => monic.reduce<Complex>((sum, coefficient) => {
+    const [x, y] = complexMul(sum, z);
+    return [x + coefficient[0], y + coefficient[1]];
+  }, [0, 0]);
+
+  // Start on a spiral, which no symmetric polynomial lines up with
+  const roots: Complex[] = Array.from({ length: degree }, (_, k) => {
+    const angle = (2 * Math.PI * k) / degree + 0.4;
+    const radius = 1 + k / degree;
+    return [radius * Math.cos(angle), radius * Math.sin(angle)];
+  });
+
+  for (let iteration = 0; iteration < ROOT_ITERATIONS; iteration++) {
+    let change = 0;
+    for (let k = 0; k < degree; k++) {
+      let denominator: Complex = [1, 0];
+      for (let j = 0; j < degree; j++) {
+        if (j !== k) denominator = complexMul(denominator, [roots[k][0] - roots[j][0], roots[k][1] - roots[j][1]]);
+      }
+      const [dx, dy] = complexDiv(evaluate(roots[k]), denominator);
+      roots[k] = [roots[k][0] - dx, roots[k][1] - dy];
+      change = Math.max(change, Math.hypot(dx, dy));
+    }
+    if (change < ROOT_TOLERANCE) break;
+  }
+
+  // Clean up rounding noise around real and imaginary roots
+  return roots.map(([x, y]) => [Math.abs(x) < 1e-12 ? 0 : x, Math.abs(y) < 1e-12 ? 0 : y]);
+};
+
+const NUMBER = String.raw`(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?`;
+const IMAGINARY_PATTERN = new RegExp(`^([+-]?(?:${NUMBER})?)\\*?i$`, "i");
+const COMPLEX_PATTERN = new RegExp(`^([+-]?${NUMBER})(?:([+-](?:${NUMBER})?)\\*?i)?$`, "i");
+
+const parseScale = (text: string) => (text === "" || text === "+" ? 1 : text === "-" ? -1 : Number(text));
+
+// "2", "-0.5", "3i", "-i" or "1+2i"; null if it's none of those
+export const parseComplex = (text: string): Complex | null => {
+  const value = text.replace(/\s/g, "");
+  const imaginary = value.match(IMAGINARY_PATTERN);
+  if (imaginary) return [0, parseScale(imaginary[1])];
+  const complex = value.match(COMPLEX_PATTERN);
+  if (complex) return [Number(complex[1]), complex[2] === undefined ? 0 : parseScale(complex[2])];
+  return null;
+};
+
+const formatNumber = (value: number, digits: number) => String(Number(value.toFixed(digits)));
+
+export const formatComplex = ([x, y]: Complex, digits = 4): string => {
+  const re = formatNumber(x, digits);
+  const im = formatNumber(y, digits);
+  if (im === "0" || im === "-0") return re === "-0" ? "0" : re;
+  const imaginary = `${im === "1" ? "" : im === "-1" ? "-" : im}i`;
+  if (re === "0" || re === "-0") return imaginary;
+  return `${re}${imaginary.startsWith("-") ? "" : "+"}${imaginary}`;
+};
+
+// Comma-separated coefficients, highest degree first, such as "1, 0, 0, -1"
+// for z³ - 1. Returns an error message for anything else, or for a
+// polynomial whose degree the Newton types can't draw.
+export const parseCoefficients = (text: string): Complex[] | string => {
+  const coefficients = text.split(",").map(parseComplex);
+  const invalid = coefficients.findIndex((coefficient) => coefficient === null);
+  if (invalid >= 0) return `Coefficient ${invalid + 1} isn't a number like 2, -0.5i or 1+2i`;
+
+  const first = coefficients.findIndex((coefficient) => coefficient![0] !== 0 || coefficient![1] !== 0);
+  const degree = first < 0 ? 0 : coefficients.length - 1 - first;
+  if (degree < MIN_NEWTON_ROOTS || degree > MAX_NEWTON_ROOTS) {
+    return `The polynomial must have degree ${MIN_NEWTON_ROOTS} to ${MAX_NEWTON_ROOTS}`;
+  }
+  return coefficients as Complex[];
+};
@@ -0,0 +1,133 @@
+import { createPngStream } from "./png";
+import { ExportSink } from "./exportSink";
+
+// Largest export side we offer; PNG allows more, but tiles of a 32k image
+// already take a long while to render
+export const MAX_EXPORT_SIZE = 32768;
+export const SUPERSAMPLE_OPTIONS = [1, 2, 3, 4] as const;
+export type Supersample = (typeof SUPERSAMPLE_OPTIONS)[number];
+
+// Rectangle of the supersampled image to render, in pixels from the top left
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+// Implemented by FractalCanvas on top of an offscreen framebuffer
+export interface TileRenderer {
+  // Largest tile side the GPU can render in one pass
+  maxTileSize: number;
+  // RGBA pixels of the tile, top row first, or null if rendering failed
+  renderTile: (tile: TileRect) => Uint8Array | null;
+  dispose: () => void;
+}
+
+export interface PosterExportOptions {
+  width: number;
+  height: number;
+  supersample: Supersample;
+  // PNG chunks to write ahead of the image data, e.g. embedded params
+  metadata?: Uint8Array[];
+  signal?: AbortSignal;
+  onProgress?: (completedTiles: number, totalTiles: number) => void;
+}
+
+// Let the browser paint progress and handle the cancel button between tiles
+const yieldToBrowser = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Average each supersample × supersample block of an RGBA tile into one RGB
+// pixel of `rows`, which holds a full-width band of the output image
+const downsampleInto = (
+  rows: Uint8Array,
+  rowsWidth: number,
+  tile: Uint8Array,
+  tileWidth: number,
+  outX: number,
+  outWidth: number,
+  outHeight: number,
+  supersample: number
+) => {
+  const samples = supersample * supersample;
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let sy = 0; sy < supersample; sy++) {
+        let offset = ((y * supersample + sy) * tileWidth + x * supersample) * 4;
+        for (let sx = 0; sx < supersample; sx++) {
+          r += tile[offset];
+          g += tile[offset + 1];
+          b += tile[offset + 2];
+          offset += 4;
+        }
+      }
+      const dst = (y * rowsWidth + outX + x) * 3;
+      rows[dst] = Math.round(r / samples);
+      rows[dst + 1] = Math.round(g / samples);
+      rows[dst + 2] = Math.round(b / samples);
+    }
+  }
+};
+
+// Render the view tile by tile at width × height (times the supersample
+// factor on the GPU) and stream it into `sink` as a PNG, one band of tiles
+// at a time, so memory use is bounded by the band rather than the image.
+export const exportPoster = async (
+  renderer: TileRenderer,
+  sink: ExportSink,
+  { width, height, supersample, metadata, signal, onProgress }: PosterExportOptions
+): Promise<void> => {
+  const tileSize = Math.floor(renderer.maxTileSize / supersample);
+  const columns = Math.ceil(width / tileSize);
+  const bands = Math.ceil(height / tileSize);
+  const totalTiles = columns * bands;
+  let completedTiles = 0;
+
+  const png = await createPngStream(width, height, sink, metadata);
+
+  try {
+    for (let band = 0; band < bands; band++) {
+      const bandY = band * tileSize;
+      const bandHeight = Math.min(tileSize, height - bandY);
+      const rows = new Uint8Array(width * bandHeight * 3);
+
+      for (let column = 0; column < columns; column++) {
+        signal?.throwIfAborted();
+
+        const tileX = column * tileSize;
+        const tileWidth = Math.min(tileSize, width - tileX);
+        const pixels = renderer.renderTile({
+          x: tileX * supersample,
+          y: bandY * supersample,
+          width: tileWidth * supersample,
+          height: bandHeight * supersample,
+          imageWidth: width * supersample,
+          imageHeight: height * supersample,
+        });
+        if (!pixels) {
+          throw new Error("Failed to render tile");
+        }
+
+        downsampleInto(rows, width, pixels, tileWidth * supersample, tileX, tileWidth, bandHeight, supersample);
+
+        completedTiles++;
+        onProgress?.(completedTiles, totalTiles);
+        await yieldToBrowser();
+      }
+
+      await png.writeRows(rows, bandHeight);
+    }
+
+    await png.close();
+    await sink.close();
+  } catch (error) {
+    await png.abort();
+    await sink.abort().catch(() => {});
+    throw error;
+  }
+};
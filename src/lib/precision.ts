@@ -0,0 +1,39 @@
+import { FractalParams } from "@/types/fractal";
+import { FRACTAL_TYPES } from "@/fractals";
+import { supportsPerturbation } from "./perturbation";
+import { toNumber } from "./coordinates";
+import { supportsBuddhabrot } from "./buddhabrot";
+
+// Beyond this zoom single-precision coordinates turn into visible blocks
+export const FLOAT_PRECISION_THRESHOLD = 1e5;
+
+export type RenderMode = "standard" | "doubleFloat" | "perturbation" | "raymarch" | "density";
+
+export const shouldUsePerturbation = (params: FractalParams): boolean => {
+  return supportsPerturbation(params) && toNumber(params.zoom) > FLOAT_PRECISION_THRESHOLD;
+};
+
+// Double-single arithmetic is only implemented for the quadratic maps of the
+// types that declare a step for it
+export const supportsDoubleFloat = (params: FractalParams): boolean => {
+  return !!FRACTAL_TYPES[params.type].shader.doubleFloat && params.power === 2;
+};
+
+// Pick the cheapest shader program that still resolves individual pixels.
+// Perturbation wins where it is available since it has no depth limit;
+// double-float covers the remaining types up to roughly 1e13. The 3D and
+// Buddhabrot modes have programs of their own.
+export const selectRenderMode = (params: FractalParams): RenderMode => {
+  if (params.view3d) return "raymarch";
+  if (params.buddhabrot && supportsBuddhabrot(params)) return "density";
+  if (shouldUsePerturbation(params)) return "perturbation";
+  if (toNumber(params.zoom) > FLOAT_PRECISION_THRESHOLD && supportsDoubleFloat(params)) return "doubleFloat";
+  return "standard";
+};
+
+// Split a double into high and low float parts whose sum reproduces it to
+// about 48 bits, for upload as a pair of float uniforms
+export const splitDouble = (value: number): [number, number] => {
+  const hi = Math.fround(value);
+  return [hi, Math.fround(value - hi)];
+};
@@ -0,0 +1,212 @@
+// Palette quantization for GIF export: median cut over a 5-bit-per-channel
+// histogram, then mapping each pixel to its nearest palette entry with
+// optional dithering.
+
+export type DitherMode = "none" | "ordered" | "floyd-steinberg";
+
+export interface QuantizedImage {
+  // RGB triplets, at most 256 colors
+  palette: Uint8Array;
+  // One palette index per pixel, top row first
+  indices: Uint8Array;
+}
+
+export const MAX_PALETTE_SIZE = 256;
+
+const HISTOGRAM_SHIFT = 3;
+const HISTOGRAM_BITS = 8 - HISTOGRAM_SHIFT;
+const HISTOGRAM_SIZE = 1 << (3 * HISTOGRAM_BITS);
+
+// 4×4 Bayer matrix, and how far (in 0–255 units) ordered dithering may push
+// a channel. Ordered dithering keeps its pattern fixed between frames, so
+// loops don't shimmer the way error diffusion can.
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+const ORDERED_SPREAD = 32;
+
+const binOf = (r: number, g: number, b: number) => {
+  return ((r >> HISTOGRAM_SHIFT) << (2 * HISTOGRAM_BITS)) | ((g >> HISTOGRAM_SHIFT) << HISTOGRAM_BITS) | (b >> HISTOGRAM_SHIFT);
+};
+
+interface Histogram {
+  counts: Uint32Array;
+  // Per-bin channel sums, so palette entries are true averages rather than
+  // bin centers
+  sums: Float64Array;
+}
+
+const buildHistogram = (rgba: Uint8Array): Histogram => {
+  const counts = new Uint32Array(HISTOGRAM_SIZE);
+  const sums = new Float64Array(HISTOGRAM_SIZE * 3);
+  for (let i = 0; i < rgba.length; i += 4) {
+    const bin = binOf(rgba[i], rgba[i + 1], rgba[i + 2]);
+    counts[bin]++;
+    sums[bin * 3] += rgba[i];
+    sums[bin * 3 + 1] += rgba[i + 1];
+    sums[bin * 3 + 2] += rgba[i + 2];
+  }
+  return { counts, sums };
+};
+
+// Channel c (0 = red) of a bin, in histogram units
+const binChannel = (bin: number, channel: number) => {
+  return (bin >> ((2 - channel) * HISTOGRAM_BITS)) & ((1 << HISTOGRAM_BITS) - 1);
+};
+
+interface Box {
+  bins: number[];
+  count: number;
+  // Longest channel and its extent
+  axis: number;
+  range: number;
+}
+
+const createBox = (bins: number[], counts: Uint32Array): Box => {
+  let count = 0;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const bin of bins) {
+    count += counts[bin];
+    for (let channel = 0; channel < 3; channel++) {
+      const value = binChannel(bin, channel);
+      min[channel] = Math.min(min[channel], value);
+      max[channel] = Math.max(max[channel], value);
+    }
+  }
+
+  const ranges = max.map((value, channel) => value - min[channel]);
+  const axis = ranges.indexOf(Math.max(...ranges));
+  return { bins, count, axis, range: ranges[axis] };
+};
+
+// Split the box along its longest channel at the median pixel
+const splitBox = (box: Box, counts: Uint32Array): [Box, Box] => {
+  const sorted = [...box.bins].sort((a, b) => binChannel(a, box.axis) - binChannel(b, box.axis));
+
+  let seen = 0;
+  let cut = 1;
+  for (; cut < sorted.length - 1; cut++) {
+    seen += counts[sorted[cut - 1]];
+    if (seen >= box.count / 2) break;
+  }
+  return [createBox(sorted.slice(0, cut), counts), createBox(sorted.slice(cut), counts)];
+};
+
+const buildPalette = ({ counts, sums }: Histogram): Uint8Array => {
+  const bins: number[] = [];
+  for (let bin = 0; bin < HISTOGRAM_SIZE; bin++) {
+    if (counts[bin] > 0) bins.push(bin);
+  }
+
+  const boxes = [createBox(bins, counts)];
+  while (boxes.length < MAX_PALETTE_SIZE) {
+    // Split the box whose colors are both common and spread out
+    let best = -1;
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      const score = box.bins.length > 1 ? box.count * (box.range + 1) : 0;
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+    if (best < 0) break;
+
+    boxes.splice(best, 1, ...splitBox(boxes[best], counts));
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    const total = [0, 0, 0];
+    for (const bin of box.bins) {
+      for (let channel = 0; channel < 3; channel++) total[channel] += sums[bin * 3 + channel];
+    }
+    for (let channel = 0; channel < 3; channel++) {
+      palette[index * 3 + channel] = Math.round(total[channel] / box.count);
+    }
+  });
+  return palette;
+};
+
+// Nearest palette entry for each histogram bin, filled in on first use
+const createColorMap = (palette: Uint8Array) => {
+  const cache = new Int16Array(HISTOGRAM_SIZE).fill(-1);
+  const colorCount = palette.length / 3;
+
+  return (r: number, g: number, b: number): number => {
+    const bin = binOf(r, g, b);
+    if (cache[bin] >= 0) return cache[bin];
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < colorCount; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    }
+    cache[bin] = best;
+    return best;
+  };
+};
+
+const clampByte = (value: number) => Math.min(255, Math.max(0, Math.round(value)));
+
+// Reduce an RGBA image (alpha ignored) to at most 256 colors
+export const quantize = (rgba: Uint8Array, width: number, height: number, dither: DitherMode): QuantizedImage => {
+  const palette = buildPalette(buildHistogram(rgba));
+  const nearest = createColorMap(palette);
+  const indices = new Uint8Array(width * height);
+
+  if (dither === "none") {
+    for (let i = 0; i < indices.length; i++) {
+      indices[i] = nearest(rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2]);
+    }
+    return { palette, indices };
+  }
+
+  if (dither === "ordered") {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const offset = ((BAYER_4X4[(y & 3) * 4 + (x & 3)] + 0.5) / 16 - 0.5) * ORDERED_SPREAD;
+        indices[i] = nearest(
+          clampByte(rgba[i * 4] + offset),
+          clampByte(rgba[i * 4 + 1] + offset),
+          clampByte(rgba[i * 4 + 2] + offset)
+        );
+      }
+    }
+    return { palette, indices };
+  }
+
+  // Floyd-Steinberg: push each pixel's error onto its unvisited neighbours.
+  // Error rows have a pixel of padding at each end.
+  let current = new Float32Array((width + 2) * 3);
+  let next = new Float32Array((width + 2) * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const e = (x + 1) * 3;
+      const r = clampByte(rgba[i * 4] + current[e]);
+      const g = clampByte(rgba[i * 4 + 1] + current[e + 1]);
+      const b = clampByte(rgba[i * 4 + 2] + current[e + 2]);
+      const index = nearest(r, g, b);
+      indices[i] = index;
+
+      const error = [r - palette[index * 3], g - palette[index * 3 + 1], b - palette[index * 3 + 2]];
+      for (let channel = 0; channel < 3; channel++) {
+        current[e + 3 + channel] += (error[channel] * 7) / 16;
+        next[e - 3 + channel] += (error[channel] * 3) / 16;
+        next[e + channel] += (error[channel] * 5) / 16;
+        next[e + 3 + channel] += error[channel] / 16;
+      }
+    }
+    [current, next] = [next, current];
+    next.fill(0);
+  }
+  return { palette, indices };
+};
@@ -0,0 +1,129 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+// Server-only: image blobs (thumbnails, for now) live outside the database
+// behind this interface so they can move to object storage without touching
+// the routes. Keys are relative paths like "thumbnails/<uuid>.jpg".
+export interface ImageStorage {
+  put(key: string, data: Uint8Array): Promise<void>;
+  get(key: string): Promise<StoredImage | null>;
+  delete(key: string): Promise<void>;
+}
+
+export interface StoredImage {
+  data: Uint8Array;
+  contentType: string;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+};
+
+export const getContentType = (key: string): string => {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream";
+};
+
+export const getExtension = (contentType: string): string | null => {
+  const entry = Object.entries(CONTENT_TYPES).find(([, type]) => type === contentType);
+  return entry ? entry[0] : null;
+};
+
+// Files under a root directory, one file per key
+export const createLocalImageStorage = (root: string): ImageStorage => {
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    async put(key, data) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+
+    async get(key) {
+      try {
+        const data = await readFile(resolve(key));
+        return { data: new Uint8Array(data), contentType: getContentType(key) };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+};
+
+// Available backends, selected with IMAGE_STORAGE. Register another factory
+// here to add one.
+const STORAGE_DRIVERS: Record<string, () => ImageStorage> = {
+  local: () => createLocalImageStorage(process.env.IMAGE_STORAGE_DIR || path.join(process.cwd(), "storage")),
+};
+
+const globalForStorage = globalThis as unknown as {
+  imageStorage: ImageStorage | undefined;
+};
+
+const createImageStorage = (): ImageStorage => {
+  const driver = process.env.IMAGE_STORAGE || "local";
+  const create = STORAGE_DRIVERS[driver];
+  if (!create) {
+    throw new Error(`Unknown IMAGE_STORAGE driver "${driver}"`);
+  }
+  return create();
+};
+
+export const getImageStorage = (): ImageStorage => {
+  globalForStorage.imageStorage ??= createImageStorage();
+  return globalForStorage.imageStorage;
+};
+
+const DATA_URL_PATTERN = /^data:([\w/+.-]+);base64,(.*)$/;
+
+export const decodeDataUrl = (dataUrl: string): StoredImage | null => {
+  const match = DATA_URL_PATTERN.exec(dataUrl);
+  if (!match) return null;
+  return { contentType: match[1], data: new Uint8Array(Buffer.from(match[2], "base64")) };
+};
+
+// Write a thumbnail data URL (already checked by validateFractalPayload)
+// under a fresh key and return the key for Fractal.thumbnail
+export const saveThumbnail = async (dataUrl: string): Promise<string> => {
+  const image = decodeDataUrl(dataUrl);
+  const extension = image && getExtension(image.contentType);
+  if (!image || !extension) {
+    throw new Error("Unsupported thumbnail data");
+  }
+
+  const key = `thumbnails/${randomUUID()}${extension}`;
+  await getImageStorage().put(key, image.data);
+  return key;
+};
+
+// Fractal.thumbnail holds a storage key, or an inline data URL for rows
+// saved before thumbnails moved out of the database
+export const loadThumbnail = async (thumbnail: string): Promise<StoredImage | null> => {
+  if (thumbnail.startsWith("data:")) return decodeDataUrl(thumbnail);
+  return getImageStorage().get(thumbnail);
+};
+
+export const deleteThumbnail = async (thumbnail: string | null): Promise<void> => {
+  if (!thumbnail || thumbnail.startsWith("data:")) return;
+  try {
+    await getImageStorage().delete(thumbnail);
+  } catch (error) {
+    // An orphaned file is harmless; don't fail the request over it
+    console.error("Failed to delete thumbnail:", error);
+  }
+};
@@ -0,0 +1,47 @@
+// Gallery cards are 16:9, so thumbnails are captured at that aspect
+export const THUMBNAIL_WIDTH = 480;
+export const THUMBNAIL_HEIGHT = 270;
+export const THUMBNAIL_TYPE = "image/jpeg";
+const THUMBNAIL_QUALITY = 0.85;
+
+// Downscale a rendered canvas into a thumbnail data URL, cropping to fill the
+// thumbnail aspect. WebGL canvases must be read in the same task they were
+// drawn in, since the drawing buffer is cleared once it's composited.
+export const captureThumbnail = (source: HTMLCanvasElement): string | null => {
+  if (source.width === 0 || source.height === 0) return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  const scale = Math.max(THUMBNAIL_WIDTH / source.width, THUMBNAIL_HEIGHT / source.height);
+  const cropWidth = THUMBNAIL_WIDTH / scale;
+  const cropHeight = THUMBNAIL_HEIGHT / scale;
+
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(
+    source,
+    (source.width - cropWidth) / 2,
+    (source.height - cropHeight) / 2,
+    cropWidth,
+    cropHeight,
+    0,
+    0,
+    THUMBNAIL_WIDTH,
+    THUMBNAIL_HEIGHT
+  );
+  return canvas.toDataURL(THUMBNAIL_TYPE, THUMBNAIL_QUALITY);
+};
+
+// The storage key changes on every save, so it doubles as a cache buster
+export const getThumbnailUrl = (fractalId: string, thumbnail: string): string => {
+  return `/api/fractals/${fractalId}/thumbnail?v=${encodeURIComponent(getThumbnailVersion(thumbnail))}`;
+};
+
+export const getThumbnailVersion = (thumbnail: string): string => {
+  // Rows from before file storage hold the image inline as a data URL
+  if (thumbnail.startsWith("data:")) return String(thumbnail.length);
+  return thumbnail.replace(/^.*\//, "").replace(/\.[^.]*$/, "");
+};
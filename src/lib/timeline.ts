@@ -0,0 +1,306 @@
+import { FractalParams } from "@/types/fractal";
+import { Complex } from "./complex";
+import { coordinateDifference, toNumber, translateCoordinate } from "./coordinates";
+import { wrapYaw } from "./view3d";
+
+// A view pinned to a point on the timeline
+export interface Keyframe {
+  id: string;
+  time: number; // seconds
+  params: FractalParams;
+}
+
+export interface Timeline {
+  duration: number; // seconds
+  keyframes: Keyframe[]; // sorted by time
+}
+
+export const DEFAULT_TIMELINE_DURATION = 10;
+export const MAX_TIMELINE_DURATION = 600;
+
+export const EMPTY_TIMELINE: Timeline = { duration: DEFAULT_TIMELINE_DURATION, keyframes: [] };
+
+// Keyframes closer together than this are treated as the same moment
+const KEYFRAME_EPSILON = 1e-3;
+
+// Wall-clock auto-animation would fight the timeline, so keyframes never
+// carry it. Color cycling and Julia animation stay: they run off the
+// shader's time, which follows the timeline.
+const STATIC_VIEW: Partial<FractalParams> = {
+  autoZoom: false,
+  autoRotate: false,
+  autoHueShift: false,
+  autoPower: false,
+};
+
+// How each field moves between two keyframes. A record so new params fields
+// must pick one. "named" eases each entry of a record that both keyframes
+// have; "points" eases a list of points when both have as many, and steps
+// otherwise.
+type Interpolation = "zoom" | "center" | "eased" | "hue" | "yaw" | "integer" | "named" | "points" | "step";
+
+const INTERPOLATION: Record<keyof FractalParams, Interpolation> = {
+  type: "step",
+  centerX: "center",
+  centerY: "center",
+  zoom: "zoom",
+  maxIterations: "integer",
+  escapeRadius: "eased",
+  juliaReal: "eased",
+  juliaImag: "eased",
+  juliaMode: "step",
+  power: "eased",
+  phoenixReal: "eased",
+  phoenixImag: "eased",
+  formula: "step",
+  formulaParams: "named",
+  newtonRoots: "points",
+  newtonRelaxation: "eased",
+  lyapunovSequence: "step",
+  view3d: "step",
+  shape3d: "step",
+  juliaJ: "eased",
+  juliaK: "eased",
+  cameraYaw: "yaw",
+  cameraPitch: "eased",
+  cameraDistance: "eased",
+  softShadows: "step",
+  ambientOcclusion: "step",
+  buddhabrot: "step",
+  buddhabrotMinIterations: "integer",
+  nebulabrot: "step",
+  redIterations: "integer",
+  greenIterations: "integer",
+  blueIterations: "integer",
+  buddhabrotGamma: "eased",
+  colorScheme: "step",
+  gradient: "step",
+  coloringMethod: "step",
+  interiorColoring: "step",
+  interiorGradient: "step",
+  colorOffset: "eased",
+  colorScale: "eased",
+  colorCycleSpeed: "eased",
+  glowIntensity: "eased",
+  posterize: "integer",
+  hueShift: "hue",
+  saturation: "eased",
+  brightness: "eased",
+  stripeFrequency: "eased",
+  orbitTrapSize: "eased",
+  boundaryWidth: "eased",
+  lighting: "step",
+  lightAngle: "eased",
+  lightHeight: "eased",
+  specular: "eased",
+  animateJulia: "step",
+  juliaAnimSpeed: "eased",
+  autoZoom: "step",
+  autoZoomSpeed: "step",
+  autoRotate: "step",
+  autoRotateSpeed: "step",
+  autoHueShift: "step",
+  autoHueSpeed: "step",
+  autoPower: "step",
+  autoPowerSpeed: "step",
+  globalAnimSpeed: "step",
+  performanceMode: "step",
+};
+
+let nextKeyframeId = 0;
+
+export const createKeyframe = (params: FractalParams, time: number): Keyframe => {
+  return { id: `keyframe-${nextKeyframeId++}`, time, params: { ...params, ...STATIC_VIEW } };
+};
+
+const sortKeyframes = (keyframes: Keyframe[]) => [...keyframes].sort((a, b) => a.time - b.time);
+
+// Insert a keyframe, replacing any already at the same time
+export const addKeyframe = (timeline: Timeline, keyframe: Keyframe): Timeline => {
+  const others = timeline.keyframes.filter((k) => Math.abs(k.time - keyframe.time) > KEYFRAME_EPSILON);
+  return { ...timeline, keyframes: sortKeyframes([...others, keyframe]) };
+};
+
+export const removeKeyframe = (timeline: Timeline, id: string): Timeline => {
+  return { ...timeline, keyframes: timeline.keyframes.filter((k) => k.id !== id) };
+};
+
+export const moveKeyframe = (timeline: Timeline, id: string, time: number): Timeline => {
+  const clamped = Math.min(Math.max(time, 0), timeline.duration);
+  const keyframes = timeline.keyframes.map((k) => (k.id === id ? { ...k, time: clamped } : k));
+  return { ...timeline, keyframes: sortKeyframes(keyframes) };
+};
+
+// Changing the duration keeps keyframes in place, pulling in any past the end
+export const setTimelineDuration = (timeline: Timeline, duration: number): Timeline => {
+  const clamped = Math.min(Math.max(duration, KEYFRAME_EPSILON), MAX_TIMELINE_DURATION);
+  const keyframes = timeline.keyframes.map((k) => (k.time > clamped ? { ...k, time: clamped } : k));
+  return { duration: clamped, keyframes: sortKeyframes(keyframes) };
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+// Hue wraps at 1, so take the short way around
+const interpolateHue = (a: number, b: number, t: number) => {
+  const delta = ((((b - a) % 1) + 1.5) % 1) - 0.5;
+  return (((a + delta * t) % 1) + 1) % 1;
+};
+
+// Yaw wraps at ±180°, so likewise
+const interpolateYaw = (a: number, b: number, t: number) => wrapYaw(a + wrapYaw(b - a) * t);
+
+const interpolateNamed = (a: Record<string, number>, b: Record<string, number>, t: number) => {
+  return Object.fromEntries(Object.entries(a).map(([name, value]) => [name, Object.hasOwn(b, name) ? lerp(value, b[name], t) : value]));
+};
+
+const interpolatePoints = (a: Complex[], b: Complex[], t: number): Complex[] => {
+  if (a.length !== b.length) return a;
+  return a.map(([x, y], i) => [lerp(x, b[i][0], t), lerp(y, b[i][1], t)]);
+};
+
+// Decades of zoom between two keyframes
+const zoomDecades = (from: FractalParams, to: FractalParams) => {
+  return Math.log10(toNumber(to.zoom)) - Math.log10(toNumber(from.zoom));
+};
+
+// Geometric interpolation, so zooming runs at a constant perceived speed
+const interpolateZoom = (from: FractalParams, to: FractalParams, t: number): string => {
+  return String(10 ** (Math.log10(toNumber(from.zoom)) + zoomDecades(from, to) * t));
+};
+
+// How far along the path from one center to the next to be, as the distance
+// covered and the distance remaining. While zooming in, the point being
+// approached holds still on screen instead of drifting slowly and then
+// racing in at the end (which a linear path would do, since the view
+// shrinks geometrically). Zooming out is the same motion reversed. Both
+// fractions are computed directly, since near a deep end the remaining one
+// is far below double epsilon and 1 - covered would round to zero.
+const centerProgress = (from: FractalParams, to: FractalParams, t: number) => {
+  const decades = zoomDecades(from, to);
+  if (Math.abs(decades) < 1e-6) return { covered: t, remaining: 1 - t };
+
+  const rate = Math.abs(decades) * Math.LN10;
+  const total = -Math.expm1(-rate);
+  const zoomingIn = (s: number) => ({
+    covered: -Math.expm1(-rate * s) / total,
+    remaining: (Math.exp(-rate) * Math.expm1(rate * (1 - s))) / total,
+  });
+
+  if (decades > 0) return zoomingIn(t);
+  const reversed = zoomingIn(1 - t);
+  return { covered: reversed.remaining, remaining: reversed.covered };
+};
+
+interface Vector {
+  x: number;
+  y: number;
+}
+
+const centerOffset = (from: FractalParams, to: FractalParams): Vector => ({
+  x: coordinateDifference(to.centerX, from.centerX),
+  y: coordinateDifference(to.centerY, from.centerY),
+});
+
+const length = (v: Vector) => Math.hypot(v.x, v.y);
+
+// Catmull-Rom tangent at keyframe `index`, clamped to the shorter of the
+// neighbouring chords so the path never overshoots; a few pixels of overshoot
+// at a shallow keyframe would be the whole screen at a deep one. The ends
+// use their single chord, which makes a two-keyframe path a straight line.
+const centerTangent = (keyframes: Keyframe[], index: number): Vector => {
+  const before = index > 0 ? centerOffset(keyframes[index - 1].params, keyframes[index].params) : null;
+  const after = index < keyframes.length - 1 ? centerOffset(keyframes[index].params, keyframes[index + 1].params) : null;
+  if (!before || !after) return before ?? after ?? { x: 0, y: 0 };
+
+  const tangent = { x: (before.x + after.x) / 2, y: (before.y + after.y) / 2 };
+  const limit = Math.min(length(before), length(after));
+  const scale = length(tangent) > limit ? limit / length(tangent) : 1;
+  return { x: tangent.x * scale, y: tangent.y * scale };
+};
+
+// Cubic Hermite spline through the keyframe centers. The offset is a double
+// added to the full-precision center of the nearer keyframe, so it shrinks
+// along with the view and deep paths keep every digit.
+const interpolateCenter = (keyframes: Keyframe[], index: number, t: number): Pick<FractalParams, "centerX" | "centerY"> => {
+  const from = keyframes[index].params;
+  const to = keyframes[index + 1].params;
+  const chord = centerOffset(from, to);
+  const startTangent = centerTangent(keyframes, index);
+  const endTangent = centerTangent(keyframes, index + 1);
+
+  // Hermite basis, written so each term stays exact near either end
+  const { covered: s, remaining: r } = centerProgress(from, to, t);
+  const h10 = s * r * r;
+  const h11 = -s * s * r;
+  const tangents = { x: h10 * startTangent.x + h11 * endTangent.x, y: h10 * startTangent.y + h11 * endTangent.y };
+
+  const nearStart = s < 0.5;
+  const origin = nearStart ? from : to;
+  const weight = nearStart ? s * s * (3 - 2 * s) : -r * r * (3 - 2 * r);
+  const offsetX = weight * chord.x + tangents.x;
+  const offsetY = weight * chord.y + tangents.y;
+
+  // Translate at the deeper zoom so neither end loses precision
+  const zoom = toNumber(to.zoom) > toNumber(from.zoom) ? to.zoom : from.zoom;
+  return {
+    centerX: translateCoordinate(origin.centerX, offsetX, zoom),
+    centerY: translateCoordinate(origin.centerY, offsetY, zoom),
+  };
+};
+
+// The view at `time`, or null for an empty timeline. Before the first and
+// after the last keyframe the view holds still.
+export const interpolateTimeline = (timeline: Timeline, time: number): FractalParams | null => {
+  const { keyframes } = timeline;
+  if (keyframes.length === 0) return null;
+
+  const next = keyframes.findIndex((k) => k.time > time);
+  if (next === 0) return keyframes[0].params;
+  if (next === -1) return keyframes[keyframes.length - 1].params;
+
+  const index = next - 1;
+  const from = keyframes[index].params;
+  const to = keyframes[next].params;
+  const t = (time - keyframes[index].time) / (keyframes[next].time - keyframes[index].time);
+  const eased = smoothstep(t);
+
+  const result: Record<string, unknown> = { ...from, ...interpolateCenter(keyframes, index, t) };
+  for (const key of Object.keys(INTERPOLATION) as (keyof FractalParams)[]) {
+    const a = from[key];
+    const b = to[key];
+    switch (INTERPOLATION[key]) {
+      case "zoom":
+        result[key] = interpolateZoom(from, to, t);
+        break;
+      case "eased":
+        result[key] = lerp(a as number, b as number, eased);
+        break;
+      case "hue":
+        result[key] = interpolateHue(a as number, b as number, eased);
+        break;
+      case "yaw":
+        result[key] = interpolateYaw(a as number, b as number, eased);
+        break;
+      case "integer":
+        result[key] = Math.round(lerp(a as number, b as number, eased));
+        break;
+      case "named":
+        result[key] = interpolateNamed(a as Record<string, number>, b as Record<string, number>, eased);
+        break;
+      case "points":
+        result[key] = interpolatePoints(a as Complex[], b as Complex[], eased);
+        break;
+      case "center":
+      case "step":
+        break;
+    }
+  }
+  return result as unknown as FractalParams;
+};
+
+// Number of frames a timeline renders to at `fps`, including both ends
+export const getFrameCount = (timeline: Timeline, fps: number): number => {
+  return Math.floor(timeline.duration * fps) + 1;
+};
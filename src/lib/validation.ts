@@ -0,0 +1,342 @@
+import {
+  FractalParams,
+  ColorScheme,
+  ColoringMethod,
+  GradientRepeat,
+  GradientSpace,
+  InteriorColoring,
+} from "@/types/fractal";
+import { FRACTAL_TYPES } from "@/fractals";
+import { asParamsDocument, migrateParamsDocument } from "./fractalParams";
+import { isValidDecimal, toNumber } from "./coordinates";
+import { MAX_GRADIENT_STOPS, MIN_GRADIENT_STOPS, isHexColor } from "./gradient";
+import { MAX_FORMULA_PARAMS, compileFormula } from "./formula";
+import { MAX_NEWTON_ROOTS, MIN_NEWTON_ROOTS } from "./polynomial";
+import { MAX_LYAPUNOV_SEQUENCE, isLyapunovSequence } from "./lyapunov";
+import { MAX_CAMERA_DISTANCE, MAX_CAMERA_PITCH, MIN_CAMERA_DISTANCE, SHAPES_3D } from "./view3d";
+
+// Field errors keyed by path in the request body, e.g. "name" or "params.zoom"
+export type FieldErrors = Record<string, string>;
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: FieldErrors };
+
+// Body accepted by POST /api/fractals and PUT /api/fractals/[id]
+export interface FractalPayload {
+  name: string;
+  description: string | null;
+  isPublic: boolean;
+  thumbnail: string | null;
+  params: FractalParams;
+}
+
+export const MAX_NAME_LENGTH = 100;
+export const MAX_DESCRIPTION_LENGTH = 1000;
+export const MAX_THUMBNAIL_LENGTH = 512 * 1024;
+
+// Enough digits for zooms far beyond anything perturbation can reach in practice
+const MAX_DECIMAL_LENGTH = 1000;
+
+const THUMBNAIL_PATTERN = /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+=*$/;
+
+// Records rather than arrays so adding a member to a union without listing
+// it here is a type error
+const COLOR_SCHEMES: Record<ColorScheme, true> = {
+  classic: true,
+  smooth: true,
+  fire: true,
+  ocean: true,
+  rainbow: true,
+  monochrome: true,
+  psychedelic: true,
+  neon: true,
+  pastel: true,
+  custom: true,
+};
+
+const GRADIENT_SPACES: Record<GradientSpace, true> = {
+  rgb: true,
+  hsv: true,
+  oklab: true,
+};
+
+const GRADIENT_REPEATS: Record<GradientRepeat, true> = {
+  repeat: true,
+  mirror: true,
+};
+
+const COLORING_METHODS: Record<ColoringMethod, true> = {
+  escape: true,
+  smooth: true,
+  orbit: true,
+  angle: true,
+  stripe: true,
+  domain: true,
+  histogram: true,
+  distance: true,
+};
+
+const INTERIOR_COLORINGS: Record<InteriorColoring, true> = {
+  black: true,
+  period: true,
+  magnitude: true,
+  distance: true,
+};
+
+type FieldRule =
+  | { kind: "number"; min?: number; max?: number; integer?: boolean }
+  | { kind: "boolean" }
+  | { kind: "enum"; values: Record<string, unknown> }
+  | { kind: "decimal"; positive?: boolean }
+  | { kind: "gradient" }
+  | { kind: "formula" }
+  | { kind: "formulaParams" }
+  | { kind: "roots" }
+  | { kind: "sequence" };
+
+const number = (min?: number, max?: number): FieldRule => ({ kind: "number", min, max });
+const boolean: FieldRule = { kind: "boolean" };
+
+// One rule per FractalParams field. Ranges are deliberately wider than the
+// sliders so animated values (auto power, hue drift) still save.
+const PARAM_RULES: Record<keyof FractalParams, FieldRule> = {
+  type: { kind: "enum", values: FRACTAL_TYPES },
+  centerX: { kind: "decimal" },
+  centerY: { kind: "decimal" },
+  zoom: { kind: "decimal", positive: true },
+  maxIterations: { kind: "number", min: 1, max: 100000, integer: true },
+  escapeRadius: number(1, 1e6),
+  juliaReal: number(-10, 10),
+  juliaImag: number(-10, 10),
+  juliaMode: boolean,
+  power: number(-16, 16),
+  phoenixReal: number(-10, 10),
+  phoenixImag: number(-10, 10),
+  formula: { kind: "formula" },
+  formulaParams: { kind: "formulaParams" },
+  newtonRoots: { kind: "roots" },
+  newtonRelaxation: number(-10, 10),
+  lyapunovSequence: { kind: "sequence" },
+  view3d: boolean,
+  shape3d: { kind: "enum", values: SHAPES_3D },
+  juliaJ: number(-10, 10),
+  juliaK: number(-10, 10),
+  cameraYaw: number(),
+  cameraPitch: number(-MAX_CAMERA_PITCH, MAX_CAMERA_PITCH),
+  cameraDistance: number(MIN_CAMERA_DISTANCE, MAX_CAMERA_DISTANCE),
+  softShadows: boolean,
+  ambientOcclusion: boolean,
+  buddhabrot: boolean,
+  buddhabrotMinIterations: { kind: "number", min: 0, max: 100000, integer: true },
+  nebulabrot: boolean,
+  redIterations: { kind: "number", min: 1, max: 100000, integer: true },
+  greenIterations: { kind: "number", min: 1, max: 100000, integer: true },
+  blueIterations: { kind: "number", min: 1, max: 100000, integer: true },
+  buddhabrotGamma: number(0.1, 10),
+  colorScheme: { kind: "enum", values: COLOR_SCHEMES },
+  gradient: { kind: "gradient" },
+  coloringMethod: { kind: "enum", values: COLORING_METHODS },
+  interiorColoring: { kind: "enum", values: INTERIOR_COLORINGS },
+  interiorGradient: { kind: "gradient" },
+  colorOffset: number(),
+  colorScale: number(0, 100),
+  colorCycleSpeed: number(-100, 100),
+  glowIntensity: number(0, 100),
+  posterize: number(0, 256),
+  hueShift: number(),
+  saturation: number(0, 100),
+  brightness: number(0, 100),
+  stripeFrequency: number(0, 1000),
+  orbitTrapSize: number(0, 100),
+  boundaryWidth: number(0, 100),
+  lighting: boolean,
+  lightAngle: number(),
+  lightHeight: number(0, 100),
+  specular: number(0, 100),
+  animateJulia: boolean,
+  juliaAnimSpeed: number(-100, 100),
+  autoZoom: boolean,
+  autoZoomSpeed: number(-100, 100),
+  autoRotate: boolean,
+  autoRotateSpeed: number(-100, 100),
+  autoHueShift: boolean,
+  autoHueSpeed: number(-100, 100),
+  autoPower: boolean,
+  autoPowerSpeed: number(-100, 100),
+  globalAnimSpeed: number(0, 100),
+  performanceMode: boolean,
+};
+
+const checkGradient = (value: unknown): string | null => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return "Must be a gradient";
+  const { name, stops, space, repeat } = value as Record<string, unknown>;
+
+  if (name !== undefined && (typeof name !== "string" || name.length > MAX_NAME_LENGTH)) {
+    return `Name must be text of at most ${MAX_NAME_LENGTH} characters`;
+  }
+
+  if (!Array.isArray(stops) || stops.length < MIN_GRADIENT_STOPS || stops.length > MAX_GRADIENT_STOPS) {
+    return `Must have ${MIN_GRADIENT_STOPS} to ${MAX_GRADIENT_STOPS} color stops`;
+  }
+  for (const stop of stops) {
+    const { position, color } = (stop ?? {}) as Record<string, unknown>;
+    if (typeof position !== "number" || !(position >= 0 && position <= 1)) {
+      return "Stop positions must be between 0 and 1";
+    }
+    if (!isHexColor(color)) return "Stop colors must be #rrggbb";
+  }
+  if (typeof space !== "string" || !Object.hasOwn(GRADIENT_SPACES, space)) {
+    return `Space must be one of ${Object.keys(GRADIENT_SPACES).join(", ")}`;
+  }
+  if (typeof repeat !== "string" || !Object.hasOwn(GRADIENT_REPEATS, repeat)) {
+    return `Repeat must be one of ${Object.keys(GRADIENT_REPEATS).join(", ")}`;
+  }
+  return null;
+};
+
+const FORMULA_PARAM_NAME = /^[A-Za-z_]\w*$/;
+const MAX_FORMULA_PARAM_VALUE = 1e6;
+
+const checkFormulaParams = (value: unknown): string | null => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return "Must be an object of numbers";
+  const entries = Object.entries(value);
+  if (entries.length > MAX_FORMULA_PARAMS) return `Must have at most ${MAX_FORMULA_PARAMS} parameters`;
+  for (const [name, number] of entries) {
+    if (!FORMULA_PARAM_NAME.test(name)) return "Parameter names must be letters, digits and _";
+    if (typeof number !== "number" || !(Math.abs(number) <= MAX_FORMULA_PARAM_VALUE)) {
+      return `Parameter values must be between -${MAX_FORMULA_PARAM_VALUE} and ${MAX_FORMULA_PARAM_VALUE}`;
+    }
+  }
+  return null;
+};
+
+const MAX_ROOT_COORDINATE = 1e3;
+
+const checkRoots = (value: unknown): string | null => {
+  if (!Array.isArray(value) || value.length < MIN_NEWTON_ROOTS || value.length > MAX_NEWTON_ROOTS) {
+    return `Must have ${MIN_NEWTON_ROOTS} to ${MAX_NEWTON_ROOTS} roots`;
+  }
+  const isCoordinate = (x: unknown) => typeof x === "number" && Math.abs(x) <= MAX_ROOT_COORDINATE;
+  if (!value.every((root) => Array.isArray(root) && root.length === 2 && root.every(isCoordinate))) {
+    return `Roots must be [real, imaginary] pairs between -${MAX_ROOT_COORDINATE} and ${MAX_ROOT_COORDINATE}`;
+  }
+  return null;
+};
+
+// Returns an error message, or null when the value satisfies the rule
+const checkField = (rule: FieldRule, value: unknown): string | null => {
+  switch (rule.kind) {
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) return "Must be a finite number";
+      if (rule.integer && !Number.isInteger(value)) return "Must be a whole number";
+      if (rule.min !== undefined && value < rule.min) return `Must be at least ${rule.min}`;
+      if (rule.max !== undefined && value > rule.max) return `Must be at most ${rule.max}`;
+      return null;
+    case "boolean":
+      return typeof value === "boolean" ? null : "Must be true or false";
+    case "enum":
+      if (typeof value === "string" && Object.hasOwn(rule.values, value)) return null;
+      return `Must be one of ${Object.keys(rule.values).join(", ")}`;
+    case "decimal": {
+      if (typeof value !== "string" || !isValidDecimal(value)) return "Must be a decimal number";
+      if (value.length > MAX_DECIMAL_LENGTH) return `Must be at most ${MAX_DECIMAL_LENGTH} characters`;
+      const numeric = toNumber(value);
+      if (!Number.isFinite(numeric)) return "Must be a finite number";
+      if (rule.positive && numeric <= 0) return "Must be greater than 0";
+      return null;
+    }
+    case "gradient":
+      return checkGradient(value);
+    case "formula": {
+      if (typeof value !== "string") return "Must be a formula";
+      const compiled = compileFormula(value);
+      return compiled.ok ? null : compiled.error.message;
+    }
+    case "formulaParams":
+      return checkFormulaParams(value);
+    case "roots":
+      return checkRoots(value);
+    case "sequence":
+      return isLyapunovSequence(value) ? null : `Must be 1 to ${MAX_LYAPUNOV_SEQUENCE} letters A or B`;
+  }
+};
+
+// Validate a params document (any supported version) and return the
+// migrated FractalParams
+export const validateFractalParams = (value: unknown): ValidationResult<FractalParams> => {
+  const document = asParamsDocument(value);
+  if (!document) {
+    return { ok: false, errors: { params: "Missing or unsupported params document" } };
+  }
+
+  const params = migrateParamsDocument(document);
+  const errors: FieldErrors = {};
+  for (const [key, rule] of Object.entries(PARAM_RULES)) {
+    const message = checkField(rule, params[key as keyof FractalParams]);
+    if (message) errors[`params.${key}`] = message;
+  }
+
+  return Object.keys(errors).length > 0 ? { ok: false, errors } : { ok: true, value: params };
+};
+
+// Name and description only, for checking the save form before the params
+// are attached
+export const validateFractalDetails = (name: unknown, description: unknown): FieldErrors => {
+  const errors: FieldErrors = {};
+
+  if (typeof name !== "string" || !name.trim()) {
+    errors.name = "Name is required";
+  } else if (name.trim().length > MAX_NAME_LENGTH) {
+    errors.name = `Name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+
+  if (description !== undefined && description !== null) {
+    if (typeof description !== "string") {
+      errors.description = "Description must be text";
+    } else if (description.trim().length > MAX_DESCRIPTION_LENGTH) {
+      errors.description = `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+    }
+  }
+
+  return errors;
+};
+
+export const validateFractalPayload = (body: unknown): ValidationResult<FractalPayload> => {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, errors: { body: "Request body must be a JSON object" } };
+  }
+  const data = body as Record<string, unknown>;
+
+  const errors = validateFractalDetails(data.name, data.description);
+
+  if (data.isPublic !== undefined && typeof data.isPublic !== "boolean") {
+    errors.isPublic = "Must be true or false";
+  }
+
+  if (data.thumbnail !== undefined && data.thumbnail !== null) {
+    // Length first, so oversized payloads never reach the pattern
+    if (typeof data.thumbnail === "string" && data.thumbnail.length > MAX_THUMBNAIL_LENGTH) {
+      errors.thumbnail = `Must be at most ${Math.round(MAX_THUMBNAIL_LENGTH / 1024)} KB`;
+    } else if (typeof data.thumbnail !== "string" || !THUMBNAIL_PATTERN.test(data.thumbnail)) {
+      errors.thumbnail = "Must be a base64 PNG, JPEG or WebP data URL";
+    }
+  }
+
+  const params = validateFractalParams(data.params);
+  if (!params.ok) Object.assign(errors, params.errors);
+
+  if (!params.ok || Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  const description = typeof data.description === "string" ? data.description.trim() : "";
+  return {
+    ok: true,
+    value: {
+      name: (data.name as string).trim(),
+      description: description || null,
+      isPublic: data.isPublic === true,
+      thumbnail: (data.thumbnail as string | undefined) ?? null,
+      params: params.value,
+    },
+  };
+};
@@ -0,0 +1,258 @@
+import { FractalParams } from "@/types/fractal";
+import { ExportSink } from "./exportSink";
+import { Timeline, getFrameCount, interpolateTimeline } from "./timeline";
+import { WebmCodec, createWebmWriter } from "./webm";
+
+export const FRAME_RATES = [24, 30, 60] as const;
+export type FrameRate = (typeof FRAME_RATES)[number];
+
+// Target bitrate as bits per pixel per frame. Fractal detail compresses
+// poorly, so these sit above the usual figures for camera footage.
+export const VIDEO_QUALITIES = {
+  standard: 0.1,
+  high: 0.2,
+  maximum: 0.4,
+};
+export type VideoQuality = keyof typeof VIDEO_QUALITIES;
+
+// Implemented by FractalCanvas on top of an offscreen framebuffer
+export interface FrameRenderer {
+  // RGBA pixels of the view at `time` seconds, top row first, or null if
+  // rendering failed
+  renderFrame: (params: FractalParams, time: number) => Uint8Array | null;
+  dispose: () => void;
+}
+
+export interface VideoExportOptions {
+  width: number;
+  height: number;
+  fps: FrameRate;
+  quality: VideoQuality;
+  signal?: AbortSignal;
+  onProgress?: (completedFrames: number, totalFrames: number) => void;
+}
+
+// WebCodecs codec strings in order of preference, with their WebM codec IDs.
+// VP9 level 5.1 covers up to 4K at 60 fps.
+const CODECS: { codec: string; webm: WebmCodec }[] = [
+  { codec: "vp09.00.51.08", webm: "V_VP9" },
+  { codec: "vp8", webm: "V_VP8" },
+];
+
+// Seconds between key frames, so players can seek
+const KEY_FRAME_INTERVAL = 2;
+// Frames the encoder may hold before we wait for it to catch up
+const MAX_QUEUED_FRAMES = 8;
+
+// Let the browser paint progress and handle the cancel button between frames
+const yieldToBrowser = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Without WebCodecs, video falls back to MediaRecorder, which timestamps
+// frames by the wall clock
+export const canEncodeVideo = (): boolean => {
+  return typeof VideoEncoder !== "undefined";
+};
+
+const findEncoderConfig = async (width: number, height: number, fps: number, bitrate: number) => {
+  for (const { codec, webm } of CODECS) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate, framerate: fps, latencyMode: "quality" };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return { config, webm };
+  }
+  return null;
+};
+
+// Render every frame of the timeline at a fixed timestep, encode it with
+// WebCodecs and stream the result into `sink` as WebM. Frame timestamps come
+// from the frame index, so the video plays at full rate however long each
+// frame took to render.
+const encodeWithWebCodecs = async (
+  renderer: FrameRenderer,
+  timeline: Timeline,
+  sink: ExportSink,
+  { width, height, fps, quality, signal, onProgress }: VideoExportOptions
+): Promise<void> => {
+  const bitrate = Math.round(width * height * fps * VIDEO_QUALITIES[quality]);
+  const encoding = await findEncoderConfig(width, height, fps, bitrate);
+  if (!encoding) {
+    throw new Error(`This browser can't encode ${width}×${height} WebM video`);
+  }
+
+  const totalFrames = getFrameCount(timeline, fps);
+  const frameDuration = 1e6 / fps;
+  const webm = await createWebmWriter(sink, {
+    width,
+    height,
+    codec: encoding.webm,
+    frameRate: fps,
+    duration: totalFrames / fps,
+  });
+
+  // Chunks arrive on the encoder's schedule; write them in order
+  let writes = Promise.resolve();
+  const failure: { error?: Error } = {};
+  // Set while waiting for the encoder to take frames, to end the wait
+  let stopWaiting: ((error: unknown) => void) | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      writes = writes.then(() => webm.addFrame(data, chunk.timestamp, chunk.type === "key"));
+    },
+    error: (error) => {
+      failure.error = error;
+      stopWaiting?.(error);
+    },
+  });
+  encoder.configure(encoding.config);
+
+  // Resolves once the encoder takes a queued frame, and rejects if it fails
+  // or the export is cancelled first, either of which stops dequeue events
+  const waitForDequeue = () =>
+    new Promise<void>((resolve, reject) => {
+      const settle = (error?: unknown) => {
+        encoder.removeEventListener("dequeue", onDequeue);
+        signal?.removeEventListener("abort", onAbort);
+        stopWaiting = null;
+        if (error === undefined) resolve();
+        else reject(error);
+      };
+      const onDequeue = () => settle();
+      const onAbort = () => settle(signal?.reason);
+      stopWaiting = settle;
+      encoder.addEventListener("dequeue", onDequeue);
+      signal?.addEventListener("abort", onAbort);
+    });
+
+  try {
+    for (let frameIndex = 0; frameIndex < totalFrames; frameIndex++) {
+      signal?.throwIfAborted();
+      if (failure.error) throw failure.error;
+
+      const time = frameIndex / fps;
+      const params = interpolateTimeline(timeline, time);
+      const pixels = params && renderer.renderFrame(params, time);
+      if (!pixels) {
+        throw new Error("Failed to render frame");
+      }
+
+      const frame = new VideoFrame(pixels as Uint8Array<ArrayBuffer>, {
+        format: "RGBA",
+        codedWidth: width,
+        codedHeight: height,
+        timestamp: Math.round(frameIndex * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      encoder.encode(frame, { keyFrame: frameIndex % (fps * KEY_FRAME_INTERVAL) === 0 });
+      frame.close();
+
+      while (encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+        signal?.throwIfAborted();
+        if (failure.error) throw failure.error;
+        await waitForDequeue();
+      }
+
+      onProgress?.(frameIndex + 1, totalFrames);
+      await yieldToBrowser();
+    }
+
+    await encoder.flush();
+    await writes;
+    if (failure.error) throw failure.error;
+
+    await webm.close();
+    await sink.close();
+  } catch (error) {
+    await writes.catch(() => {});
+    await sink.abort().catch(() => {});
+    throw error;
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+};
+
+// Fallback for browsers without WebCodecs: draw each frame onto a canvas
+// and let MediaRecorder capture it, waiting one frame period in between.
+// Frames are still rendered at fixed timeline steps, but their timing in
+// the file follows the wall clock, so slow frames stretch the video.
+const recordWithMediaRecorder = async (
+  renderer: FrameRenderer,
+  timeline: Timeline,
+  sink: ExportSink,
+  { width, height, fps, quality, signal, onProgress }: VideoExportOptions
+): Promise<void> => {
+  if (typeof MediaRecorder === "undefined" || !MediaRecorder.isTypeSupported("video/webm")) {
+    throw new Error("This browser can't record WebM video");
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d")!;
+
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, {
+    mimeType: "video/webm",
+    videoBitsPerSecond: Math.round(width * height * fps * VIDEO_QUALITIES[quality]),
+  });
+
+  let writes = Promise.resolve();
+  recorder.ondataavailable = (event) => {
+    writes = writes.then(async () => sink.write(new Uint8Array(await event.data.arrayBuffer())));
+  };
+  const stopped = new Promise((resolve) => recorder.addEventListener("stop", resolve, { once: true }));
+
+  const totalFrames = getFrameCount(timeline, fps);
+  recorder.start();
+
+  try {
+    for (let frameIndex = 0; frameIndex < totalFrames; frameIndex++) {
+      signal?.throwIfAborted();
+
+      const time = frameIndex / fps;
+      const params = interpolateTimeline(timeline, time);
+      const pixels = params && renderer.renderFrame(params, time);
+      if (!pixels) {
+        throw new Error("Failed to render frame");
+      }
+
+      context.putImageData(new ImageData(new Uint8ClampedArray(pixels.buffer as ArrayBuffer), width, height), 0, 0);
+      track.requestFrame();
+
+      onProgress?.(frameIndex + 1, totalFrames);
+      await new Promise((resolve) => setTimeout(resolve, 1000 / fps));
+    }
+
+    recorder.stop();
+    await stopped;
+    await writes;
+    await sink.close();
+  } catch (error) {
+    if (recorder.state !== "inactive") recorder.stop();
+    await stopped;
+    await writes.catch(() => {});
+    await sink.abort().catch(() => {});
+    throw error;
+  } finally {
+    track.stop();
+  }
+};
+
+// Render the timeline to a WebM video in `sink`
+export const exportVideo = async (
+  renderer: FrameRenderer,
+  timeline: Timeline,
+  sink: ExportSink,
+  options: VideoExportOptions
+): Promise<void> => {
+  if (timeline.keyframes.length === 0) {
+    throw new Error("Add a keyframe before exporting");
+  }
+
+  if (canEncodeVideo()) {
+    await encodeWithWebCodecs(renderer, timeline, sink, options);
+  } else {
+    await recordWithMediaRecorder(renderer, timeline, sink, options);
+  }
+};
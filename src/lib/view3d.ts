@@ -0,0 +1,110 @@
+import { FractalParams, Shape3D } from "@/types/fractal";
+import type { FractalTypeParam } from "@/fractals";
+
+// The 3D mode's shapes and its orbit camera. The camera circles the origin
+// cameraDistance away, cameraYaw degrees around the vertical (y) axis and
+// cameraPitch degrees above the horizon, always looking at the origin. The
+// canvas turns drags and wheel steps into these params; both renderers cast
+// their rays from getCameraBasis().
+
+export type Vec3 = [number, number, number];
+
+export interface Shape3DDefinition {
+  label: string;
+  description: string;
+  // Applied when switching to the shape, or to 3D mode with it selected
+  defaults: Partial<FractalParams>;
+  params: FractalTypeParam[];
+}
+
+export const SHAPES_3D: Record<Shape3D, Shape3DDefinition> = {
+  mandelbulb: {
+    label: "Mandelbulb",
+    description: "z^n + c with z^n taken in spherical coordinates",
+    defaults: { power: 8 },
+    params: [{ key: "power", label: "Power (n)", min: 2, max: 16, step: 0.1, digits: 1 }],
+  },
+  quaternionJulia: {
+    label: "Quaternion Julia",
+    description: "z² + c over the quaternions, sliced where the k part is 0",
+    defaults: { juliaReal: -0.2, juliaImag: 0.8, juliaJ: 0, juliaK: 0 },
+    params: [
+      { key: "juliaReal", label: "Real Part (c)", min: -1.5, max: 1.5, step: 0.001, digits: 3 },
+      { key: "juliaImag", label: "i Part (c)", min: -1.5, max: 1.5, step: 0.001, digits: 3 },
+      { key: "juliaJ", label: "j Part (c)", min: -1.5, max: 1.5, step: 0.001, digits: 3 },
+      { key: "juliaK", label: "k Part (c)", min: -1.5, max: 1.5, step: 0.001, digits: 3 },
+    ],
+  },
+};
+
+// Short of straight up or down, where the view would flip over
+export const MAX_CAMERA_PITCH = 89;
+export const MIN_CAMERA_DISTANCE = 0.5;
+export const MAX_CAMERA_DISTANCE = 20;
+
+// Degrees the camera turns per CSS pixel dragged, and per second of
+// auto-rotate at speed 1
+const ORBIT_DEGREES_PER_PIXEL = 0.4;
+export const AUTO_ORBIT_DEGREES = 20;
+
+// Distance from the eye to the image plane, in units of the shorter side
+// of the image (about a 53° field of view across it)
+export const CAMERA_FOCAL_LENGTH = 1;
+
+// The camera's sliders; drags and the wheel set the same params
+export const CAMERA_PARAMS: FractalTypeParam[] = [
+  { key: "cameraYaw", label: "Camera Yaw (°)", min: -180, max: 180, step: 1, digits: 0 },
+  { key: "cameraPitch", label: "Camera Pitch (°)", min: -MAX_CAMERA_PITCH, max: MAX_CAMERA_PITCH, step: 1, digits: 0 },
+  {
+    key: "cameraDistance",
+    label: "Camera Distance",
+    min: MIN_CAMERA_DISTANCE,
+    max: MAX_CAMERA_DISTANCE,
+    step: 0.01,
+    digits: 2,
+    hint: "Drag the canvas to orbit, scroll to move closer",
+  },
+];
+
+export interface CameraBasis {
+  position: Vec3;
+  // Unit vectors along the image's x and y, and into the scene
+  right: Vec3;
+  up: Vec3;
+  forward: Vec3;
+}
+
+const clamp = (x: number, min: number, max: number) => Math.min(Math.max(x, min), max);
+
+export const getCameraBasis = ({ cameraYaw, cameraPitch, cameraDistance }: FractalParams): CameraBasis => {
+  const yaw = (cameraYaw * Math.PI) / 180;
+  const pitch = (clamp(cameraPitch, -MAX_CAMERA_PITCH, MAX_CAMERA_PITCH) * Math.PI) / 180;
+  const forward: Vec3 = [-Math.cos(pitch) * Math.sin(yaw), -Math.sin(pitch), -Math.cos(pitch) * Math.cos(yaw)];
+  // forward × (0, 1, 0), which is horizontal and already unit length
+  const right: Vec3 = [Math.cos(yaw), 0, -Math.sin(yaw)];
+  // right × forward
+  const up: Vec3 = [
+    right[1] * forward[2] - right[2] * forward[1],
+    right[2] * forward[0] - right[0] * forward[2],
+    right[0] * forward[1] - right[1] * forward[0],
+  ];
+  const position = forward.map((f) => -f * cameraDistance) as Vec3;
+  return { position, right, up, forward };
+};
+
+// The same yaw within ±180°
+export const wrapYaw = (degrees: number): number => degrees - 360 * Math.round(degrees / 360);
+
+// Turn the camera for a drag of (dx, dy) CSS pixels: sideways swings it
+// around the shape, down tips it over the top
+export const orbitCamera = (params: FractalParams, dx: number, dy: number): Partial<FractalParams> => {
+  return {
+    cameraYaw: wrapYaw(params.cameraYaw - dx * ORBIT_DEGREES_PER_PIXEL),
+    cameraPitch: clamp(params.cameraPitch + dy * ORBIT_DEGREES_PER_PIXEL, -MAX_CAMERA_PITCH, MAX_CAMERA_PITCH),
+  };
+};
+
+// Move the camera towards the origin (factor < 1) or away from it
+export const dollyCamera = (params: FractalParams, factor: number): Partial<FractalParams> => {
+  return { cameraDistance: clamp(params.cameraDistance * factor, MIN_CAMERA_DISTANCE, MAX_CAMERA_DISTANCE) };
+};
@@ -0,0 +1,192 @@
+// Minimal streaming WebM writer for a single video track, enough to wrap
+// the VP8/VP9 chunks WebCodecs produces. The segment is written with an
+// unknown size so the file can go straight to disk without seeking back;
+// players handle that fine, and the duration is known up front. Clusters
+// start at each key frame, so seeking lands on decodable frames.
+
+import { ByteSink } from "./png";
+
+export type WebmCodec = "V_VP8" | "V_VP9";
+
+export interface WebmOptions {
+  width: number;
+  height: number;
+  codec: WebmCodec;
+  frameRate: number;
+  duration: number; // seconds
+}
+
+export interface WebmWriter {
+  // Append an encoded frame; timestamps are in microseconds and increasing
+  addFrame: (data: Uint8Array, timestamp: number, isKeyFrame: boolean) => Promise<void>;
+  // Write the last cluster
+  close: () => Promise<void>;
+}
+
+// Element IDs from the Matroska specification, marker bits included
+const EBML = 0x1a45dfa3;
+const EBML_VERSION = 0x4286;
+const EBML_READ_VERSION = 0x42f7;
+const EBML_MAX_ID_LENGTH = 0x42f2;
+const EBML_MAX_SIZE_LENGTH = 0x42f3;
+const DOC_TYPE = 0x4282;
+const DOC_TYPE_VERSION = 0x4287;
+const DOC_TYPE_READ_VERSION = 0x4285;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TIMESTAMP_SCALE = 0x2ad7b1;
+const DURATION = 0x4489;
+const MUXING_APP = 0x4d80;
+const WRITING_APP = 0x5741;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_UID = 0x73c5;
+const TRACK_TYPE = 0x83;
+const FLAG_LACING = 0x9c;
+const DEFAULT_DURATION = 0x23e383;
+const CODEC_ID = 0x86;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const CLUSTER = 0x1f43b675;
+const TIMESTAMP = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+
+// Timestamps are written in milliseconds
+const TIMESTAMP_SCALE_NS = 1_000_000;
+const VIDEO_TRACK = 1;
+const TRACK_TYPE_VIDEO = 1;
+const KEY_FRAME_FLAG = 0x80;
+// Block timestamps are signed 16-bit offsets from their cluster's
+const MAX_CLUSTER_SPAN = 32767;
+// An all-ones size means "unknown": the element runs to the end of the file
+const UNKNOWN_SIZE = new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+const encoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+// Big-endian unsigned integer in as few bytes as possible
+const encodeUint = (value: number): Uint8Array => {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return new Uint8Array(bytes);
+};
+
+// Variable-length size: the count of leading zero bits gives the length
+const encodeSize = (size: number): Uint8Array => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+
+  const bytes = new Uint8Array(length);
+  let rest = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = rest % 256;
+    rest = Math.floor(rest / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+};
+
+const element = (id: number, ...children: Uint8Array[]): Uint8Array => {
+  const data = concat(children);
+  return concat([encodeUint(id), encodeSize(data.length), data]);
+};
+
+const uintElement = (id: number, value: number) => element(id, encodeUint(value));
+
+const stringElement = (id: number, value: string) => element(id, encoder.encode(value));
+
+const floatElement = (id: number, value: number) => {
+  const data = new Uint8Array(8);
+  new DataView(data.buffer).setFloat64(0, value);
+  return element(id, data);
+};
+
+const createHeader = () => {
+  return element(
+    EBML,
+    uintElement(EBML_VERSION, 1),
+    uintElement(EBML_READ_VERSION, 1),
+    uintElement(EBML_MAX_ID_LENGTH, 4),
+    uintElement(EBML_MAX_SIZE_LENGTH, 8),
+    stringElement(DOC_TYPE, "webm"),
+    uintElement(DOC_TYPE_VERSION, 2),
+    uintElement(DOC_TYPE_READ_VERSION, 2)
+  );
+};
+
+const createInfo = ({ duration }: WebmOptions) => {
+  return element(
+    INFO,
+    uintElement(TIMESTAMP_SCALE, TIMESTAMP_SCALE_NS),
+    floatElement(DURATION, duration * 1000),
+    stringElement(MUXING_APP, "Fractalater"),
+    stringElement(WRITING_APP, "Fractalater")
+  );
+};
+
+const createTracks = ({ width, height, codec, frameRate }: WebmOptions) => {
+  return element(
+    TRACKS,
+    element(
+      TRACK_ENTRY,
+      uintElement(TRACK_NUMBER, VIDEO_TRACK),
+      uintElement(TRACK_UID, VIDEO_TRACK),
+      uintElement(TRACK_TYPE, TRACK_TYPE_VIDEO),
+      uintElement(FLAG_LACING, 0),
+      uintElement(DEFAULT_DURATION, Math.round(1e9 / frameRate)),
+      stringElement(CODEC_ID, codec),
+      element(VIDEO, uintElement(PIXEL_WIDTH, width), uintElement(PIXEL_HEIGHT, height))
+    )
+  );
+};
+
+// Track number, timestamp relative to the cluster, flags, frame data
+const createSimpleBlock = (data: Uint8Array, offset: number, isKeyFrame: boolean) => {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | VIDEO_TRACK;
+  new DataView(header.buffer).setInt16(1, offset);
+  header[3] = isKeyFrame ? KEY_FRAME_FLAG : 0;
+  return element(SIMPLE_BLOCK, header, data);
+};
+
+export const createWebmWriter = async (sink: ByteSink, options: WebmOptions): Promise<WebmWriter> => {
+  await sink.write(createHeader());
+  await sink.write(concat([encodeUint(SEGMENT), UNKNOWN_SIZE]));
+  await sink.write(createInfo(options));
+  await sink.write(createTracks(options));
+
+  let cluster: { timestamp: number; blocks: Uint8Array[] } | null = null;
+
+  const flushCluster = async () => {
+    if (!cluster) return;
+    await sink.write(element(CLUSTER, uintElement(TIMESTAMP, cluster.timestamp), ...cluster.blocks));
+    cluster = null;
+  };
+
+  return {
+    async addFrame(data, timestamp, isKeyFrame) {
+      const milliseconds = Math.round(timestamp / 1000);
+      if (!cluster || isKeyFrame || milliseconds - cluster.timestamp > MAX_CLUSTER_SPAN) {
+        await flushCluster();
+        cluster = { timestamp: milliseconds, blocks: [] };
+      }
+      cluster.blocks.push(createSimpleBlock(data, milliseconds - cluster.timestamp, isKeyFrame));
+    },
+
+    close: flushCluster,
+  };
+};
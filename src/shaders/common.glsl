@@ -0,0 +1,586 @@
+// Shared declarations and coloring pipeline for every fractal fragment program.
+// Composed after the #version line by buildFragmentShader() in src/shaders/index.ts.
+
+precision highp float;
+
+out vec4 fragColor;
+
+// ============================================================================
+// UNIFORMS
+// ============================================================================
+
+uniform vec2 u_resolution;
+uniform vec2 u_pixelOffset;
+uniform vec2 u_center;
+uniform float u_zoom;
+uniform int u_maxIterations;
+uniform float u_escapeRadius;
+uniform int u_fractalType;
+uniform vec2 u_julia;
+// Start z at the pixel and fix c to u_julia, for types with a Julia toggle
+uniform bool u_juliaMode;
+uniform float u_power;
+// How fast |z| grows once it escapes (|z'| ~ |z|^degree), for smooth coloring
+uniform float u_escapeDegree;
+// Number of roots whose basins share the palette, for converging types
+uniform int u_basinCount;
+
+// Coloring uniforms
+uniform int u_colorScheme;
+uniform int u_coloringMethod;
+uniform float u_colorOffset;
+uniform float u_colorScale;
+uniform float u_time;
+uniform float u_colorCycleSpeed;
+uniform float u_glowIntensity;
+uniform float u_posterize;
+uniform float u_hueShift;
+uniform float u_saturation;
+uniform float u_brightness;
+uniform float u_stripeFrequency;
+uniform float u_orbitTrapSize;
+
+// Custom gradient: a GRADIENT_SIZE x 1 texture (texture unit 1) and how it
+// continues past its ends (0 repeat, 1 mirror)
+uniform sampler2D u_gradient;
+uniform int u_gradientRepeat;
+
+// Interior coloring mode (INTERIOR_*) and its own gradient, laid out like
+// u_gradient on texture unit 3
+uniform int u_interiorColoring;
+uniform sampler2D u_interiorGradient;
+uniform int u_interiorGradientRepeat;
+
+// Histogram coloring. The first pass (u_valuePass) writes smooth iteration
+// counts instead of colors; the second looks each count up in their CDF, a
+// (HISTOGRAM_BINS + 1) x 1 float texture (texture unit 2) covering the
+// counts in u_histogramRange. See src/lib/histogram.ts.
+uniform bool u_valuePass;
+uniform sampler2D u_histogram;
+uniform vec2 u_histogramRange;
+
+// Distance estimation: boundary line width in image pixels (0 off) and the
+// embossed lighting of the surface the estimate describes
+uniform float u_boundaryWidth;
+uniform bool u_lighting;
+uniform float u_lightAngle;
+uniform float u_lightHeight;
+uniform float u_specular;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+#define PI 3.14159265359
+#define EPSILON 1e-10
+
+// Fractal type constants, generated from src/fractals
+#include <fractal/defines>
+
+// Color scheme that reads the custom gradient texture
+#define COLOR_SCHEME_CUSTOM 9
+#define GRADIENT_SIZE 256.0
+#define GRADIENT_MIRROR 1
+
+#define COLORING_HISTOGRAM 6
+#define HISTOGRAM_BINS 2048
+
+#define COLORING_DISTANCE 7
+// Distance coloring runs through the palette once per this many doublings
+// of the distance
+#define DISTANCE_OCTAVES 10.0
+#define LIGHT_AMBIENT 0.25
+#define SPECULAR_POWER 32.0
+
+#define INTERIOR_BLACK 0
+#define INTERIOR_PERIOD 1
+#define INTERIOR_MAGNITUDE 2
+#define INTERIOR_DISTANCE 3
+// Orbits back within this distance of a checkpoint have closed a cycle
+#define PERIOD_TOLERANCE 1e-4
+// Cycle lengths 1 to INTERIOR_PERIODS span the interior gradient once
+#define INTERIOR_PERIODS 16.0
+
+// ============================================================================
+// PIXEL POSITION
+// ============================================================================
+
+// Position of this fragment within the full image. u_resolution is the full
+// image size; when rendering one tile of a larger export the viewport only
+// covers part of it and u_pixelOffset is the tile's lower-left corner.
+vec2 getPixelPosition() {
+  return gl_FragCoord.xy + u_pixelOffset;
+}
+
+// ============================================================================
+// COMPLEX NUMBER OPERATIONS
+// ============================================================================
+
+vec2 complexMul(vec2 a, vec2 b) {
+  return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
+}
+
+vec2 complexDiv(vec2 a, vec2 b) {
+  float denom = b.x * b.x + b.y * b.y;
+  if (denom < EPSILON) return vec2(0.0);
+  return vec2(a.x * b.x + a.y * b.y, a.y * b.x - a.x * b.y) / denom;
+}
+
+vec2 complexPow(vec2 z, float n) {
+  float r = length(z);
+  if (r < EPSILON) return vec2(0.0);
+  float theta = atan(z.y, z.x);
+  return pow(r, n) * vec2(cos(n * theta), sin(n * theta));
+}
+
+// ============================================================================
+// COLOR CONVERSION
+// ============================================================================
+
+vec3 hsv2rgb(vec3 c) {
+  vec4 K = vec4(1.0, 2.0 / 3.0, 1.0 / 3.0, 3.0);
+  vec3 p = abs(fract(c.xxx + K.xyz) * 6.0 - K.www);
+  return c.z * mix(K.xxx, clamp(p - K.xxx, 0.0, 1.0), c.y);
+}
+
+vec3 rgb2hsv(vec3 c) {
+  vec4 K = vec4(0.0, -1.0 / 3.0, 2.0 / 3.0, -1.0);
+  vec4 p = mix(vec4(c.bg, K.wz), vec4(c.gb, K.xy), step(c.b, c.g));
+  vec4 q = mix(vec4(p.xyw, c.r), vec4(c.r, p.yzx), step(p.x, c.r));
+  float d = q.x - min(q.w, q.y);
+  float e = 1.0e-10;
+  return vec3(abs(q.z + (q.w - q.y) / (6.0 * d + e)), d / (q.x + e), q.x);
+}
+
+// ============================================================================
+// COLOR PALETTES
+// ============================================================================
+
+vec3 palette(float t, vec3 a, vec3 b, vec3 c, vec3 d) {
+  return a + b * cos(6.28318 * (c * t + d));
+}
+
+// Palette parameters for each color scheme: [a, b, c, d]
+// Schemes 4 (Rainbow), 5 (Monochrome), 7 (Neon) have special handling
+const vec3 PALETTE_A[9] = vec3[9](
+  vec3(0.5),              // 0: Classic
+  vec3(0.5),              // 1: Smooth
+  vec3(0.5, 0.2, 0.0),    // 2: Fire
+  vec3(0.0, 0.2, 0.4),    // 3: Ocean
+  vec3(0.0),              // 4: Rainbow (unused)
+  vec3(0.0),              // 5: Monochrome (unused)
+  vec3(0.5),              // 6: Psychedelic
+  vec3(0.5),              // 7: Neon
+  vec3(0.8)               // 8: Pastel
+);
+
+const vec3 PALETTE_B[9] = vec3[9](
+  vec3(0.5),              // 0: Classic
+  vec3(0.5),              // 1: Smooth
+  vec3(0.5, 0.4, 0.2),    // 2: Fire
+  vec3(0.0, 0.4, 0.5),    // 3: Ocean
+  vec3(0.0),              // 4: Rainbow (unused)
+  vec3(0.0),              // 5: Monochrome (unused)
+  vec3(0.5),              // 6: Psychedelic
+  vec3(0.5),              // 7: Neon
+  vec3(0.2)               // 8: Pastel
+);
+
+const vec3 PALETTE_C[9] = vec3[9](
+  vec3(1.0),              // 0: Classic
+  vec3(1.0),              // 1: Smooth
+  vec3(1.0, 0.8, 0.4),    // 2: Fire
+  vec3(0.0, 0.6, 0.8),    // 3: Ocean
+  vec3(0.0),              // 4: Rainbow (unused)
+  vec3(0.0),              // 5: Monochrome (unused)
+  vec3(2.0, 1.0, 0.0),    // 6: Psychedelic
+  vec3(1.0),              // 7: Neon
+  vec3(1.0)               // 8: Pastel
+);
+
+const vec3 PALETTE_D[9] = vec3[9](
+  vec3(0.0, 0.1, 0.2),    // 0: Classic
+  vec3(0.0, 0.33, 0.67),  // 1: Smooth
+  vec3(0.0, 0.1, 0.2),    // 2: Fire
+  vec3(0.0, 0.1, 0.3),    // 3: Ocean
+  vec3(0.0),              // 4: Rainbow (unused)
+  vec3(0.0),              // 5: Monochrome (unused)
+  vec3(0.5, 0.2, 0.25),   // 6: Psychedelic
+  vec3(0.0, 0.1, 0.2),    // 7: Neon
+  vec3(0.0, 0.33, 0.67)   // 8: Pastel
+);
+
+// Sample the custom gradient. Texel centers sit at i / (GRADIENT_SIZE - 1)
+// so t = 0 and t = 1 land exactly on the end stops.
+vec3 sampleGradient(sampler2D gradient, int repeatMode, float t) {
+  if (repeatMode == GRADIENT_MIRROR) {
+    t = 1.0 - abs(fract(t * 0.5) * 2.0 - 1.0);
+  } else {
+    t = fract(t);
+  }
+  float u = (t * (GRADIENT_SIZE - 1.0) + 0.5) / GRADIENT_SIZE;
+  return texture(gradient, vec2(u, 0.5)).rgb;
+}
+
+vec3 getColorScheme(float t, int scheme) {
+  if (scheme == COLOR_SCHEME_CUSTOM) return sampleGradient(u_gradient, u_gradientRepeat, t);
+
+  t = fract(t);
+
+  // Special cases that don't use standard palette
+  if (scheme == 4) return hsv2rgb(vec3(t, 0.85, 0.95));  // Rainbow
+  if (scheme == 5) return vec3(t);                        // Monochrome
+
+  // Clamp scheme to valid range for array access
+  int idx = clamp(scheme, 0, 8);
+
+  vec3 col = palette(t, PALETTE_A[idx], PALETTE_B[idx], PALETTE_C[idx], PALETTE_D[idx]);
+
+  // Neon gets extra brightness boost
+  if (scheme == 7) col = pow(col, vec3(0.5)) * 1.5;
+
+  return col;
+}
+
+// ============================================================================
+// DISTANCE ESTIMATION
+// ============================================================================
+
+// The programs track der, the derivative of z with respect to uv (the
+// pixel position relative to the image's smaller side), alongside z.
+
+// Next der for z' = z^n + c, where dc is the derivative of c. Types that
+// fold z first pass the folded z and der.
+vec2 stepDerivative(vec2 z, vec2 der, vec2 dc) {
+  vec2 zPow = u_power == 2.0 ? z : complexPow(z, u_power - 1.0);
+  return u_power * complexMul(zPow, der) + dc;
+}
+
+// Distance from an escaped point to the set, in image pixels
+float distanceEstimate(vec2 z, vec2 der) {
+  float r = length(z);
+  return 0.5 * r * log(r) / max(length(der), EPSILON) * min(u_resolution.x, u_resolution.y);
+}
+
+// ============================================================================
+// COLORING METHODS
+// ============================================================================
+
+float calcEscapeTimeColor(float iter, float maxIter) {
+  return iter / maxIter;
+}
+
+// Fractional iteration count, continuous across escape bands
+float smoothIterationCount(float iter, float maxIter, vec2 z) {
+  if (iter < maxIter) {
+    float log_zn = log(dot(z, z)) / 2.0;
+    float nu = log(max(log_zn / log(2.0), EPSILON)) / log(max(u_escapeDegree, 1.1));
+    iter = iter + 1.0 - nu;
+  }
+  return iter;
+}
+
+float calcSmoothColor(float iter, float maxIter, vec2 z) {
+  return smoothIterationCount(iter, maxIter, z) / maxIter;
+}
+
+// Share of the view's escaped pixels with a lower count, interpolated
+// within the count's bin
+float calcHistogramColor(float iter, float maxIter, vec2 z) {
+  float span = max(u_histogramRange.y - u_histogramRange.x, EPSILON);
+  float count = smoothIterationCount(iter, maxIter, z);
+  float x = clamp((count - u_histogramRange.x) / span, 0.0, 1.0) * float(HISTOGRAM_BINS);
+  int bin = min(int(x), HISTOGRAM_BINS - 1);
+  float below = texelFetch(u_histogram, ivec2(bin, 0), 0).r;
+  float above = texelFetch(u_histogram, ivec2(bin + 1, 0), 0).r;
+  return mix(below, above, x - float(bin));
+}
+
+float calcOrbitTrapColor(float minDist) {
+  return clamp(1.0 - minDist / u_orbitTrapSize, 0.0, 1.0);
+}
+
+float calcAngleColor(float totalAngle, float iter) {
+  return totalAngle / (max(iter, 1.0) * PI * 2.0) + 0.5;
+}
+
+float calcStripeColor(float stripe, float iter) {
+  return (stripe / max(iter, 1.0)) * 0.5 + 0.5;
+}
+
+float calcDomainColor(vec2 z) {
+  return atan(z.y, z.x) / (2.0 * PI) + 0.5;
+}
+
+float calcDistanceColor(vec2 z, vec2 der) {
+  return log2(max(distanceEstimate(z, der), 1.0)) / DISTANCE_OCTAVES;
+}
+
+float calcNewtonColor(int rootIndex, float iter, float maxIter) {
+  if (rootIndex >= 0) {
+    // Each root's basin gets an equal slice of the palette, shaded by speed
+    return (float(rootIndex) + iter / maxIter * 0.9) / float(u_basinCount);
+  }
+  return 0.0;
+}
+
+// Lyapunov exponent of an orbit that summed log |f'| in z.y
+float lyapunovExponent(vec2 z, float iter) {
+  return z.y / max(iter, 1.0);
+}
+
+// Stable (negative) exponents from 0 at the edge of chaos towards 1
+float calcExponentColor(float exponent) {
+  return 1.0 - exp(exponent);
+}
+
+float calculateColorValue(
+  float iter, float maxIter, vec2 z, vec2 der,
+  float minDist, float totalAngle, float stripe,
+  int rootIndex
+) {
+  // Types that converge are colored by the root they settle on
+  if (TYPE_CONVERGES(u_fractalType)) {
+    return calcNewtonColor(rootIndex, iter, maxIter);
+  }
+  // Types colored by their Lyapunov exponent, which writeFragment() left in z.x
+  if (TYPE_EXPONENT(u_fractalType)) {
+    return calcExponentColor(z.x);
+  }
+
+  // Standard coloring methods
+  switch (u_coloringMethod) {
+    case 0: // Escape Time
+      return calcEscapeTimeColor(iter, maxIter);
+    case 1: // Smooth
+      return calcSmoothColor(iter, maxIter, z);
+    case 2: // Orbit Trap
+      return calcOrbitTrapColor(minDist);
+    case 3: // Angle
+      return calcAngleColor(totalAngle, iter);
+    case 4: // Stripe
+      return calcStripeColor(stripe, iter);
+    case COLORING_HISTOGRAM:
+      return calcHistogramColor(iter, maxIter, z);
+    case COLORING_DISTANCE:
+      return calcDistanceColor(z, der);
+    default: // Domain
+      return calcDomainColor(z);
+  }
+}
+
+// ============================================================================
+// POST-PROCESSING EFFECTS
+// ============================================================================
+
+vec3 applyHueShift(vec3 color) {
+  if (u_hueShift > 0.001) {
+    vec3 hsv = rgb2hsv(color);
+    hsv.x = fract(hsv.x + u_hueShift);
+    return hsv2rgb(hsv);
+  }
+  return color;
+}
+
+vec3 applySaturation(vec3 color) {
+  float gray = dot(color, vec3(0.299, 0.587, 0.114));
+  return mix(vec3(gray), color, u_saturation);
+}
+
+vec3 applyGlow(vec3 color, float iter, float maxIter, float colorVal) {
+  if (u_glowIntensity > 0.0 && !TYPE_CONVERGES(u_fractalType) && !TYPE_EXPONENT(u_fractalType)) {
+    float glow = 1.0 - iter / maxIter;
+    glow = pow(glow, 3.0) * u_glowIntensity;
+    color += glow * getColorScheme(colorVal + 0.5, u_colorScheme);
+  }
+  return color;
+}
+
+vec3 applyPosterize(vec3 color) {
+  if (u_posterize > 1.5) {
+    return floor(color * u_posterize) / u_posterize;
+  }
+  return color;
+}
+
+// Blinn-Phong shading of the surface whose normal leans along z / der,
+// lit from u_lightAngle degrees at a slope of u_lightHeight
+vec3 applyLighting(vec3 color, vec2 z, vec2 der) {
+  vec2 slope = complexMul(z, vec2(der.x, -der.y));
+  if (dot(slope, slope) < EPSILON) return color;
+
+  vec3 normal = normalize(vec3(normalize(slope), 1.0));
+  float angle = radians(u_lightAngle);
+  vec3 light = normalize(vec3(cos(angle), sin(angle), u_lightHeight));
+  vec3 halfway = normalize(light + vec3(0.0, 0.0, 1.0));
+
+  float diffuse = max(dot(normal, light), 0.0);
+  float specular = pow(max(dot(normal, halfway), 0.0), SPECULAR_POWER) * u_specular;
+  return color * (LIGHT_AMBIENT + (1.0 - LIGHT_AMBIENT) * diffuse) + specular;
+}
+
+// Darken toward the set over u_boundaryWidth pixels
+vec3 applyBoundary(vec3 color, vec2 z, vec2 der) {
+  if (u_boundaryWidth > 0.0) {
+    return color * smoothstep(0.0, u_boundaryWidth, distanceEstimate(z, der));
+  }
+  return color;
+}
+
+vec3 postProcess(vec3 color, float iter, float maxIter, float colorVal) {
+  color = applyHueShift(color);
+  color = applySaturation(color);
+  color *= u_brightness;
+  color = applyGlow(color, iter, maxIter, colorVal);
+  color = applyPosterize(color);
+  return clamp(color, 0.0, 1.0);
+}
+
+// ============================================================================
+// INTERIOR
+// ============================================================================
+
+// Cycle detection for points that never escape. z is compared with a
+// checkpoint that jumps ahead to the current iteration at every power of
+// two, so once the orbit has settled, a cycle of length p is caught p
+// iterations after a checkpoint. For the interior distance the derivatives
+// of z over the iterations since the checkpoint are carried along.
+struct Interior {
+  vec2 checkpoint;
+  float checkIter;
+  // Cycle length once detected, else 0
+  float period;
+  // dz/dz0, dz/dc, d2z/dz0^2 and d2z/dz0dc since the checkpoint
+  vec2 dz;
+  vec2 dc;
+  vec2 dzz;
+  vec2 dzc;
+  // Distance to the edge of the set in fractal units, once detected
+  float distance;
+};
+
+Interior initInterior() {
+  return Interior(vec2(0.0), 0.5, 0.0, vec2(1.0, 0.0), vec2(0.0), vec2(0.0), vec2(0.0), 0.0);
+}
+
+// Call with z after `iteration` steps, before stepping it
+void updateInterior(inout Interior state, vec2 z, float iteration) {
+  bool tracked = u_interiorColoring == INTERIOR_PERIOD || u_interiorColoring == INTERIOR_DISTANCE;
+  if (!tracked || state.period > 0.0) return;
+
+  vec2 fromCheckpoint = z - state.checkpoint;
+  if (iteration > state.checkIter && dot(fromCheckpoint, fromCheckpoint) < PERIOD_TOLERANCE * PERIOD_TOLERANCE) {
+    state.period = iteration - state.checkIter;
+    // Distance to the edge of the hyperbolic component, from the cycle's
+    // multiplier dz and the derivatives around it
+    vec2 slope = state.dzc + complexMul(state.dzz, complexDiv(state.dc, vec2(1.0, 0.0) - state.dz));
+    state.distance = (1.0 - dot(state.dz, state.dz)) / max(length(slope), EPSILON);
+    return;
+  }
+
+  if (iteration >= state.checkIter * 2.0) {
+    state.checkpoint = z;
+    state.checkIter = iteration;
+    state.dz = vec2(1.0, 0.0);
+    state.dc = vec2(0.0);
+    state.dzz = vec2(0.0);
+    state.dzc = vec2(0.0);
+  }
+
+  // The derivatives of z^n + c with respect to z and c
+  if (u_interiorColoring == INTERIOR_DISTANCE && u_fractalType == FRACTAL_MANDELBROT) {
+    vec2 d1 = u_power * (u_power == 2.0 ? z : complexPow(z, u_power - 1.0));
+    vec2 d2 = u_power * (u_power - 1.0) * (u_power == 2.0 ? vec2(1.0, 0.0) : complexPow(z, u_power - 2.0));
+    state.dzc = complexMul(d2, complexMul(state.dz, state.dc)) + complexMul(d1, state.dzc);
+    state.dzz = complexMul(d2, complexMul(state.dz, state.dz)) + complexMul(d1, state.dzz);
+    state.dz = complexMul(d1, state.dz);
+    state.dc = complexMul(d1, state.dc) + vec2(1.0, 0.0);
+  }
+}
+
+// Color of a point that never escaped, ending at z
+vec3 getInteriorColor(Interior state, vec2 z) {
+  int mode = u_interiorColoring;
+  // The interior distance needs c to be the pixel
+  if (mode == INTERIOR_DISTANCE && u_fractalType != FRACTAL_MANDELBROT) mode = INTERIOR_PERIOD;
+
+  float t;
+  if (mode == INTERIOR_MAGNITUDE) {
+    t = length(z) * 0.5;
+  } else if (mode == INTERIOR_PERIOD && state.period > 0.0) {
+    t = (state.period - 1.0) / INTERIOR_PERIODS;
+  } else if (mode == INTERIOR_DISTANCE && state.period > 0.0) {
+    float pixels = state.distance * u_zoom * min(u_resolution.x, u_resolution.y);
+    t = log2(clamp(pixels, 1.0, 1e30)) / DISTANCE_OCTAVES;
+  } else {
+    // Black, or no cycle found within the iterations
+    return vec3(0.0);
+  }
+
+  t += u_colorOffset + u_time * u_colorCycleSpeed;
+  return sampleGradient(u_interiorGradient, u_interiorGradientRepeat, t);
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+// Final color of a finished orbit, or in the histogram value pass its
+// smooth count (red) and whether it escaped (green)
+void writeFragment(
+  float iter, float maxIter, vec2 z, vec2 der,
+  float minDist, float totalAngle, float stripe,
+  int rootIndex, Interior interior
+) {
+  // Types colored by their Lyapunov exponent take the palette where it is
+  // stable and the interior coloring, by its size, where it is chaotic
+  bool exponent = TYPE_EXPONENT(u_fractalType);
+  if (exponent) z = vec2(lyapunovExponent(z, iter), 0.0);
+
+  bool escaped = exponent ? z.x < 0.0 : iter < maxIter || TYPE_CONVERGES(u_fractalType);
+  // Root basins and exponents have no distance estimate
+  bool estimated = escaped && !TYPE_CONVERGES(u_fractalType) && !exponent;
+
+  if (u_valuePass) {
+    fragColor = vec4(smoothIterationCount(iter, maxIter, z), escaped ? 1.0 : 0.0, 0.0, 1.0);
+    return;
+  }
+
+  // Calculate color value based on selected method
+  float colorVal = calculateColorValue(iter, maxIter, z, der, minDist, totalAngle, stripe, rootIndex);
+  colorVal = colorVal * u_colorScale + u_colorOffset + u_time * u_colorCycleSpeed;
+
+  // Determine final color
+  vec3 color;
+  if (escaped) {
+    color = getColorScheme(colorVal, u_colorScheme);
+  } else {
+    color = getInteriorColor(interior, z);
+  }
+  if (estimated && u_lighting) {
+    color = applyLighting(color, z, der);
+  }
+
+  // Apply post-processing effects
+  color = postProcess(color, iter, maxIter, colorVal);
+  if (estimated) {
+    color = applyBoundary(color, z, der);
+  }
+
+  fragColor = vec4(color, 1.0);
+}
+
+// ============================================================================
+// ORBIT STATISTICS
+// ============================================================================
+
+void updateOrbitStats(vec2 z, inout float minDist, inout float stripe, inout float totalAngle) {
+  float dist = length(z);
+  minDist = min(minDist, dist);
+
+  if (dist > EPSILON) {
+    float angle = atan(z.y, z.x);
+    stripe += sin(angle * u_stripeFrequency);
+    totalAngle += angle;
+  }
+}
@@ -0,0 +1,28 @@
+// Buddhabrot program: colors the density buffer the canvas's workers fill in
+// (see src/lib/buddhabrot.ts), stretched over the image. Prefixed with
+// common.glsl by buildFragmentShader(), for the palettes and
+// post-processing the other programs use.
+
+// Orbit points per buffer pixel in each channel, top row first
+uniform sampler2D u_density;
+// Count in each channel shown at full brightness
+uniform vec3 u_densityWhitePoint;
+uniform bool u_nebulabrot;
+uniform float u_buddhabrotGamma;
+
+void main() {
+  ivec2 size = textureSize(u_density, 0);
+  vec2 position = getPixelPosition() / u_resolution;
+  ivec2 texel = clamp(ivec2(position.x * float(size.x), (1.0 - position.y) * float(size.y)), ivec2(0), size - 1);
+  vec3 counts = texelFetch(u_density, texel, 0).rgb;
+  vec3 level = pow(clamp(counts / max(u_densityWhitePoint, vec3(1.0)), 0.0, 1.0), vec3(1.0 / u_buddhabrotGamma));
+
+  // A Nebulabrot's channels are its colors; otherwise the density picks
+  // from the palette and darkens it
+  float colorVal = level.r * u_colorScale + u_colorOffset + u_time * u_colorCycleSpeed;
+  vec3 color = u_nebulabrot ? level : getColorScheme(colorVal, u_colorScheme) * level.r;
+
+  // No glow: there are no iteration counts to fade it by
+  float maxIter = float(u_maxIterations);
+  fragColor = vec4(postProcess(color, maxIter, maxIter, colorVal), 1.0);
+}
@@ -0,0 +1,140 @@
+// Emulated double-precision program for zooms past single-precision limits.
+// Coordinates are carried as (hi, lo) float pairs ("double-single"), giving
+// roughly 48 bits of mantissa on any WebGL2 GPU. Only the types with a
+// double-single step, at power 2, run here; the caller falls back to the
+// standard program otherwise. Prefixed with common.glsl by buildFragmentShader().
+
+// ============================================================================
+// UNIFORMS
+// ============================================================================
+
+// Low-order parts; the high-order parts are u_center and u_zoom
+uniform vec2 u_centerLo;
+uniform float u_zoomLo;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Dekker split factor for a 24-bit mantissa: 2^12 + 1
+#define DS_SPLIT 4097.0
+
+// ============================================================================
+// DOUBLE-SINGLE ARITHMETIC
+// ============================================================================
+
+vec2 quickTwoSum(float a, float b) {
+  float s = a + b;
+  float e = b - (s - a);
+  return vec2(s, e);
+}
+
+vec2 dsAdd(vec2 a, vec2 b) {
+  float s = a.x + b.x;
+  float v = s - a.x;
+  float e = (a.x - (s - v)) + (b.x - v);
+  e += a.y + b.y;
+  return quickTwoSum(s, e);
+}
+
+vec2 dsSub(vec2 a, vec2 b) {
+  return dsAdd(a, -b);
+}
+
+vec2 dsSplit(float a) {
+  float t = a * DS_SPLIT;
+  float hi = t - (t - a);
+  return vec2(hi, a - hi);
+}
+
+vec2 twoProd(float a, float b) {
+  float p = a * b;
+  vec2 as = dsSplit(a);
+  vec2 bs = dsSplit(b);
+  float err = ((as.x * bs.x - p) + as.x * bs.y + as.y * bs.x) + as.y * bs.y;
+  return vec2(p, err);
+}
+
+vec2 dsMul(vec2 a, vec2 b) {
+  vec2 p = twoProd(a.x, b.x);
+  p.y += a.x * b.y + a.y * b.x;
+  return quickTwoSum(p.x, p.y);
+}
+
+vec2 dsDiv(vec2 a, vec2 b) {
+  float q1 = a.x / b.x;
+  vec2 r = dsSub(a, dsMul(vec2(q1, 0.0), b));
+  float q2 = r.x / b.x;
+  return quickTwoSum(q1, q2);
+}
+
+vec2 dsAbs(vec2 a) {
+  return a.x < 0.0 ? -a : a;
+}
+
+// (x + iy)^2 + (cx + icy) in place
+void dsSquareAdd(inout vec2 x, inout vec2 y, vec2 cx, vec2 cy) {
+  vec2 x2 = dsMul(x, x);
+  vec2 y2 = dsMul(y, y);
+  vec2 xy = dsMul(x, y);
+  x = dsAdd(dsSub(x2, y2), cx);
+  y = dsAdd(dsAdd(xy, xy), cy);
+}
+
+// ============================================================================
+// FRACTAL ITERATION FUNCTIONS
+// ============================================================================
+
+#include <fractal/functions>
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+void main() {
+  // Convert screen coordinates to fractal space in double-single
+  vec2 uv = (getPixelPosition() - u_resolution * 0.5) / min(u_resolution.x, u_resolution.y);
+  vec2 zoom = vec2(u_zoom, u_zoomLo);
+  vec2 cx = dsAdd(dsDiv(vec2(uv.x, 0.0), zoom), vec2(u_center.x, u_centerLo.x));
+  vec2 cy = dsAdd(dsDiv(vec2(uv.y, 0.0), zoom), vec2(u_center.y, u_centerLo.y));
+
+  // Initialize z based on fractal type. The derivative der only feeds
+  // distance estimation, so single precision does.
+  vec2 x = vec2(0.0);
+  vec2 y = vec2(0.0);
+  vec2 px = vec2(0.0);
+  vec2 py = vec2(0.0);
+  vec2 der = vec2(0.0);
+  vec2 prevDer = vec2(0.0);
+  vec2 dc = vec2(1.0 / u_zoom, 0.0);
+
+  #include <fractal/start_ds>
+
+  // Iteration state
+  float iter = 0.0;
+  float maxIter = float(u_maxIterations);
+  float minDist = 1e20;
+  float totalAngle = 0.0;
+  float stripe = 0.0;
+  float escapeRadiusSq = u_escapeRadius * u_escapeRadius;
+  Interior interior = initInterior();
+  vec2 z = vec2(x.x, y.x);
+
+  for (int i = 0; i < 10000; i++) {
+    if (i >= u_maxIterations) break;
+
+    // Update orbit statistics for coloring
+    updateOrbitStats(z, minDist, stripe, totalAngle);
+    updateInterior(interior, z, float(i));
+
+    // Apply fractal-specific iteration
+    #include <fractal/iterate_ds>
+    z = vec2(x.x, y.x);
+
+    // Check escape condition
+    if (dot(z, z) > escapeRadiusSq) break;
+    iter += 1.0;
+  }
+
+  writeFragment(iter, maxIter, z, der, minDist, totalAngle, stripe, -1, interior);
+}
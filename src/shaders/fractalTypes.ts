@@ -0,0 +1,134 @@
+import { FRACTAL_TYPES, FRACTAL_TYPE_IDS, FractalStart, FractalType } from "@/fractals";
+import { CompiledFormula, DEFAULT_FORMULA, getCompiledFormula } from "@/lib/formula";
+
+// Code generated from the fractal type registry, spliced into the fragment
+// programs where they say #include <fractal/NAME>:
+//
+//   defines      FRACTAL_<TYPE> values of u_fractalType, TYPE_CONVERGES()
+//                and TYPE_EXPONENT()
+//   functions    every type's helper functions
+//   start        where the orbit starts, in the standard program
+//   iterate      one step of its main loop, then the escape (or
+//                convergence) check
+//   start_ds     the same two for the double-single program, for the types
+//   iterate_ds   that support it; the loop checks for escape itself
+//   formula      iterateFormula() for the custom type, included by its
+//                functions
+
+type Program = "standard" | "doubleFloat";
+
+// Set up z (and c and their derivatives) for each kind of start. The
+// programs initialize for "zero" themselves.
+const START_CODE: Record<Program, Record<Exclude<FractalStart, "zero">, string>> = {
+  standard: {
+    pixel: "z = c;\nder = dc;",
+    julia: "z = c;\nc = u_julia;\nder = dc;\ndc = vec2(0.0);",
+    root: "z = u_newtonRoots[0];",
+    critical: "z = vec2(0.5, 0.0);",
+  },
+  doubleFloat: {
+    pixel: "x = cx;\ny = cy;\nder = dc;",
+    julia: "x = cx;\ny = cy;\ncx = vec2(u_julia.x, 0.0);\ncy = vec2(u_julia.y, 0.0);\nder = dc;\ndc = vec2(0.0);",
+    root: "x = vec2(u_newtonRoots[0].x, 0.0);\ny = vec2(u_newtonRoots[0].y, 0.0);",
+    critical: "x = vec2(0.5, 0.0);",
+  },
+};
+
+const typeDefine = (type: FractalType) => `FRACTAL_${type.toUpperCase()}`;
+
+const isAnyOf = (types: FractalType[]) => types.map((type) => `u_fractalType == ${typeDefine(type)}`).join(" || ");
+
+// Strip the indentation snippets share, so they can be written in line
+// with the TypeScript around them
+const dedent = (code: string) => {
+  const lines = code.replace(/^\n+|\s+$/g, "").split("\n");
+  const margin = Math.min(...lines.filter((line) => line.trim()).map((line) => line.match(/^ */)![0].length));
+  return lines.map((line) => line.slice(margin)).join("\n");
+};
+
+const indent = (code: string, prefix: string) =>
+  code.split("\n").map((line) => (line ? prefix + line : line)).join("\n");
+
+// if / else if chain over the given branches
+const chain = (branches: { condition: string; body: string }[]) =>
+  branches.map(({ condition, body }, i) => `${i ? " else " : ""}if (${condition}) {\n${indent(body, "  ")}\n}`).join("");
+
+const isAnyType = (types: FractalType[]) =>
+  types.length ? types.map((type) => `type == ${typeDefine(type)}`).join(" || ") : "false";
+
+const generateDefines = () => {
+  const converging = FRACTAL_TYPE_IDS.filter((type) => FRACTAL_TYPES[type].converges);
+  const exponent = FRACTAL_TYPE_IDS.filter((type) => FRACTAL_TYPES[type].exponent);
+  return [
+    ...FRACTAL_TYPE_IDS.map((type, i) => `#define ${typeDefine(type)} ${i}`),
+    "",
+    "// Types whose orbits settle on a root instead of escaping",
+    `#define TYPE_CONVERGES(type) (${isAnyType(converging)})`,
+    "// Types colored by the Lyapunov exponent summed in z.y",
+    `#define TYPE_EXPONENT(type) (${isAnyType(exponent)})`,
+  ].join("\n");
+};
+
+const generateFunctions = () =>
+  FRACTAL_TYPE_IDS.filter((type) => FRACTAL_TYPES[type].shader.functions)
+    .map((type) => `// ${FRACTAL_TYPES[type].label}\n${dedent(FRACTAL_TYPES[type].shader.functions!)}`)
+    .join("\n\n");
+
+// Julia mode comes first, overriding the types' own start
+const generateStart = (program: Program, types: FractalType[]) => {
+  const starts = ["pixel", "julia", "root", "critical"] as const;
+  const toggled = types.filter((type) => FRACTAL_TYPES[type].juliaToggle);
+  return chain([
+    ...(toggled.length ? [{ condition: `u_juliaMode && (${isAnyOf(toggled)})`, body: START_CODE[program].julia }] : []),
+    ...starts
+      .map((start) => ({ start, types: types.filter((type) => FRACTAL_TYPES[type].start === start) }))
+      .filter(({ types }) => types.length)
+      .map(({ start, types }) => ({ condition: isAnyOf(types), body: START_CODE[program][start] })),
+  ]);
+};
+
+const generateIterate = () =>
+  chain(
+    FRACTAL_TYPE_IDS.map((type) => {
+      const { shader, converges, exponent } = FRACTAL_TYPES[type];
+      const exit = converges
+        ? "if (rootIndex >= 0) break;"
+        : exponent
+          ? "if (abs(z.x) > u_escapeRadius) break;"
+          : "if (dot(z, z) > escapeRadiusSq) break;";
+      return { condition: isAnyOf([type]), body: `${dedent(shader.iterate)}\n${exit}` };
+    })
+  );
+
+const DOUBLE_FLOAT_TYPES = FRACTAL_TYPE_IDS.filter((type) => FRACTAL_TYPES[type].shader.doubleFloat);
+
+const generateIterateDoubleFloat = () =>
+  chain(DOUBLE_FLOAT_TYPES.map((type) => ({
+    condition: isAnyOf([type]),
+    body: dedent(FRACTAL_TYPES[type].shader.doubleFloat!),
+  })));
+
+const INCLUDES: Record<string, (formula: CompiledFormula) => string> = {
+  defines: generateDefines,
+  functions: generateFunctions,
+  start: () => generateStart("standard", FRACTAL_TYPE_IDS),
+  iterate: generateIterate,
+  start_ds: () => generateStart("doubleFloat", DOUBLE_FLOAT_TYPES),
+  iterate_ds: generateIterateDoubleFloat,
+  formula: (formula) => formula.glsl,
+};
+
+// Replace each #include <fractal/NAME> line with its generated code, at the
+// directive's indentation, and any includes that code has in turn. The
+// custom type's formula is compiled in, so programs built for one formula
+// only draw that one.
+export const expandFractalIncludes = (
+  source: string,
+  formula: CompiledFormula = getCompiledFormula(DEFAULT_FORMULA)
+): string => {
+  return source.replace(/^([ \t]*)#include <fractal\/(\w+)>[ \t]*$/gm, (_, prefix: string, name: string) => {
+    const generate = INCLUDES[name];
+    if (!generate) throw new Error(`Unknown shader include <fractal/${name}>`);
+    return indent(expandFractalIncludes(generate(formula), formula), prefix);
+  });
+};
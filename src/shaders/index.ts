@@ -0,0 +1,32 @@
+import commonShaderSource from "./common.glsl";
+import fragmentShaderSource from "./fragment.glsl";
+import perturbationShaderSource from "./perturbation.glsl";
+import doubleFloatShaderSource from "./doublefloat.glsl";
+import raymarchShaderSource from "./raymarch.glsl";
+import densityShaderSource from "./density.glsl";
+import { expandFractalIncludes } from "./fractalTypes";
+import { CompiledFormula } from "@/lib/formula";
+
+export { default as vertexShaderSource } from "./vertex.glsl";
+
+const SHADER_VERSION = "#version 300 es\n";
+
+// Prefix a fragment program body with the version line and the shared
+// uniforms, palettes and coloring functions from common.glsl, and fill in
+// the code generated from the fractal types, with the custom type drawing
+// `formula` (by default, the default formula)
+export const buildFragmentShader = (body: string, formula?: CompiledFormula): string => {
+  return expandFractalIncludes(`${SHADER_VERSION}${commonShaderSource}\n${body}`, formula);
+};
+
+// The standard program for another custom formula, which the canvas builds
+// whenever the formula changes
+export const buildFormulaFragmentShader = (formula: CompiledFormula): string => {
+  return buildFragmentShader(fragmentShaderSource, formula);
+};
+
+export const standardFragmentShader = buildFragmentShader(fragmentShaderSource);
+export const perturbationFragmentShader = buildFragmentShader(perturbationShaderSource);
+export const doubleFloatFragmentShader = buildFragmentShader(doubleFloatShaderSource);
+export const raymarchFragmentShader = buildFragmentShader(raymarchShaderSource);
+export const densityFragmentShader = buildFragmentShader(densityShaderSource);
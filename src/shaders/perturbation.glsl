@@ -0,0 +1,130 @@
+// Perturbation-theory deep zoom program for z^2 + c (Mandelbrot and Julia).
+// A single high-precision reference orbit Z_n is computed on the CPU and
+// uploaded as a texture; each pixel only iterates its offset from it:
+//
+//   delta_{n+1} = 2 * Z_n * delta_n + delta_n^2 + deltaC
+//
+// Offsets at deep zoom are far below the smallest float, so they are carried
+// as a mantissa and a power-of-two exponent until they grow large enough to
+// be represented directly. Prefixed with common.glsl by buildFragmentShader().
+
+// ============================================================================
+// UNIFORMS
+// ============================================================================
+
+uniform sampler2D u_refOrbit;  // RG32F, one reference point per texel
+uniform int u_refLength;       // Number of valid points in the reference orbit
+uniform float u_scaleExp;      // log2(1 / zoom): exponent of a pixel offset
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Offsets above 2^RESCALE_LIMIT are renormalized while in scaled mode
+#define RESCALE_LIMIT 16.0
+// Once the offset exponent climbs above this it fits in a plain float
+#define UNSCALED_EXP -64.0
+
+// ============================================================================
+// REFERENCE ORBIT
+// ============================================================================
+
+vec2 referencePoint(int n) {
+  int width = textureSize(u_refOrbit, 0).x;
+  return texelFetch(u_refOrbit, ivec2(n % width, n / width), 0).xy;
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+void main() {
+  vec2 uv = (getPixelPosition() - u_resolution * 0.5) / min(u_resolution.x, u_resolution.y);
+  bool isJulia = u_fractalType == FRACTAL_JULIA;
+
+  // The offset is d * 2^e while scaled, or dz while unscaled.
+  // Mandelbrot perturbs c (deltaC = uv * 2^scaleExp, z starts at the reference);
+  // Julia perturbs the starting z and leaves c alone.
+  bool scaled = true;
+  vec2 d = isJulia ? uv : vec2(0.0);
+  float e = u_scaleExp;
+  vec2 dz = vec2(0.0);
+  vec2 dc = isJulia ? vec2(0.0) : uv * exp2(u_scaleExp);
+
+  int n = 0;
+  vec2 z = referencePoint(0) + d * exp2(e);
+
+  // Derivative of z with respect to uv, der * 2^derExp, rescaled like d:
+  // c's derivative 2^scaleExp is far below float range at depth
+  vec2 der = isJulia ? vec2(1.0, 0.0) : vec2(0.0);
+  float derExp = u_scaleExp;
+
+  // Iteration state
+  float iter = 0.0;
+  float maxIter = float(u_maxIterations);
+  float minDist = 1e20;
+  float totalAngle = 0.0;
+  float stripe = 0.0;
+  float escapeRadiusSq = u_escapeRadius * u_escapeRadius;
+  Interior interior = initInterior();
+
+  for (int i = 0; i < 10000; i++) {
+    if (i >= u_maxIterations) break;
+
+    // Update orbit statistics for coloring
+    updateOrbitStats(z, minDist, stripe, totalAngle);
+    updateInterior(interior, z, float(i));
+
+    der = stepDerivative(z, der, isJulia ? vec2(0.0) : vec2(exp2(u_scaleExp - derExp), 0.0));
+    float derMag = max(abs(der.x), abs(der.y));
+    if (derMag > exp2(RESCALE_LIMIT)) {
+      float k = floor(log2(derMag));
+      der *= exp2(-k);
+      derExp += k;
+    }
+
+    vec2 Z = referencePoint(n);
+    if (scaled) {
+      vec2 cTerm = isJulia ? vec2(0.0) : uv * exp2(u_scaleExp - e);
+      d = 2.0 * complexMul(Z, d) + complexMul(d, d) * exp2(e) + cTerm;
+
+      // Keep the mantissa small so d^2 can't overflow
+      float mag = max(abs(d.x), abs(d.y));
+      if (mag > exp2(RESCALE_LIMIT)) {
+        float k = floor(log2(mag));
+        d *= exp2(-k);
+        e += k;
+      }
+
+      if (e > UNSCALED_EXP) {
+        dz = d * exp2(e);
+        scaled = false;
+      }
+    } else {
+      dz = 2.0 * complexMul(Z, dz) + complexMul(dz, dz) + dc;
+    }
+
+    n++;
+    vec2 nextZ = referencePoint(n);
+    z = scaled ? nextZ + d * exp2(e) : nextZ + dz;
+
+    // Check escape condition
+    if (dot(z, z) > escapeRadiusSq) break;
+    iter += 1.0;
+
+    // Rebase onto the start of the reference when the offset dominates or
+    // the reference runs out, which avoids the glitches a single reference
+    // orbit otherwise produces
+    bool exhausted = n >= u_refLength - 1;
+    if (scaled && exhausted) {
+      dz = d * exp2(e);
+      scaled = false;
+    }
+    if (!scaled && (exhausted || dot(z, z) < dot(dz, dz))) {
+      dz = z - referencePoint(0);
+      n = 0;
+    }
+  }
+
+  writeFragment(iter, maxIter, z, der * exp2(derExp), minDist, totalAngle, stripe, -1, interior);
+}
@@ -0,0 +1,194 @@
+// 3D program: raymarches the Mandelbulb or a quaternion Julia set through
+// their distance estimators, seen from the orbit camera in src/lib/view3d.ts.
+// Prefixed with common.glsl by buildFragmentShader(), for the palettes,
+// lighting constants and post-processing the 2D programs use.
+
+// ============================================================================
+// UNIFORMS AND CONSTANTS
+// ============================================================================
+
+#define SHAPE_MANDELBULB 0
+#define SHAPE_QUATERNION_JULIA 1
+
+uniform int u_shape3d;
+// j and k parts of the quaternion Julia constant, after u_julia's real and i
+uniform vec2 u_juliaJK;
+uniform vec3 u_cameraPosition;
+uniform vec3 u_cameraRight;
+uniform vec3 u_cameraUp;
+uniform vec3 u_cameraForward;
+uniform bool u_softShadows;
+uniform bool u_ambientOcclusion;
+
+#define CAMERA_FOCAL_LENGTH 1.0
+// Both shapes lie within this distance of the origin
+#define BOUNDING_RADIUS 2.0
+#define MAX_MARCH_STEPS 256
+// The estimators' detail stops improving long before the 2D types' does
+#define MAX_SHAPE_ITERATIONS 32
+// A ray hits once the estimate is within this many pixels
+#define HIT_PIXELS 0.5
+// Fraction of each estimate a step takes, as the estimates run a little high
+#define STEP_FACTOR 0.8
+#define SHADOW_STEPS 48
+// Higher makes sharper shadows
+#define SHADOW_SOFTNESS 8.0
+#define AO_SAMPLES 5
+#define AO_SPACING 0.03
+#define AO_STRENGTH 5.0
+
+// ============================================================================
+// DISTANCE ESTIMATORS
+// ============================================================================
+
+// Each returns the distance from p to the shape and, for coloring, the
+// orbit's closest approach to the origin (as |z|²)
+
+vec2 mandelbulbDistance(vec3 p) {
+  vec3 z = p;
+  float dr = 1.0;
+  float r = length(z);
+  float trap = dot(z, z);
+  for (int i = 0; i < MAX_SHAPE_ITERATIONS; i++) {
+    if (i >= u_maxIterations || r > u_escapeRadius) break;
+    // z^n in spherical coordinates, and the running derivative |z'|
+    float theta = acos(clamp(z.z / r, -1.0, 1.0)) * u_power;
+    float phi = atan(z.y, z.x) * u_power;
+    dr = u_power * pow(r, u_power - 1.0) * dr + 1.0;
+    z = pow(r, u_power) * vec3(sin(theta) * cos(phi), sin(theta) * sin(phi), cos(theta)) + p;
+    r = length(z);
+    trap = min(trap, dot(z, z));
+  }
+  return vec2(0.5 * log(r) * r / dr, trap);
+}
+
+vec2 quaternionJuliaDistance(vec3 p) {
+  vec4 z = vec4(p, 0.0);
+  vec4 c = vec4(u_julia, u_juliaJK);
+  float dr = 1.0;
+  float r2 = dot(z, z);
+  float trap = r2;
+  for (int i = 0; i < MAX_SHAPE_ITERATIONS; i++) {
+    if (i >= u_maxIterations || r2 > u_escapeRadius * u_escapeRadius) break;
+    // |(z²)'| = 2|z||z'|
+    dr = 2.0 * sqrt(r2) * dr;
+    z = vec4(z.x * z.x - dot(z.yzw, z.yzw), 2.0 * z.x * z.yzw) + c;
+    r2 = dot(z, z);
+    trap = min(trap, r2);
+  }
+  float r = sqrt(r2);
+  return vec2(0.5 * log(r) * r / dr, trap);
+}
+
+vec2 shapeDistance(vec3 p) {
+  if (u_shape3d == SHAPE_QUATERNION_JULIA) return quaternionJuliaDistance(p);
+  // Stand the bulb's axis of symmetry (its z) upright
+  return mandelbulbDistance(p.xzy);
+}
+
+// ============================================================================
+// SHADING
+// ============================================================================
+
+// Distances along the ray to where it enters and leaves the bounding
+// sphere, from 0 if it starts inside; negative if it misses
+vec2 intersectBounds(vec3 origin, vec3 dir) {
+  float b = dot(origin, dir);
+  float c = dot(origin, origin) - BOUNDING_RADIUS * BOUNDING_RADIUS;
+  float h = b * b - c;
+  if (h < 0.0) return vec2(-1.0);
+  h = sqrt(h);
+  return vec2(max(-b - h, 0.0), -b + h);
+}
+
+// Gradient of the estimate, sampled at the corners of a tetrahedron eps
+// across
+vec3 shapeNormal(vec3 p, float eps) {
+  vec2 k = vec2(1.0, -1.0);
+  return normalize(
+    k.xyy * shapeDistance(p + k.xyy * eps).x +
+    k.yyx * shapeDistance(p + k.yyx * eps).x +
+    k.yxy * shapeDistance(p + k.yxy * eps).x +
+    k.xxx * shapeDistance(p + k.xxx * eps).x
+  );
+}
+
+// How much light reaches p from direction `light`: 0 in full shadow, and
+// partly lit where the shadow ray passes close to the shape
+float softShadow(vec3 p, vec3 light, float eps) {
+  float shade = 1.0;
+  float t = eps * 10.0;
+  for (int i = 0; i < SHADOW_STEPS; i++) {
+    float d = shapeDistance(p + light * t).x;
+    if (d < eps) return 0.0;
+    shade = min(shade, SHADOW_SOFTNESS * d / t);
+    t += d * STEP_FACTOR;
+    if (t > BOUNDING_RADIUS * 2.0) break;
+  }
+  return clamp(shade, 0.0, 1.0);
+}
+
+// Darkening of creases: how far the shape closes in on points stepped out
+// along the normal
+float ambientOcclusion(vec3 p, vec3 normal) {
+  float occlusion = 0.0;
+  float weight = 1.0;
+  for (int i = 1; i <= AO_SAMPLES; i++) {
+    float h = AO_SPACING * float(i);
+    occlusion += weight * (h - shapeDistance(p + normal * h).x);
+    weight *= 0.5;
+  }
+  return clamp(1.0 - AO_STRENGTH * occlusion, 0.0, 1.0);
+}
+
+// Palette color by orbit trap, lit like the 2D programs' lighting from
+// u_lightAngle degrees across the image at a slope of u_lightHeight
+// towards the viewer
+vec3 shadeSurface(vec3 p, vec3 dir, float eps, float trap) {
+  vec3 normal = shapeNormal(p, eps);
+
+  float colorVal = sqrt(trap) * u_colorScale + u_colorOffset + u_time * u_colorCycleSpeed;
+  vec3 color = getColorScheme(colorVal, u_colorScheme);
+
+  float angle = radians(u_lightAngle);
+  vec3 light = normalize(cos(angle) * u_cameraRight + sin(angle) * u_cameraUp - u_lightHeight * u_cameraForward);
+  vec3 halfway = normalize(light - dir);
+
+  float shadow = u_softShadows ? softShadow(p + normal * eps * 2.0, light, eps) : 1.0;
+  float occlusion = u_ambientOcclusion ? ambientOcclusion(p, normal) : 1.0;
+  float diffuse = max(dot(normal, light), 0.0) * shadow;
+  float specular = pow(max(dot(normal, halfway), 0.0), SPECULAR_POWER) * u_specular * shadow;
+  color = color * (LIGHT_AMBIENT * occlusion + (1.0 - LIGHT_AMBIENT) * diffuse) + specular;
+
+  // No glow: every surface point is "inside"
+  float maxIter = float(u_maxIterations);
+  return postProcess(color, maxIter, maxIter, colorVal);
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+void main() {
+  // Pixels map to the image plane as they map to the plane in 2D
+  vec2 uv = (getPixelPosition() - u_resolution * 0.5) / min(u_resolution.x, u_resolution.y);
+  vec3 dir = normalize(CAMERA_FOCAL_LENGTH * u_cameraForward + uv.x * u_cameraRight + uv.y * u_cameraUp);
+  // Width of a pixel per unit of distance along the ray
+  float pixelWidth = 1.0 / (min(u_resolution.x, u_resolution.y) * CAMERA_FOCAL_LENGTH);
+
+  vec2 bounds = intersectBounds(u_cameraPosition, dir);
+  float t = bounds.x;
+  for (int i = 0; i < MAX_MARCH_STEPS; i++) {
+    if (bounds.y < 0.0 || t > bounds.y) break;
+    vec3 p = u_cameraPosition + dir * t;
+    vec2 d = shapeDistance(p);
+    float eps = max(t * pixelWidth * HIT_PIXELS, EPSILON);
+    if (d.x < eps) {
+      fragColor = vec4(shadeSurface(p, dir, eps, d.y), 1.0);
+      return;
+    }
+    t += d.x * STEP_FACTOR;
+  }
+
+  fragColor = vec4(0.0, 0.0, 0.0, 1.0);
+}
@@ -1,27 +1,144 @@
-export type FractalType = "mandelbrot" | "julia" | "burningship" | "tricorn" | "phoenix" | "newton";
+import type { FractalType } from "@/fractals";
+import { DEFAULT_FORMULA } from "@/lib/formula";
+import type { Complex } from "@/lib/complex";
+import { DEFAULT_NEWTON_ROOTS } from "@/lib/polynomial";
+import { DEFAULT_LYAPUNOV_SEQUENCE } from "@/lib/lyapunov";
 
-export type ColorScheme = "classic" | "smooth" | "fire" | "ocean" | "rainbow" | "monochrome" | "psychedelic" | "neon" | "pastel";
+// One of the types registered in src/fractals
+export type { FractalType };
 
-export type ColoringMethod = "escape" | "smooth" | "orbit" | "angle" | "stripe" | "domain";
+export type ColorScheme = "classic" | "smooth" | "fire" | "ocean" | "rainbow" | "monochrome" | "psychedelic" | "neon" | "pastel" | "custom";
+
+// Schemes with a palette of their own rather than the custom gradient
+export type BuiltInColorScheme = Exclude<ColorScheme, "custom">;
+
+export type ColoringMethod = "escape" | "smooth" | "orbit" | "angle" | "stripe" | "domain" | "histogram" | "distance";
+
+// How points that never escape are colored: solid black, by the length of
+// the cycle their orbit settles into, by their final |z|, or by their
+// distance to the edge of the set (Mandelbrot only; other types fall back
+// to the period)
+export type InteriorColoring = "black" | "period" | "magnitude" | "distance";
+
+// Shapes the 3D mode raymarches
+export type Shape3D = "mandelbulb" | "quaternionJulia";
+
+// Color space stops are blended in: plain RGB, HSV (hue takes the short way
+// round) or OKLab (perceptually even)
+export type GradientSpace = "rgb" | "hsv" | "oklab";
+
+// How the gradient continues past its ends: start over, or run backwards
+export type GradientRepeat = "repeat" | "mirror";
+
+export interface GradientStop {
+  position: number; // 0 to 1
+  color: string;    // #rrggbb
+}
+
+// User-defined palette, used when colorScheme is "custom"
+export interface Gradient {
+  name?: string; // e.g. the title of an imported palette
+  stops: GradientStop[];
+  space: GradientSpace;
+  repeat: GradientRepeat;
+}
+
+export const DEFAULT_GRADIENT: Gradient = {
+  stops: [
+    { position: 0, color: "#000764" },
+    { position: 0.16, color: "#206bcb" },
+    { position: 0.42, color: "#edffff" },
+    { position: 0.64, color: "#ffaa00" },
+    { position: 0.86, color: "#000200" },
+    { position: 1, color: "#000764" },
+  ],
+  space: "oklab",
+  repeat: "repeat",
+};
+
+export const DEFAULT_INTERIOR_GRADIENT: Gradient = {
+  stops: [
+    { position: 0, color: "#0b0b2a" },
+    { position: 0.35, color: "#3b1f6e" },
+    { position: 0.7, color: "#c0508c" },
+    { position: 1, color: "#ffd6a0" },
+  ],
+  space: "oklab",
+  repeat: "mirror",
+};
 
 export interface FractalParams {
   type: FractalType;
-  centerX: number;
-  centerY: number;
-  zoom: number;
+
+  // View position as decimal strings so deep zoom locations survive
+  // round-trips; see lib/coordinates for arithmetic and a numeric view
+  centerX: string;
+  centerY: string;
+  zoom: string;
+
   maxIterations: number;
   escapeRadius: number;
 
-  // Julia parameters
+  // Julia parameters, and Julia mode for the types that offer it
   juliaReal: number;
   juliaImag: number;
+  juliaMode: boolean;
 
   // Power parameter (z^power instead of z^2)
   power: number;
 
+  // Phoenix: the complex weight p of the previous z
+  phoenixReal: number;
+  phoenixImag: number;
+
+  // Custom formula (see lib/formula) and its named parameters' values
+  formula: string;
+  formulaParams: Record<string, number>;
+
+  // Newton and Nova: roots of the polynomial (see lib/polynomial), and the
+  // relaxation factor a in z - a·p/p'
+  newtonRoots: Complex[];
+  newtonRelaxation: number;
+
+  // Lyapunov: which of a and b drives each step (see lib/lyapunov)
+  lyapunovSequence: string;
+
+  // 3D mode: raymarch shape3d instead of drawing type in the plane. The
+  // Mandelbulb uses power; the quaternion Julia set's constant is
+  // juliaReal + juliaImag·i + juliaJ·j + juliaK·k.
+  view3d: boolean;
+  shape3d: Shape3D;
+  juliaJ: number;
+  juliaK: number;
+  // Orbit camera (see lib/view3d): degrees around the vertical axis and
+  // above the horizon, and distance from the origin it looks at
+  cameraYaw: number;
+  cameraPitch: number;
+  cameraDistance: number;
+  softShadows: boolean;
+  ambientOcclusion: boolean;
+
+  // Buddhabrot mode: how often the orbits of escaping points pass through
+  // each pixel (see lib/buddhabrot), instead of each point's own orbit.
+  // Orbits escaping within maxIterations are counted and colored through
+  // the palette; as a Nebulabrot, those within each channel's limit count
+  // towards red, green and blue. Orbits escaping in fewer than
+  // buddhabrotMinIterations steps are left out.
+  buddhabrot: boolean;
+  buddhabrotMinIterations: number;
+  nebulabrot: boolean;
+  redIterations: number;
+  greenIterations: number;
+  blueIterations: number;
+  // Counts are scaled to 0..1 and raised to 1 / gamma
+  buddhabrotGamma: number;
+
   // Coloring
   colorScheme: ColorScheme;
+  gradient: Gradient;
   coloringMethod: ColoringMethod;
+  interiorColoring: InteriorColoring;
+  interiorGradient: Gradient;
   colorOffset: number;
   colorScale: number;
 
@@ -37,6 +154,13 @@ export interface FractalParams {
   stripeFrequency: number;
   orbitTrapSize: number;
 
+  // Distance estimation
+  boundaryWidth: number;        // boundary line width in pixels, 0 = off
+  lighting: boolean;            // shade as an embossed surface
+  lightAngle: number;           // direction the light comes from, degrees
+  lightHeight: number;          // light elevation (slope above the image)
+  specular: number;             // highlight strength
+
   // Animation toggles
   animateJulia: boolean;
   juliaAnimSpeed: number;
@@ -58,16 +182,43 @@ export interface FractalParams {
 
 export const DEFAULT_FRACTAL_PARAMS: FractalParams = {
   type: "mandelbrot",
-  centerX: -0.5,
-  centerY: 0,
-  zoom: 1,
+  centerX: "-0.5",
+  centerY: "0",
+  zoom: "1",
   maxIterations: 100,
   escapeRadius: 4,
   juliaReal: -0.7,
   juliaImag: 0.27015,
+  juliaMode: false,
   power: 2,
+  phoenixReal: 0.5667,
+  phoenixImag: 0,
+  formula: DEFAULT_FORMULA,
+  formulaParams: {},
+  newtonRoots: DEFAULT_NEWTON_ROOTS,
+  newtonRelaxation: 1,
+  lyapunovSequence: DEFAULT_LYAPUNOV_SEQUENCE,
+  view3d: false,
+  shape3d: "mandelbulb",
+  juliaJ: 0,
+  juliaK: 0,
+  cameraYaw: 30,
+  cameraPitch: 20,
+  cameraDistance: 2.6,
+  softShadows: true,
+  ambientOcclusion: true,
+  buddhabrot: false,
+  buddhabrotMinIterations: 0,
+  nebulabrot: false,
+  redIterations: 2000,
+  greenIterations: 200,
+  blueIterations: 20,
+  buddhabrotGamma: 1,
   colorScheme: "classic",
+  gradient: DEFAULT_GRADIENT,
   coloringMethod: "smooth",
+  interiorColoring: "black",
+  interiorGradient: DEFAULT_INTERIOR_GRADIENT,
   colorOffset: 0,
   colorScale: 1,
   colorCycleSpeed: 0,
@@ -78,6 +229,11 @@ export const DEFAULT_FRACTAL_PARAMS: FractalParams = {
   brightness: 1,
   stripeFrequency: 10,
   orbitTrapSize: 0.5,
+  boundaryWidth: 0,
+  lighting: false,
+  lightAngle: 45,
+  lightHeight: 1.5,
+  specular: 0.5,
   animateJulia: false,
   juliaAnimSpeed: 1,
   autoZoom: false,
@@ -106,70 +262,70 @@ export interface SavedFractal {
 // Interesting deep zoom coordinates for Mandelbrot set
 export interface DeepZoomTarget {
   name: string;
-  centerX: number;
-  centerY: number;
+  centerX: string;
+  centerY: string;
   description: string;
 }
 
 export const DEEP_ZOOM_TARGETS: DeepZoomTarget[] = [
   {
     name: "Seahorse Valley",
-    centerX: -0.7463,
-    centerY: 0.1102,
+    centerX: "-0.7463",
+    centerY: "0.1102",
     description: "Famous seahorse-shaped spiral formations",
   },
   {
     name: "Elephant Valley",
-    centerX: 0.275,
-    centerY: 0.0,
+    centerX: "0.275",
+    centerY: "0.0",
     description: "Elephant trunk-like bulbs",
   },
   {
     name: "Mini Mandelbrot",
-    centerX: -1.768778833,
-    centerY: -0.001738996,
+    centerX: "-1.768778833",
+    centerY: "-0.001738996",
     description: "A tiny copy of the full set",
   },
   {
     name: "Spiral Galaxy",
-    centerX: -0.745428,
-    centerY: 0.113009,
+    centerX: "-0.745428",
+    centerY: "0.113009",
     description: "Beautiful spiral patterns",
   },
   {
     name: "Lightning",
-    centerX: -0.170337,
-    centerY: -1.0660699,
+    centerX: "-0.170337",
+    centerY: "-1.0660699",
     description: "Electric branch-like structures",
   },
   {
     name: "Tendrils",
-    centerX: -0.235125,
-    centerY: 0.827215,
+    centerX: "-0.235125",
+    centerY: "0.827215",
     description: "Delicate tendril formations",
   },
   {
     name: "Double Spiral",
-    centerX: -0.7436439,
-    centerY: 0.1318259,
+    centerX: "-0.7436439",
+    centerY: "0.1318259",
     description: "Twin spiral structures",
   },
   {
     name: "Starfish",
-    centerX: -0.3750001200618655,
-    centerY: -0.6592316094481254,
+    centerX: "-0.3750001200618655",
+    centerY: "-0.6592316094481254",
     description: "Five-armed starfish pattern",
   },
   {
     name: "Deep Mini",
-    centerX: -1.9854300851907,
-    centerY: -0.00000013493,
+    centerX: "-1.9854300851907",
+    centerY: "-0.00000013493",
     description: "Very deep mini Mandelbrot",
   },
   {
     name: "Dendrite",
-    centerX: -0.1011,
-    centerY: 0.9563,
+    centerX: "-0.1011",
+    centerY: "0.9563",
     description: "Tree-like branching patterns",
   },
 ];
@@ -0,0 +1,181 @@
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/auth", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/prisma", async () => {
+  const { createTestDatabase } = await import("../helpers/db");
+  return { prisma: await createTestDatabase() };
+});
+
+import { prisma } from "@/lib/prisma";
+import { POST } from "@/app/api/fractals/route";
+import { GET, PUT, DELETE } from "@/app/api/fractals/[id]/route";
+import { GET as GET_THUMBNAIL } from "@/app/api/fractals/[id]/thumbnail/route";
+import { getThumbnailUrl } from "@/lib/thumbnail";
+import { resetTestDatabase } from "../helpers/db";
+import { TEST_THUMBNAIL, createUser, fractalPayload, jsonRequest, routeContext, signInAs } from "../helpers/api";
+
+const storageDir = mkdtempSync(path.join(tmpdir(), "fractalater-test-"));
+process.env.IMAGE_STORAGE_DIR = storageDir;
+
+describe("/api/fractals/[id]", () => {
+  let ownerId: string;
+  let otherId: string;
+
+  const createFractal = async (overrides: Record<string, unknown> = {}) => {
+    signInAs(ownerId);
+    const res = await POST(jsonRequest("/api/fractals", "POST", fractalPayload(overrides)));
+    return res.json();
+  };
+
+  beforeEach(async () => {
+    await resetTestDatabase(prisma);
+    ownerId = (await createUser("owner@example.com")).id;
+    otherId = (await createUser("other@example.com")).id;
+  });
+
+  afterAll(() => {
+    rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  describe("GET", () => {
+    it("returns 404 for unknown ids", async () => {
+      signInAs(ownerId);
+      const res = await GET(jsonRequest("/api/fractals/missing", "GET"), routeContext("missing"));
+      expect(res.status).toBe(404);
+    });
+
+    it("hides private fractals from other users", async () => {
+      const fractal = await createFractal();
+
+      signInAs(otherId);
+      const res = await GET(jsonRequest(`/api/fractals/${fractal.id}`, "GET"), routeContext(fractal.id));
+      expect(res.status).toBe(401);
+    });
+
+    it("shows public fractals to anyone", async () => {
+      const fractal = await createFractal({ isPublic: true });
+
+      signInAs(null);
+      const res = await GET(jsonRequest(`/api/fractals/${fractal.id}`, "GET"), routeContext(fractal.id));
+      expect(res.status).toBe(200);
+      expect((await res.json()).id).toBe(fractal.id);
+    });
+  });
+
+  describe("PUT", () => {
+    it("updates the owner's fractal", async () => {
+      const fractal = await createFractal();
+
+      const payload = fractalPayload({ name: "Renamed" }, { type: "tricorn" });
+      const res = await PUT(jsonRequest(`/api/fractals/${fractal.id}`, "PUT", payload), routeContext(fractal.id));
+      const updated = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(updated.name).toBe("Renamed");
+      expect(updated.type).toBe("tricorn");
+    });
+
+    it("refuses other users", async () => {
+      const fractal = await createFractal();
+
+      signInAs(otherId);
+      const res = await PUT(jsonRequest(`/api/fractals/${fractal.id}`, "PUT", fractalPayload()), routeContext(fractal.id));
+      expect(res.status).toBe(401);
+    });
+
+    it("returns field errors for invalid payloads", async () => {
+      const fractal = await createFractal();
+
+      const payload = fractalPayload({}, { escapeRadius: Number.NaN });
+      const res = await PUT(jsonRequest(`/api/fractals/${fractal.id}`, "PUT", payload), routeContext(fractal.id));
+      const body = await res.json();
+
+      expect(res.status).toBe(400);
+      expect(body.fieldErrors).toHaveProperty(["params.escapeRadius"]);
+    });
+
+    it("replaces the stored thumbnail and keeps it when none is sent", async () => {
+      const fractal = await createFractal({ thumbnail: TEST_THUMBNAIL });
+
+      const replaced = await PUT(
+        jsonRequest(`/api/fractals/${fractal.id}`, "PUT", fractalPayload({ thumbnail: TEST_THUMBNAIL })),
+        routeContext(fractal.id)
+      ).then((res) => res.json());
+      expect(replaced.thumbnail).not.toBe(fractal.thumbnail);
+      expect(existsSync(path.join(storageDir, fractal.thumbnail))).toBe(false);
+
+      const kept = await PUT(
+        jsonRequest(`/api/fractals/${fractal.id}`, "PUT", fractalPayload()),
+        routeContext(fractal.id)
+      ).then((res) => res.json());
+      expect(kept.thumbnail).toBe(replaced.thumbnail);
+    });
+  });
+
+  describe("DELETE", () => {
+    it("deletes the fractal and its thumbnail", async () => {
+      const fractal = await createFractal({ thumbnail: TEST_THUMBNAIL });
+
+      const res = await DELETE(jsonRequest(`/api/fractals/${fractal.id}`, "DELETE"), routeContext(fractal.id));
+
+      expect(res.status).toBe(200);
+      expect(await prisma.fractal.count()).toBe(0);
+      expect(existsSync(path.join(storageDir, fractal.thumbnail))).toBe(false);
+    });
+
+    it("refuses other users", async () => {
+      const fractal = await createFractal();
+
+      signInAs(otherId);
+      const res = await DELETE(jsonRequest(`/api/fractals/${fractal.id}`, "DELETE"), routeContext(fractal.id));
+
+      expect(res.status).toBe(401);
+      expect(await prisma.fractal.count()).toBe(1);
+    });
+  });
+
+  describe("GET thumbnail", () => {
+    it("serves the image with long-lived caching for versioned URLs", async () => {
+      const fractal = await createFractal({ thumbnail: TEST_THUMBNAIL, isPublic: true });
+
+      signInAs(null);
+      const url = getThumbnailUrl(fractal.id, fractal.thumbnail);
+      const res = await GET_THUMBNAIL(jsonRequest(url, "GET"), routeContext(fractal.id));
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toBe("image/jpeg");
+      expect(res.headers.get("Cache-Control")).toBe("public, max-age=31536000, immutable");
+      expect(Buffer.from(await res.arrayBuffer())).toEqual(Buffer.from(TEST_THUMBNAIL.split(",")[1], "base64"));
+    });
+
+    it("revalidates unversioned URLs with an ETag", async () => {
+      const fractal = await createFractal({ thumbnail: TEST_THUMBNAIL });
+      const url = `/api/fractals/${fractal.id}/thumbnail`;
+
+      const first = await GET_THUMBNAIL(jsonRequest(url, "GET"), routeContext(fractal.id));
+      expect(first.headers.get("Cache-Control")).toBe("private, no-cache");
+
+      const etag = first.headers.get("ETag")!;
+      const second = await GET_THUMBNAIL(jsonRequest(url, "GET", undefined, { "If-None-Match": etag }), routeContext(fractal.id));
+      expect(second.status).toBe(304);
+    });
+
+    it("hides private thumbnails from other users", async () => {
+      const fractal = await createFractal({ thumbnail: TEST_THUMBNAIL });
+
+      signInAs(otherId);
+      const res = await GET_THUMBNAIL(jsonRequest(`/api/fractals/${fractal.id}/thumbnail`, "GET"), routeContext(fractal.id));
+      expect(res.status).toBe(401);
+    });
+
+    it("returns 404 when the fractal has no thumbnail", async () => {
+      const fractal = await createFractal();
+
+      const res = await GET_THUMBNAIL(jsonRequest(`/api/fractals/${fractal.id}/thumbnail`, "GET"), routeContext(fractal.id));
+      expect(res.status).toBe(404);
+    });
+  });
+});
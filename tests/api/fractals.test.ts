@@ -0,0 +1,123 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/auth", () => ({ auth: vi.fn() }));
+vi.mock("@/lib/prisma", async () => {
+  const { createTestDatabase } = await import("../helpers/db");
+  return { prisma: await createTestDatabase() };
+});
+
+import { prisma } from "@/lib/prisma";
+import { GET, POST } from "@/app/api/fractals/route";
+import { loadFractalParams } from "@/lib/fractalParams";
+import { resetTestDatabase } from "../helpers/db";
+import { TEST_THUMBNAIL, createUser, fractalPayload, jsonRequest, signInAs } from "../helpers/api";
+
+const storageDir = mkdtempSync(path.join(tmpdir(), "fractalater-test-"));
+process.env.IMAGE_STORAGE_DIR = storageDir;
+
+describe("/api/fractals", () => {
+  let userId: string;
+
+  beforeEach(async () => {
+    await resetTestDatabase(prisma);
+    userId = (await createUser("owner@example.com")).id;
+    signInAs(userId);
+  });
+
+  afterAll(() => {
+    rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  describe("GET", () => {
+    it("requires a session", async () => {
+      signInAs(null);
+      const res = await GET();
+      expect(res.status).toBe(401);
+    });
+
+    it("lists only the signed-in user's fractals", async () => {
+      const otherId = (await createUser("other@example.com")).id;
+      await prisma.fractal.create({ data: { name: "Mine", userId } });
+      await prisma.fractal.create({ data: { name: "Theirs", userId: otherId } });
+
+      const res = await GET();
+      const fractals = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(fractals.map((f: { name: string }) => f.name)).toEqual(["Mine"]);
+    });
+  });
+
+  describe("POST", () => {
+    it("requires a session", async () => {
+      signInAs(null);
+      const res = await POST(jsonRequest("/api/fractals", "POST", fractalPayload()));
+      expect(res.status).toBe(401);
+    });
+
+    it("stores every params field", async () => {
+      const payload = fractalPayload(
+        { name: "  Deep spiral  " },
+        { type: "julia", centerX: "-0.743643887037158704752191506114774", zoom: "1e20", glowIntensity: 0.7 }
+      );
+
+      const res = await POST(jsonRequest("/api/fractals", "POST", payload));
+      const created = await res.json();
+      expect(res.status).toBe(200);
+      expect(created.name).toBe("Deep spiral");
+
+      const row = await prisma.fractal.findUniqueOrThrow({ where: { id: created.id } });
+      const params = loadFractalParams(row);
+      expect(params.centerX).toBe("-0.743643887037158704752191506114774");
+      expect(params.zoom).toBe("1e20");
+      expect(params.glowIntensity).toBe(0.7);
+      expect(row.userId).toBe(userId);
+    });
+
+    it("writes the thumbnail to storage and keeps only its key", async () => {
+      const res = await POST(jsonRequest("/api/fractals", "POST", fractalPayload({ thumbnail: TEST_THUMBNAIL })));
+      const created = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(created.thumbnail).toMatch(/^thumbnails\/[\w-]+\.jpg$/);
+    });
+
+    it("rejects malformed JSON", async () => {
+      const res = await POST(jsonRequest("/api/fractals", "POST", "{not json"));
+      expect(res.status).toBe(400);
+    });
+
+    it("returns field errors for invalid payloads", async () => {
+      const payload = fractalPayload(
+        { name: "", thumbnail: "x".repeat(16) },
+        { type: "spiral" as never, zoom: "NaN", maxIterations: -1 }
+      );
+
+      const res = await POST(jsonRequest("/api/fractals", "POST", payload));
+      const body = await res.json();
+
+      expect(res.status).toBe(400);
+      expect(Object.keys(body.fieldErrors).sort()).toEqual([
+        "name",
+        "params.maxIterations",
+        "params.type",
+        "params.zoom",
+        "thumbnail",
+      ]);
+      expect(await prisma.fractal.count()).toBe(0);
+    });
+
+    it("rejects params documents from a newer version", async () => {
+      const payload = fractalPayload({ params: { version: 999, params: {} } });
+
+      const res = await POST(jsonRequest("/api/fractals", "POST", payload));
+      const body = await res.json();
+
+      expect(res.status).toBe(400);
+      expect(body.fieldErrors).toHaveProperty("params");
+    });
+  });
+});
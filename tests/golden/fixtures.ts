@@ -0,0 +1,243 @@
+import {
+  FractalParams,
+  ColoringMethod,
+  ColorScheme,
+  DEFAULT_FRACTAL_PARAMS,
+  DEEP_ZOOM_TARGETS,
+  GradientRepeat,
+  GradientSpace,
+} from "@/types/fractal";
+import { FRACTAL_TYPES, FRACTAL_TYPE_IDS } from "@/fractals";
+import { SHAPES_3D } from "@/lib/view3d";
+
+export interface GoldenFixture {
+  // Also the reference image file name, without extension
+  name: string;
+  params: FractalParams;
+}
+
+export const GOLDEN_WIDTH = 64;
+export const GOLDEN_HEIGHT = 48;
+
+const COLORING_METHODS: ColoringMethod[] = ["escape", "smooth", "orbit", "angle", "stripe", "domain", "histogram", "distance"];
+
+// Covers the cosine palettes, the HSV rainbow and neon's gamma boost
+const COLOR_SCHEMES: ColorScheme[] = ["classic", "rainbow", "neon"];
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+
+// Each type at its default view, which shows its characteristic structure.
+// Converging types color by basin and Lyapunov by its exponent, whatever the
+// coloring method, so they get one fixture per scheme.
+const typeFixtures = FRACTAL_TYPE_IDS.flatMap((type) => {
+  const params = { ...DEFAULT_FRACTAL_PARAMS, ...FRACTAL_TYPES[type].defaults, type };
+  const { converges, exponent } = FRACTAL_TYPES[type];
+  if (converges || exponent) {
+    return COLOR_SCHEMES.map((colorScheme) => ({ name: `${type}-${colorScheme}`, params: { ...params, colorScheme } }));
+  }
+  return COLORING_METHODS.flatMap((coloringMethod) =>
+    COLOR_SCHEMES.map((colorScheme) => ({
+      name: `${type}-${coloringMethod}-${colorScheme}`,
+      params: { ...params, coloringMethod, colorScheme },
+    }))
+  );
+});
+
+const deepZoomFixtures = DEEP_ZOOM_TARGETS.map((target) => ({
+  name: `deep-${slug(target.name)}`,
+  params: {
+    ...DEFAULT_FRACTAL_PARAMS,
+    centerX: target.centerX,
+    centerY: target.centerY,
+    zoom: "1000",
+    maxIterations: 500,
+  },
+}));
+
+// The custom gradient texture in each blend space, plus mirroring (with a
+// color scale that runs past the end of the gradient)
+const GRADIENT_VARIANTS: { space: GradientSpace; repeat: GradientRepeat }[] = [
+  { space: "rgb", repeat: "repeat" },
+  { space: "hsv", repeat: "repeat" },
+  { space: "oklab", repeat: "repeat" },
+  { space: "oklab", repeat: "mirror" },
+];
+
+const gradientFixtures = GRADIENT_VARIANTS.map(({ space, repeat }) => ({
+  name: `gradient-${space}-${repeat}`,
+  params: {
+    ...DEFAULT_FRACTAL_PARAMS,
+    colorScheme: "custom" as const,
+    colorScale: 3,
+    gradient: {
+      stops: [
+        { position: 0, color: "#ff0000" },
+        { position: 0.5, color: "#00ffff" },
+        { position: 1, color: "#ffffff" },
+      ],
+      space,
+      repeat,
+    },
+  },
+}));
+
+// Distance estimation effects: boundary lines, and lighting on an analytic
+// map and on one that isn't
+const distanceFixtures = [
+  { name: "boundary-lines", params: { ...DEFAULT_FRACTAL_PARAMS, boundaryWidth: 2 } },
+  { name: "lighting-mandelbrot", params: { ...DEFAULT_FRACTAL_PARAMS, lighting: true } },
+  {
+    name: "lighting-burningship",
+    params: { ...DEFAULT_FRACTAL_PARAMS, ...FRACTAL_TYPES.burningship.defaults, type: "burningship" as const, lighting: true, specular: 1 },
+  },
+];
+
+// Interior coloring modes, plus distance on a Julia set where it falls back
+// to the period
+const interiorFixtures = [
+  ...(["period", "magnitude", "distance"] as const).map((interiorColoring) => ({
+    name: `interior-${interiorColoring}`,
+    params: { ...DEFAULT_FRACTAL_PARAMS, maxIterations: 200, interiorColoring },
+  })),
+  {
+    name: "interior-distance-julia",
+    params: { ...DEFAULT_FRACTAL_PARAMS, ...FRACTAL_TYPES.julia.defaults, type: "julia" as const, juliaReal: -0.1, juliaImag: 0.65, interiorColoring: "distance" as const },
+  },
+];
+
+// Custom formulas: transcendental functions, and named parameters with
+// distance coloring from the derivative the formula compiler works out
+const formulaFixtures = [
+  {
+    name: "formula-sin",
+    params: { ...DEFAULT_FRACTAL_PARAMS, type: "custom" as const, formula: "z = sin(z)^3 + c*z", centerX: "0", zoom: "0.3" },
+  },
+  {
+    name: "formula-parameters",
+    params: {
+      ...DEFAULT_FRACTAL_PARAMS,
+      ...FRACTAL_TYPES.custom.defaults,
+      type: "custom" as const,
+      formula: "z^2 + k*c + m*z",
+      formulaParams: { k: 1, m: 0.3 },
+      coloringMethod: "distance" as const,
+    },
+  },
+];
+
+// Phoenix with a complex weight
+const phoenixFixtures = [
+  {
+    name: "phoenix-complex-weight",
+    params: { ...DEFAULT_FRACTAL_PARAMS, ...FRACTAL_TYPES.phoenix.defaults, type: "phoenix" as const, phoenixReal: 0.3, phoenixImag: 0.4 },
+  },
+];
+
+// Julia mode on the escape-time families, and smooth coloring at a power
+// other than 2
+const familyFixtures = [
+  {
+    name: "celtic-julia-mode",
+    params: { ...DEFAULT_FRACTAL_PARAMS, type: "celtic" as const, centerX: "0", zoom: "0.5", juliaMode: true, juliaReal: -0.8, juliaImag: 0.15 },
+  },
+  {
+    name: "lambda-julia-mode",
+    params: { ...DEFAULT_FRACTAL_PARAMS, type: "lambda" as const, centerX: "0.5", zoom: "1.5", juliaMode: true, juliaReal: 2.9, juliaImag: 0.3 },
+  },
+  {
+    name: "buffalo-power-3",
+    params: { ...DEFAULT_FRACTAL_PARAMS, ...FRACTAL_TYPES.buffalo.defaults, type: "buffalo" as const, power: 3 },
+  },
+  {
+    name: "lyapunov-zircon",
+    params: {
+      ...DEFAULT_FRACTAL_PARAMS,
+      ...FRACTAL_TYPES.lyapunov.defaults,
+      type: "lyapunov" as const,
+      lyapunovSequence: "BBBBBBAAAAAA",
+      interiorColoring: "magnitude" as const,
+    },
+  },
+];
+
+// Newton for a quintic with over-relaxation, whose five basins share the
+// palette, and Nova for a quartic
+const newtonFixtures = [
+  {
+    name: "newton-quintic",
+    params: {
+      ...DEFAULT_FRACTAL_PARAMS,
+      ...FRACTAL_TYPES.newton.defaults,
+      type: "newton" as const,
+      newtonRoots: [[1, 0], [-1, 0.5], [0, -1], [0.5, 1], [-0.8, -0.8]] as [number, number][],
+      newtonRelaxation: 1.2,
+    },
+  },
+  {
+    name: "nova-quartic",
+    params: {
+      ...DEFAULT_FRACTAL_PARAMS,
+      ...FRACTAL_TYPES.nova.defaults,
+      type: "nova" as const,
+      newtonRoots: [[1, 0], [-1, 0], [0, 1], [0, -1]] as [number, number][],
+    },
+  },
+];
+
+// 3D mode: the bulb with shadows and occlusion, and a quaternion Julia set
+// with its j part set, without them
+const view3dFixtures = [
+  {
+    name: "mandelbulb-3d",
+    params: { ...DEFAULT_FRACTAL_PARAMS, ...SHAPES_3D.mandelbulb.defaults, view3d: true, maxIterations: 12 },
+  },
+  {
+    name: "quaternion-julia-3d",
+    params: {
+      ...DEFAULT_FRACTAL_PARAMS,
+      ...SHAPES_3D.quaternionJulia.defaults,
+      view3d: true,
+      shape3d: "quaternionJulia" as const,
+      juliaJ: 0.2,
+      maxIterations: 16,
+      softShadows: false,
+      ambientOcclusion: false,
+      colorScheme: "ocean" as const,
+    },
+  },
+];
+
+// Buddhabrot mode over the whole figure, through the palette and as a
+// Nebulabrot
+const buddhabrotFixtures = [
+  {
+    name: "buddhabrot",
+    params: { ...DEFAULT_FRACTAL_PARAMS, buddhabrot: true, zoom: "0.35", maxIterations: 200, colorScheme: "fire" as const },
+  },
+  {
+    name: "nebulabrot",
+    params: {
+      ...DEFAULT_FRACTAL_PARAMS,
+      buddhabrot: true,
+      nebulabrot: true,
+      zoom: "0.35",
+      redIterations: 500,
+      greenIterations: 100,
+      blueIterations: 20,
+    },
+  },
+];
+
+export const GOLDEN_FIXTURES: GoldenFixture[] = [
+  ...typeFixtures,
+  ...deepZoomFixtures,
+  ...gradientFixtures,
+  ...distanceFixtures,
+  ...interiorFixtures,
+  ...formulaFixtures,
+  ...phoenixFixtures,
+  ...familyFixtures,
+  ...newtonFixtures,
+  ...view3dFixtures,
+  ...buddhabrotFixtures,
+];
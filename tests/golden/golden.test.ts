@@ -0,0 +1,49 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { renderFractal } from "@/lib/cpuRenderer";
+import { compareImages, decodePng, encodePng } from "../helpers/images";
+import { GOLDEN_FIXTURES, GOLDEN_HEIGHT, GOLDEN_WIDTH } from "./fixtures";
+
+// Regenerate every reference with `npm run test:update-golden` after an
+// intentional rendering change, and review the new images before committing
+const UPDATE = process.env.UPDATE_GOLDEN === "1";
+
+const REFERENCE_DIR = path.join(__dirname, "references");
+const DIFF_DIR = path.join(__dirname, "__diff__");
+
+// Per-pixel perceptual threshold, and the share of pixels allowed to exceed
+// it. Escape boundaries can flip by an iteration between platforms' libm.
+const PIXEL_THRESHOLD = 0.1;
+const MAX_MISMATCH_RATIO = 0.01;
+
+describe("golden images", () => {
+  rmSync(DIFF_DIR, { recursive: true, force: true });
+
+  it.each(GOLDEN_FIXTURES)("$name", ({ name, params }) => {
+    const actual = renderFractal(params, { width: GOLDEN_WIDTH, height: GOLDEN_HEIGHT });
+    const referencePath = path.join(REFERENCE_DIR, `${name}.png`);
+
+    if (UPDATE) {
+      mkdirSync(REFERENCE_DIR, { recursive: true });
+      writeFileSync(referencePath, encodePng(actual));
+      return;
+    }
+
+    expect(existsSync(referencePath), `missing reference ${referencePath}`).toBe(true);
+
+    const expected = decodePng(readFileSync(referencePath));
+    const comparison = compareImages(actual, expected, PIXEL_THRESHOLD);
+
+    if (comparison.mismatchRatio > MAX_MISMATCH_RATIO) {
+      mkdirSync(DIFF_DIR, { recursive: true });
+      writeFileSync(path.join(DIFF_DIR, `${name}.actual.png`), encodePng(actual));
+      writeFileSync(path.join(DIFF_DIR, `${name}.diff.png`), encodePng(comparison.diff));
+    }
+
+    expect(
+      comparison.mismatchRatio,
+      `${comparison.mismatchedPixels} pixels differ; see ${path.join(DIFF_DIR, name)}.diff.png`
+    ).toBeLessThanOrEqual(MAX_MISMATCH_RATIO);
+  });
+});
@@ -0,0 +1,41 @@
+import { vi } from "vitest";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { createParamsDocument } from "@/lib/fractalParams";
+import { DEFAULT_FRACTAL_PARAMS, FractalParams } from "@/types/fractal";
+
+// Helpers for route handler tests. Test files must mock "@/lib/auth" and
+// "@/lib/prisma" (see tests/api) before importing these.
+
+// Smallest valid JPEG data URL the thumbnail validator accepts
+export const TEST_THUMBNAIL = "data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQABAAD/2Q==";
+
+export const signInAs = (userId: string | null) => {
+  const session = userId ? { user: { id: userId }, expires: new Date(Date.now() + 60_000).toISOString() } : null;
+  vi.mocked(auth).mockResolvedValue(session as never);
+};
+
+export const createUser = (email: string) => {
+  return prisma.user.create({ data: { email } });
+};
+
+export const fractalPayload = (overrides: Record<string, unknown> = {}, params: Partial<FractalParams> = {}) => {
+  return {
+    name: "Test fractal",
+    description: "",
+    isPublic: false,
+    params: createParamsDocument({ ...DEFAULT_FRACTAL_PARAMS, ...params }),
+    ...overrides,
+  };
+};
+
+export const jsonRequest = (url: string, method: string, body?: unknown, headers: Record<string, string> = {}) => {
+  return new Request(`http://localhost${url}`, {
+    method,
+    headers: { "Content-Type": "application/json", ...headers },
+    body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+  });
+};
+
+// Second argument Next passes to dynamic route handlers
+export const routeContext = (id: string) => ({ params: Promise.resolve({ id }) });
@@ -0,0 +1,37 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { PrismaBetterSqlite3 } from "@prisma/adapter-better-sqlite3";
+import { PrismaClient } from "@/generated/prisma";
+
+const MIGRATIONS_DIR = path.join(__dirname, "../../prisma/migrations");
+
+// Every statement of every migration, in the order `prisma migrate` applies them
+export const readMigrationStatements = (): string[] => {
+  return readdirSync(MIGRATIONS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort()
+    .flatMap((name) => {
+      const sql = readFileSync(path.join(MIGRATIONS_DIR, name, "migration.sql"), "utf8");
+      return sql
+        .split(/;\s*$/m)
+        .map((statement) => statement.replace(/^--.*$/gm, "").trim())
+        .filter(Boolean);
+    });
+};
+
+// A Prisma client on a fresh in-memory SQLite database with the real schema.
+// The adapter holds a single connection, so the database lives as long as
+// the client does.
+export const createTestDatabase = async (): Promise<PrismaClient> => {
+  const prisma = new PrismaClient({ adapter: new PrismaBetterSqlite3({ url: ":memory:" }) });
+  for (const statement of readMigrationStatements()) {
+    await prisma.$executeRawUnsafe(statement);
+  }
+  return prisma;
+};
+
+export const resetTestDatabase = async (prisma: PrismaClient): Promise<void> => {
+  await prisma.fractal.deleteMany();
+  await prisma.user.deleteMany();
+};
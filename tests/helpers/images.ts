@@ -0,0 +1,71 @@
+import { PNG } from "pngjs";
+import { RenderedImage } from "@/lib/cpuRenderer";
+
+// Largest possible YIQ delta between two colors (black vs. white)
+const MAX_YIQ_DELTA = 35215;
+
+export interface ImageComparison {
+  mismatchedPixels: number;
+  mismatchRatio: number;
+  // Faded copy of the expected image with mismatched pixels in red
+  diff: RenderedImage;
+}
+
+export const encodePng = (image: RenderedImage): Buffer => {
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data.set(image.data);
+  return PNG.sync.write(png);
+};
+
+export const decodePng = (buffer: Buffer): RenderedImage => {
+  const png = PNG.sync.read(buffer);
+  return { width: png.width, height: png.height, data: new Uint8ClampedArray(png.data) };
+};
+
+// Perceived color difference in YIQ space (Kotsarenko & Ramos), the metric
+// pixelmatch uses. Weighs luminance over chroma like the eye does.
+const colorDelta = (a: Uint8ClampedArray, b: Uint8ClampedArray, offset: number): number => {
+  const dr = a[offset] - b[offset];
+  const dg = a[offset + 1] - b[offset + 1];
+  const db = a[offset + 2] - b[offset + 2];
+
+  const y = dr * 0.29889531 + dg * 0.58662247 + db * 0.11448223;
+  const i = dr * 0.59597799 - dg * 0.2741761 - db * 0.32180189;
+  const q = dr * 0.21147017 - dg * 0.52261711 + db * 0.31114694;
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+};
+
+// A pixel mismatches when its perceived difference exceeds `threshold`
+// (0 = identical, 1 = black vs. white)
+export const compareImages = (
+  actual: RenderedImage,
+  expected: RenderedImage,
+  threshold = 0.1
+): ImageComparison => {
+  if (actual.width !== expected.width || actual.height !== expected.height) {
+    throw new Error(
+      `Image size ${actual.width}x${actual.height} does not match reference ${expected.width}x${expected.height}`
+    );
+  }
+
+  const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+  const diff = new Uint8ClampedArray(expected.data.length);
+  let mismatchedPixels = 0;
+
+  for (let offset = 0; offset < expected.data.length; offset += 4) {
+    if (colorDelta(actual.data, expected.data, offset) > maxDelta) {
+      mismatchedPixels++;
+      diff.set([255, 0, 0, 255], offset);
+    } else {
+      const gray = expected.data[offset] * 0.299 + expected.data[offset + 1] * 0.587 + expected.data[offset + 2] * 0.114;
+      const faded = 255 - (255 - gray) * 0.1;
+      diff.set([faded, faded, faded, 255], offset);
+    }
+  }
+
+  return {
+    mismatchedPixels,
+    mismatchRatio: mismatchedPixels / (expected.width * expected.height),
+    diff: { width: expected.width, height: expected.height, data: diff },
+  };
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { PNG } from "pngjs";
+import { DEFAULT_FRACTAL_PARAMS, FractalParams } from "@/types/fractal";
+import {
+  DensityBuffer,
+  accumulateDensity,
+  createDensityBuffer,
+  createRandom,
+  encodeDensityCounts,
+  getDensityMax,
+  getDensityWhitePoint,
+} from "@/lib/buddhabrot";
+import { getDensitySize } from "@/lib/densityAccumulator";
+import { exportDensity } from "@/lib/densityExport";
+import { selectRenderMode } from "@/lib/precision";
+import { validateFractalParams } from "@/lib/validation";
+import { createParamsDocument } from "@/lib/fractalParams";
+
+const BUDDHABROT: FractalParams = { ...DEFAULT_FRACTAL_PARAMS, buddhabrot: true, zoom: "0.35", maxIterations: 100 };
+
+const accumulate = (params: FractalParams, samples = 20000, seed = 1) => {
+  const buffer = createDensityBuffer(32, 24);
+  accumulateDensity(buffer, params, samples, createRandom(seed));
+  return buffer;
+};
+
+const total = ({ counts }: DensityBuffer, channel: number) => {
+  let sum = 0;
+  for (let i = channel; i < counts.length; i += 3) sum += counts[i];
+  return sum;
+};
+
+describe("Buddhabrot density", () => {
+  it("gets the same counts from the same seed", () => {
+    const first = accumulate(BUDDHABROT);
+    expect(total(first, 0)).toBeGreaterThan(0);
+    expect(accumulate(BUDDHABROT).counts).toEqual(first.counts);
+    expect(accumulate(BUDDHABROT, 20000, 2).counts).not.toEqual(first.counts);
+    expect(first.samples).toBe(20000);
+  });
+
+  it("shares maxIterations between channels, except in a Nebulabrot", () => {
+    const mono = accumulate(BUDDHABROT);
+    expect(total(mono, 1)).toBe(total(mono, 0));
+    expect(total(mono, 2)).toBe(total(mono, 0));
+
+    const nebula = accumulate({ ...BUDDHABROT, nebulabrot: true, redIterations: 200, greenIterations: 50, blueIterations: 10 });
+    expect(total(nebula, 0)).toBeGreaterThan(total(nebula, 1));
+    expect(total(nebula, 1)).toBeGreaterThan(total(nebula, 2));
+  });
+
+  it("leaves out orbits escaping before the minimum", () => {
+    const all = accumulate(BUDDHABROT);
+    const long = accumulate({ ...BUDDHABROT, buddhabrotMinIterations: 20 });
+    expect(total(long, 0)).toBeGreaterThan(0);
+    expect(total(long, 0)).toBeLessThan(total(all, 0));
+  });
+
+  it("is symmetric about the real axis, like the set", () => {
+    const { width, height, counts } = accumulate(BUDDHABROT, 200000);
+    const half = (top: boolean) => {
+      let sum = 0;
+      for (let row = 0; row < height / 2; row++) {
+        const y = top ? row : height - 1 - row;
+        for (let col = 0; col < width; col++) sum += counts[(y * width + col) * 3];
+      }
+      return sum;
+    };
+    expect(half(true) / half(false)).toBeCloseTo(1, 1);
+  });
+
+  it("sets full brightness below the few pixels orbits keep circling", () => {
+    const buffer = createDensityBuffer(100, 10);
+    for (let i = 0; i < buffer.counts.length; i += 3) buffer.counts[i] = (i / 3) % 10;
+    buffer.counts[0] = 1e6;
+    expect(getDensityWhitePoint(buffer)).toEqual([9, 0, 0]);
+    expect(getDensityMax(buffer)).toEqual([1e6, 0, 0]);
+  });
+
+  it("scales the raw counts to 16 bits only when they don't fit", () => {
+    const buffer = createDensityBuffer(2, 1);
+    buffer.counts.set([3, 0, 1, 70000, 35000, 0]);
+    const view = new DataView(encodeDensityCounts(buffer).buffer);
+    expect(view.getUint16(6)).toBe(0xffff);
+    expect(view.getUint16(8)).toBe(Math.round(35000 * (0xffff / 70000)));
+
+    buffer.counts.set([3, 0, 1, 500, 2, 0]);
+    const small = new DataView(encodeDensityCounts(buffer).buffer);
+    expect([small.getUint16(0), small.getUint16(4), small.getUint16(6)]).toEqual([3, 1, 500]);
+    expect(getDensityMax(buffer)).toEqual([500, 2, 1]);
+  });
+
+  it("exports the counts as a 16-bit PNG", async () => {
+    const buffer = createDensityBuffer(2, 2);
+    buffer.counts.set([1, 2, 3, 400, 500, 600, 0, 0, 0, 7, 8, 9]);
+    const parts: Uint8Array[] = [];
+    const sink = { write: async (bytes: Uint8Array) => void parts.push(bytes), close: async () => {}, abort: async () => {} };
+    await exportDensity(buffer, BUDDHABROT, sink, { format: "counts" });
+
+    const png = PNG.sync.read(Buffer.concat(parts), { skipRescale: true });
+    expect(png.depth).toBe(16);
+    expect(Array.from(png.data.slice(4, 7))).toEqual([400, 500, 600]);
+  });
+
+  it("keeps the buffer within the largest size, in the canvas's proportions", () => {
+    expect(getDensitySize(800, 600)).toEqual({ width: 800, height: 600 });
+    expect(getDensitySize(3840, 2160)).toEqual({ width: 1024, height: 576 });
+  });
+
+  it("uses its own program for escape-time types only", () => {
+    expect(selectRenderMode(BUDDHABROT)).toBe("density");
+    expect(selectRenderMode({ ...BUDDHABROT, type: "newton" })).toBe("standard");
+    expect(selectRenderMode({ ...BUDDHABROT, view3d: true })).toBe("raymarch");
+  });
+
+  it("only saves channel limits in range", () => {
+    const save = (params: Partial<FractalParams>) =>
+      validateFractalParams(createParamsDocument({ ...BUDDHABROT, nebulabrot: true, ...params })).ok;
+    expect(save({ redIterations: 5000, buddhabrotGamma: 2 })).toBe(true);
+    expect(save({ greenIterations: 0 })).toBe(false);
+    expect(save({ blueIterations: 2.5 })).toBe(false);
+    expect(save({ buddhabrotGamma: 0 })).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FRACTAL_PARAMS } from "@/types/fractal";
+import { Complex } from "@/lib/complex";
+import { DEFAULT_FORMULA, compileFormula, getFormulaParamValues } from "@/lib/formula";
+import { expandFractalIncludes } from "@/shaders/fractalTypes";
+import { validateFractalParams } from "@/lib/validation";
+import { createParamsDocument } from "@/lib/fractalParams";
+
+const compile = (source: string) => {
+  const result = compileFormula(source);
+  if (!result.ok) throw result.error;
+  return result.formula;
+};
+
+// One step from z = c = point, as the custom type starts
+const step = (source: string, point: Complex, params: number[] = []) => {
+  return compile(source).evaluate(point, point, [1, 0], [1, 0], params);
+};
+
+describe("custom formulas", () => {
+  it("follows the usual precedence, with ^ binding tighter than minus", () => {
+    const [x, y] = step("z = -z^2 + 2*c/4 - (1 + i)", [3, 0]).z;
+    expect(x).toBeCloseTo(-9 + 1.5 - 1);
+    expect(y).toBeCloseTo(-1);
+    expect(step("2^3^2", [0, 0]).z[0]).toBeCloseTo(512);
+  });
+
+  it("evaluates complex functions", () => {
+    // e^(i pi) = -1, sqrt(-4) = 2i
+    expect(step("exp(i*pi)", [0, 0]).z[0]).toBeCloseTo(-1);
+    expect(step("sqrt(c)", [-4, 0]).z[1]).toBeCloseTo(2);
+    expect(step("abs(z) + conj(c) + flip(z)", [-1, 2]).z).toEqual([1 - 1 + 2, 2 - 2 - 1]);
+  });
+
+  it("carries the derivative along, matching finite differences", () => {
+    const formulas = [
+      "z = sin(z)^3 + c*z",
+      "z^-2 + c",
+      "pow(z, 2.5) + c",
+      "z^(1 + i) + c",
+      "exp(z) / cosh(c) + log(z) * tanh(z) - tan(c)",
+      "abs(z)^2 + cabs(c) * arg(z) + real(z) * imag(c)",
+    ];
+    const point: Complex = [0.31, -0.42];
+    const h = 1e-7;
+    formulas.forEach((source) => {
+      const { z, der } = step(source, point);
+      const shifted = step(source, [point[0] + h, point[1]]).z;
+      expect(der[0]).toBeCloseTo((shifted[0] - z[0]) / h, 4);
+      expect(der[1]).toBeCloseTo((shifted[1] - z[1]) / h, 4);
+    });
+  });
+
+  it("turns other names into parameters, in order of first use", () => {
+    const formula = compile("z^n + k*c + n");
+    expect(formula.parameters).toEqual(["n", "k"]);
+    expect(getFormulaParamValues(formula, { k: 0.5 })).toEqual([1, 0.5]);
+    expect(formula.evaluate([2, 0], [1, 0], [0, 0], [0, 0], [3, 0.5]).z[0]).toBeCloseTo(8 + 0.5 + 3);
+    expect(formula.glsl).toContain("u_formulaParams[1]");
+  });
+
+  it("reports errors with the part of the formula they concern", () => {
+    const cases: [string, string, number, number][] = [
+      ["", "Enter a formula", 0, 0],
+      ["x = z", "Only z can be assigned", 0, 1],
+      ["z + sine(z)", 'Unknown function "sine"', 4, 8],
+      ["pow(z)", "pow takes 2 arguments", 0, 6],
+      ["z(c + 1)", "z is not a function", 0, 1],
+      ["z + sin", "sin is a function", 4, 7],
+      ["(z + c", 'Expected ")"', 6, 6],
+      ["z # c", 'Unexpected "#"', 2, 3],
+      ["a + b + d + f + g + h + j + k + l", "at most 8 parameters", 32, 33],
+    ];
+    cases.forEach(([source, message, start, end]) => {
+      const result = compileFormula(source);
+      expect(result.ok).toBe(false);
+      if (result.ok) return;
+      expect(result.error.message).toContain(message);
+      expect([result.error.start, result.error.end]).toEqual([start, end]);
+    });
+  });
+
+  it("compiles into the shader programs in place of the include", () => {
+    const formula = compile("z = sin(z) + c");
+    const functions = expandFractalIncludes("#include <fractal/functions>", formula);
+    expect(functions).toContain("vec2 iterateFormula(vec2 z, vec2 c, inout vec2 der, vec2 dc) {");
+    expect(functions).toContain("complexSin(z)");
+    expect(functions).not.toContain("#include");
+    expect(expandFractalIncludes("#include <fractal/formula>")).toContain(`// ${DEFAULT_FORMULA}`);
+  });
+
+  it("only saves formulas that compile", () => {
+    const save = (params: object) => validateFractalParams(createParamsDocument({ ...DEFAULT_FRACTAL_PARAMS, ...params }));
+    expect(save({ type: "custom", formula: "z^k + c", formulaParams: { k: 3 } }).ok).toBe(true);
+    expect(save({ formula: "z^ * c" })).toMatchObject({ ok: false, errors: { "params.formula": expect.any(String) } });
+    expect(save({ formulaParams: { k: "3" } }).ok).toBe(false);
+    expect(save({ formulaParams: { "not a name": 3 } }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FRACTAL_PARAMS } from "@/types/fractal";
+import {
+  FRACTAL_TYPES,
+  FRACTAL_TYPE_IDS,
+  getEscapeDegree,
+  getFractalStart,
+  getFractalTypeIndex,
+  getTypeParams,
+  isFractalType,
+} from "@/fractals";
+import { expandFractalIncludes } from "@/shaders/fractalTypes";
+import { validateFractalParams } from "@/lib/validation";
+import { createParamsDocument } from "@/lib/fractalParams";
+
+describe("fractal type registry", () => {
+  it("numbers the types in registry order", () => {
+    const defines = expandFractalIncludes("#include <fractal/defines>");
+    FRACTAL_TYPE_IDS.forEach((type) => {
+      expect(defines).toContain(`#define FRACTAL_${type.toUpperCase()} ${getFractalTypeIndex(type)}`);
+    });
+    expect(defines).toContain("#define TYPE_CONVERGES(type) (type == FRACTAL_NEWTON || type == FRACTAL_NOVA)");
+    expect(defines).toContain("#define TYPE_EXPONENT(type) (type == FRACTAL_LYAPUNOV)");
+  });
+
+  it("generates a loop step for every type at the include's indentation", () => {
+    const iterate = expandFractalIncludes("    #include <fractal/iterate>");
+    FRACTAL_TYPE_IDS.forEach((type) => {
+      expect(iterate).toContain(`if (u_fractalType == FRACTAL_${type.toUpperCase()}) {`);
+    });
+    expect(iterate.split("\n").every((line) => !line || line.startsWith("    "))).toBe(true);
+    expect(iterate).toContain("      if (rootIndex >= 0) break;");
+  });
+
+  it("only generates double-single steps for the types that have one", () => {
+    const iterate = expandFractalIncludes("#include <fractal/iterate_ds>");
+    expect(iterate).toContain("FRACTAL_BURNINGSHIP");
+    expect(iterate).not.toContain("FRACTAL_NEWTON");
+  });
+
+  it("starts Julia mode ahead of the types' own starts, for the types with the toggle", () => {
+    const start = expandFractalIncludes("#include <fractal/start>");
+    expect(start.startsWith("if (u_juliaMode && (u_fractalType == FRACTAL_CELTIC || ")).toBe(true);
+    expect(start).toContain("u_fractalType == FRACTAL_LAMBDA)) {\n  z = c;\n  c = u_julia;");
+    expect(start).toContain("} else if (u_fractalType == FRACTAL_LAMBDA || u_fractalType == FRACTAL_LYAPUNOV) {\n  z = vec2(0.5, 0.0);");
+
+    const lambda = { ...DEFAULT_FRACTAL_PARAMS, type: "lambda" as const };
+    expect(getFractalStart(lambda)).toBe("critical");
+    expect(getFractalStart({ ...lambda, juliaMode: true })).toBe("julia");
+    expect(getFractalStart({ ...DEFAULT_FRACTAL_PARAMS, juliaMode: true })).toBe("zero");
+    expect(getTypeParams({ ...lambda, juliaMode: true }).map((param) => param.key)).toEqual(["juliaReal", "juliaImag"]);
+  });
+
+  it("normalizes smooth coloring by each type's escape degree", () => {
+    expect(getEscapeDegree({ ...DEFAULT_FRACTAL_PARAMS, type: "celtic", power: 3 })).toBe(3);
+    expect(getEscapeDegree({ ...DEFAULT_FRACTAL_PARAMS, type: "magnet2", power: 3 })).toBe(2);
+  });
+
+  it("rejects unknown includes", () => {
+    expect(() => expandFractalIncludes("#include <fractal/nope>")).toThrow("<fractal/nope>");
+  });
+
+  it("accepts every registered type in saved params, and nothing else", () => {
+    FRACTAL_TYPE_IDS.forEach((type) => {
+      const params = { ...DEFAULT_FRACTAL_PARAMS, ...FRACTAL_TYPES[type].defaults, type };
+      expect(validateFractalParams(createParamsDocument(params)).ok).toBe(true);
+    });
+    expect(isFractalType("burningShip")).toBe(false);
+    expect(isFractalType("constructor")).toBe(false);
+  });
+});
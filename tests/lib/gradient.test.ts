@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FRACTAL_PARAMS, Gradient } from "@/types/fractal";
+import { GRADIENT_TABLE_SIZE, createGradientTable, evaluateGradient, formatHexColor, insertGradientStop } from "@/lib/gradient";
+import { validateFractalParams } from "@/lib/validation";
+import { createParamsDocument } from "@/lib/fractalParams";
+
+const twoStops = (from: string, to: string, space: Gradient["space"]): Gradient => ({
+  stops: [
+    { position: 0, color: from },
+    { position: 1, color: to },
+  ],
+  space,
+  repeat: "repeat",
+});
+
+const hexAt = (gradient: Gradient, t: number) => formatHexColor(evaluateGradient(gradient, t));
+
+describe("gradients", () => {
+  it("holds the end colors outside the stops, whatever their order", () => {
+    const gradient: Gradient = {
+      stops: [
+        { position: 0.75, color: "#0000ff" },
+        { position: 0.25, color: "#ff0000" },
+      ],
+      space: "rgb",
+      repeat: "repeat",
+    };
+    expect(hexAt(gradient, 0)).toBe("#ff0000");
+    expect(hexAt(gradient, 1)).toBe("#0000ff");
+    expect(hexAt(gradient, 0.5)).toBe("#800080");
+  });
+
+  it("blends hue the short way round in HSV", () => {
+    // Red to magenta passes through rose, not green
+    expect(hexAt(twoStops("#ff0000", "#ff00ff", "hsv"), 0.5)).toBe("#ff0080");
+  });
+
+  it("keeps the hue of a colored stop when fading to gray in HSV", () => {
+    expect(hexAt(twoStops("#ff0000", "#ffffff", "hsv"), 0.5)).toBe("#ff8080");
+  });
+
+  it("blends perceptually in OKLab", () => {
+    // Black to white in OKLab passes perceptual mid-gray, darker than #808080
+    expect(hexAt(twoStops("#000000", "#ffffff", "oklab"), 0.5)).toBe("#636363");
+    expect(hexAt(twoStops("#123456", "#123456", "oklab"), 0.3)).toBe("#123456");
+  });
+
+  it("spans the texture from the first stop to the last", () => {
+    const table = createGradientTable(twoStops("#000000", "#ffffff", "rgb"));
+    expect(table).toHaveLength(GRADIENT_TABLE_SIZE * 4);
+    expect(Array.from(table.subarray(0, 4))).toEqual([0, 0, 0, 255]);
+    expect(Array.from(table.subarray(-4))).toEqual([255, 255, 255, 255]);
+  });
+
+  it("adds stops without changing the look", () => {
+    const gradient = twoStops("#ff0000", "#0000ff", "oklab");
+    const added = insertGradientStop(gradient, 0.25);
+    expect(added.stops).toHaveLength(3);
+    expect(hexAt(added, 0.6)).toBe(hexAt(gradient, 0.6));
+  });
+
+  it("validates saved gradients", () => {
+    const check = (gradient: unknown) =>
+      validateFractalParams(createParamsDocument({ ...DEFAULT_FRACTAL_PARAMS, gradient: gradient as Gradient }));
+
+    expect(check(DEFAULT_FRACTAL_PARAMS.gradient).ok).toBe(true);
+    expect(check({ ...DEFAULT_FRACTAL_PARAMS.gradient, stops: [{ position: 0, color: "#000000" }] })).toMatchObject({
+      ok: false,
+      errors: { "params.gradient": "Must have 2 to 256 color stops" },
+    });
+    expect(check({ ...twoStops("#000000", "red", "rgb") }).ok).toBe(false);
+    expect(check({ ...twoStops("#000000", "#ffffff", "rgb"), space: "lab" }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FRACTAL_PARAMS } from "@/types/fractal";
+import {
+  HISTOGRAM_BINS,
+  HISTOGRAM_SAMPLE_SIZE,
+  buildIterationHistogram,
+  getHistogramSampleSize,
+  lookupIterationHistogram,
+} from "@/lib/histogram";
+import { renderFractal } from "@/lib/cpuRenderer";
+import { validateFractalParams } from "@/lib/validation";
+import { createParamsDocument } from "@/lib/fractalParams";
+
+// First-pass pixels from [count, escaped] pairs
+const valuePixels = (samples: [number, boolean][]) => {
+  const pixels = new Float32Array(samples.length * 4);
+  samples.forEach(([count, escaped], i) => {
+    pixels[i * 4] = count;
+    pixels[i * 4 + 1] = escaped ? 1 : 0;
+    pixels[i * 4 + 3] = 1;
+  });
+  return pixels;
+};
+
+describe("histogram coloring", () => {
+  it("ranks counts by the share of escaped pixels below them", () => {
+    // Most pixels bunch up at low counts; the interior is ignored
+    const samples: [number, boolean][] = [
+      ...Array.from({ length: 90 }, (_, i): [number, boolean] => [2 + i / 90, true]),
+      ...Array.from({ length: 10 }, (_, i): [number, boolean] => [50 + i * 5, true]),
+      ...Array.from({ length: 50 }, (): [number, boolean] => [1000, false]),
+    ];
+    const histogram = buildIterationHistogram(valuePixels(samples));
+
+    expect(histogram.min).toBe(2);
+    expect(histogram.max).toBe(95);
+    expect(histogram.cdf).toHaveLength(HISTOGRAM_BINS + 1);
+    expect(histogram.cdf[0]).toBe(0);
+    expect(histogram.cdf[HISTOGRAM_BINS]).toBe(1);
+
+    // A count past the low band is already ~90% of the way through
+    expect(lookupIterationHistogram(histogram, 3.1)).toBeCloseTo(0.9, 2);
+    expect(lookupIterationHistogram(histogram, 0)).toBe(0);
+    expect(lookupIterationHistogram(histogram, 1000)).toBe(1);
+
+    for (let i = 1; i <= HISTOGRAM_BINS; i++) {
+      expect(histogram.cdf[i]).toBeGreaterThanOrEqual(histogram.cdf[i - 1]);
+    }
+  });
+
+  it("falls back to a ramp when nothing escaped", () => {
+    const histogram = buildIterationHistogram(valuePixels([[100, false], [100, false]]));
+    expect(lookupIterationHistogram(histogram, 0.25)).toBeCloseTo(0.25);
+  });
+
+  it("gathers counts at reduced size", () => {
+    expect(getHistogramSampleSize(64, 48)).toEqual({ width: 64, height: 48 });
+    expect(getHistogramSampleSize(4096, 2048)).toEqual({ width: HISTOGRAM_SAMPLE_SIZE, height: HISTOGRAM_SAMPLE_SIZE / 2 });
+  });
+
+  it("spreads the palette more evenly than smooth coloring", () => {
+    const view = { ...DEFAULT_FRACTAL_PARAMS, colorScheme: "monochrome" as const, maxIterations: 200 };
+    const distinctShades = (coloringMethod: "smooth" | "histogram") => {
+      const { data } = renderFractal({ ...view, coloringMethod }, { width: 64, height: 48 });
+      const shades = new Set<number>();
+      for (let i = 0; i < data.length; i += 4) shades.add(data[i]);
+      return shades.size;
+    };
+    expect(distinctShades("histogram")).toBeGreaterThan(distinctShades("smooth"));
+  });
+
+  it("is accepted in saved params", () => {
+    expect(validateFractalParams(createParamsDocument({ ...DEFAULT_FRACTAL_PARAMS, coloringMethod: "histogram" })).ok).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FRACTAL_PARAMS, FractalParams } from "@/types/fractal";
+import { ExportSink } from "@/lib/exportSink";
+import { computeLoop, exportLoop, getFrameDelays, getLoopFrame } from "@/lib/loopExport";
+import { readParamsFromPng } from "@/lib/pngMetadata";
+import { renderFractal } from "@/lib/cpuRenderer";
+import { decodePng } from "../helpers/images";
+
+const WIDTH = 8;
+const HEIGHT = 4;
+
+// Solid frames whose color depends only on the frame's hue shift, plus a
+// fixed pattern, so they can be checked after encoding
+const renderer = {
+  renderFrame: (params: FractalParams) => {
+    const pixels = new Uint8Array(WIDTH * HEIGHT * 4);
+    for (let i = 0; i < WIDTH * HEIGHT; i++) {
+      pixels.set([Math.round(params.hueShift * 255), (i % WIDTH) * 32, 200, 255], i * 4);
+    }
+    return pixels;
+  },
+  dispose: () => {},
+};
+
+const memorySink = () => {
+  const parts: Uint8Array[] = [];
+  const sink: ExportSink = {
+    write: async (bytes) => void parts.push(bytes),
+    close: async () => {},
+    abort: async () => {},
+  };
+  return { sink, bytes: () => Buffer.concat(parts) };
+};
+
+// Decode GIF LZW data back to palette indices
+const lzwDecode = (data: Uint8Array, minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bitPosition = 0;
+
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  while (bitPosition + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++, bitPosition++) {
+      code |= ((data[bitPosition >> 3] >> (bitPosition & 7)) & 1) << bit;
+    }
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) break;
+
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    output.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    previous = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+  return output;
+};
+
+// Frames of a GIF as RGB triplets per pixel, with their delays
+const decodeGif = (bytes: Uint8Array) => {
+  const frames: { delay: number; pixels: number[][] }[] = [];
+  let offset = 13;
+  let delay = 0;
+  while (bytes[offset] !== 0x3b) {
+    if (bytes[offset] === 0x21) {
+      if (bytes[offset + 1] === 0xf9) delay = bytes[offset + 4] | (bytes[offset + 5] << 8);
+      offset += 2;
+      while (bytes[offset] !== 0) offset += bytes[offset] + 1;
+      offset++;
+      continue;
+    }
+
+    const palette = bytes.subarray(offset + 10, offset + 10 + 768);
+    offset += 10 + 768;
+    const minCodeSize = bytes[offset++];
+    const data: number[] = [];
+    while (bytes[offset] !== 0) {
+      data.push(...bytes.subarray(offset + 1, offset + 1 + bytes[offset]));
+      offset += bytes[offset] + 1;
+    }
+    offset++;
+
+    const indices = lzwDecode(new Uint8Array(data), minCodeSize);
+    frames.push({ delay, pixels: indices.map((index) => Array.from(palette.subarray(index * 3, index * 3 + 3))) });
+  }
+  return frames;
+};
+
+describe("loop export", () => {
+  it("returns null when nothing animates", () => {
+    expect(computeLoop(DEFAULT_FRACTAL_PARAMS)).toBeNull();
+  });
+
+  it("finds the shortest period that fits whole cycles of every motion", () => {
+    const loop = computeLoop({ ...DEFAULT_FRACTAL_PARAMS, colorCycleSpeed: 0.5, autoHueShift: true, autoHueSpeed: -0.25 });
+    expect(loop?.duration).toBeCloseTo(4);
+    expect(loop?.cycles).toEqual({ color: 2, hue: -1, julia: 0 });
+  });
+
+  it("nudges speeds that don't divide evenly", () => {
+    const loop = computeLoop({ ...DEFAULT_FRACTAL_PARAMS, colorCycleSpeed: 0.3, autoHueShift: true, autoHueSpeed: 0.101 })!;
+    expect(loop.cycles.color / loop.duration).toBeCloseTo(0.3, 1);
+    expect(Number.isInteger(loop.cycles.hue)).toBe(true);
+  });
+
+  it("wraps the hue back to its start over the loop", () => {
+    const params = { ...DEFAULT_FRACTAL_PARAMS, hueShift: 0.2, autoHueShift: true, autoHueSpeed: 0.5 };
+    const loop = computeLoop(params)!;
+    expect(getLoopFrame(params, loop, 0, 10).params.hueShift).toBeCloseTo(0.2);
+    expect(getLoopFrame(params, loop, 5, 10).params.hueShift).toBeCloseTo(0.7);
+    expect(getLoopFrame(params, loop, 10, 10).params.hueShift).toBeCloseTo(0.2);
+  });
+
+  it("cycles a mirrored gradient forward and back before looping", () => {
+    // Once through the palette per loop would end on its mirrored half
+    const params: FractalParams = {
+      ...DEFAULT_FRACTAL_PARAMS,
+      colorScheme: "custom",
+      gradient: { ...DEFAULT_FRACTAL_PARAMS.gradient, repeat: "mirror" },
+      colorCycleSpeed: 0.5,
+    };
+    const loop = computeLoop(params)!;
+    expect(loop.cycles.color).toBe(1);
+    expect(loop.duration).toBeCloseTo(4);
+
+    const render = (index: number) => {
+      const frame = getLoopFrame(params, loop, index, 8);
+      return renderFractal(frame.params, { width: 16, height: 12, time: frame.time }).data;
+    };
+    expect(render(8)).toEqual(render(0));
+    expect(render(4)).not.toEqual(render(0));
+  });
+
+  it("spreads frame delays so they add up to the loop exactly", () => {
+    const delays = getFrameDelays(1, 3, 100);
+    expect(delays).toEqual([33, 34, 33]);
+  });
+
+  it("encodes a looping GIF", async () => {
+    const params = { ...DEFAULT_FRACTAL_PARAMS, autoHueShift: true, autoHueSpeed: 1 };
+    const { sink, bytes } = memorySink();
+    await exportLoop(renderer, params, sink, { format: "gif", width: WIDTH, height: HEIGHT, frameCount: 4, dither: "none" });
+
+    const gif = bytes();
+    expect(gif.subarray(0, 6).toString()).toBe("GIF89a");
+    expect(gif.includes("NETSCAPE2.0")).toBe(true);
+
+    const frames = decodeGif(gif);
+    expect(frames.map((frame) => frame.delay)).toEqual([25, 25, 25, 25]);
+    frames.forEach((frame, index) => {
+      expect(frame.pixels).toHaveLength(WIDTH * HEIGHT);
+      expect(frame.pixels[3]).toEqual([Math.round((index / 4) * 255), 96, 200]);
+    });
+  });
+
+  it("encodes an APNG that carries the view", async () => {
+    const params = { ...DEFAULT_FRACTAL_PARAMS, colorCycleSpeed: 2 };
+    const { sink, bytes } = memorySink();
+    await exportLoop(renderer, params, sink, { format: "apng", width: WIDTH, height: HEIGHT, frameCount: 5, dither: "none" });
+
+    const apng = bytes();
+    expect(apng.includes("acTL")).toBe(true);
+    expect(apng.toString("latin1").match(/fdAT/g)).toHaveLength(4);
+    expect(decodePng(apng).width).toBe(WIDTH);
+    expect(readParamsFromPng(apng).colorCycleSpeed).toBe(2);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FRACTAL_PARAMS } from "@/types/fractal";
+import { getSequenceMask, isLyapunovSequence } from "@/lib/lyapunov";
+import { validateFractalParams } from "@/lib/validation";
+import { createParamsDocument } from "@/lib/fractalParams";
+import { shadePoint } from "@/lib/cpuRenderer";
+
+describe("Lyapunov sequences", () => {
+  it("sets a bit for each step that uses b", () => {
+    expect(getSequenceMask("AB")).toBe(0b10);
+    expect(getSequenceMask("BBA")).toBe(0b011);
+    expect(getSequenceMask("A".repeat(31) + "B")).toBe(2 ** 31);
+    expect(getSequenceMask("B".repeat(32))).toBe(2 ** 32 - 1);
+  });
+
+  it("only saves 1 to 32 capital letters A and B", () => {
+    expect(isLyapunovSequence("BBBBBBAAAAAA")).toBe(true);
+    expect(isLyapunovSequence("")).toBe(false);
+    expect(isLyapunovSequence("ab")).toBe(false);
+    expect(isLyapunovSequence("ABC")).toBe(false);
+    expect(isLyapunovSequence("A".repeat(33))).toBe(false);
+
+    const save = (lyapunovSequence: unknown) =>
+      validateFractalParams(createParamsDocument({ ...DEFAULT_FRACTAL_PARAMS, lyapunovSequence } as typeof DEFAULT_FRACTAL_PARAMS));
+    expect(save("AAB").ok).toBe(true);
+    expect(save("AXB").ok).toBe(false);
+    expect(save(12).ok).toBe(false);
+  });
+
+  it("draws stable points from the palette and chaotic ones as interior", () => {
+    const params = { ...DEFAULT_FRACTAL_PARAMS, type: "lyapunov" as const };
+    const context = { time: 0, pixelSize: 0.01 };
+    // r = 3.2 settles on a 2-cycle; r = 3.9 is chaotic
+    expect(shadePoint(params, 3.2, 3.2, context)).not.toEqual([0, 0, 0]);
+    expect(shadePoint(params, 3.9, 3.9, context)).toEqual([0, 0, 0]);
+  });
+});
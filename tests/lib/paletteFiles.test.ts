@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FRACTAL_PARAMS, Gradient } from "@/types/fractal";
+import { evaluateGradient, formatHexColor } from "@/lib/gradient";
+import { PaletteFormat, parsePaletteFile, schemeToGradient, serializePalette } from "@/lib/paletteFiles";
+import { MAX_NAME_LENGTH, validateFractalParams } from "@/lib/validation";
+import { createParamsDocument } from "@/lib/fractalParams";
+
+const colorsOf = (gradient: Gradient) => gradient.stops.map((stop) => [stop.position, stop.color]);
+const hexAt = (gradient: Gradient, t: number) => formatHexColor(evaluateGradient(gradient, t));
+
+const SAMPLE: Gradient = {
+  name: "Sample",
+  stops: [
+    { position: 0, color: "#000000" },
+    { position: 0.25, color: "#ff0000" },
+    { position: 0.25, color: "#00ff00" },
+    { position: 1, color: "#0000ff" },
+  ],
+  space: "rgb",
+  repeat: "repeat",
+};
+
+describe("palette files", () => {
+  it("reads Fractint maps, ignoring comments", () => {
+    const [gradient] = parsePaletteFile("fire.map", "0 0 0 black\n255 128 0\n  255 255 255 ; white\n");
+    expect(gradient.name).toBe("fire");
+    expect(colorsOf(gradient)).toEqual([
+      [0, "#000000"],
+      [0.5, "#ff8000"],
+      [1, "#ffffff"],
+    ]);
+  });
+
+  it("reads GIMP gradients with curved and stepped segments", () => {
+    const text = [
+      "GIMP Gradient",
+      "Name: Sunset",
+      "2",
+      "0.0 0.25 0.5 0 0 0 1 1 1 1 1 1 0",
+      "0.5 0.75 1.0 1 0 0 1 0 0 1 1 5 0",
+    ].join("\n");
+    const [gradient] = parsePaletteFile("sunset.ggr", text);
+
+    expect(gradient.name).toBe("Sunset");
+    // Curved: the midpoint at 0.25 is where the blend reaches half way
+    expect(hexAt(gradient, 0.25)).toBe("#808080");
+    expect(hexAt(gradient, 0.74)).toBe("#ff0000");
+    expect(hexAt(gradient, 0.76)).toBe("#0000ff");
+  });
+
+  it("reads every gradient in an Ultra Fractal file, wrapping the ends", () => {
+    const text = `
+Blues {
+gradient:
+  title="Deep Blues" smooth=no
+  index=100 color=16711680
+  index=300 color=0
+opacity:
+  smooth=no index=0 opacity=255
+}
+
+Reds {
+gradient:
+  title="Reds" smooth=yes index=0 color=255 index=200 color=128
+}
+`;
+    const gradients = parsePaletteFile("set.ugr", text);
+    expect(gradients.map((gradient) => gradient.name)).toEqual(["Deep Blues", "Reds"]);
+    // Blue at 100, black at 300: index 0 is half way back to blue
+    expect(hexAt(gradients[0], 0)).toBe("#000080");
+    expect(hexAt(gradients[0], 0.25)).toBe("#0000ff");
+    expect(hexAt(gradients[0], 1)).toBe("#000080");
+  });
+
+  it("cuts long imported names to what can be saved", () => {
+    const title = "A".repeat(MAX_NAME_LENGTH + 50);
+    const [fromTitle] = parsePaletteFile("long.ugr", `Long {\ngradient:\n  title="${title}" index=0 color=0 index=200 color=255\n}\n`);
+    const [fromFileName] = parsePaletteFile(`${title}.map`, "0 0 0\n255 255 255\n");
+
+    for (const gradient of [fromTitle, fromFileName]) {
+      expect(gradient.name).toHaveLength(MAX_NAME_LENGTH);
+      expect(validateFractalParams(createParamsDocument({ ...DEFAULT_FRACTAL_PARAMS, colorScheme: "custom", gradient })).ok).toBe(true);
+    }
+  });
+
+  it("reads CSS gradients, filling in missing positions", () => {
+    const [gradient] = parsePaletteFile(
+      "brand.css",
+      ".hero { background: linear-gradient(90deg in oklab, #f00, rgb(0 255 0 / 50%), hsl(240deg 100% 50%) 80%, #fff); }"
+    );
+    expect(gradient.space).toBe("oklab");
+    expect(colorsOf(gradient)).toEqual([
+      [0, "#ff0000"],
+      [0.4, "#00ff00"],
+      [0.8, "#0000ff"],
+      [1, "#ffffff"],
+    ]);
+  });
+
+  it("stretches one period of a repeating CSS gradient over the palette", () => {
+    const [gradient] = parsePaletteFile("stripes.css", "repeating-linear-gradient(#000 10%, #fff 30%)");
+    expect(colorsOf(gradient)).toEqual([
+      [0, "#000000"],
+      [1, "#ffffff"],
+    ]);
+  });
+
+  it.each<PaletteFormat>(["ggr", "ugr", "css"])("round-trips hard edges through .%s", (format) => {
+    const [gradient] = parsePaletteFile(`sample.${format}`, serializePalette(SAMPLE, format));
+    expect(gradient.name).toBe("Sample");
+    for (const t of [0, 0.1, 0.24, 0.26, 0.6, 0.99]) {
+      expect(hexAt(gradient, t), `at ${t}`).toBe(hexAt(SAMPLE, t));
+    }
+  });
+
+  it("writes mirrored gradients out as one full period", () => {
+    const mirrored: Gradient = { ...SAMPLE, repeat: "mirror" };
+    const [gradient] = parsePaletteFile("sample.map", serializePalette(mirrored, "map"));
+    expect(gradient.stops).toHaveLength(256);
+    expect(gradient.stops[0].color).toBe("#000000");
+    expect(gradient.stops[127].color).toBe(gradient.stops[128].color);
+    expect(gradient.stops[255].color).toBe("#000000");
+  });
+
+  it("exports built-in schemes", () => {
+    const text = serializePalette(schemeToGradient("rainbow", 256, "Rainbow"), "ggr");
+    expect(text.startsWith("GIMP Gradient\nName: Rainbow\n255\n")).toBe(true);
+  });
+
+  it("explains files it can't read", () => {
+    expect(() => parsePaletteFile("notes.txt", "hello")).toThrow("Unrecognized palette file");
+    expect(() => parsePaletteFile("a.css", "linear-gradient(red, blue)")).toThrow('Unsupported CSS color "red"');
+    expect(() => parsePaletteFile("a.ggr", "GIMP Gradient\n1\n0 0.5 1 0 0")).toThrow("Segment 1");
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import packageJson from "../../package.json";
+import { DEFAULT_FRACTAL_PARAMS, FractalParams } from "@/types/fractal";
+import { createChunk, createPngStream } from "@/lib/png";
+import { PARAMS_KEYWORD, createMetadataChunks, readParamsFromPng, readPngText } from "@/lib/pngMetadata";
+import { decodePng } from "../helpers/images";
+
+// Encode a small gray image with the given chunks ahead of the image data
+const encodeWithChunks = async (chunks: Uint8Array[]): Promise<Buffer> => {
+  const parts: Uint8Array[] = [];
+  const png = await createPngStream(4, 2, { write: async (bytes) => void parts.push(bytes) }, chunks);
+  await png.writeRows(new Uint8Array(4 * 2 * 3).fill(128), 2);
+  await png.close();
+  return Buffer.concat(parts);
+};
+
+// Uncompressed iTXt chunk under the params keyword
+const paramsChunk = (text: string) => {
+  return createChunk("iTXt", Buffer.concat([Buffer.from(PARAMS_KEYWORD, "latin1"), Buffer.alloc(5), Buffer.from(text)]));
+};
+
+describe("PNG metadata", () => {
+  it("round-trips params through an exported image", async () => {
+    const params: FractalParams = {
+      ...DEFAULT_FRACTAL_PARAMS,
+      type: "julia",
+      centerX: "-0.743643887037158704752191506114774",
+      zoom: "1e20",
+    };
+    const bytes = await encodeWithChunks(createMetadataChunks(params));
+
+    expect(readParamsFromPng(bytes)).toEqual(params);
+    expect(readPngText(bytes).Software).toBe(`Fractalater ${packageJson.version}`);
+    expect(decodePng(bytes).width).toBe(4);
+  });
+
+  it("rejects images without an embedded view", async () => {
+    const bytes = await encodeWithChunks([]);
+    expect(() => readParamsFromPng(bytes)).toThrow("no Fractalater view");
+  });
+
+  it("rejects files that are not PNGs", () => {
+    expect(() => readParamsFromPng(new Uint8Array([1, 2, 3]))).toThrow("Not a PNG image");
+  });
+
+  it("rejects invalid embedded params", async () => {
+    const bytes = await encodeWithChunks([paramsChunk(JSON.stringify({ version: 2, params: { maxIterations: -5 } }))]);
+    expect(() => readParamsFromPng(bytes)).toThrow("is invalid");
+  });
+
+  it("reports views from a newer version", async () => {
+    const bytes = await encodeWithChunks([paramsChunk(JSON.stringify({ appVersion: "9.0.0", version: 99, params: {} }))]);
+    expect(() => readParamsFromPng(bytes)).toThrow("newer version of Fractalater (9.0.0)");
+  });
+});
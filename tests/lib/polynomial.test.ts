@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FRACTAL_PARAMS } from "@/types/fractal";
+import { Complex } from "@/lib/complex";
+import { findRoots, formatComplex, parseCoefficients, parseComplex, polynomialFromRoots } from "@/lib/polynomial";
+import { validateFractalParams } from "@/lib/validation";
+import { createParamsDocument } from "@/lib/fractalParams";
+
+const byAngle = (roots: Complex[]) => [...roots].sort((a, b) => Math.atan2(a[1], a[0]) - Math.atan2(b[1], b[0]));
+
+describe("Newton polynomials", () => {
+  it("expands roots into monic coefficients", () => {
+    // (z - 1)(z + 1)(z - i) = z³ - iz² - z + i
+    const coefficients = polynomialFromRoots([[1, 0], [-1, 0], [0, 1]]);
+    expect(coefficients.map((c) => formatComplex(c))).toEqual(["1", "-i", "-1", "i"]);
+  });
+
+  it("finds the roots the coefficients came from", () => {
+    const roots: Complex[] = [[1, 0], [-0.5, 2], [0.3, -0.7], [-1.2, -0.4], [2, 1]];
+    const found = byAngle(findRoots(polynomialFromRoots(roots)));
+    byAngle(roots).forEach(([x, y], i) => {
+      expect(found[i][0]).toBeCloseTo(x, 8);
+      expect(found[i][1]).toBeCloseTo(y, 8);
+    });
+  });
+
+  it("solves coefficients that aren't monic, with exact real and imaginary roots", () => {
+    // 2z² + 8 = 2(z - 2i)(z + 2i)
+    expect(byAngle(findRoots([[2, 0], [0, 0], [8, 0]]))).toEqual([[0, -2], [0, 2]]);
+    expect(findRoots([[0, 0], [1, 0], [-3, 0]])).toEqual([[3, 0]]);
+  });
+
+  it("reads complex numbers the way they are shown", () => {
+    expect(parseComplex("2")).toEqual([2, 0]);
+    expect(parseComplex("-0.5i")).toEqual([0, -0.5]);
+    expect(parseComplex("-i")).toEqual([0, -1]);
+    expect(parseComplex(" 1 + 2i ")).toEqual([1, 2]);
+    expect(parseComplex("1e-3-i")).toEqual([0.001, -1]);
+    expect(parseComplex("1+")).toBeNull();
+    expect(parseComplex("")).toBeNull();
+    [[1.5, -2], [0, 1], [-3, 0], [0.25, 1]].forEach((c) => {
+      expect(parseComplex(formatComplex(c as Complex))).toEqual(c);
+    });
+  });
+
+  it("rejects coefficients that aren't numbers or give the wrong degree", () => {
+    expect(parseCoefficients("1, 0, 0, -1")).toHaveLength(4);
+    expect(parseCoefficients("1, x, -1")).toContain("Coefficient 2");
+    expect(parseCoefficients("0, 1, -1")).toContain("degree 2 to 8");
+    expect(parseCoefficients("1, 0, 0, 0, 0, 0, 0, 0, 0, 1")).toContain("degree 2 to 8");
+  });
+
+  it("only saves between 2 and 8 finite roots", () => {
+    const save = (newtonRoots: unknown) =>
+      validateFractalParams(createParamsDocument({ ...DEFAULT_FRACTAL_PARAMS, newtonRoots } as typeof DEFAULT_FRACTAL_PARAMS));
+    expect(save([[1, 0], [-1, 0]]).ok).toBe(true);
+    expect(save([[1, 0]]).ok).toBe(false);
+    expect(save(Array.from({ length: 9 }, (_, k) => [k, 0])).ok).toBe(false);
+    expect(save([[1, 0], [1]]).ok).toBe(false);
+    expect(save([[1, 0], [Infinity, 0]]).ok).toBe(false);
+  });
+});
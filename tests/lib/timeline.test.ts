@@ -0,0 +1,112 @@
+import Decimal from "decimal.js";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FRACTAL_PARAMS, FractalParams } from "@/types/fractal";
+import {
+  EMPTY_TIMELINE,
+  Timeline,
+  addKeyframe,
+  createKeyframe,
+  getFrameCount,
+  interpolateTimeline,
+  moveKeyframe,
+} from "@/lib/timeline";
+
+const DEEP_X = "-0.743643887037158704752191506114774";
+const DEEP_Y = "0.131825904205311970493132056385139";
+
+const timelineOf = (...keyframes: [number, Partial<FractalParams>][]): Timeline => {
+  return keyframes.reduce(
+    (timeline, [time, params]) => addKeyframe(timeline, createKeyframe({ ...DEFAULT_FRACTAL_PARAMS, ...params }, time)),
+    EMPTY_TIMELINE
+  );
+};
+
+// Where DEEP_X sits on screen, in units of the view's half height
+const screenOffset = (params: FractalParams) => {
+  return new Decimal(DEEP_X).minus(params.centerX).times(params.zoom).toNumber();
+};
+
+describe("timeline", () => {
+  it("returns null without keyframes and holds still outside them", () => {
+    expect(interpolateTimeline(EMPTY_TIMELINE, 1)).toBeNull();
+
+    const timeline = timelineOf([2, { power: 2 }], [4, { power: 4 }]);
+    expect(interpolateTimeline(timeline, 0)?.power).toBe(2);
+    expect(interpolateTimeline(timeline, 10)?.power).toBe(4);
+  });
+
+  it("strips wall-clock auto-animation from keyframes", () => {
+    const keyframe = createKeyframe({ ...DEFAULT_FRACTAL_PARAMS, autoZoom: true, autoRotate: true }, 0);
+    expect(keyframe.params.autoZoom).toBe(false);
+    expect(keyframe.params.autoRotate).toBe(false);
+  });
+
+  it("replaces keyframes at the same time and keeps them sorted", () => {
+    let timeline = timelineOf([5, { power: 3 }], [1, { power: 2 }], [5, { power: 4 }]);
+    expect(timeline.keyframes.map((k) => k.params.power)).toEqual([2, 4]);
+
+    timeline = moveKeyframe(timeline, timeline.keyframes[0].id, 8);
+    expect(timeline.keyframes.map((k) => k.time)).toEqual([5, 8]);
+  });
+
+  it("zooms geometrically", () => {
+    const timeline = timelineOf([0, { zoom: "1" }], [10, { zoom: "1e10" }]);
+    expect(Number(interpolateTimeline(timeline, 5)?.zoom)).toBeCloseTo(1e5, -1);
+  });
+
+  it("eases numbers, rounds integers and steps discrete fields", () => {
+    const timeline = timelineOf(
+      [0, { saturation: 0, maxIterations: 100, colorScheme: "classic" }],
+      [10, { saturation: 1, maxIterations: 200, colorScheme: "fire" }]
+    );
+
+    const early = interpolateTimeline(timeline, 1)!;
+    expect(early.saturation).toBeLessThan(0.1);
+    expect(Number.isInteger(early.maxIterations)).toBe(true);
+    expect(early.colorScheme).toBe("classic");
+    expect(interpolateTimeline(timeline, 5)?.saturation).toBeCloseTo(0.5);
+  });
+
+  it("eases the formula parameters both keyframes share", () => {
+    const timeline = timelineOf(
+      [0, { formulaParams: { k: 0, m: 1 } }],
+      [10, { formulaParams: { k: 2 } }]
+    );
+    expect(interpolateTimeline(timeline, 5)?.formulaParams).toEqual({ k: 1, m: 1 });
+  });
+
+  it("takes the short way around the hue circle", () => {
+    const timeline = timelineOf([0, { hueShift: 0.9 }], [10, { hueShift: 0.1 }]);
+    expect(interpolateTimeline(timeline, 5)?.hueShift).toBeCloseTo(0);
+  });
+
+  it("turns the camera the short way across the yaw wrap", () => {
+    const timeline = timelineOf([0, { cameraYaw: 350 }], [10, { cameraYaw: 10 }]);
+    expect(interpolateTimeline(timeline, 5)?.cameraYaw).toBeCloseTo(0);
+    const across = timelineOf([0, { cameraYaw: 170 }], [10, { cameraYaw: -170 }]);
+    expect(interpolateTimeline(across, 2.5)?.cameraYaw).toBeCloseTo(173.125);
+    expect(interpolateTimeline(across, 7.5)?.cameraYaw).toBeCloseTo(-173.125);
+  });
+
+  it("keeps the zoom target still on screen, in both directions", () => {
+    const deep = { centerX: DEEP_X, centerY: DEEP_Y, zoom: "1e20" };
+    const zoomIn = timelineOf([0, {}], [10, deep]);
+    const zoomOut = timelineOf([0, deep], [10, {}]);
+    const start = screenOffset(DEFAULT_FRACTAL_PARAMS);
+
+    for (const time of [1, 3, 5, 7]) {
+      expect(screenOffset(interpolateTimeline(zoomIn, time)!)).toBeCloseTo(start, 2);
+      expect(screenOffset(interpolateTimeline(zoomOut, 10 - time)!)).toBeCloseTo(start, 2);
+    }
+  });
+
+  it("keeps every digit of deep centers near the deep end", () => {
+    const timeline = timelineOf([0, {}], [10, { centerX: DEEP_X, centerY: DEEP_Y, zoom: "1e30" }]);
+    const view = interpolateTimeline(timeline, 9.99)!;
+    expect(Math.abs(screenOffset(view))).toBeLessThan(0.5);
+  });
+
+  it("counts frames including both ends", () => {
+    expect(getFrameCount({ duration: 10, keyframes: [] }, 60)).toBe(601);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FRACTAL_PARAMS } from "@/types/fractal";
+import {
+  MAX_CAMERA_DISTANCE,
+  MAX_CAMERA_PITCH,
+  MIN_CAMERA_DISTANCE,
+  Vec3,
+  dollyCamera,
+  getCameraBasis,
+  orbitCamera,
+  wrapYaw,
+} from "@/lib/view3d";
+import { selectRenderMode } from "@/lib/precision";
+import { validateFractalParams } from "@/lib/validation";
+import { createParamsDocument } from "@/lib/fractalParams";
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+describe("3D mode camera", () => {
+  it("looks at the origin along an orthonormal basis", () => {
+    const { position, right, up, forward } = getCameraBasis({
+      ...DEFAULT_FRACTAL_PARAMS,
+      cameraYaw: 130,
+      cameraPitch: -35,
+      cameraDistance: 3,
+    });
+    [right, up, forward].forEach((axis) => expect(dot(axis, axis)).toBeCloseTo(1));
+    expect(dot(right, up)).toBeCloseTo(0);
+    expect(dot(right, forward)).toBeCloseTo(0);
+    expect(dot(up, forward)).toBeCloseTo(0);
+    // Upright, and 3 units back along the view direction
+    expect(up[1]).toBeGreaterThan(0);
+    position.forEach((x, i) => expect(x).toBeCloseTo(-3 * forward[i]));
+  });
+
+  it("orbits with drags, keeping yaw within ±180° and short of the poles", () => {
+    const params = { ...DEFAULT_FRACTAL_PARAMS, cameraYaw: 170, cameraPitch: 80 };
+    const orbited = orbitCamera(params, -50, 100);
+    expect(orbited.cameraYaw).toBeCloseTo(-170);
+    expect(orbited.cameraPitch).toBe(MAX_CAMERA_PITCH);
+    expect(wrapYaw(530)).toBe(170);
+    expect(wrapYaw(-190)).toBe(170);
+  });
+
+  it("dollies within the allowed distances", () => {
+    expect(dollyCamera({ ...DEFAULT_FRACTAL_PARAMS, cameraDistance: 2 }, 0.5).cameraDistance).toBe(1);
+    expect(dollyCamera({ ...DEFAULT_FRACTAL_PARAMS, cameraDistance: 0.6 }, 0.5).cameraDistance).toBe(MIN_CAMERA_DISTANCE);
+    expect(dollyCamera({ ...DEFAULT_FRACTAL_PARAMS, cameraDistance: 19 }, 2).cameraDistance).toBe(MAX_CAMERA_DISTANCE);
+  });
+
+  it("raymarches in 3D mode, whatever the zoom", () => {
+    expect(selectRenderMode({ ...DEFAULT_FRACTAL_PARAMS, view3d: true, zoom: "1e20" })).toBe("raymarch");
+    expect(selectRenderMode(DEFAULT_FRACTAL_PARAMS)).toBe("standard");
+  });
+
+  it("only saves known shapes and cameras in range", () => {
+    const save = (params: Partial<typeof DEFAULT_FRACTAL_PARAMS>) =>
+      validateFractalParams(createParamsDocument({ ...DEFAULT_FRACTAL_PARAMS, view3d: true, ...params })).ok;
+    expect(save({ shape3d: "quaternionJulia", juliaJ: 0.2, juliaK: -0.1 })).toBe(true);
+    expect(save({ shape3d: "torus" as "mandelbulb" })).toBe(false);
+    expect(save({ cameraPitch: 95 })).toBe(false);
+    expect(save({ cameraDistance: 0.1 })).toBe(false);
+  });
+});
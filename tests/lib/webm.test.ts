@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createWebmWriter } from "@/lib/webm";
+
+interface Element {
+  id: number;
+  size: number | null;
+  data: Uint8Array;
+}
+
+// Read one EBML variable-length integer, keeping or stripping the marker bit
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean) => {
+  const length = Math.clz32(bytes[offset]) - 23;
+  let value = keepMarker ? bytes[offset] : bytes[offset] & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    allOnes &&= bytes[offset + i] === 0xff;
+  }
+  return { value, length, allOnes };
+};
+
+// Top-level elements of `bytes`; an unknown-size element runs to the end
+const readElements = (bytes: Uint8Array): Element[] => {
+  const elements: Element[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true);
+    const size = readVint(bytes, offset + id.length, false);
+    const start = offset + id.length + size.length;
+    const end = size.allOnes ? bytes.length : start + size.value;
+    elements.push({ id: id.value, size: size.allOnes ? null : size.value, data: bytes.subarray(start, end) });
+    offset = end;
+  }
+  return elements;
+};
+
+describe("WebM writer", () => {
+  it("writes a header, an open segment and one cluster per key frame", async () => {
+    const parts: Uint8Array[] = [];
+    const writer = await createWebmWriter(
+      { write: async (bytes) => void parts.push(bytes) },
+      { width: 64, height: 48, codec: "V_VP9", frameRate: 30, duration: 0.1 }
+    );
+    await writer.addFrame(new Uint8Array([1, 2, 3]), 0, true);
+    await writer.addFrame(new Uint8Array([4]), 33333, false);
+    await writer.addFrame(new Uint8Array([5, 6]), 66667, true);
+    await writer.close();
+
+    const [header, segment] = readElements(Buffer.concat(parts));
+    expect(header.id).toBe(0x1a45dfa3);
+    expect(Buffer.from(header.data).includes("webm")).toBe(true);
+    expect(segment.id).toBe(0x18538067);
+    expect(segment.size).toBeNull();
+
+    const children = readElements(segment.data);
+    expect(children.map((child) => child.id)).toEqual([0x1549a966, 0x1654ae6b, 0x1f43b675, 0x1f43b675]);
+
+    // Second cluster: timestamp 67 ms, then a key frame block at offset 0
+    const [timestamp, block] = readElements(children[3].data);
+    expect(timestamp.data[0]).toBe(67);
+    expect(Array.from(block.data)).toEqual([0x81, 0, 0, 0x80, 5, 6]);
+  });
+});
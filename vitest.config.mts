@@ -0,0 +1,18 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+import packageJson from "./package.json";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    testTimeout: 30000,
+    // As next.config sets it for the app
+    env: { NEXT_PUBLIC_APP_VERSION: packageJson.version },
+  },
+});